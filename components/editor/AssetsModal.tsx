@@ -1,8 +1,10 @@
 
 import React, { useState, useCallback, useRef } from 'react';
-import { XMarkIcon, UploadIcon, ImageIcon, FileIcon, VideoIcon, AudioIcon, CubeIcon, ChevronLeftIcon, PlusIcon } from '../icons/Icons';
+import { XMarkIcon, UploadIcon, ImageIcon, FileIcon, VideoIcon, AudioIcon, CubeIcon, ChevronLeftIcon, PlusIcon, Sparkles, TextIcon } from '../icons/Icons';
 import { Asset } from '../../types';
 import { fileToBase64 } from '../../utils/storage';
+import { getEnvironmentFormat } from '../../utils/environmentUtils';
+import { getFontFormat } from '../../utils/textUtils';
 
 // Placeholders
 const PLACEHOLDER_MIND = "data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCAxMDAgMTAwIiBmaWxsPSJub25lIiBzdHJva2U9ImN1cnJlbnRDb2xvciI+PHJlY3QgeD0iMjAiIHk9IjIwIiB3aWR0aD0iNjAiIGhlaWdodD0iNjAiIHJ4PSI1IiBmaWxsPSIjZjBmZGY0IiBzdHJva2U9IiMxNmEzNGEiIHN0cm9rZS13aWR0aD0iMiIvPjxwYXRoIGQ9Ik0zNSA1MGwxMCAxMCAyMC0yMCIgc3Ryb2tlPSIjMTZhMzRhIiBzdHJva2Utd2lkdGg9IjUiIHN0cm9rZS1saW5lY2FwPSJyb3VuZCIgc3Ryb2tlLWxpbmVqb2luPSJyb3VuZCIvPjx0ZXh0IHg9IjUwIiB5PSI5MCIgdGV4dC1hbmNob3I9Im1pZGRsZSIgZm9udC1zaXplPSIxMiIgZmlsbD0iIzE2YTM0YSI+TUlORDwvdGV4dD48L3N2Zz4=";
@@ -16,7 +18,7 @@ interface AssetsModalProps {
   onAddAsset: (asset: Asset) => void;
 }
 
-type ViewMode = 'library' | 'upload-image' | 'upload-video' | 'upload-model' | 'upload-audio';
+type ViewMode = 'library' | 'upload-image' | 'upload-video' | 'upload-model' | 'upload-audio' | 'upload-environment' | 'upload-font';
 
 const getUniqueName = (baseName: string, existingNames: string[]): string => {
   if (!existingNames.includes(baseName)) return baseName;
@@ -105,6 +107,8 @@ const UploadFileView = ({ onBack, onAdd, assets, type, title, icon, accept }: {
     const inputRef = useRef<HTMLInputElement>(null);
 
     const handleFileChange = (file: File) => {
+        if (type === 'environment' && !getEnvironmentFormat(file.name)) { alert("Environment maps must be .hdr or .exr files."); return; }
+        if (type === 'font' && !getFontFormat(file.name)) { alert("Fonts must be .ttf, .otf or .woff files."); return; }
         setSelectedFile(file);
         if (!name) setName(file.name.replace(/\.[^/.]+$/, ""));
         if (type === 'image' || type === 'video') {
@@ -123,7 +127,9 @@ const UploadFileView = ({ onBack, onAdd, assets, type, title, icon, accept }: {
                 name: assetName,
                 type,
                 url,
-                thumbnail: type === 'image' ? url : undefined
+                thumbnail: type === 'image' ? url : undefined,
+                // Data URLs don't tell the loader which format the map is in
+                metadata: type === 'environment' ? { format: getEnvironmentFormat(selectedFile.name) } : undefined
             });
             if (previewUrl) URL.revokeObjectURL(previewUrl);
             onBack();
@@ -172,16 +178,20 @@ export const AssetsModal: React.FC<AssetsModalProps> = ({ isOpen, onClose, onAdd
               const url = await fileToBase64(file);
               let type: Asset['type'] = 'image';
               let thumbnail: string | undefined = url;
+              const environmentFormat = getEnvironmentFormat(file.name);
               if (file.type.startsWith('image/')) type = 'image';
               else if (file.type.startsWith('video/')) { type = 'video'; thumbnail = undefined; }
               else if (file.type.startsWith('audio/')) { type = 'audio'; thumbnail = undefined; }
               else if (file.name.endsWith('.glb') || file.name.endsWith('.gltf')) { type = 'model'; thumbnail = undefined; }
               else if (file.name.endsWith('.js')) { type = 'script'; thumbnail = PLACEHOLDER_SCRIPT; }
               else if (file.name.endsWith('.mind')) { type = 'mind'; thumbnail = PLACEHOLDER_MIND; }
+              else if (environmentFormat) { type = 'environment'; thumbnail = undefined; }
+              else if (getFontFormat(file.name)) { type = 'font'; thumbnail = undefined; }
               else continue;
               const name = getUniqueName(file.name, existingNames);
               existingNames.push(name);
-              onAddAsset({ id: `asset_${Date.now()}_${i}`, name, type, url, thumbnail });
+              const metadata = environmentFormat ? { format: environmentFormat } : undefined;
+              onAddAsset({ id: `asset_${Date.now()}_${i}`, name, type, url, thumbnail, metadata });
           } catch (err) { console.error(err); }
       }
       e.target.value = '';
@@ -219,6 +229,12 @@ export const AssetsModal: React.FC<AssetsModalProps> = ({ isOpen, onClose, onAdd
                     <button onClick={() => setView('upload-audio')} className="flex items-center gap-2 px-4 py-2 bg-pink-50 text-pink-700 rounded-md hover:bg-pink-100 border border-pink-200 transition-colors font-medium text-sm whitespace-nowrap">
                         <AudioIcon className="w-4 h-4" /> New Audio
                     </button>
+                    <button onClick={() => setView('upload-environment')} className="flex items-center gap-2 px-4 py-2 bg-yellow-50 text-yellow-700 rounded-md hover:bg-yellow-100 border border-yellow-200 transition-colors font-medium text-sm whitespace-nowrap">
+                        <Sparkles className="w-4 h-4" /> New Environment
+                    </button>
+                    <button onClick={() => setView('upload-font')} className="flex items-center gap-2 px-4 py-2 bg-teal-50 text-teal-700 rounded-md hover:bg-teal-100 border border-teal-200 transition-colors font-medium text-sm whitespace-nowrap">
+                        <TextIcon className="w-4 h-4" /> New Font
+                    </button>
                     <button onClick={() => genericInputRef.current?.click()} className="flex items-center gap-2 px-4 py-2 bg-gray-50 text-gray-700 rounded-md hover:bg-gray-100 border border-gray-200 transition-colors font-medium text-sm whitespace-nowrap ml-auto">
                         <UploadIcon className="w-4 h-4" /> Batch Upload
                     </button>
@@ -238,9 +254,11 @@ export const AssetsModal: React.FC<AssetsModalProps> = ({ isOpen, onClose, onAdd
                                 {asset.type === 'video' && <div className="w-full h-full flex items-center justify-center bg-purple-50"><VideoIcon className="w-10 h-10 text-purple-300" /></div>}
                                 {asset.type === 'audio' && <div className="w-full h-full flex items-center justify-center bg-pink-50"><AudioIcon className="w-10 h-10 text-pink-300" /></div>}
                                 {asset.type === 'model' && <div className="w-full h-full flex items-center justify-center bg-orange-50"><CubeIcon className="w-10 h-10 text-orange-300" /></div>}
+                                {asset.type === 'environment' && <div className="w-full h-full flex items-center justify-center bg-yellow-50"><Sparkles className="w-10 h-10 text-yellow-300" /></div>}
+                                {asset.type === 'font' && <div className="w-full h-full flex items-center justify-center bg-teal-50"><TextIcon className="w-10 h-10 text-teal-300" /></div>}
                                 {asset.type === 'script' && <img src={asset.thumbnail || PLACEHOLDER_SCRIPT} className="w-12 h-12 object-contain opacity-80" />}
                                 {(asset.type === 'image' || asset.type === 'mind') && <img src={asset.thumbnail || asset.url || PLACEHOLDER_MIND} alt={asset.name} className="w-full h-full object-contain" />}
-                                <div className={`absolute top-1 right-1 text-white text-[8px] px-1.5 py-0.5 rounded shadow-sm font-bold uppercase ${asset.type === 'mind' ? 'bg-green-500' : asset.type === 'video' ? 'bg-purple-500' : asset.type === 'model' ? 'bg-orange-500' : asset.type === 'audio' ? 'bg-pink-500' : asset.type === 'image' ? 'bg-blue-400' : 'bg-gray-500'}`}>
+                                <div className={`absolute top-1 right-1 text-white text-[8px] px-1.5 py-0.5 rounded shadow-sm font-bold uppercase ${asset.type === 'mind' ? 'bg-green-500' : asset.type === 'video' ? 'bg-purple-500' : asset.type === 'model' ? 'bg-orange-500' : asset.type === 'audio' ? 'bg-pink-500' : asset.type === 'image' ? 'bg-blue-400' : asset.type === 'environment' ? 'bg-yellow-500' : asset.type === 'font' ? 'bg-teal-500' : 'bg-gray-500'}`}>
                                     {asset.type === 'video' ? 'Clip' : asset.type}
                                 </div>
                             </div>
@@ -261,6 +279,8 @@ export const AssetsModal: React.FC<AssetsModalProps> = ({ isOpen, onClose, onAdd
                 {view === 'upload-video' && <UploadFileView onBack={() => setView('library')} onAdd={onAddAsset} assets={assets} type="video" title="Upload Video Clip" icon={<VideoIcon className="w-8 h-8 mx-auto" />} accept="video/*" />}
                 {view === 'upload-model' && <UploadFileView onBack={() => setView('library')} onAdd={onAddAsset} assets={assets} type="model" title="Upload 3D Model" icon={<CubeIcon className="w-8 h-8 mx-auto" />} accept=".glb,.gltf" />}
                 {view === 'upload-audio' && <UploadFileView onBack={() => setView('library')} onAdd={onAddAsset} assets={assets} type="audio" title="Upload Audio" icon={<AudioIcon className="w-8 h-8 mx-auto" />} accept="audio/*" />}
+                {view === 'upload-environment' && <UploadFileView onBack={() => setView('library')} onAdd={onAddAsset} assets={assets} type="environment" title="Upload Environment Map" icon={<Sparkles className="w-8 h-8 mx-auto" />} accept=".hdr,.exr" />}
+                {view === 'upload-font' && <UploadFileView onBack={() => setView('library')} onAdd={onAddAsset} assets={assets} type="font" title="Upload Font" icon={<TextIcon className="w-8 h-8 mx-auto" />} accept=".ttf,.otf,.woff" />}
             </div>
         )}
       </div>
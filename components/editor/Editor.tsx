@@ -1,12 +1,14 @@
 
 "use client";
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Project, Target, Content, Asset, ContentType, SceneSettings } from '../../types';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { Project, Target, Content, Asset, ContentType, SceneSettings, ScriptLanguage } from '../../types';
 import Header, { SaveStatus } from './Header';
 import LeftPanel from './LeftPanel';
 import ScenePanel from './ScenePanel';
 import RightPanel from './RightPanel';
+import TimelinePanel from './TimelinePanel';
+import ScriptConsolePanel from './ScriptConsolePanel';
 import AssetsModal from './AssetsModal';
 import PreviewModal from './PreviewModal';
 import PublishModal from './PublishModal';
@@ -21,6 +23,14 @@ import { useDebounce } from '../../hooks/useDebounce';
 import { equal } from '@wry/equality';
 import { getProjectBySlug, checkCloudConnection, ConnectionStatus, subscribeToConnectionStatus, getPendingSavesCount } from '../../src/services/projectService';
 import { ensureDefaultTracker } from '../../src/services/templateService';
+import { DEFAULT_EMBED_SANDBOX, DEFAULT_EMBED_ALLOW, DEFAULT_EMBED_WIDTH, DEFAULT_EMBED_HEIGHT } from '../../utils/embedUtils';
+import { AnimationPreview } from '../../utils/animationUtils';
+import { TimelinePlayback, hasTimelineTracks, keyContentChanges, removeContentTracks } from '../../utils/timelineUtils';
+import { ScriptError, ScriptDebugInfo, EMPTY_SCRIPT_DEBUG_INFO } from './ScriptEngine';
+import { createScriptStorage } from '../../utils/scriptRuntime';
+import { DEFAULT_SCENE_SETTINGS } from '../../utils/lightingUtils';
+import { DEFAULT_OCCLUDER_SHAPE } from '../../utils/occluderUtils';
+import { DEFAULT_SHAPE_KIND, DEFAULT_SHAPE_MATERIAL, SHAPE_MATERIAL_NAME } from '../../utils/shapeUtils';
 
 interface EditorProps {
   project: Project;
@@ -75,13 +85,15 @@ const Editor: React.FC<EditorProps> = ({
   const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
   const [isResizingLeft, setIsResizingLeft] = useState(false);
   const [isResizingRight, setIsResizingRight] = useState(false);
-  const [sceneSettings, setSceneSettings] = useState<SceneSettings>({
-      ambientLightIntensity: 0.8,
-      directionalLightIntensity: 1.5,
-      directionalLightPosition: [10, 10, 5],
-      showGrid: true,
-      showAxes: true
-  });
+  const [animationPreview, setAnimationPreview] = useState<AnimationPreview | null>(null);
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  // Playhead shown in the scene. Null while the timeline panel is closed, so content shows its own transform
+  const [timelinePlayback, setTimelinePlayback] = useState<TimelinePlayback | null>(null);
+  // Last error of the script preview, marked in the script editor until the script changes
+  const [scriptError, setScriptError] = useState<ScriptError | null>(null);
+  const [scriptDebugInfo, setScriptDebugInfo] = useState<ScriptDebugInfo>(EMPTY_SCRIPT_DEBUG_INFO);
+  const [isScriptConsoleOpen, setIsScriptConsoleOpen] = useState(false);
+  const [scriptStorageValues, setScriptStorageValues] = useState<Record<string, unknown>>({});
 
   const [toast, setToast] = useState<{ message: string; type: ToastType; isVisible: boolean }>({
     message: '',
@@ -106,8 +118,33 @@ const Editor: React.FC<EditorProps> = ({
   // However, for simplicity let's assume we sync occasionally or on save.
 
   const selectedTarget = project.targets.find(t => t.id === selectedTargetId);
+  const sceneSettings = project.sceneSettings ?? DEFAULT_SCENE_SETTINGS;
   const selectedContent = selectedTarget?.contents.find(c => c.id === selectedContentId);
 
+  useEffect(() => {
+      setScriptError(null);
+  }, [selectedTargetId, selectedTarget?.script, project.script]);
+
+  useEffect(() => {
+      setScriptDebugInfo(EMPTY_SCRIPT_DEBUG_INFO);
+  }, [selectedTargetId]);
+
+  // The preview keeps its own script storage, apart from what visitors of the published experience store
+  const scriptStorage = useMemo(() => createScriptStorage(`preview/${project.id}`, setScriptStorageValues), [project.id]);
+
+  useEffect(() => {
+      setScriptStorageValues(scriptStorage.getAll());
+  }, [scriptStorage]);
+
+  const handleScriptError = useCallback((error: ScriptError | null) => {
+      if (error) setScriptError(error);
+  }, []);
+
+  // Each target's timeline starts at the beginning
+  useEffect(() => {
+      setTimelinePlayback(isTimelineOpen ? { time: 0, playing: false, startedAt: 0 } : null);
+  }, [isTimelineOpen, selectedTargetId]);
+
   // Detect changes for Auto-Save status
   useEffect(() => {
       if (!equal(project, lastSavedProject.current)) {
@@ -261,6 +298,27 @@ const Editor: React.FC<EditorProps> = ({
           // Placeholder or open file dialog?
           // For now, let's just create it and let user set properties in RightPanel
           newContent.imageUrl = ""; // Empty initially
+      } else if (type === ContentType.EMBED) {
+          newContent.embedUrl = "";
+          newContent.embedSandbox = [...DEFAULT_EMBED_SANDBOX];
+          newContent.embedAllow = DEFAULT_EMBED_ALLOW;
+          newContent.embedWidth = DEFAULT_EMBED_WIDTH;
+          newContent.embedHeight = DEFAULT_EMBED_HEIGHT;
+          newContent.embedClickThrough = false;
+      } else if (type === ContentType.YOUTUBE || type === ContentType.VIMEO) {
+          newContent.videoUrl = "";
+          newContent.autoplay = false;
+          newContent.loop = false;
+          newContent.muted = false;
+          newContent.videoControls = true;
+          newContent.videoClickToggle = true;
+          newContent.videoPlaybackRate = 1;
+      } else if (type === ContentType.OCCLUDER) {
+          newContent.occluderShape = DEFAULT_OCCLUDER_SHAPE;
+          newContent.transform.scale = [0.5, 0.5, 0.5];
+      } else if (type === ContentType.SHAPE) {
+          newContent.shapeKind = DEFAULT_SHAPE_KIND;
+          newContent.materialOverrides = { [SHAPE_MATERIAL_NAME]: { ...DEFAULT_SHAPE_MATERIAL } };
       }
 
       setProject(prev => ({
@@ -277,19 +335,24 @@ const Editor: React.FC<EditorProps> = ({
 
   const handleContentUpdate = useCallback((updatedContent: Content) => {
       if (!selectedTargetId) return;
+      // While the timeline is paused on a frame, edits to keyframed properties are recorded as keyframes
+      const keyTime = timelinePlayback && !timelinePlayback.playing ? timelinePlayback.time : null;
       setProject(prev => ({
           ...prev,
           targets: prev.targets.map(t => {
               if (t.id === selectedTargetId) {
                   return {
                       ...t,
-                      contents: t.contents.map(c => c.id === updatedContent.id ? updatedContent : c)
+                      contents: t.contents.map(c => c.id === updatedContent.id ? updatedContent : c),
+                      ...(keyTime !== null && hasTimelineTracks(t.timeline, updatedContent.id)
+                          ? { timeline: keyContentChanges(t.timeline, updatedContent, keyTime) }
+                          : {})
                   };
               }
               return t;
           })
       }));
-  }, [selectedTargetId, setProject]);
+  }, [selectedTargetId, setProject, timelinePlayback]);
 
   const handleTargetUpdate = useCallback((updatedTarget: Target) => {
       setProject(prev => ({
@@ -298,6 +361,14 @@ const Editor: React.FC<EditorProps> = ({
       }));
   }, [setProject]);
 
+  const handleSceneSettingsChange = useCallback((settings: SceneSettings) => {
+      setProject(prev => ({ ...prev, sceneSettings: settings }));
+  }, [setProject]);
+
+  const handleProjectScriptChange = useCallback((script: string, scriptLanguage: ScriptLanguage) => {
+      setProject(prev => ({ ...prev, script, scriptLanguage }));
+  }, [setProject]);
+
   const handleDeleteTarget = useCallback((targetId: string) => {
       setProject(prev => ({
           ...prev,
@@ -314,7 +385,11 @@ const Editor: React.FC<EditorProps> = ({
           ...prev,
           targets: prev.targets.map(t => {
               if (t.id === targetId) {
-                  return { ...t, contents: t.contents.filter(c => c.id !== contentId) };
+                  return {
+                      ...t,
+                      contents: t.contents.filter(c => c.id !== contentId),
+                      ...(t.timeline ? { timeline: removeContentTracks(t.timeline, contentId) } : {})
+                  };
               }
               return t;
           })
@@ -327,14 +402,24 @@ const Editor: React.FC<EditorProps> = ({
   const handleDuplicateTarget = useCallback((targetId: string) => {
       const target = project.targets.find(t => t.id === targetId);
       if (target) {
+          const contentIds = new Map(target.contents.map(c => [c.id, `content_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`]));
           const newTarget = {
               ...target,
               id: `target_${Date.now()}`,
               name: `${target.name} (Copy)`,
               contents: target.contents.map(c => ({
                   ...c,
-                  id: `content_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-              }))
+                  id: contentIds.get(c.id)!
+              })),
+              // Keep the copied timeline pointing at the copied contents
+              ...(target.timeline ? {
+                  timeline: {
+                      ...target.timeline,
+                      tracks: target.timeline.tracks
+                          .filter(track => contentIds.has(track.contentId))
+                          .map(track => ({ ...track, contentId: contentIds.get(track.contentId)! }))
+                  }
+              } : {})
           };
           setProject(prev => ({
               ...prev,
@@ -482,8 +567,11 @@ const Editor: React.FC<EditorProps> = ({
             onContentUpdate={handleContentUpdate}
         />
         
+        <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
         <ScenePanel
             target={selectedTarget}
+            project={project}
+            scriptStorage={scriptStorage}
             selectedContent={selectedContent}
             onContentUpdate={handleContentUpdate}
             onContentAdd={(content) => {
@@ -507,7 +595,32 @@ const Editor: React.FC<EditorProps> = ({
             assets={project.assets}
             onAddAsset={handleAddAsset}
             sceneSettings={sceneSettings}
+            animationPreview={animationPreview}
+            timelinePlayback={timelinePlayback}
+            onScriptError={handleScriptError}
+            onScriptDebugInfo={setScriptDebugInfo}
+        />
+
+        <TimelinePanel
+            target={selectedTarget}
+            selectedContentId={selectedContentId}
+            onSelectContent={(cId) => selectedTargetId && setSelectedContentId(cId)}
+            onTargetUpdate={handleTargetUpdate}
+            isOpen={isTimelineOpen}
+            onToggle={() => setIsTimelineOpen(!isTimelineOpen)}
+            playback={timelinePlayback}
+            onPlaybackChange={setTimelinePlayback}
+        />
+
+        <ScriptConsolePanel
+            debugInfo={scriptDebugInfo}
+            storage={scriptStorageValues}
+            onStorageRemove={(key) => scriptStorage.set(key, undefined)}
+            onStorageClear={() => scriptStorage.clear()}
+            isOpen={isScriptConsoleOpen}
+            onToggle={() => setIsScriptConsoleOpen(!isScriptConsoleOpen)}
         />
+        </div>
         
         <RightPanel
             width={rightPanelWidth}
@@ -521,7 +634,11 @@ const Editor: React.FC<EditorProps> = ({
             assets={project.assets}
             onAddAsset={handleAddAsset}
             sceneSettings={sceneSettings}
-            onSceneSettingsChange={setSceneSettings}
+            onSceneSettingsChange={handleSceneSettingsChange}
+            onPreviewAnimation={setAnimationPreview}
+            scriptError={scriptError}
+            project={project}
+            onProjectScriptChange={handleProjectScriptChange}
         />
       </div>
 
@@ -537,6 +654,8 @@ const Editor: React.FC<EditorProps> = ({
         isOpen={isPreviewModalOpen}
         onClose={() => setIsPreviewModalOpen(false)}
         target={selectedTarget}
+        sceneSettings={sceneSettings}
+        assets={project.assets}
       />
       
       <PublishModal
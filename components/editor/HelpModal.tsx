@@ -30,6 +30,20 @@ const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                     <li><code>function onClick({'{ target, data, object }'})</code>: Called when an object is clicked.</li>
                     <li><code>function onActivate({'{ target, data }'})</code>: Called when tracking is found/started.</li>
                     <li><code>function onDeactivate({'{ target, data }'})</code>: Called when tracking is lost/stopped.</li>
+                    <li><code>function onTargetFound({'{ target, data, targetName }'})</code>, <code>function onTargetLost({'{ target, data, targetName }'})</code>: Called in every script when any target of the project is found or lost.</li>
+                    <li><code>function onMessage({'{ target, data, message, payload, from }'})</code>: Called when another script sends a message with <code>target.emit()</code>.</li>
+                    <li><code>function onAnimationFinished({'{ target, data, object, clip }'})</code>: Called when a model clip that does not repeat forever ends.</li>
+                    <li><code>function onEnded({'{ target, data, object, track }'})</code>: Called when a clip of an audio playlist ends. A single clip that loops never ends.</li>
+                    <li><code>function onCueEnter({'{ target, data, object, track, cue }'})</code>, <code>function onCueExit({'{ target, data, object, track, cue }'})</code>: Called when a subtitle cue of an audio clip starts or ends. <code>cue</code> has <code>id</code>, <code>text</code>, <code>start</code> and <code>end</code> (seconds).</li>
+                </ul>
+
+                <h4 className="font-bold mt-4 mb-2">Pointer Events</h4>
+                <p className="text-gray-600 mb-2">Each receives <code>object</code>, <code>point</code> (where the pointer is on it, in target space) and <code>screen</code> (from 0 to 1 across the view, from the top left).</p>
+                <ul className="list-disc pl-5 space-y-1 text-gray-700">
+                    <li><code>onPointerDown</code>, <code>onPointerUp</code>: An object is pressed and released.</li>
+                    <li><code>onHoverEnter</code>, <code>onHoverLeave</code>: The mouse moves onto and off an object. Touches do not hover.</li>
+                    <li><code>onLongPress</code>: An object is held still for half a second. No <code>onClick</code> follows.</li>
+                    <li><code>onDragStart</code>, <code>onDrag</code>, <code>onDragEnd</code>: A pressed object is dragged. <code>point</code> follows the pointer on the plane of the target, at the depth the object was grabbed, e.g. <code>object.setPosition(point.x, point.y, point.z)</code>. No <code>onClick</code> follows.</li>
                 </ul>
 
                 <h4 className="font-bold mt-4 mb-2">Target API</h4>
@@ -38,32 +52,83 @@ const HelpModal: React.FC<HelpModalProps> = ({ isOpen, onClose }) => {
                     <li><code>target.getObject(name)</code>: Returns a content object by name.</li>
                     <li><code>target.captureScreen()</code>: Takes a screenshot and downloads it.</li>
                     <li><code>target.openUrl(url)</code>: Opens a URL in a new tab.</li>
+                    <li><code>target.tween(obj, {'{ position, rotation, scale }'}, seconds, easing)</code>: Animates an object or object name. Easing is <code>linear</code>, <code>easeIn</code>, <code>easeOut</code>, <code>easeInOut</code> (default) or <code>step</code>. Returns a promise of whether it finished, with <code>cancel()</code>.</li>
+                    <li><code>target.setTimeout(fn, ms)</code>, <code>target.setInterval(fn, ms)</code>, <code>target.clearTimeout(id)</code>, <code>target.clearInterval(id)</code>: Timers on the target's clock.</li>
+                    <li><code>target.raycast(screenX, screenY)</code>: Finds this target's object under a point of the view (0 to 1 from the top left). Returns a promise of <code>{'{ object, point, distance }'}</code>, or <code>null</code>, on the next frame.</li>
+                </ul>
+                <p className="text-gray-600 mt-2">Tweens and timers pause while the target is not tracked and are cancelled when <code>onDeactivate</code> runs.</p>
+
+                <h4 className="font-bold mt-4 mb-2">Project Script and Shared State</h4>
+                <p className="text-gray-600 mb-2">The project script is edited in the right panel when no target is selected. It runs for the whole experience, has no objects of its own and receives <code>onInit</code>, <code>onUpdate</code>, <code>onTargetFound</code>, <code>onTargetLost</code> and <code>onMessage</code>.</p>
+                <ul className="list-disc pl-5 space-y-1 text-gray-700">
+                    <li><code>target.emit(message, payload)</code>: Sends a message to every other script.</li>
+                    <li><code>target.on(message, (payload, from) =&gt; ...)</code>: Listens for a message. <code>from</code> is the sending target's name, empty for the project script. Returns a function that stops listening.</li>
+                    <li><code>target.getState(key)</code>, <code>target.setState(key, value)</code>: State shared by all scripts, e.g. a score or the steps of a hunt. Other scripts see a change from their next event.</li>
+                    <li><code>target.getTargets()</code>: The <code>name</code> of every target, whether it is <code>tracked</code> now and whether it was ever <code>found</code>.</li>
+                </ul>
+
+                <h4 className="font-bold mt-4 mb-2">Storage</h4>
+                <p className="text-gray-600 mb-2">Every handler also receives <code>storage</code>, which keeps values between visits of the published experience, e.g. progress, unlocked content or quiz answers. It is saved in the visitor's browser for this project and shared by all its scripts.</p>
+                <ul className="list-disc pl-5 space-y-1 text-gray-700">
+                    <li><code>storage.get(key)</code>, <code>storage.set(key, value)</code>: Read and save a value. Values are saved as JSON; <code>get()</code> returns a copy, so <code>set()</code> an object again after changing it.</li>
+                    <li><code>storage.remove(key)</code>, <code>storage.keys()</code>, <code>storage.clear()</code>: Manage the saved values.</li>
+                    <li>The editor preview keeps its own storage between runs. The Storage tab of the Script Console lists it and can remove values.</li>
                 </ul>
 
                 <h4 className="font-bold mt-4 mb-2">Content Object API</h4>
                 <p className="text-gray-600 mb-2">Returned by <code>target.getObject()</code>.</p>
                 <ul className="list-disc pl-5 space-y-1 text-gray-700">
-                    <li><code>obj.visible</code>: Get/Set visibility (boolean).</li>
-                    <li><code>obj.position</code>: Get/Set position <code>{'{x, y, z}'}</code>.</li>
-                    <li><code>obj.rotation</code>: Get/Set rotation in degrees <code>{'{x, y, z}'}</code>.</li>
-                    <li><code>obj.scale</code>: Get/Set scale <code>{'{x, y, z}'}</code>.</li>
-                    <li><code>obj.loop</code>: Get/Set video loop status (boolean).</li>
+                    <li><code>obj.visible</code>: Get visibility (boolean).</li>
+                    <li><code>obj.position</code>: Get position <code>{'{x, y, z}'}</code>.</li>
+                    <li><code>obj.rotation</code>: Get rotation in degrees <code>{'{x, y, z}'}</code>.</li>
+                    <li><code>obj.scale</code>: Get scale <code>{'{x, y, z}'}</code>.</li>
+                    <li><code>obj.setVisible(boolean)</code>: Show/hide the object.</li>
                     <li><code>obj.setPosition(x, y, z)</code>: Update position.</li>
                     <li><code>obj.setRotation(x, y, z)</code>: Update rotation (degrees).</li>
                     <li><code>obj.setScale(x, y, z)</code>: Update scale.</li>
-                    <li><code>obj.playVideo()</code>: Play video/embed.</li>
+                    <li><code>obj.playVideo()</code>: Play video, audio or streaming video.</li>
                     <li><code>obj.pauseVideo()</code>: Pause video/embed.</li>
                     <li><code>obj.stopVideo()</code>: Stop and reset video.</li>
                     <li><code>obj.seekTo(seconds)</code>: Jump to a specific time.</li>
                     <li><code>obj.setVolume(0 to 1)</code>: Set video volume level.</li>
                     <li><code>obj.setMuted(boolean)</code>: Mute/unmute video.</li>
                     <li><code>obj.setLoop(boolean)</code>: Set video loop status.</li>
-                    <li><code>obj.setFullscreen(boolean)</code>: Toggle video fullscreen.</li>
                     <li><code>obj.isPlayingVideo()</code>: Check if video is currently playing.</li>
+                    <li><code>obj.setPlaybackRate(rate)</code>, <code>obj.setCaptions(enabled, lang)</code>, <code>obj.getVideoId()</code>, <code>obj.getService()</code>: YouTube/Vimeo only.</li>
+                    <li><code>obj.next()</code>, <code>obj.previous()</code>, <code>obj.playTrack(index)</code>, <code>obj.seek(seconds)</code>, <code>obj.getTrack()</code>, <code>obj.getTrackCount()</code>: Audio playlists only. Clips are numbered from 0.</li>
+                    <li><code>obj.getClips()</code>: Names of the model's animation clips, in order.</li>
+                    <li><code>obj.play(index | name, {'{ fade, loop, timeScale }'})</code>: Play a clip from the start and stop the others, or fade them out over <code>fade</code> seconds. <code>loop</code> is <code>once</code>, <code>repeat</code> (default) or <code>pingpong</code>.</li>
+                    <li><code>obj.crossFadeTo(index | name, seconds, {'{ loop, timeScale, warp }'})</code>: Blend from the clip played last to another one.</li>
+                    <li><code>obj.stopAll(fadeSeconds)</code>: Stop every clip.</li>
                     <li><code>obj.getAction(index | name)</code>: Get animation action to play().</li>
+                    <li><code>obj.setMorph(name, 0 to 1)</code>: Set a blendshape of the model, e.g. a facial expression. The right panel lists them.</li>
                     <li><code>obj.updateTexture(materialName, imageUrl)</code>: Change model texture dynamically.</li>
                 </ul>
 
+                <h4 className="font-bold mt-4 mb-2">Isolation</h4>
+                <p className="text-gray-600 mb-2">Scripts run in an isolated worker, separate from the viewer page.</p>
+                <ul className="list-disc pl-5 space-y-1 text-gray-700">
+                    <li>There is no access to the page, cookies, storage or the network (<code>document</code>, <code>window</code>, <code>fetch</code>).</li>
+                    <li>Changes made by a handler are applied to the scene once it returns.</li>
+                    <li>Objects expose only the methods above, the same in the editor preview, the player and exported apps.</li>
+                    <li>A handler that runs too long stops the script (200 ms for <code>onUpdate</code>, 1 s for other events).</li>
+                </ul>
+
+                <h4 className="font-bold mt-4 mb-2">Script Editor</h4>
+                <ul className="list-disc pl-5 space-y-1 text-gray-700">
+                    <li>Completions list the API and this target's object names; they open while typing or with <code>Ctrl+Space</code>.</li>
+                    <li>Problems are underlined and listed below the editor. Errors thrown while the preview runs are marked on their line.</li>
+                    <li>Press <code>Shift+Alt+F</code> or click Format to re-indent the script.</li>
+                    <li>The Script Console below the scene shows <code>console.log()</code> output and errors with their stack while the script runs. Its Inspector tab shows the <code>data</code> object and how long each handler takes.</li>
+                </ul>
+
+                <h4 className="font-bold mt-4 mb-2">TypeScript</h4>
+                <ul className="list-disc pl-5 space-y-1 text-gray-700">
+                    <li>Set the script language to TypeScript to annotate handlers, e.g. <code>function onUpdate({'{ target, deltaTime }'}: ScriptEventParams)</code>.</li>
+                    <li>The script is transpiled before it runs; type errors are reported in the editor, syntax errors also stop the script from starting.</li>
+                    <li>Download the <code>.d.ts</code> file to check the script in an IDE. It types <code>target.getObject()</code> by this target's object names, e.g. a video returns a <code>VideoScriptAPI</code>.</li>
+                </ul>
+
                 <h4 className="font-bold mt-4 mb-2">Example Script</h4>
                 <pre className="bg-gray-100 p-3 rounded text-xs overflow-x-auto font-mono">
 {`var speed = 50;
@@ -74,6 +139,15 @@ function onInit({target}) {
   if(secret) secret.setVisible(false);
 }
 
+function onActivate({target}) {
+  // Slide 'title' in, then show 'secret' a second later
+  target.tween('title', { position: { y: 0.5 } }, 0.8).then(function () {
+    target.setTimeout(function () {
+      target.getObject('secret').setVisible(true);
+    }, 1000);
+  });
+}
+
 function onUpdate({target, deltaTime}) {
   // Rotate 'logo' object
   var logo = target.getObject('logo');
@@ -89,8 +163,7 @@ function onClick({object, target}) {
      var vid = target.getObject('myVideo');
      vid.playVideo();
      vid.setVolume(1.0);
-     vid.setFullscreen(true);
-     vid.loop = true; // Enable looping
+     vid.setLoop(true); // Enable looping
   }
 }`}
                 </pre>
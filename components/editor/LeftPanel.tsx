@@ -5,7 +5,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Target, ContentType, Content } from '../../types';
 import { 
     EyeIcon, PencilIcon, DuplicateIcon, TrashIcon,
-    ImageIcon, VideoIcon, AudioIcon, TextIcon, EyeSlashIcon, CubeIcon, Plus
+    ImageIcon, VideoIcon, AudioIcon, TextIcon, EyeSlashIcon, CubeIcon, CubeTransparentIcon, ShapesIcon, LinkIcon, YoutubeIcon, Plus
 } from '../icons/Icons';
 import ConfirmationModal from './ConfirmationModal';
 import { clsx } from 'clsx';
@@ -261,6 +261,12 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
                         <button onClick={() => handleAddContentSelect(ContentType.STREAMING_VIDEO)} className="flex items-center gap-2 w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-background-hover">
                           <VideoIcon className="w-4 h-4" /> Streaming Video
                         </button>
+                        <button onClick={() => handleAddContentSelect(ContentType.YOUTUBE)} className="flex items-center gap-2 w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-background-hover">
+                          <YoutubeIcon className="w-4 h-4" /> YouTube
+                        </button>
+                        <button onClick={() => handleAddContentSelect(ContentType.VIMEO)} className="flex items-center gap-2 w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-background-hover">
+                          <VideoIcon className="w-4 h-4" /> Vimeo
+                        </button>
                         <button onClick={() => handleAddContentSelect(ContentType.AUDIO)} className="flex items-center gap-2 w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-background-hover">
                           <AudioIcon className="w-4 h-4" /> Audio
                         </button>
@@ -270,6 +276,15 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
                         <button onClick={() => handleAddContentSelect(ContentType.MODEL)} className="flex items-center gap-2 w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-background-hover">
                           <CubeIcon className="w-4 h-4" /> 3D Model
                         </button>
+                        <button onClick={() => handleAddContentSelect(ContentType.SHAPE)} className="flex items-center gap-2 w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-background-hover">
+                          <ShapesIcon className="w-4 h-4" /> Shape
+                        </button>
+                        <button onClick={() => handleAddContentSelect(ContentType.EMBED)} className="flex items-center gap-2 w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-background-hover">
+                          <LinkIcon className="w-4 h-4" /> Web Embed
+                        </button>
+                        <button onClick={() => handleAddContentSelect(ContentType.OCCLUDER)} className="flex items-center gap-2 w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-background-hover">
+                          <CubeTransparentIcon className="w-4 h-4" /> Occluder
+                        </button>
                       </div>
                     )}
                    </div>
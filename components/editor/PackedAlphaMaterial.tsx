@@ -0,0 +1,20 @@
+import * as THREE from 'three';
+import { shaderMaterial } from '@react-three/drei';
+import { extend } from '@react-three/fiber';
+import { PACKED_ALPHA_SHADER } from '../../utils/videoAlphaUtils';
+
+// Video with its alpha matte packed in the same frame, see utils/videoAlphaUtils
+const PackedAlphaMaterialImpl = shaderMaterial(
+  {
+    tex: null,
+    scale: new THREE.Vector2(0.5, 1), // Side-by-side by default
+    colorOffset: new THREE.Vector2(0, 0),
+    alphaOffset: new THREE.Vector2(0.5, 0),
+  },
+  PACKED_ALPHA_SHADER.vertexShader,
+  PACKED_ALPHA_SHADER.fragmentShader
+);
+
+extend({ PackedAlphaMaterial: PackedAlphaMaterialImpl });
+
+export default PackedAlphaMaterialImpl;
@@ -3,16 +3,18 @@
 
 import React from 'react';
 import { XMarkIcon } from '../icons/Icons';
-import { Target } from '../../types';
+import { Asset, SceneSettings, Target } from '../../types';
 import ScenePanel from './ScenePanel';
 
 interface PreviewModalProps {
   isOpen: boolean;
   onClose: () => void;
   target: Target | undefined;
+  sceneSettings?: SceneSettings;
+  assets?: Asset[];
 }
 
-const PreviewModal: React.FC<PreviewModalProps> = ({ isOpen, onClose, target }) => {
+const PreviewModal: React.FC<PreviewModalProps> = ({ isOpen, onClose, target, sceneSettings, assets }) => {
   if (!isOpen) return null;
 
   return (
@@ -61,6 +63,8 @@ const PreviewModal: React.FC<PreviewModalProps> = ({ isOpen, onClose, target })
                         <div className="absolute inset-0 z-20">
                             <ScenePanel 
                                 target={target}
+                                sceneSettings={sceneSettings}
+                                assets={assets}
                                 selectedContent={undefined}
                                 onContentUpdate={() => {}}
                                 onContentAdd={() => {}}
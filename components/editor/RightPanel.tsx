@@ -2,12 +2,30 @@
 "use client";
 
 import React, { useEffect, useState, useRef, useLayoutEffect } from 'react';
-import { Content, Target, ContentType, FONT_MAP, Asset, MaterialProperties, SceneSettings } from '../../types';
+import { Content, Project, Target, ContentType, Asset, AudioTrack, MaterialProperties, SceneLight, SceneLightType, SceneSettings, ScriptLanguage, ShapeKind, ShapeSize, SubtitleMode } from '../../types';
 import { useDebounce } from '../../hooks/useDebounce';
 import { equal } from '@wry/equality';
 import { ToastType } from '../ui/Toast';
 import { fileToBase64 } from '../../utils/storage';
-import { ImageIcon, YoutubeIcon, VideoIcon, AlignLeftIcon, AlignCenterIcon, AlignRightIcon, BoldIcon, ItalicIcon } from '../icons/Icons';
+import { EMBED_SANDBOX_OPTIONS, DEFAULT_EMBED_SANDBOX, DEFAULT_EMBED_ALLOW, getSafeEmbedUrl, getEmbedSize } from '../../utils/embedUtils';
+import { parseYouTubeId, parseVimeoId, PLAYBACK_RATES } from '../../utils/streamingUtils';
+import { CONTENT_ANIMATIONS, DEFAULT_ANIMATION_DURATION, AnimationDirection, AnimationPreview } from '../../utils/animationUtils';
+import { ASPECT_RATIO_PRESETS, FIT_MODES, DEFAULT_FIT_MODE, parseAspectRatio } from '../../utils/mediaFitUtils';
+import { canAttachToBone } from '../../utils/modelUtils';
+import { LIGHT_TYPES, DEFAULT_SPOT_ANGLE, createSceneLight, canCastShadow, getSceneLights } from '../../utils/lightingUtils';
+import { createSceneEnvironment } from '../../utils/environmentUtils';
+import { OCCLUDER_SHAPES, DEFAULT_OCCLUDER_SHAPE } from '../../utils/occluderUtils';
+import { BUILT_IN_FONTS, DEFAULT_FONT, DEFAULT_LINE_HEIGHT } from '../../utils/textUtils';
+import { RICH_TEXT_HELP } from '../../utils/richTextUtils';
+import { AUDIO_DISTANCE_MODELS, AUDIO_FALLOFF_GAIN, getSpatialAudio } from '../../utils/audioUtils';
+import { SUBTITLE_MODES, getAudioTracks, parseWebVTT } from '../../utils/playlistUtils';
+import { VIDEO_ALPHA_MODES, getVideoAlphaMode } from '../../utils/videoAlphaUtils';
+import { SHAPE_KINDS, SHAPE_MATERIAL_NAME, SHAPE_SIZE_LABELS, getShapeKind, getShapeSize } from '../../utils/shapeUtils';
+import { SCRIPT_TYPINGS_FILE_NAME, generateScriptTypings } from '../../utils/scriptTypings';
+import { downloadFile } from '../../utils/fileExportImport';
+import ScriptEditor from './ScriptEditor';
+import { ScriptError } from './ScriptEngine';
+import { ImageIcon, YoutubeIcon, VideoIcon, AlignLeftIcon, AlignCenterIcon, AlignRightIcon, BoldIcon, ItalicIcon, TrashIcon, ChevronLeftIcon } from '../icons/Icons';
 
 interface RightPanelProps {
   width: number;
@@ -22,6 +40,10 @@ interface RightPanelProps {
   onAddAsset?: (asset: Asset) => void;
   sceneSettings?: SceneSettings;
   onSceneSettingsChange?: (settings: SceneSettings) => void;
+  onPreviewAnimation?: (preview: AnimationPreview) => void;
+  scriptError?: ScriptError | null; // Runtime error of a script in the preview
+  project?: Pick<Project, 'name' | 'script' | 'scriptLanguage'>; // Edited when nothing is selected
+  onProjectScriptChange?: (script: string, language: ScriptLanguage) => void;
 }
 
 const round2 = (num: number) => Math.round((num + Number.EPSILON) * 100) / 100;
@@ -72,6 +94,247 @@ const ColorInput = ({ label, value, onChange, fallback = '#000000', id }: { labe
     );
 };
 
+// Lights of the project or of one target. Positions are in scene units, from the target's center.
+const LightsEditor = ({ lights, onChange, idPrefix }: { lights: SceneLight[], onChange: (lights: SceneLight[]) => void, idPrefix: string }) => {
+    const updateLight = (id: string, changes: Partial<SceneLight>) => {
+        onChange(lights.map(light => light.id === id ? { ...light, ...changes } : light));
+    };
+
+    // A new type starts from that type's defaults, keeping the color
+    const changeType = (light: SceneLight, type: SceneLightType) => {
+        onChange(lights.map(l => l.id === light.id ? { ...createSceneLight(type), id: light.id, color: light.color } : l));
+    };
+
+    const changePosition = (light: SceneLight, index: number, value: string) => {
+        const position = [...(light.position ?? [0, 0, 0])] as [number, number, number];
+        position[index] = parseFloat(value) || 0;
+        updateLight(light.id, { position });
+    };
+
+    return (
+        <div className="space-y-3">
+            {lights.length === 0 && <p className="text-xs text-gray-400 italic">No lights: only unlit content will be visible.</p>}
+            {lights.map((light) => {
+                const id = `${idPrefix}-${light.id}`;
+                const maxIntensity = light.type === 'point' || light.type === 'spot' ? 10 : 3;
+                return (
+                    <div key={light.id} className="border rounded p-2 space-y-3">
+                        <div className="flex items-center gap-2">
+                            <select
+                                id={`${id}-type`}
+                                value={light.type}
+                                onChange={(e) => changeType(light, e.target.value as SceneLightType)}
+                                className="flex-1 text-xs border rounded p-1 bg-transparent"
+                            >
+                                {LIGHT_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                            </select>
+                            <button
+                                onClick={() => onChange(lights.filter(l => l.id !== light.id))}
+                                className="p-1 rounded text-gray-400 hover:text-red-500"
+                                title="Remove light"
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                        <ColorInput
+                            label={light.type === 'hemisphere' ? 'Sky Color' : 'Color'}
+                            id={`${id}-color`}
+                            value={light.color}
+                            fallback="#ffffff"
+                            onChange={(color) => updateLight(light.id, { color })}
+                        />
+                        {light.type === 'hemisphere' && (
+                            <ColorInput
+                                label="Ground Color"
+                                id={`${id}-ground-color`}
+                                value={light.groundColor}
+                                fallback="#ffffff"
+                                onChange={(groundColor) => updateLight(light.id, { groundColor })}
+                            />
+                        )}
+                        <div>
+                            <label htmlFor={`${id}-intensity`} className="text-xs text-gray-400 block mb-1">Intensity</label>
+                            <input
+                                id={`${id}-intensity`}
+                                type="range" min="0" max={maxIntensity} step="0.1"
+                                value={light.intensity}
+                                onChange={(e) => updateLight(light.id, { intensity: parseFloat(e.target.value) })}
+                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                            />
+                            <div className="text-right text-xs text-gray-500">{light.intensity}</div>
+                        </div>
+                        {light.type !== 'ambient' && (
+                            <div>
+                                <label className="text-xs text-gray-400 block mb-1">{light.type === 'hemisphere' ? 'Sky Direction' : 'Position'}</label>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {['x', 'y', 'z'].map((axis, i) => (
+                                        <div key={axis} className="flex items-center gap-1 border rounded px-1 min-w-0">
+                                            <span className="text-[10px] text-gray-400 font-bold flex-shrink-0">{axis.toUpperCase()}</span>
+                                            <input
+                                                type="number" step="0.1"
+                                                name={`${id}-pos-${axis}`}
+                                                value={light.position?.[i] ?? 0}
+                                                onChange={(e) => changePosition(light, i, e.target.value)}
+                                                className="w-full text-xs py-1 focus:outline-none bg-transparent min-w-0"
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {(light.type === 'point' || light.type === 'spot') && (
+                            <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                    <label htmlFor={`${id}-distance`} className="text-xs text-gray-400 block mb-1" title="0 = no limit">Range</label>
+                                    <input
+                                        id={`${id}-distance`}
+                                        type="number" min="0" step="0.5"
+                                        value={light.distance ?? 0}
+                                        onChange={(e) => updateLight(light.id, { distance: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                        className="w-full px-2 py-1 text-sm border rounded bg-gray-50"
+                                    />
+                                </div>
+                                {light.type === 'spot' && (
+                                    <div>
+                                        <label htmlFor={`${id}-angle`} className="text-xs text-gray-400 block mb-1">Angle (deg)</label>
+                                        <input
+                                            id={`${id}-angle`}
+                                            type="number" min="1" max="90" step="1"
+                                            value={light.angle ?? DEFAULT_SPOT_ANGLE}
+                                            onChange={(e) => updateLight(light.id, { angle: Math.min(90, Math.max(1, parseFloat(e.target.value) || DEFAULT_SPOT_ANGLE)) })}
+                                            className="w-full px-2 py-1 text-sm border rounded bg-gray-50"
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        {canCastShadow(light) && (
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    id={`${id}-shadow`}
+                                    checked={light.castShadow ?? false}
+                                    onChange={(e) => updateLight(light.id, { castShadow: e.target.checked })}
+                                />
+                                <label htmlFor={`${id}-shadow`} className="text-sm text-gray-700">Cast Shadows</label>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+            <select
+                id={`${idPrefix}-add`}
+                value=""
+                onChange={(e) => e.target.value && onChange([...lights, createSceneLight(e.target.value as SceneLightType)])}
+                className="w-full text-xs border rounded p-1.5 bg-transparent"
+            >
+                <option value="">+ Add Light</option>
+                {LIGHT_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </select>
+        </div>
+    );
+};
+
+// Clips of an audio content, played in this order. Subtitles are loaded from .vtt files.
+const PlaylistEditor = ({ tracks, audioAssets, onChange, onNotify }: {
+    tracks: AudioTrack[],
+    audioAssets: Asset[],
+    onChange: (tracks: AudioTrack[]) => void,
+    onNotify?: (message: string, type: ToastType) => void
+}) => {
+    const updateTrack = (id: string, changes: Partial<AudioTrack>) => {
+        onChange(tracks.map(track => track.id === id ? { ...track, ...changes } : track));
+    };
+
+    const moveUp = (index: number) => {
+        const next = [...tracks];
+        [next[index - 1], next[index]] = [next[index], next[index - 1]];
+        onChange(next);
+    };
+
+    const addTrack = (assetId: string) => {
+        const asset = audioAssets.find(a => a.id === assetId);
+        if (asset) onChange([...tracks, { id: `track_${Date.now()}`, name: asset.name, url: asset.url }]);
+    };
+
+    const loadSubtitles = async (track: AudioTrack, e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const subtitles = await file.text();
+            if (!parseWebVTT(subtitles).length) {
+                onNotify?.(`No subtitle cues found in ${file.name}.`, 'error');
+                return;
+            }
+            updateTrack(track.id, { subtitles });
+        } catch (error) {
+            console.error("Subtitle upload failed", error);
+            onNotify?.("Failed to read the subtitle file.", 'error');
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            {tracks.map((track, index) => {
+                const id = `audio-track-${track.id}`;
+                const cueCount = track.subtitles ? parseWebVTT(track.subtitles).length : 0;
+                return (
+                    <div key={track.id} className="border rounded p-2 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <span className="text-[10px] text-gray-400 font-bold w-4 flex-shrink-0">{index}</span>
+                            <input
+                                id={`${id}-name`}
+                                type="text"
+                                value={track.name}
+                                onChange={(e) => updateTrack(track.id, { name: e.target.value })}
+                                className="flex-1 min-w-0 text-xs border rounded p-1 bg-transparent"
+                            />
+                            <button
+                                onClick={() => moveUp(index)}
+                                disabled={index === 0}
+                                className="p-1 rounded text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                                title="Play earlier"
+                            >
+                                <ChevronLeftIcon className="w-4 h-4 rotate-90" />
+                            </button>
+                            <button
+                                onClick={() => onChange(tracks.filter(t => t.id !== track.id))}
+                                className="p-1 rounded text-gray-400 hover:text-red-500"
+                                title="Remove clip"
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                            <label htmlFor={`${id}-subtitles`} className="text-xs text-blue-600 hover:underline cursor-pointer">
+                                {track.subtitles ? 'Replace subtitles (.vtt)' : 'Load subtitles (.vtt)'}
+                            </label>
+                            <input id={`${id}-subtitles`} type="file" accept=".vtt,text/vtt" className="hidden" onChange={(e) => loadSubtitles(track, e)} />
+                            {track.subtitles && (
+                                <span className="text-[10px] text-gray-400">
+                                    {cueCount} cues
+                                    <button onClick={() => updateTrack(track.id, { subtitles: undefined })} className="ml-2 hover:text-red-500">Remove</button>
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+            <select
+                id="audio-track-add"
+                value=""
+                onChange={(e) => e.target.value && addTrack(e.target.value)}
+                className="w-full text-xs border rounded p-1.5 bg-transparent"
+            >
+                <option value="">+ Add Clip</option>
+                {audioAssets.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+            {audioAssets.length === 0 && <p className="text-[10px] text-gray-400">Upload audio files in the Asset Manager to add clips.</p>}
+        </div>
+    );
+};
+
 const RightPanel: React.FC<RightPanelProps> = ({ 
     width,
     isResizing,
@@ -84,7 +347,11 @@ const RightPanel: React.FC<RightPanelProps> = ({
     assets = [],
     onAddAsset,
     sceneSettings,
-    onSceneSettingsChange
+    onSceneSettingsChange,
+    onPreviewAnimation,
+    scriptError,
+    project,
+    onProjectScriptChange
 }) => {
   const [formData, setFormData] = useState<Content | null>(null);
   const [scriptData, setScriptData] = useState<string>('');
@@ -117,12 +384,11 @@ const RightPanel: React.FC<RightPanelProps> = ({
     }
   }, [selectedContent]);
 
+  // The script editor shows the selected target's script, or the project script when no target is selected
   useLayoutEffect(() => {
-    if (selectedTarget) {
-      lastScriptUpdateSource.current = 'prop';
-      setScriptData(selectedTarget.script || '');
-    }
-  }, [selectedTarget?.id, selectedTarget?.script]); 
+    lastScriptUpdateSource.current = 'prop';
+    setScriptData((selectedTarget ? selectedTarget.script : project?.script) || '');
+  }, [selectedTarget?.id, selectedTarget?.script, project?.script]); 
 
   const debouncedFormData = useDebounce(formData, 400);
   const debouncedScriptData = useDebounce(scriptData, 600);
@@ -133,9 +399,14 @@ const RightPanel: React.FC<RightPanelProps> = ({
     }
   }, [debouncedFormData, onContentUpdate, selectedContent]); 
 
+  const scriptLanguage = (selectedTarget ? selectedTarget.scriptLanguage : project?.scriptLanguage) ?? 'javascript';
+
   useEffect(() => {
-    if (selectedTarget && onTargetUpdate && lastScriptUpdateSource.current === 'user' && debouncedScriptData === scriptData) {
-        onTargetUpdate({ ...selectedTarget, script: debouncedScriptData });
+    if (lastScriptUpdateSource.current !== 'user' || debouncedScriptData !== scriptData) return;
+    if (selectedTarget) {
+        onTargetUpdate?.({ ...selectedTarget, script: debouncedScriptData });
+    } else if (debouncedScriptData !== (project?.script || '')) {
+        onProjectScriptChange?.(debouncedScriptData, scriptLanguage);
     }
   }, [debouncedScriptData, selectedTarget, onTargetUpdate, scriptData]);
 
@@ -162,9 +433,56 @@ const RightPanel: React.FC<RightPanelProps> = ({
     setFormData({ ...formData, [key]: value });
   };
 
-  const handleScriptChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+  // Font assets are listed as `asset:<id>`, built-in fonts by name
+  const handleFontChange = (value: string) => {
+    if (!formData) return;
+    lastUpdateSource.current = 'user';
+    setFormData(value.startsWith('asset:')
+      ? { ...formData, fontAssetId: value.slice('asset:'.length) }
+      : { ...formData, font: value, fontAssetId: undefined });
+  };
+
+  // A video is transparent one way at most: by key color or by alpha matte
+  const handleTransparencyChange = (value: string) => {
+    if (!formData) return;
+    lastUpdateSource.current = 'user';
+    const videoAlpha = VIDEO_ALPHA_MODES.find(m => m.id === value)?.id;
+    setFormData({ ...formData, chromaKey: value === 'chroma', videoAlpha });
+  };
+
+  // The first clip stays in audioUrl, for what only knows single audio files
+  const handlePlaylistChange = (tracks: AudioTrack[]) => {
+    if (!formData) return;
+    lastUpdateSource.current = 'user';
+    setFormData({ ...formData, audioPlaylist: tracks.length ? tracks : undefined, audioUrl: tracks[0]?.url });
+  };
+
+  // Sizes of one kind don't fit another, so a new kind starts from its defaults
+  const handleShapeKindChange = (kind: ShapeKind) => {
+    if (!formData) return;
+    lastUpdateSource.current = 'user';
+    setFormData({ ...formData, shapeKind: kind, shapeSize: undefined });
+  };
+
+  const handleScriptChange = (value: string) => {
       lastScriptUpdateSource.current = 'user';
-      setScriptData(e.target.value);
+      setScriptData(value);
+  };
+
+  const handleScriptLanguageChange = (language: ScriptLanguage) => {
+      // Include unsaved edits so the debounced update doesn't revert them
+      if (selectedTarget) {
+          onTargetUpdate?.({ ...selectedTarget, script: scriptData, scriptLanguage: language });
+      } else {
+          onProjectScriptChange?.(scriptData, language);
+      }
+  };
+
+  // The project script has no contents of its own
+  const scriptOwner = selectedTarget ?? { name: project?.name ?? 'Project', contents: [] };
+
+  const handleDownloadTypings = () => {
+      downloadFile(generateScriptTypings(scriptOwner), SCRIPT_TYPINGS_FILE_NAME, 'text/plain');
   };
 
   // Material Editor Handlers
@@ -244,16 +562,58 @@ const RightPanel: React.FC<RightPanelProps> = ({
       }
   };
 
-  const handleDirectionalLightPosChange = (index: number, value: string) => {
-      if (onSceneSettingsChange && sceneSettings) {
-          const newPos = [...sceneSettings.directionalLightPosition] as [number, number, number];
-          newPos[index] = parseFloat(value) || 0;
-          onSceneSettingsChange({
-              ...sceneSettings,
-              directionalLightPosition: newPos
-          });
+  const modelAssets = assets.filter(a => a.type === 'model');
+  const fontAssets = assets.filter(a => a.type === 'font');
+  const audioAssets = assets.filter(a => a.type === 'audio');
+  const videoAlphaMode = formData ? getVideoAlphaMode(formData) : null;
+  const environmentAssets = assets.filter(a => a.type === 'environment');
+  const environment = sceneSettings?.environment;
+
+  // Switching maps keeps the intensity and rotation
+  const handleEnvironmentChange = (assetId: string) => {
+      const asset = environmentAssets.find(a => a.id === assetId);
+      handleSceneSettingChange('environment', asset ? createSceneEnvironment(asset, environment) : undefined);
+  };
+
+  // A target with its own lights starts from a copy of the project's
+  const handleTargetLightsToggle = (enabled: boolean) => {
+      if (!selectedTarget) return;
+      if (enabled) {
+          onTargetUpdate?.({ ...selectedTarget, lights: getSceneLights(sceneSettings).map(light => ({ ...light })) });
+      } else {
+          const { lights, ...target } = selectedTarget;
+          onTargetUpdate?.(target);
       }
-  }
+  };
+
+  // Replays the animation in the scene with the values being edited
+  const handleAnimationPreview = (direction: AnimationDirection, overrides: Partial<Content> = {}) => {
+    if (!formData || !onPreviewAnimation) return;
+    const { animationIn, animationOut, delay, duration } = { ...formData, ...overrides };
+    onPreviewAnimation({ contentId: formData.id, direction, settings: { animationIn, animationOut, delay, duration }, key: Date.now() });
+  };
+
+  // YouTube / Vimeo validation shown under the inputs
+  const isVimeo = formData?.type === ContentType.VIMEO;
+  const streamingVideoId = isVimeo ? parseVimeoId(formData?.videoUrl) : parseYouTubeId(formData?.videoUrl);
+  const hasInvalidStreamingRange = formData?.videoEnd !== undefined && formData.videoEnd <= (formData.videoStart ?? 0);
+
+  // Image / video frame, validated the same way the renderers parse it
+  const hasAspectRatio = !!formData?.aspectRatio?.trim();
+  const hasInvalidAspectRatio = hasAspectRatio && parseAspectRatio(formData?.aspectRatio) === null;
+  // Spatial audio settings, defaults filled in, or null when the sound isn't positioned
+  const spatialAudio = formData ? getSpatialAudio(formData) : null;
+  // Models play their first clip when the chosen one is unset or gone
+  const animationClips = formData?.animationClips ?? [];
+  const defaultClip = animationClips.find(clip => clip === formData?.animationClip) ?? animationClips[0];
+  // Other models of the target whose bones this content can follow
+  const riggedModels = formData && canAttachToBone(formData)
+    ? (selectedTarget?.contents ?? []).filter(c => c.id !== formData.id && c.type === ContentType.MODEL && (c.boneNames?.length ?? 0) > 0 && c.attachment?.modelId !== formData.id)
+    : [];
+  const attachedModel = riggedModels.find(c => c.id === formData?.attachment?.modelId);
+  // A shape has a single material, edited without choosing it
+  const editedMaterial = formData?.type === ContentType.SHAPE ? SHAPE_MATERIAL_NAME : selectedMaterial;
+  const shapeKind = getShapeKind(formData ?? {});
 
   return (
     <aside 
@@ -320,6 +680,39 @@ const RightPanel: React.FC<RightPanelProps> = ({
                    </div>
                </div>
 
+               {riggedModels.length > 0 && (
+                   <div className="grid grid-cols-2 gap-2 mb-6">
+                       <div>
+                           <label htmlFor="prop-attach-model" className="text-xs text-text-tertiary block mb-1">Attach to Model</label>
+                           <select
+                               id="prop-attach-model"
+                               value={attachedModel?.id ?? ''}
+                               onChange={(e) => {
+                                   const model = riggedModels.find(c => c.id === e.target.value);
+                                   handleGenericChange('attachment', model ? { modelId: model.id, bone: model.boneNames![0] } : undefined);
+                               }}
+                               className="w-full text-xs border border-border-default rounded p-1 bg-background-tertiary text-text-primary"
+                           >
+                               <option value="">None (target)</option>
+                               {riggedModels.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                           </select>
+                       </div>
+                       <div>
+                           <label htmlFor="prop-attach-bone" className="text-xs text-text-tertiary block mb-1">Bone</label>
+                           <select
+                               id="prop-attach-bone"
+                               value={formData.attachment?.bone ?? ''}
+                               onChange={(e) => attachedModel && handleGenericChange('attachment', { modelId: attachedModel.id, bone: e.target.value })}
+                               disabled={!attachedModel}
+                               className="w-full text-xs border border-border-default rounded p-1 bg-background-tertiary text-text-primary disabled:opacity-50"
+                           >
+                               {(attachedModel?.boneNames ?? []).map(bone => <option key={bone} value={bone}>{bone}</option>)}
+                           </select>
+                       </div>
+                       {attachedModel && <p className="col-span-2 text-[10px] text-text-tertiary">Position, rotation and scale are now relative to the bone.</p>}
+                   </div>
+               )}
+
                {formData.type === ContentType.STREAMING_VIDEO && (
                    <div className="space-y-4">
                         <div>
@@ -349,17 +742,9 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                 type="text" 
                                 value={formData.videoUrl || ''} 
                                 onChange={(e) => {
-                                    let val = e.target.value;
-                                    if (formData.streamingService === 'vimeo') {
-                                        const vimeoRegExp = /vimeo\.com\/(\d+)/;
-                                        const vimeoMatch = val.match(vimeoRegExp);
-                                        if (vimeoMatch && vimeoMatch[1]) val = vimeoMatch[1];
-                                    } else {
-                                        const ytRegExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
-                                        const ytMatch = val.match(ytRegExp);
-                                        if (ytMatch && ytMatch[2] && ytMatch[2].length === 11) val = ytMatch[2];
-                                    }
-                                    handleGenericChange('videoUrl', val);
+                                    const val = e.target.value;
+                                    const id = formData.streamingService === 'vimeo' ? parseVimeoId(val) : parseYouTubeId(val);
+                                    handleGenericChange('videoUrl', id || val);
                                 }}
                                 className="w-full px-2 py-2 text-sm border rounded bg-gray-50 focus:bg-white focus:ring-1 focus:ring-blue-500 outline-none transition-all"
                                 placeholder={formData.streamingService === 'vimeo' ? "e.g. 123456789" : "e.g. Y_plhk1FUQA"} 
@@ -400,6 +785,199 @@ const RightPanel: React.FC<RightPanelProps> = ({
                    </div>
                )}
 
+               {(formData.type === ContentType.YOUTUBE || formData.type === ContentType.VIMEO) && (
+                   <div className="space-y-4">
+                        <div>
+                            <label htmlFor="stream-id-input" className="text-xs text-gray-400 block mb-1 uppercase font-bold tracking-tighter">
+                                {isVimeo ? 'Vimeo ID / URL' : 'YouTube ID / URL'}
+                            </label>
+                            <input 
+                                id="stream-id-input"
+                                type="text" 
+                                value={formData.videoUrl || ''} 
+                                onChange={(e) => {
+                                    const val = e.target.value;
+                                    const id = isVimeo ? parseVimeoId(val) : parseYouTubeId(val);
+                                    handleGenericChange('videoUrl', id || val);
+                                }}
+                                className="w-full px-2 py-2 text-sm border rounded bg-gray-50 focus:bg-white focus:ring-1 focus:ring-blue-500 outline-none transition-all"
+                                placeholder={isVimeo ? "e.g. 123456789" : "e.g. Y_plhk1FUQA"} 
+                            />
+                            {formData.videoUrl && !streamingVideoId && (
+                                <p className="text-[10px] text-red-500 mt-1">{isVimeo ? 'Not a valid Vimeo video ID or URL.' : 'Not a valid YouTube video ID or URL.'}</p>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label htmlFor="stream-start" className="text-xs text-gray-400 block mb-1">Start (sec)</label>
+                                <input 
+                                    id="stream-start"
+                                    type="number" 
+                                    min="0"
+                                    value={formData.videoStart ?? ''} 
+                                    onChange={(e) => handleGenericChange('videoStart', e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0))}
+                                    className="w-full px-2 py-1 text-sm border rounded bg-gray-50"
+                                    placeholder="0"
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="stream-end" className="text-xs text-gray-400 block mb-1">End (sec)</label>
+                                <input 
+                                    id="stream-end"
+                                    type="number" 
+                                    min="0"
+                                    value={formData.videoEnd ?? ''} 
+                                    onChange={(e) => handleGenericChange('videoEnd', e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0))}
+                                    className="w-full px-2 py-1 text-sm border rounded bg-gray-50"
+                                    placeholder="Full length"
+                                />
+                            </div>
+                        </div>
+                        {hasInvalidStreamingRange && (
+                            <p className="text-[10px] text-red-500">End must be after start; it will be ignored.</p>
+                        )}
+
+                        <div className="bg-gray-50 p-3 rounded-lg border space-y-3">
+                            <h5 className="text-[10px] font-bold text-gray-400 uppercase">Playback Options</h5>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="flex items-center gap-2">
+                                    <input type="checkbox" id="sv-auto" checked={formData.autoplay ?? false} onChange={(e) => handleGenericChange('autoplay', e.target.checked)} className="h-4 w-4" />
+                                    <label htmlFor="sv-auto" className="text-xs text-gray-700">Autoplay</label>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <input type="checkbox" id="sv-loop" checked={formData.loop ?? false} onChange={(e) => handleGenericChange('loop', e.target.checked)} className="h-4 w-4" />
+                                    <label htmlFor="sv-loop" className="text-xs text-gray-700">Loop</label>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <input type="checkbox" id="sv-mute" checked={formData.muted ?? false} onChange={(e) => handleGenericChange('muted', e.target.checked)} className="h-4 w-4" />
+                                    <label htmlFor="sv-mute" className="text-xs text-gray-700">Muted</label>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <input type="checkbox" id="sv-ctrl" checked={formData.videoControls ?? true} onChange={(e) => handleGenericChange('videoControls', e.target.checked)} className="h-4 w-4" />
+                                    <label htmlFor="sv-ctrl" className="text-xs text-gray-700">Controls</label>
+                                </div>
+                            </div>
+                            <div className="border-t pt-3 space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <input type="checkbox" id="sv-click" checked={formData.videoClickToggle ?? true} onChange={(e) => handleGenericChange('videoClickToggle', e.target.checked)} className="h-4 w-4" />
+                                    <label htmlFor="sv-click" className="text-xs text-gray-700">Play/Pause on Click</label>
+                                </div>
+                                {!isVimeo && (
+                                    <div className="flex items-center gap-2">
+                                        <input type="checkbox" id="sv-fs" checked={formData.videoFullScreen ?? true} onChange={(e) => handleGenericChange('videoFullScreen', e.target.checked)} className="h-4 w-4" />
+                                        <label htmlFor="sv-fs" className="text-xs text-gray-700">Fullscreen</label>
+                                    </div>
+                                )}
+                            </div>
+                            <div className="border-t pt-3">
+                                <label htmlFor="sv-rate" className="text-xs text-gray-400 block mb-1">Playback Speed</label>
+                                <select 
+                                    id="sv-rate"
+                                    value={formData.videoPlaybackRate ?? 1} 
+                                    onChange={(e) => handleGenericChange('videoPlaybackRate', parseFloat(e.target.value))}
+                                    className="w-full px-2 py-1 text-sm border rounded bg-white"
+                                >
+                                    {PLAYBACK_RATES.map(rate => (
+                                        <option key={rate} value={rate}>{rate === 1 ? 'Normal' : `${rate}x`}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
+                        <div className="bg-gray-50 p-3 rounded-lg border space-y-3">
+                            <h5 className="text-[10px] font-bold text-gray-400 uppercase">Captions</h5>
+                            <div className="flex items-center gap-2">
+                                <input type="checkbox" id="sv-cc" checked={formData.videoCaptions ?? false} onChange={(e) => handleGenericChange('videoCaptions', e.target.checked)} className="h-4 w-4" />
+                                <label htmlFor="sv-cc" className="text-xs text-gray-700">Show captions by default</label>
+                            </div>
+                            {formData.videoCaptions && (
+                                <div>
+                                    <label htmlFor="sv-cc-lang" className="text-xs text-gray-400 block mb-1">Language</label>
+                                    <input 
+                                        id="sv-cc-lang"
+                                        type="text" 
+                                        value={formData.videoCaptionLang || ''} 
+                                        onChange={(e) => handleGenericChange('videoCaptionLang', e.target.value.trim() || undefined)}
+                                        className="w-full px-2 py-1 text-sm border rounded bg-white"
+                                        placeholder="e.g. en"
+                                    />
+                                </div>
+                            )}
+                        </div>
+                   </div>
+               )}
+
+               {formData.type === ContentType.EMBED && (
+                   <div className="space-y-4">
+                        <div>
+                            <label htmlFor="embed-url-input" className="text-xs text-gray-400 block mb-1 uppercase font-bold tracking-tighter">Page URL</label>
+                            <input 
+                                id="embed-url-input"
+                                type="url" 
+                                value={formData.embedUrl || ''} 
+                                onChange={(e) => handleGenericChange('embedUrl', e.target.value)}
+                                className="w-full px-2 py-2 text-sm border rounded bg-gray-50 focus:bg-white focus:ring-1 focus:ring-blue-500 outline-none transition-all"
+                                placeholder="https://example.com/form" 
+                            />
+                            {formData.embedUrl && !getSafeEmbedUrl(formData.embedUrl) && (
+                                <p className="text-[10px] text-red-500 mt-1">Only http:// and https:// pages can be embedded.</p>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label htmlFor="embed-width-input" className="text-xs text-gray-400 block mb-1">Width (px)</label>
+                                <input id="embed-width-input" type="number" min="100" step="10" value={getEmbedSize(formData).width} onChange={(e) => handleGenericChange('embedWidth', parseInt(e.target.value) || undefined)} className="w-full text-xs border rounded p-1 bg-transparent" />
+                            </div>
+                            <div>
+                                <label htmlFor="embed-height-input" className="text-xs text-gray-400 block mb-1">Height (px)</label>
+                                <input id="embed-height-input" type="number" min="100" step="10" value={getEmbedSize(formData).height} onChange={(e) => handleGenericChange('embedHeight', parseInt(e.target.value) || undefined)} className="w-full text-xs border rounded p-1 bg-transparent" />
+                            </div>
+                        </div>
+
+                        <div className="bg-gray-50 p-3 rounded-lg border space-y-3">
+                            <h5 className="text-[10px] font-bold text-gray-400 uppercase">Sandbox</h5>
+                            <div className="grid grid-cols-2 gap-2">
+                                {EMBED_SANDBOX_OPTIONS.map(({ token, label }) => {
+                                    const tokens = formData.embedSandbox ?? DEFAULT_EMBED_SANDBOX;
+                                    return (
+                                        <div key={token} className="flex items-center gap-2">
+                                            <input 
+                                                type="checkbox" 
+                                                id={`embed-sandbox-${token}`} 
+                                                checked={tokens.includes(token)} 
+                                                onChange={(e) => handleGenericChange('embedSandbox', e.target.checked ? [...tokens, token] : tokens.filter(t => t !== token))} 
+                                                className="h-4 w-4" 
+                                            />
+                                            <label htmlFor={`embed-sandbox-${token}`} className="text-xs text-gray-700 truncate" title={token}>{label}</label>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                            {['allow-scripts', 'allow-same-origin'].every(t => (formData.embedSandbox ?? DEFAULT_EMBED_SANDBOX).includes(t)) && (
+                                <p className="text-[10px] text-red-500">Scripts with same origin let the page lift its sandbox. Only use them for pages you trust.</p>
+                            )}
+                            <div className="border-t pt-3">
+                                <label htmlFor="embed-allow-input" className="text-[10px] text-gray-400 block mb-1 uppercase font-bold">Allow (permissions)</label>
+                                <input 
+                                    id="embed-allow-input"
+                                    type="text" 
+                                    value={formData.embedAllow ?? DEFAULT_EMBED_ALLOW} 
+                                    onChange={(e) => handleGenericChange('embedAllow', e.target.value)}
+                                    className="w-full px-2 py-1 text-xs border rounded bg-white font-mono outline-none focus:ring-1 focus:ring-blue-500"
+                                    placeholder="fullscreen; geolocation"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <label htmlFor="embed-click-through" className="text-sm text-gray-700" title="Clicks reach the scene script instead of the embedded page">Click-through</label>
+                            <input id="embed-click-through" type="checkbox" checked={formData.embedClickThrough ?? false} onChange={(e) => handleGenericChange('embedClickThrough', e.target.checked)} className="h-4 w-4" />
+                        </div>
+                   </div>
+               )}
+
                {formData.type === ContentType.IMAGE && (
                    <div className="space-y-4">
                         <div>
@@ -448,13 +1026,27 @@ const RightPanel: React.FC<RightPanelProps> = ({
                        <div>
                            <label htmlFor="text-content-input" className="text-xs text-gray-500 font-bold block mb-1 uppercase tracking-wider">Content</label>
                            <textarea id="text-content-input" value={formData.textContent || ''} onChange={(e) => handleGenericChange('textContent', e.target.value)} className="w-full text-sm border border-gray-300 rounded p-2 h-24 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-shadow" />
+                           <div className="flex items-center justify-between mt-2">
+                               <label htmlFor="text-rich" className="text-sm text-gray-700">Rich Text</label>
+                               <input id="text-rich" type="checkbox" checked={formData.richText ?? false} onChange={(e) => handleGenericChange('richText', e.target.checked)} className="h-4 w-4" />
+                           </div>
+                           {formData.richText && (
+                               <p className="text-[10px] text-gray-400 mt-1 font-mono">{RICH_TEXT_HELP}{formData.textDepth ? ' (3D text shows it unstyled)' : ''}</p>
+                           )}
                        </div>
                        
                        <div className="grid grid-cols-2 gap-3">
                            <div>
                                <label htmlFor="font-family-select" className="text-xs text-gray-500 font-bold block mb-1 uppercase tracking-wider">Font Family</label>
-                               <select id="font-family-select" value={formData.font || 'Arial'} onChange={(e) => handleGenericChange('font', e.target.value)} className="w-full text-xs border border-gray-300 rounded p-2 bg-white focus:ring-2 focus:ring-blue-500 outline-none">
-                                   {Object.keys(FONT_MAP).map(f => <option key={f} value={f}>{f}</option>)}
+                               <select id="font-family-select" value={fontAssets.some(a => a.id === formData.fontAssetId) ? `asset:${formData.fontAssetId}` : formData.font || DEFAULT_FONT} onChange={(e) => handleFontChange(e.target.value)} className="w-full text-xs border border-gray-300 rounded p-2 bg-white focus:ring-2 focus:ring-blue-500 outline-none">
+                                   <optgroup label="Built-in">
+                                       {Object.keys(BUILT_IN_FONTS).map(f => <option key={f} value={f}>{f}</option>)}
+                                   </optgroup>
+                                   {fontAssets.length > 0 && (
+                                       <optgroup label="Uploaded">
+                                           {fontAssets.map(a => <option key={a.id} value={`asset:${a.id}`}>{a.name}</option>)}
+                                       </optgroup>
+                                   )}
                                </select>
                            </div>
                            <div>
@@ -502,6 +1094,28 @@ const RightPanel: React.FC<RightPanelProps> = ({
                            </div>
                        </div>
 
+                       <div>
+                           <label className="text-xs text-gray-500 font-bold block mb-1 uppercase tracking-wider">Layout</label>
+                           <div className="grid grid-cols-2 gap-3">
+                               <div>
+                                   <label htmlFor="text-max-width" className="text-xs text-gray-400 block mb-1">Max Width</label>
+                                   <input id="text-max-width" type="number" min="0" step="0.1" placeholder="None" value={formData.textMaxWidth || ''} onChange={(e) => handleGenericChange('textMaxWidth', parseFloat(e.target.value) || undefined)} className="w-full text-xs border rounded p-1 bg-transparent" />
+                               </div>
+                               <div>
+                                   <label htmlFor="text-line-height" className="text-xs text-gray-400 block mb-1">Line Height</label>
+                                   <input id="text-line-height" type="number" min="0.5" step="0.1" value={formData.textLineHeight ?? DEFAULT_LINE_HEIGHT} onChange={(e) => handleGenericChange('textLineHeight', parseFloat(e.target.value) || undefined)} className="w-full text-xs border rounded p-1 bg-transparent" />
+                               </div>
+                               <div>
+                                   <label htmlFor="text-depth" className="text-xs text-gray-400 block mb-1">Depth (3D)</label>
+                                   <input id="text-depth" type="number" min="0" step="0.01" value={formData.textDepth ?? 0} onChange={(e) => handleGenericChange('textDepth', parseFloat(e.target.value) || 0)} className="w-full text-xs border rounded p-1 bg-transparent" />
+                               </div>
+                               <div>
+                                   <label htmlFor="text-bevel" className="text-xs text-gray-400 block mb-1">Bevel</label>
+                                   <input id="text-bevel" type="number" min="0" step="0.005" disabled={!formData.textDepth} value={formData.textBevel ?? 0} onChange={(e) => handleGenericChange('textBevel', parseFloat(e.target.value) || 0)} className="w-full text-xs border rounded p-1 bg-transparent disabled:opacity-50" />
+                               </div>
+                           </div>
+                       </div>
+
                        <div className="space-y-4 pt-2 border-t border-dashed">
                             <ColorInput 
                                 label="Text Color" 
@@ -562,12 +1176,22 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                     <label htmlFor="setting-click-toggle" className="text-sm text-gray-700">Toggle Play on Click</label>
                                     <input id="setting-click-toggle" type="checkbox" checked={formData.videoClickToggle ?? false} onChange={(e) => handleGenericChange('videoClickToggle', e.target.checked)} className="h-4 w-4" />
                                 </div>
-                                <div className="border-t pt-4">
-                                    <div className="flex items-center justify-between mb-2">
-                                        <label htmlFor="setting-chroma-key" className="text-sm font-medium">Chroma Key</label>
-                                        <input id="setting-chroma-key" type="checkbox" checked={formData.chromaKey ?? false} onChange={(e) => handleGenericChange('chromaKey', e.target.checked)} className="h-4 w-4" />
+                                <div className="border-t pt-4 space-y-2">
+                                    <div>
+                                        <label htmlFor="video-transparency" className="text-sm font-medium block mb-1">Transparency</label>
+                                        <select id="video-transparency" value={videoAlphaMode ?? (formData.chromaKey ? 'chroma' : '')} onChange={(e) => handleTransparencyChange(e.target.value)} className="w-full text-xs border rounded p-1 bg-transparent">
+                                            <option value="">None</option>
+                                            <option value="chroma">Chroma key (key color)</option>
+                                            {VIDEO_ALPHA_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                        </select>
                                     </div>
-                                    {formData.chromaKey && (
+                                    {(videoAlphaMode === 'side-by-side' || videoAlphaMode === 'stacked') && (
+                                        <p className="text-[10px] text-gray-400">The alpha matte is grayscale (white is opaque), the same size as the picture and {videoAlphaMode === 'stacked' ? 'under' : 'beside'} it in the same video. The plane shows the picture only.</p>
+                                    )}
+                                    {videoAlphaMode === 'native' && (
+                                        <p className="text-[10px] text-gray-400">WebM with VP9 alpha plays transparent in Chrome, Edge and Firefox. Safari shows it opaque; use a packed matte for every browser.</p>
+                                    )}
+                                    {!videoAlphaMode && formData.chromaKey && (
                                         <ColorInput 
                                             label="Key Color" 
                                             value={formData.chromaColor} 
@@ -582,6 +1206,136 @@ const RightPanel: React.FC<RightPanelProps> = ({
                    </div>
                )}
 
+               {formData.type === ContentType.AUDIO && (
+                   <div className="border-t pt-4 mt-4 space-y-3">
+                        <label className="text-sm font-medium block">Playlist</label>
+                        <PlaylistEditor tracks={getAudioTracks(formData)} audioAssets={audioAssets} onChange={handlePlaylistChange} onNotify={onNotify} />
+                        <div className="flex items-center justify-between">
+                            <label htmlFor="audio-auto-advance" className="text-sm text-gray-700" title="Play the next clip when one ends">Auto-advance</label>
+                            <input id="audio-auto-advance" type="checkbox" checked={formData.audioAutoAdvance ?? true} onChange={(e) => handleGenericChange('audioAutoAdvance', e.target.checked)} className="h-4 w-4" />
+                        </div>
+                        <div>
+                            <label htmlFor="audio-subtitle-mode" className="text-xs text-gray-400 block mb-1">Subtitles</label>
+                            <select id="audio-subtitle-mode" value={formData.subtitleMode ?? ''} onChange={(e) => handleGenericChange('subtitleMode', (e.target.value || undefined) as SubtitleMode | undefined)} className="w-full text-xs border rounded p-1 bg-transparent">
+                                <option value="">Hidden</option>
+                                {SUBTITLE_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                            </select>
+                        </div>
+                        <p className="text-[10px] text-gray-400">Loop starts over after the last clip. Scripts get onEnded for each clip, and onCueEnter and onCueExit for each subtitle cue, even when the subtitles are hidden.</p>
+                   </div>
+               )}
+
+               {formData.type === ContentType.AUDIO && (
+                   <div className="border-t pt-4 mt-4 space-y-3">
+                        <div className="flex items-center justify-between">
+                            <label htmlFor="audio-spatial" className="text-sm font-medium">Spatial Audio</label>
+                            <input id="audio-spatial" type="checkbox" checked={formData.spatialAudio ?? false} onChange={(e) => handleGenericChange('spatialAudio', e.target.checked)} className="h-4 w-4" />
+                        </div>
+                        {spatialAudio && (
+                            <>
+                                <div>
+                                    <label htmlFor="audio-distance-model" className="text-xs text-gray-400 block mb-1">Falloff</label>
+                                    <select id="audio-distance-model" value={spatialAudio.distanceModel} onChange={(e) => handleGenericChange('audioDistanceModel', e.target.value)} className="w-full text-xs border rounded p-1 bg-transparent">
+                                        {AUDIO_DISTANCE_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                    </select>
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <div>
+                                        <label htmlFor="audio-ref-distance" className="text-xs text-gray-400 block mb-1" title="Full volume up to this distance">Ref Distance</label>
+                                        <input id="audio-ref-distance" type="number" min="0.01" step="0.1" value={spatialAudio.refDistance} onChange={(e) => handleGenericChange('audioRefDistance', parseFloat(e.target.value) || undefined)} className="w-full text-xs border rounded p-1 bg-transparent" />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="audio-rolloff" className="text-xs text-gray-400 block mb-1" title="How fast the volume falls past the ref distance">Rolloff</label>
+                                        <input id="audio-rolloff" type="number" min="0" step="0.1" value={spatialAudio.rolloff} onChange={(e) => handleGenericChange('audioRolloff', parseFloat(e.target.value))} className="w-full text-xs border rounded p-1 bg-transparent" />
+                                    </div>
+                                    <div>
+                                        <label htmlFor="audio-max-distance" className="text-xs text-gray-400 block mb-1" title="Silent from this distance on">Max Distance</label>
+                                        <input id="audio-max-distance" type="number" min="0" step="0.5" disabled={spatialAudio.distanceModel !== 'linear'} value={spatialAudio.maxDistance} onChange={(e) => handleGenericChange('audioMaxDistance', parseFloat(e.target.value) || undefined)} className="w-full text-xs border rounded p-1 bg-transparent disabled:opacity-50" />
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="text-xs text-gray-500 font-bold block mb-1 uppercase tracking-wider">Cone</label>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        <div>
+                                            <label htmlFor="audio-cone-inner" className="text-xs text-gray-400 block mb-1" title="Degrees around the facing direction at full volume">Inner °</label>
+                                            <input id="audio-cone-inner" type="number" min="0" max="360" step="5" value={spatialAudio.coneInner} onChange={(e) => handleGenericChange('audioConeInner', parseFloat(e.target.value))} className="w-full text-xs border rounded p-1 bg-transparent" />
+                                        </div>
+                                        <div>
+                                            <label htmlFor="audio-cone-outer" className="text-xs text-gray-400 block mb-1">Outer °</label>
+                                            <input id="audio-cone-outer" type="number" min="0" max="360" step="5" value={spatialAudio.coneOuter} onChange={(e) => handleGenericChange('audioConeOuter', parseFloat(e.target.value))} className="w-full text-xs border rounded p-1 bg-transparent" />
+                                        </div>
+                                        <div>
+                                            <label htmlFor="audio-cone-outer-gain" className="text-xs text-gray-400 block mb-1" title="Volume outside the outer cone, 0 to 1">Outer Gain</label>
+                                            <input id="audio-cone-outer-gain" type="number" min="0" max="1" step="0.05" value={spatialAudio.coneOuterGain} onChange={(e) => handleGenericChange('audioConeOuterGain', parseFloat(e.target.value))} className="w-full text-xs border rounded p-1 bg-transparent" />
+                                        </div>
+                                    </div>
+                                </div>
+                                <p className="text-[10px] text-gray-400">Louder as the camera gets closer. Distances are in the content's units; the editor shows full volume and {AUDIO_FALLOFF_GAIN * 100}% volume as spheres, and the cone when it is narrower than 180°.</p>
+                            </>
+                        )}
+                   </div>
+               )}
+
+               {(formData.type === ContentType.IMAGE || formData.type === ContentType.VIDEO) && (
+                   <div className="border-t pt-4 mt-4 space-y-3">
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label htmlFor="media-aspect-ratio" className="text-xs text-gray-400 block mb-1" title="Lock the plane to a ratio such as 16:9. Leave empty to follow the media">Aspect Ratio</label>
+                                <input 
+                                    id="media-aspect-ratio"
+                                    type="text" 
+                                    list="media-aspect-ratio-presets"
+                                    placeholder="Original"
+                                    value={formData.aspectRatio || ''} 
+                                    onChange={(e) => handleGenericChange('aspectRatio', e.target.value.trim() || undefined)}
+                                    className={`w-full px-2 py-1 text-sm border rounded bg-gray-50 ${hasInvalidAspectRatio ? 'border-red-400' : ''}`}
+                                />
+                                <datalist id="media-aspect-ratio-presets">
+                                    {ASPECT_RATIO_PRESETS.map(r => <option key={r} value={r} />)}
+                                </datalist>
+                            </div>
+                            <div>
+                                <label htmlFor="media-fit-mode" className="text-xs text-gray-400 block mb-1">Fit</label>
+                                <select 
+                                    id="media-fit-mode"
+                                    value={formData.fitMode || DEFAULT_FIT_MODE} 
+                                    onChange={(e) => handleGenericChange('fitMode', e.target.value)}
+                                    disabled={!hasAspectRatio || hasInvalidAspectRatio}
+                                    className="w-full px-2 py-1 text-sm border rounded bg-white disabled:opacity-50"
+                                >
+                                    {FIT_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                        {hasInvalidAspectRatio && (
+                            <p className="text-[10px] text-red-500">Use a ratio like 16:9 or 1.5. The media's own aspect is used until then.</p>
+                        )}
+                   </div>
+               )}
+
+               {formData.type === ContentType.OCCLUDER && (
+                   <div className="space-y-4">
+                        <div>
+                            <label htmlFor="occluder-shape" className="text-xs text-gray-400 block mb-1">Shape</label>
+                            <select id="occluder-shape" value={formData.occluderShape ?? DEFAULT_OCCLUDER_SHAPE} onChange={(e) => handleGenericChange('occluderShape', e.target.value)} className="w-full text-xs border rounded p-1 bg-transparent">
+                                {OCCLUDER_SHAPES.map(shape => <option key={shape.id} value={shape.id}>{shape.label}</option>)}
+                            </select>
+                        </div>
+                        {formData.occluderShape === 'model' && (
+                            <div>
+                                <label htmlFor="occluder-model" className="text-xs text-gray-400 block mb-1">Model</label>
+                                <select id="occluder-model" value={formData.modelUrl ?? ''} onChange={(e) => handleGenericChange('modelUrl', e.target.value || undefined)} className="w-full text-xs border rounded p-1 bg-transparent">
+                                    <option value="">None</option>
+                                    {formData.modelUrl && !modelAssets.some(a => a.url === formData.modelUrl) && <option value={formData.modelUrl}>Current model (not in assets)</option>}
+                                    {modelAssets.map(a => <option key={a.id} value={a.url}>{a.name}</option>)}
+                                </select>
+                                {modelAssets.length === 0 && <p className="text-[10px] text-gray-400 mt-1">Upload a .glb or .gltf model in the Asset Manager.</p>}
+                            </div>
+                        )}
+                        <p className="text-[10px] text-gray-400">Match the physical object the target is printed on. Content behind it is hidden in AR; the editor shows it as a ghost.</p>
+                   </div>
+               )}
+
                {formData.type === ContentType.MODEL && (
                    <div className="space-y-4">
                        <div className="flex items-center justify-between">
@@ -596,13 +1350,100 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                 <option value="pingpong">Ping-Pong</option>
                             </select>
                         </div>
-                        
-                        {formData.materialNames && formData.materialNames.length > 0 && (
+                        {animationClips.length > 0 ? (
+                            <div>
+                                <label htmlFor="model-default-clip" className="text-xs text-gray-400 block mb-1">Default Clip</label>
+                                <select
+                                    id="model-default-clip"
+                                    value={defaultClip}
+                                    onChange={(e) => handleGenericChange('animationClip', e.target.value)}
+                                    className="w-full text-xs border rounded p-1 bg-transparent"
+                                >
+                                    {animationClips.map(clip => <option key={clip} value={clip}>{clip}</option>)}
+                                </select>
+                                <ol className="mt-2 text-xs border rounded divide-y max-h-32 overflow-y-auto">
+                                    {animationClips.map((clip, index) => (
+                                        <li key={clip} className="flex items-center gap-2 px-2 py-1">
+                                            <span className="w-4 text-right text-gray-400 font-mono">{index}</span>
+                                            <span className="flex-1 truncate" title={clip}>{clip}</span>
+                                            {clip === defaultClip && <span className="text-[10px] text-gray-400">default</span>}
+                                        </li>
+                                    ))}
+                                </ol>
+                                <p className="text-[10px] text-gray-400 mt-1">Scripts play clips by name or index, e.g. <code>obj.play('{defaultClip}', {'{ fade: 0.3 }'})</code>.</p>
+                            </div>
+                        ) : (
+                            <p className="text-[10px] text-gray-400">This model has no animation clips.</p>
+                        )}
+
+                        {formData.morphTargetNames && formData.morphTargetNames.length > 0 && (
+                            <div className="border-t pt-4 mt-4">
+                                <div className="flex items-center justify-between mb-3">
+                                    <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Blendshapes</h4>
+                                    <button
+                                        onClick={() => handleGenericChange('morphTargets', undefined)}
+                                        disabled={!formData.morphTargets || Object.keys(formData.morphTargets).length === 0}
+                                        className="text-[10px] text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+                                    >
+                                        Reset
+                                    </button>
+                                </div>
+                                <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+                                    {formData.morphTargetNames.map((name, index) => (
+                                        <div key={name}>
+                                            <div className="flex justify-between items-center mb-1">
+                                                <label htmlFor={`model-morph-${index}`} className="text-xs text-gray-500 truncate" title={name}>{name}</label>
+                                                <span className="text-[10px] text-gray-400 font-mono">{(formData.morphTargets?.[name] ?? 0).toFixed(2)}</span>
+                                            </div>
+                                            <input
+                                                id={`model-morph-${index}`}
+                                                type="range" min="0" max="1" step="0.01"
+                                                value={formData.morphTargets?.[name] ?? 0}
+                                                onChange={(e) => handleGenericChange('morphTargets', { ...formData.morphTargets, [name]: parseFloat(e.target.value) })}
+                                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                                <p className="text-[10px] text-gray-400 mt-2">Scripts can change them with <code>obj.setMorph(name, value)</code>.</p>
+                            </div>
+                        )}
+                   </div>
+               )}
+
+               {formData.type === ContentType.SHAPE && (
+                   <div className="space-y-4">
+                        <div>
+                            <label htmlFor="shape-kind" className="text-xs text-gray-400 block mb-1">Shape</label>
+                            <select id="shape-kind" value={shapeKind.id} onChange={(e) => handleShapeKindChange(e.target.value as ShapeKind)} className="w-full text-xs border rounded p-1 bg-transparent">
+                                {SHAPE_KINDS.map(kind => <option key={kind.id} value={kind.id}>{kind.label}</option>)}
+                            </select>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            {(Object.keys(shapeKind.size) as (keyof ShapeSize)[]).map(key => (
+                                <div key={key}>
+                                    <label htmlFor={`shape-${key}`} className="text-xs text-gray-400 block mb-1">{SHAPE_SIZE_LABELS[key]}</label>
+                                    <input
+                                        id={`shape-${key}`}
+                                        type="number" min="0" step="0.05"
+                                        value={getShapeSize(formData)[key]}
+                                        onChange={(e) => handleGenericChange('shapeSize', { ...formData.shapeSize, [key]: parseFloat(e.target.value) || 0 })}
+                                        className="w-full text-xs border rounded p-1 bg-transparent"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                   </div>
+               )}
+
+               {(formData.type === ContentType.MODEL || formData.type === ContentType.SHAPE) && (
+                   <div>
+                        {(formData.type === ContentType.SHAPE || (formData.materialNames && formData.materialNames.length > 0)) && (
                             <div className="border-t pt-4 mt-4">
                                 <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">Material Editor</h4>
                                 
                                 {/* Material Selector */}
-                                <div className="mb-4">
+                                <div className={formData.type === ContentType.SHAPE ? 'hidden' : 'mb-4'}>
                                     <label htmlFor="material-selector" className="text-xs text-gray-400 block mb-1">Select Material</label>
                                     <select 
                                         id="material-selector"
@@ -614,19 +1455,19 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                         className="w-full text-xs border rounded p-1 bg-white focus:ring-2 focus:ring-blue-500 outline-none"
                                     >
                                         <option value="">-- Choose Material to Edit --</option>
-                                        {formData.materialNames.map(name => (
+                                        {(formData.materialNames ?? []).map(name => (
                                             <option key={name} value={name}>{name}</option>
                                         ))}
                                     </select>
                                 </div>
 
-                                {selectedMaterial && (
+                                {editedMaterial && (
                                     <div className="space-y-4 bg-gray-50 p-3 rounded-lg border">
                                         {/* Color (Albedo) */}
                                         <ColorInput 
                                             label="Base Color"
-                                            value={getMaterialProp(selectedMaterial, 'color') as string}
-                                            onChange={(val) => updateMaterialProp(selectedMaterial, 'color', val)}
+                                            value={getMaterialProp(editedMaterial, 'color') as string}
+                                            onChange={(val) => updateMaterialProp(editedMaterial, 'color', val)}
                                             fallback="#FFFFFF"
                                             id="material-base-color"
                                         />
@@ -637,7 +1478,7 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                                 className="w-full h-8 border rounded bg-white flex items-center px-2 cursor-pointer text-xs text-gray-500 hover:bg-gray-100"
                                                 onClick={() => setOpenImagePicker(!openImagePicker)}
                                             >
-                                                {getMaterialProp(selectedMaterial, 'map') ? 'Texture Set' : 'No Texture'}
+                                                {getMaterialProp(editedMaterial, 'map') ? 'Texture Set' : 'No Texture'}
                                             </div>
                                             {/* Image Picker for Texture */}
                                             {openImagePicker && (
@@ -649,7 +1490,7 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                                     <div className="grid grid-cols-4 gap-2 mb-2 max-h-32 overflow-y-auto p-1">
                                                         <div 
                                                             className="aspect-square border border-gray-300 rounded flex items-center justify-center hover:border-red-500 cursor-pointer bg-gray-100 text-gray-400 text-[9px] text-center"
-                                                            onClick={() => updateMaterialProp(selectedMaterial, 'map', '')}
+                                                            onClick={() => updateMaterialProp(editedMaterial, 'map', '')}
                                                             title="Remove Texture"
                                                         >
                                                             None
@@ -659,14 +1500,14 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                                                 key={asset.id} 
                                                                 src={asset.url} 
                                                                 className="aspect-square object-cover border border-gray-300 rounded hover:border-blue-500 cursor-pointer bg-white"
-                                                                onClick={() => handleTextureOverride(selectedMaterial, asset.url)}
+                                                                onClick={() => handleTextureOverride(editedMaterial, asset.url)}
                                                                 title={asset.name}
                                                             />
                                                         ))}
                                                     </div>
                                                     <div className="relative">
                                                         <button 
-                                                            onClick={() => initiateUpload('material', selectedMaterial)}
+                                                            onClick={() => initiateUpload('material', editedMaterial)}
                                                             className="w-full py-1 bg-gray-50 border rounded hover:bg-gray-100 flex items-center justify-center gap-1 text-gray-700"
                                                         >
                                                             <ImageIcon className="w-3 h-3" /> Upload New
@@ -683,8 +1524,8 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                                 <input 
                                                     id="material-metalness"
                                                     type="range" min="0" max="1" step="0.05"
-                                                    value={(getMaterialProp(selectedMaterial, 'metalness') as number) ?? 0}
-                                                    onChange={(e) => updateMaterialProp(selectedMaterial, 'metalness', parseFloat(e.target.value))}
+                                                    value={(getMaterialProp(editedMaterial, 'metalness') as number) ?? 0}
+                                                    onChange={(e) => updateMaterialProp(editedMaterial, 'metalness', parseFloat(e.target.value))}
                                                     className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
                                                 />
                                             </div>
@@ -693,8 +1534,8 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                                 <input 
                                                     id="material-roughness"
                                                     type="range" min="0" max="1" step="0.05"
-                                                    value={(getMaterialProp(selectedMaterial, 'roughness') as number) ?? 1}
-                                                    onChange={(e) => updateMaterialProp(selectedMaterial, 'roughness', parseFloat(e.target.value))}
+                                                    value={(getMaterialProp(editedMaterial, 'roughness') as number) ?? 1}
+                                                    onChange={(e) => updateMaterialProp(editedMaterial, 'roughness', parseFloat(e.target.value))}
                                                     className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
                                                 />
                                             </div>
@@ -708,8 +1549,8 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                                     <input 
                                                         type="checkbox" 
                                                         id="mat-trans" 
-                                                        checked={(getMaterialProp(selectedMaterial, 'transparent') as boolean) ?? false}
-                                                        onChange={(e) => updateMaterialProp(selectedMaterial, 'transparent', e.target.checked)}
+                                                        checked={(getMaterialProp(editedMaterial, 'transparent') as boolean) ?? false}
+                                                        onChange={(e) => updateMaterialProp(editedMaterial, 'transparent', e.target.checked)}
                                                     />
                                                     <label htmlFor="mat-trans" className="text-[10px] text-gray-400">Transparent</label>
                                                 </div>
@@ -717,8 +1558,8 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                             <input 
                                                 id="material-opacity"
                                                 type="range" min="0" max="1" step="0.05"
-                                                value={(getMaterialProp(selectedMaterial, 'opacity') as number) ?? 1}
-                                                onChange={(e) => updateMaterialProp(selectedMaterial, 'opacity', parseFloat(e.target.value))}
+                                                value={(getMaterialProp(editedMaterial, 'opacity') as number) ?? 1}
+                                                onChange={(e) => updateMaterialProp(editedMaterial, 'opacity', parseFloat(e.target.value))}
                                                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
                                             />
                                         </div>
@@ -726,8 +1567,8 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                         {/* Emissive */}
                                         <ColorInput 
                                             label="Emissive"
-                                            value={getMaterialProp(selectedMaterial, 'emissive') as string}
-                                            onChange={(val) => updateMaterialProp(selectedMaterial, 'emissive', val)}
+                                            value={getMaterialProp(editedMaterial, 'emissive') as string}
+                                            onChange={(val) => updateMaterialProp(editedMaterial, 'emissive', val)}
                                             fallback="#000000"
                                             id="material-emissive-color"
                                         />
@@ -737,8 +1578,8 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                             <input 
                                                 type="checkbox" 
                                                 id="mat-wire" 
-                                                checked={(getMaterialProp(selectedMaterial, 'wireframe') as boolean) ?? false}
-                                                onChange={(e) => updateMaterialProp(selectedMaterial, 'wireframe', e.target.checked)}
+                                                checked={(getMaterialProp(editedMaterial, 'wireframe') as boolean) ?? false}
+                                                onChange={(e) => updateMaterialProp(editedMaterial, 'wireframe', e.target.checked)}
                                             />
                                             <label htmlFor="mat-wire" className="text-xs text-gray-700">Wireframe</label>
                                         </div>
@@ -749,6 +1590,69 @@ const RightPanel: React.FC<RightPanelProps> = ({
                    </div>
                )}
             </section>
+            <section className="border-t border-border-subtle pt-6">
+               <h4 className="text-xs font-semibold text-text-tertiary uppercase tracking-wider mb-3">Animation</h4>
+               <div className="space-y-3">
+                   {(['in', 'out'] as AnimationDirection[]).map(direction => {
+                       const key = direction === 'in' ? 'animationIn' : 'animationOut';
+                       const options = CONTENT_ANIMATIONS.filter(a => !a.textOnly || formData.type === ContentType.TEXT);
+                       return (
+                           <div key={direction}>
+                               <label htmlFor={`anim-${direction}`} className="text-xs text-gray-400 block mb-1">
+                                   {direction === 'in' ? 'Entry (target found)' : 'Exit (target lost)'}
+                               </label>
+                               <div className="flex gap-2">
+                                   <select 
+                                       id={`anim-${direction}`}
+                                       value={formData[key] || 'none'} 
+                                       onChange={(e) => {
+                                           const value = e.target.value === 'none' ? undefined : e.target.value;
+                                           handleGenericChange(key, value);
+                                           if (value) handleAnimationPreview(direction, { [key]: value });
+                                       }}
+                                       className="flex-1 px-2 py-1 text-sm border rounded bg-white"
+                                   >
+                                       {options.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+                                   </select>
+                                   <button 
+                                       onClick={() => handleAnimationPreview(direction)}
+                                       disabled={!formData[key]}
+                                       className="px-2 py-1 text-xs font-semibold border rounded bg-gray-50 hover:bg-gray-100 disabled:opacity-40"
+                                   >
+                                       Preview
+                                   </button>
+                               </div>
+                           </div>
+                       );
+                   })}
+                   <div className="grid grid-cols-2 gap-2">
+                       <div>
+                           <label htmlFor="anim-delay" className="text-xs text-gray-400 block mb-1">Entry Delay (ms)</label>
+                           <input 
+                               id="anim-delay"
+                               type="number" 
+                               min="0"
+                               step="50"
+                               value={formData.delay ?? 0} 
+                               onChange={(e) => handleGenericChange('delay', Math.max(0, parseInt(e.target.value) || 0))}
+                               className="w-full px-2 py-1 text-sm border rounded bg-gray-50"
+                           />
+                       </div>
+                       <div>
+                           <label htmlFor="anim-duration" className="text-xs text-gray-400 block mb-1">Duration (ms)</label>
+                           <input 
+                               id="anim-duration"
+                               type="number" 
+                               min="50"
+                               step="50"
+                               value={formData.duration ?? DEFAULT_ANIMATION_DURATION} 
+                               onChange={(e) => handleGenericChange('duration', Math.max(50, parseInt(e.target.value) || DEFAULT_ANIMATION_DURATION))}
+                               className="w-full px-2 py-1 text-sm border rounded bg-gray-50"
+                           />
+                       </div>
+                   </div>
+               </div>
+            </section>
           </>
         ) : selectedTarget ? (
           <div className="space-y-6">
@@ -764,8 +1668,36 @@ const RightPanel: React.FC<RightPanelProps> = ({
                 </div>
             </section>
             <section className="border-t pt-6">
-              <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">Scripting</h4>
-              <textarea id="script-editor" value={scriptData} onChange={handleScriptChange} className="w-full h-[300px] text-[11px] font-mono border rounded p-2 bg-gray-50 focus:bg-white transition-colors" spellCheck={false} placeholder="// function onUpdate({target, deltaTime}) { ... }" />
+                <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">Lighting</h4>
+                <div className="flex items-center gap-2 mb-3">
+                    <input
+                        type="checkbox"
+                        id="target-own-lights"
+                        checked={!!selectedTarget.lights}
+                        onChange={(e) => handleTargetLightsToggle(e.target.checked)}
+                    />
+                    <label htmlFor="target-own-lights" className="text-sm text-gray-700">Own lights for this target</label>
+                </div>
+                {selectedTarget.lights ? (
+                    <LightsEditor idPrefix="target-light" lights={selectedTarget.lights} onChange={(lights) => onTargetUpdate?.({ ...selectedTarget, lights })} />
+                ) : (
+                    <p className="text-xs text-gray-400">Lit by the project's lights, set in Scene Settings.</p>
+                )}
+            </section>
+            <section className="border-t pt-6">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Scripting</h4>
+                <select id="script-language" value={scriptLanguage} onChange={(e) => handleScriptLanguageChange(e.target.value as ScriptLanguage)} className="text-xs border rounded p-1 bg-transparent">
+                  <option value="javascript">JavaScript</option>
+                  <option value="typescript">TypeScript</option>
+                </select>
+              </div>
+              <ScriptEditor value={scriptData} onChange={handleScriptChange} language={scriptLanguage} target={selectedTarget} runtimeError={scriptError?.inProjectScript ? null : scriptError} />
+              {scriptLanguage === 'typescript' && (
+                <button onClick={handleDownloadTypings} className="mt-2 text-xs text-blue-600 hover:underline" title="Declarations of the script API and this target's objects, for editing the script in an IDE">
+                  Download {SCRIPT_TYPINGS_FILE_NAME}
+                </button>
+              )}
             </section>
           </div>
         ) : (
@@ -775,43 +1707,50 @@ const RightPanel: React.FC<RightPanelProps> = ({
                 {sceneSettings && (
                     <div className="space-y-4">
                         <div>
-                            <label htmlFor="scene-ambient-intensity" className="text-xs text-gray-400 block mb-1">Ambient Light Intensity</label>
-                            <input 
-                                id="scene-ambient-intensity"
-                                type="range" min="0" max="2" step="0.1"
-                                value={sceneSettings.ambientLightIntensity ?? 0.8}
-                                onChange={(e) => handleSceneSettingChange('ambientLightIntensity', parseFloat(e.target.value))}
-                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-                            />
-                            <div className="text-right text-xs text-gray-500">{sceneSettings.ambientLightIntensity}</div>
-                        </div>
-                        <div>
-                            <label htmlFor="scene-directional-intensity" className="text-xs text-gray-400 block mb-1">Directional Light Intensity</label>
-                            <input 
-                                id="scene-directional-intensity"
-                                type="range" min="0" max="3" step="0.1"
-                                value={sceneSettings.directionalLightIntensity ?? 1.5}
-                                onChange={(e) => handleSceneSettingChange('directionalLightIntensity', parseFloat(e.target.value))}
-                                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-                            />
-                            <div className="text-right text-xs text-gray-500">{sceneSettings.directionalLightIntensity}</div>
+                            <label className="text-xs text-gray-400 block mb-2">Lights</label>
+                            <LightsEditor idPrefix="scene-light" lights={sceneSettings.lights} onChange={(lights) => handleSceneSettingChange('lights', lights)} />
                         </div>
-                        <div>
-                            <label className="text-xs text-gray-400 block mb-1">Light Position</label>
-                            <div className="grid grid-cols-3 gap-2">
-                                {['x', 'y', 'z'].map((axis, i) => (
-                                    <div key={axis} className="flex items-center gap-1 border rounded px-1 min-w-0">
-                                        <span className="text-[10px] text-gray-400 font-bold flex-shrink-0">{axis.toUpperCase()}</span>
-                                        <input 
-                                            type="number" step="1" 
-                                            name={`scene-directional-pos-${axis}`}
-                                            value={sceneSettings.directionalLightPosition[i] ?? 0} 
-                                            onChange={(e) => handleDirectionalLightPosChange(i, e.target.value)} 
-                                            className="w-full text-xs py-1 focus:outline-none bg-transparent min-w-0" 
+                        <div className="border-t pt-4 space-y-4">
+                            <div>
+                                <label htmlFor="scene-environment" className="text-xs text-gray-400 block mb-1">Environment Map</label>
+                                <select
+                                    id="scene-environment"
+                                    value={environment?.assetId ?? ''}
+                                    onChange={(e) => handleEnvironmentChange(e.target.value)}
+                                    className="w-full text-xs border rounded p-1.5 bg-transparent"
+                                >
+                                    <option value="">None</option>
+                                    {environment && !environmentAssets.some(a => a.id === environment.assetId) && <option value={environment.assetId}>Current map (not in assets)</option>}
+                                    {environmentAssets.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                                </select>
+                                {environmentAssets.length === 0 && <p className="text-xs text-gray-400 mt-1">Upload an .hdr or .exr map in the Asset Manager to light and reflect on models.</p>}
+                            </div>
+                            {environment && (
+                                <>
+                                    <div>
+                                        <label htmlFor="scene-environment-intensity" className="text-xs text-gray-400 block mb-1">Intensity</label>
+                                        <input
+                                            id="scene-environment-intensity"
+                                            type="range" min="0" max="3" step="0.05"
+                                            value={environment.intensity}
+                                            onChange={(e) => handleSceneSettingChange('environment', { ...environment, intensity: parseFloat(e.target.value) })}
+                                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
                                         />
+                                        <div className="text-right text-xs text-gray-500">{environment.intensity}</div>
                                     </div>
-                                ))}
-                            </div>
+                                    <div>
+                                        <label htmlFor="scene-environment-rotation" className="text-xs text-gray-400 block mb-1">Rotation (deg)</label>
+                                        <input
+                                            id="scene-environment-rotation"
+                                            type="range" min="0" max="360" step="1"
+                                            value={environment.rotation}
+                                            onChange={(e) => handleSceneSettingChange('environment', { ...environment, rotation: parseFloat(e.target.value) })}
+                                            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                                        />
+                                        <div className="text-right text-xs text-gray-500">{environment.rotation}°</div>
+                                    </div>
+                                </>
+                            )}
                         </div>
                         <div className="border-t pt-4 space-y-2">
                             <div className="flex items-center gap-2">
@@ -836,6 +1775,24 @@ const RightPanel: React.FC<RightPanelProps> = ({
                     </div>
                 )}
              </section>
+             {project && onProjectScriptChange && (
+               <section className="border-t pt-6">
+                 <div className="flex items-center justify-between mb-3">
+                   <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Project Script</h4>
+                   <select id="project-script-language" value={scriptLanguage} onChange={(e) => handleScriptLanguageChange(e.target.value as ScriptLanguage)} className="text-xs border rounded p-1 bg-transparent">
+                     <option value="javascript">JavaScript</option>
+                     <option value="typescript">TypeScript</option>
+                   </select>
+                 </div>
+                 <p className="text-xs text-gray-400 mb-2">Runs for the whole experience, next to the target scripts. Use it to keep shared state and react to targets being found or lost.</p>
+                 <ScriptEditor value={scriptData} onChange={handleScriptChange} language={scriptLanguage} target={scriptOwner} runtimeError={scriptError?.inProjectScript ? scriptError : null} />
+                 {scriptLanguage === 'typescript' && (
+                   <button onClick={handleDownloadTypings} className="mt-2 text-xs text-blue-600 hover:underline" title="Declarations of the script API, for editing the script in an IDE">
+                     Download {SCRIPT_TYPINGS_FILE_NAME}
+                   </button>
+                 )}
+               </section>
+             )}
           </div>
         )}
       </div>
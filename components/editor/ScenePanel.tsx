@@ -3,14 +3,32 @@
 
 import React, { useRef, useState, useEffect, Suspense, useMemo, useCallback } from 'react';
 import * as THREE from 'three';
-import { Canvas, useThree } from '@react-three/fiber';
+import { Canvas, useThree, useFrame, createPortal, ThreeEvent } from '@react-three/fiber';
 import { OrbitControls, TransformControls, useTexture, Text, Html, useGLTF, GizmoHelper, GizmoViewport, useAnimations, Billboard } from '@react-three/drei';
 import { SkeletonUtils } from 'three-stdlib';
-import { Content, Target, ContentType, FONT_MAP, Asset, MaterialProperties, SceneSettings } from '../../types';
-import { MoveIcon, RotateIcon, ScaleIcon, XMarkIcon, SpeakerIcon, MagnetIcon, ImageIcon, VideoIcon, AudioIcon, CubeIcon, FileIcon } from '../icons/Icons';
+import { Font } from 'three/examples/jsm/loaders/FontLoader.js';
+import { Content, Project, Target, ContentType, Asset, MaterialProperties, SceneEnvironment, SceneLight, SceneSettings, Timeline } from '../../types';
+import { MoveIcon, RotateIcon, ScaleIcon, XMarkIcon, SpeakerIcon, MagnetIcon, ImageIcon, VideoIcon, AudioIcon, CubeIcon, FileIcon, Sparkles, TextIcon } from '../icons/Icons';
 import './ChromaKeyMaterial'; 
-import { useScriptEngine } from './ScriptEngine';
+import './PackedAlphaMaterial';
+import { useScriptEngine, ScriptError, ScriptDebugInfo } from './ScriptEngine';
+import { ScriptStorage, AudioScriptEvent, createScriptAnimator, isSafeScriptUrl } from '../../utils/scriptRuntime';
 import { fileToBase64 } from '../../utils/storage';
+import { getSafeEmbedUrl, getEmbedSandbox, getEmbedSize, DEFAULT_EMBED_ALLOW } from '../../utils/embedUtils';
+import { AnimationDirection, AnimationPreview, IDENTITY_FRAME, AnimationFrame, getContentAnimation, getAnimationTiming, getAnimationProgress, sampleContentAnimation, applyAnimationOpacity } from '../../utils/animationUtils';
+import { detectStreamingVideo, getStreamingService, getStreamingVideoId, getStreamingRange, getPlaybackRate, getStreamingWatchUrl, STREAMING_ASPECT, STREAMING_EMBED_WIDTH, STREAMING_PLANE_HEIGHT } from '../../utils/streamingUtils';
+import { getMediaFit, createMediaPlane } from '../../utils/mediaFitUtils';
+import { getModelRig, applyMorphTargets, findBone } from '../../utils/modelUtils';
+import { buildSceneLight, getSceneLights } from '../../utils/lightingUtils';
+import { loadEnvironmentTexture, createEnvironmentMap } from '../../utils/environmentUtils';
+import { TextFont, TextLayout, resolveTextFont, getTextLayout, loadTextFont, loadFontFace, createExtrudedTextGeometry } from '../../utils/textUtils';
+import { getTextSpans, getPlainText, getTextCanvasStyle, layoutTextCanvas, createTextCanvas, drawTextCanvas, createTextPlane, findTextLink } from '../../utils/richTextUtils';
+import { DEFAULT_SHAPE_KIND, getShapeSize, getShapeMaterial, createShapeGeometry, createShapeMaterial, loadShapeTexture } from '../../utils/shapeUtils';
+import { DEFAULT_OCCLUDER_SHAPE, OCCLUDER_RENDER_ORDER, createOccluderGeometry, createOccluderMaterial, createOccluderGhostMaterial, applyOccluderMaterial } from '../../utils/occluderUtils';
+import { getVideoAlphaMode, getPackedAlphaLayout, getVideoPictureAspect } from '../../utils/videoAlphaUtils';
+import { SpatialAudio, AUDIO_FALLOFF_GAIN, getSpatialAudio, getAudioFalloffDistance, updateSpatialAudio } from '../../utils/audioUtils';
+import { AudioPlaylist, SubtitleCue, SubtitleDisplay, getPlaylistTracks, createAudioPlaylist, createSubtitleDisplay, getSubtitleText } from '../../utils/playlistUtils';
+import { TimelinePlayback, TimelinePose, hasTimelineTracks, sampleTimeline, getPlaybackTime } from '../../utils/timelineUtils';
 import ReactPlayer from 'react-player';
 
 const PLACEHOLDER_MIND = "data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCAxMDAgMTAwIiBmaWxsPSJub25lIiBzdHJva2U9ImN1cnJlbnRDb2xvciI+PHJlY3QgeD0iMjAiIHk9IjIwIiB3aWR0aD0iNjAiIGhlaWdodD0iNjAiIHJ4PSI1IiBmaWxsPSIjZjBmZGY0IiBzdHJva2U9IiMxNmEzNGEiIHN0cm9rZS13aWR0aD0iMiIvPjxwYXRoIGQ9Ik0zNSA1MGwxMCAxMCAyMC0yMCIgc3Ryb2tlPSIjMTZhMzRhIiBzdHJva2Utd2lkdGg9IjUiIHN0cm9rZS1saW5lY2FwPSJyb3VuZCIgc3Ryb2tlLWxpbmVqb2luPSJyb3VuZCIvPjx0ZXh0IHg9IjUwIiB5PSI5MCIgdGV4dC1hbmNob3I9Im1pZGRsZSIgZm9udC1zaXplPSIxMiIgZmlsbD0iIzE2YTM0YSI+TUlORDwvdGV4dD48L3N2Zz4=";
@@ -29,48 +47,6 @@ const fixTexture = (tex: THREE.Texture | THREE.Texture[] | null | undefined) =>
     return tex;
 };
 
-const stripParameters = (str: string) => {
-  if (!str) return '';
-  if (str.indexOf('?') > -1) return str.split('?')[0];
-  if (str.indexOf('/') > -1) return str.split('/')[0];
-  if (str.indexOf('&') > -1) return str.split('&')[0];
-  return str;
-}
-
-const getVideoId = (videoStr: string) => {
-    if (!videoStr) return { id: null, service: null };
-    let str = videoStr.trim();
-    str = str.replace('-nocookie', '').replace('/www.', '').replace(/#t=.*$/, '');
-
-    const shortcode = /youtube:\/\/|https?:\/\/youtu\.be\/|http:\/\/y2u\.be\//g;
-    if (shortcode.test(str)) {
-        const parts = str.split(shortcode);
-        return { id: stripParameters(parts[1] || ''), service: 'youtube' };
-    }
-
-    const parameterv = /v=|vi=/g;
-    if (parameterv.test(str)) {
-        const parts = str.split(parameterv);
-        const p2 = parts[1] || '';
-        return { id: stripParameters(p2.split('&')[0]), service: 'youtube' };
-    }
-
-    const embedreg = /\/embed\/([a-zA-Z0-9_-]{11})/;
-    const embedMatch = str.match(embedreg);
-    if (embedMatch) return { id: embedMatch[1], service: 'youtube' };
-    
-    if (/vimeo/.test(str)) {
-        const primary = /https?:\/\/vimeo\.com\/([0-9]+)/;
-        const matches = primary.exec(str);
-        if (matches && matches[1]) return { id: matches[1], service: 'vimeo' };
-    }
-
-    if (/^\d+$/.test(str)) return { id: str, service: 'vimeo' };
-    if (/^[a-zA-Z0-9_-]{11}$/.test(str)) return { id: str, service: 'youtube' };
-
-    return { id: null, service: null };
-};
-
 const TargetPlane = ({ target, onDeselect }: { target: Target, onDeselect: () => void }) => {
   const texture = useTexture(target.imageUrl);
   fixTexture(texture);
@@ -91,24 +67,76 @@ const TargetPlane = ({ target, onDeselect }: { target: Target, onDeselect: () =>
   );
 };
 
+// Built like the Player's lights so the editor shows what gets published
+const SceneLights = ({ lights }: { lights: SceneLight[] }) => {
+  const objects = useMemo(() => lights.map(buildSceneLight), [lights]);
+  useEffect(() => () => objects.forEach(group => group.traverse((o) => {
+      if ((o as THREE.Light).isLight) (o as THREE.Light).dispose();
+  })), [objects]);
+  return <>{objects.map((object, i) => <primitive key={lights[i].id} object={object} />)}</>;
+};
+
+// The project's HDR environment as scene.environment. Intensity and rotation changes reuse the loaded image.
+const SceneEnvironmentMap = ({ environment }: { environment?: SceneEnvironment }) => {
+  const { gl, scene } = useThree();
+  const [texture, setTexture] = useState<THREE.DataTexture | null>(null);
+
+  useEffect(() => {
+      setTexture(null);
+      if (!environment) return;
+      let loaded: THREE.DataTexture | null = null;
+      let cancelled = false;
+      loadEnvironmentTexture(environment.url, environment.format).then((t) => {
+          if (cancelled) { t.dispose(); return; }
+          loaded = t;
+          setTexture(t);
+      }).catch((e) => console.error('Failed to load environment map', e));
+      return () => { cancelled = true; loaded?.dispose(); };
+  }, [environment?.url, environment?.format]);
+
+  useEffect(() => {
+      if (!texture || !environment) return;
+      const renderTarget = createEnvironmentMap(gl, texture, environment);
+      scene.environment = renderTarget.texture;
+      return () => {
+          if (scene.environment === renderTarget.texture) scene.environment = null;
+          renderTarget.dispose();
+      };
+  }, [gl, scene, texture, environment?.intensity, environment?.rotation]);
+
+  return null;
+};
+
+// Plane sized and UV-cropped for the content's aspectRatio / fitMode
+const useMediaPlane = (content: Content, mediaAspect: number) => {
+    const geometry = useMemo(
+        () => createMediaPlane(getMediaFit(content, mediaAspect)),
+        [content.aspectRatio, content.fitMode, mediaAspect]
+    );
+    useEffect(() => () => geometry.dispose(), [geometry]);
+    return geometry;
+};
+
 const ImageContent = ({ content }: { content: Content }) => {
     if (!content.imageUrl) return null;
     const texture = useTexture(content.imageUrl);
     fixTexture(texture);
     const image = texture.image as { naturalWidth: number; naturalHeight: number; };
     const aspect = image ? image.naturalWidth / image.naturalHeight : 1;
+    const geometry = useMediaPlane(content, aspect);
     return (
-        <mesh>
-            <planeGeometry args={[aspect, 1]} />
+        <mesh geometry={geometry}>
             <meshBasicMaterial map={texture} transparent side={THREE.DoubleSide} toneMapped={false} />
         </mesh>
     );
 };
 
-const ModelContent = ({ content, onLoad, onUpdateMaterialNames }: { 
+const ModelContent = ({ content, isRunning, onLoad, onUpdateModelInfo, onAnimationFinished }: { 
     content: Content, 
+    isRunning: boolean,
     onLoad?: (data: any) => void,
-    onUpdateMaterialNames?: (names: string[]) => void
+    onUpdateModelInfo?: (info: Pick<Content, 'materialNames' | 'animationClips' | 'morphTargetNames' | 'boneNames'>) => void,
+    onAnimationFinished?: (clip: string) => void
 }) => {
     if (!content.modelUrl) return null;
     const gltf = useGLTF(content.modelUrl);
@@ -116,6 +144,15 @@ const ModelContent = ({ content, onLoad, onUpdateMaterialNames }: {
     // Clone scene to allow independent material instances
     const scene = useMemo(() => SkeletonUtils.clone(gltf.scene), [gltf.scene]);
     const { actions, mixer } = useAnimations(gltf.animations, scene);
+
+    // Scripts drive the clips through the same animator as in the Player and the export
+    const onAnimationFinishedRef = useRef(onAnimationFinished);
+    onAnimationFinishedRef.current = onAnimationFinished;
+    const animator = useMemo(
+        () => createScriptAnimator(mixer, actions as Record<string, THREE.AnimationAction>, (clip) => onAnimationFinishedRef.current?.(clip)),
+        [mixer, actions]
+    );
+    useEffect(() => () => animator.dispose(), [animator]);
     
     // Initial material name extraction
     useEffect(() => {
@@ -123,6 +160,9 @@ const ModelContent = ({ content, onLoad, onUpdateMaterialNames }: {
         const matNames = new Set<string>();
         scene.traverse((o) => {
             if (o instanceof THREE.Mesh) {
+                // Models cast and receive the shadows of the scene lights
+                o.castShadow = o.receiveShadow = true;
+
                 // Ensure material exists - generate default if missing
                 if (!o.material) {
                     o.material = new THREE.MeshStandardMaterial({ 
@@ -145,18 +185,29 @@ const ModelContent = ({ content, onLoad, onUpdateMaterialNames }: {
             }
         });
         const names = Array.from(matNames);
+        const clips = gltf.animations.map(clip => clip.name);
+        const { morphTargetNames, boneNames } = getModelRig(scene);
         
         // Update parent state if names have changed
-        // Use sorting to avoid false positives on order changes
-        if (onUpdateMaterialNames) {
+        // Use sorting to avoid false positives on order changes; clip order matters to getAction(index)
+        if (onUpdateModelInfo) {
             const currentNames = content.materialNames || [];
             const sortedNames = [...names].sort();
             const sortedCurrent = [...currentNames].sort();
-            if (JSON.stringify(sortedNames) !== JSON.stringify(sortedCurrent)) {
-                onUpdateMaterialNames(names);
+            const materialsChanged = JSON.stringify(sortedNames) !== JSON.stringify(sortedCurrent);
+            const clipsChanged = JSON.stringify(clips) !== JSON.stringify(content.animationClips || []);
+            const rigChanged = JSON.stringify(morphTargetNames) !== JSON.stringify(content.morphTargetNames || [])
+                || JSON.stringify(boneNames) !== JSON.stringify(content.boneNames || []);
+            if (materialsChanged || clipsChanged || rigChanged) {
+                onUpdateModelInfo({ materialNames: names, animationClips: clips, morphTargetNames, boneNames });
             }
         }
-    }, [scene, onUpdateMaterialNames, content.materialNames]);
+    }, [scene, gltf.animations, onUpdateModelInfo, content.materialNames, content.animationClips, content.morphTargetNames, content.boneNames]);
+
+    // Scripts may change morph targets with setMorph(); stopping the preview restores the content's
+    useEffect(() => {
+        applyMorphTargets(scene, content.morphTargets);
+    }, [scene, content.morphTargets, isRunning]);
 
     // Apply Material Overrides
     useEffect(() => {
@@ -235,27 +286,145 @@ const ModelContent = ({ content, onLoad, onUpdateMaterialNames }: {
     }, [scene, content.textureOverrides, content.materialOverrides]);
 
     useEffect(() => {
-        if (scene && onLoad) onLoad({ actions, animations: gltf.animations });
-    }, [scene, actions, gltf.animations, onLoad]);
+        if (scene && onLoad) onLoad({ actions, animations: gltf.animations, animator, scene });
+    }, [scene, actions, gltf.animations, animator, onLoad]);
 
     useEffect(() => {
-        if (!actions) return;
-        mixer.stopAllAction();
-        if (content.animateAutostart && gltf.animations.length > 0) {
-            const action = actions[gltf.animations[0].name];
-            if (action) {
-                action.reset();
-                if (content.animateLoop === 'once') { action.setLoop(THREE.LoopOnce, 1); action.clampWhenFinished = true; }
-                else if (content.animateLoop === 'pingpong') action.setLoop(THREE.LoopPingPong, Infinity);
-                else action.setLoop(THREE.LoopRepeat, Infinity);
-                action.play();
-            }
-        }
-    }, [actions, mixer, content.animateAutostart, content.animateLoop, gltf.animations]);
+        animator.stopAll();
+        if (content.animateAutostart) animator.playDefault(content.animationClip, content.animateLoop);
+    }, [animator, content.animateAutostart, content.animateLoop, content.animationClip]);
 
     return <primitive object={scene} />;
 };
 
+// Extruded text waits for the font's outlines, loaded once per font
+const ExtrudedText = ({ content, font, layout, length }: { content: Content, font: TextFont, layout: TextLayout, length: number }) => {
+    const [typeface, setTypeface] = useState<Font | null>(null);
+    useEffect(() => {
+        let cancelled = false;
+        loadTextFont(font.url)
+            .then((loaded) => { if (!cancelled) setTypeface(loaded); })
+            .catch((error) => console.error('Failed to load font for extruded text:', error));
+        return () => { cancelled = true; };
+    }, [font.url]);
+
+    // One font and color, so rich text shows as plain text
+    const text = useMemo(() => getPlainText(getTextSpans(content)), [content.textContent, content.richText]);
+    const geometry = useMemo(
+        () => typeface ? createExtrudedTextGeometry(typeface, text, layout, length) : null,
+        [typeface, text, length, layout.fontSize, layout.lineHeight, layout.maxWidth, layout.depth, layout.bevel, layout.align]
+    );
+    useEffect(() => () => geometry?.dispose(), [geometry]);
+
+    if (!geometry) return null;
+    return (
+        <mesh geometry={geometry} castShadow receiveShadow>
+            <meshStandardMaterial color={content.color || '#000000'} roughness={0.5} />
+        </mesh>
+    );
+};
+
+// Flat text is drawn to a canvas like in the Player and the published app, rich text and emoji included
+const FlatText = ({ content, font, layout, length, isRunning }: { content: Content, font: TextFont, layout: TextLayout, length: number, isRunning: boolean }) => {
+    // Laid out again once the font can be measured
+    const [fontLoads, setFontLoads] = useState(0);
+    useEffect(() => {
+        let cancelled = false;
+        loadFontFace(font)
+            .catch((error) => console.warn('Failed to load font, using a fallback:', error))
+            .finally(() => { if (!cancelled) setFontLoads(n => n + 1); });
+        return () => { cancelled = true; };
+    }, [font.family, font.url]);
+
+    const style = useMemo(
+        () => getTextCanvasStyle(content, font),
+        [font.family, content.color, content.outlineColor, content.outlineWidth]
+    );
+    const spans = useMemo(() => getTextSpans(content), [content.textContent, content.richText, content.weight, content.style]);
+    const textLayout = useMemo(
+        () => layoutTextCanvas(spans, layout, style),
+        [spans, style, fontLoads, layout.fontSize, layout.lineHeight, layout.maxWidth, layout.align]
+    );
+
+    const { canvas, texture, geometry } = useMemo(() => {
+        const canvas = createTextCanvas(textLayout);
+        const texture = new THREE.CanvasTexture(canvas);
+        texture.colorSpace = THREE.SRGBColorSpace;
+        return { canvas, texture, geometry: createTextPlane(textLayout) };
+    }, [textLayout]);
+    useEffect(() => () => { texture.dispose(); geometry.dispose(); }, [texture, geometry]);
+
+    useEffect(() => {
+        drawTextCanvas(canvas, textLayout, style, length);
+        texture.needsUpdate = true;
+    }, [canvas, texture, textLayout, style, length]);
+
+    // Links open like openUrl() when the scene runs; the click still reaches the scripts
+    const handleClick = (e: ThreeEvent<MouseEvent>) => {
+        if (!isRunning || !e.uv) return;
+        const url = findTextLink(textLayout, e.uv);
+        if (url && isSafeScriptUrl(url)) window.open(url, '_blank');
+    };
+
+    return (
+        <mesh geometry={geometry} onClick={handleClick}>
+            <meshBasicMaterial map={texture} transparent side={THREE.DoubleSide} toneMapped={false} />
+        </mesh>
+    );
+};
+
+const TextContent = ({ content, assets, textProgress, isRunning }: { content: Content, assets: Asset[], textProgress: number, isRunning: boolean }) => {
+    const font = resolveTextFont(content, assets);
+    const layout = getTextLayout(content);
+    const length = Math.round(getPlainText(getTextSpans(content)).length * textProgress);
+
+    return layout.depth > 0
+        ? <ExtrudedText content={content} font={font} layout={layout} length={length} />
+        : <FlatText content={content} font={font} layout={layout} length={length} isRunning={isRunning} />;
+};
+
+const ShapeContent = ({ content }: { content: Content }) => {
+    const kind = content.shapeKind ?? DEFAULT_SHAPE_KIND;
+    const size = getShapeSize(content);
+    const geometry = useMemo(() => createShapeGeometry(kind, size), [kind, ...Object.values(size)]);
+    useEffect(() => () => geometry.dispose(), [geometry]);
+
+    const props = getShapeMaterial(content);
+    const material = useMemo(() => createShapeMaterial(props, loadShapeTexture), [props]);
+    useEffect(() => () => {
+        material.map?.dispose();
+        material.dispose();
+    }, [material]);
+
+    return <mesh geometry={geometry} material={material} castShadow receiveShadow />;
+};
+
+// Occluders show as a ghost while editing and hide what is behind them once the scene runs
+const useOccluderMaterial = (isRunning: boolean) => {
+    const material = useMemo(() => isRunning ? createOccluderMaterial() : createOccluderGhostMaterial(), [isRunning]);
+    useEffect(() => () => material.dispose(), [material]);
+    return material;
+};
+
+const OccluderModel = ({ url, material }: { url: string, material: THREE.Material }) => {
+    const gltf = useGLTF(url);
+    const scene = useMemo(() => SkeletonUtils.clone(gltf.scene), [gltf.scene]);
+    useEffect(() => { applyOccluderMaterial(scene, material); }, [scene, material]);
+    return <primitive object={scene} />;
+};
+
+const OccluderContent = ({ content, isRunning }: { content: Content, isRunning: boolean }) => {
+    const shape = content.occluderShape ?? DEFAULT_OCCLUDER_SHAPE;
+    const material = useOccluderMaterial(isRunning);
+    const geometry = useMemo(() => shape === 'model' ? null : createOccluderGeometry(shape), [shape]);
+    useEffect(() => () => geometry?.dispose(), [geometry]);
+
+    if (shape === 'model') {
+        return content.modelUrl ? <Suspense fallback={null}><OccluderModel url={content.modelUrl} material={material} /></Suspense> : null;
+    }
+    return <mesh geometry={geometry!} material={material} renderOrder={OCCLUDER_RENDER_ORDER} />;
+};
+
 const ThumbnailMaterial = ({ url }: { url: string }) => {
     const texture = useTexture(url);
     fixTexture(texture);
@@ -263,11 +432,16 @@ const ThumbnailMaterial = ({ url }: { url: string }) => {
 };
 
 const EmbedContent = React.memo(({ content, onLoad, isRunning }: { content: Content, onLoad?: (data: any) => void, isRunning: boolean }) => {
-    const { id: detectedId, service: detectedService } = useMemo(() => getVideoId(content.videoUrl || ''), [content.videoUrl]);
-    const service = content.streamingService || detectedService || 'youtube';
-    const videoId = detectedId;
-
-    const { autoplay, loop, videoClickToggle, videoControls, videoFullScreen } = content;
+    // Plain VIDEO content pointing at a YouTube/Vimeo URL is still sniffed for backwards compatibility
+    const { service, videoId } = useMemo(() => {
+        const explicit = getStreamingService(content);
+        if (explicit) return { service: explicit, videoId: getStreamingVideoId(content) };
+        const detected = detectStreamingVideo(content.videoUrl);
+        return { service: detected.service || 'youtube', videoId: detected.id };
+    }, [content.type, content.videoUrl, content.streamingService]);
+    const { start, end } = getStreamingRange(content);
+
+    const { autoplay, loop, videoClickToggle, videoControls, videoFullScreen, videoCaptions, videoCaptionLang } = content;
     const [hasError, setHasError] = useState(false);
     
     // States that can be controlled by script
@@ -275,22 +449,20 @@ const EmbedContent = React.memo(({ content, onLoad, isRunning }: { content: Cont
     const [muted, setMuted] = useState(content.muted ?? false);
     const [volume, setVolume] = useState(0.8);
     const [loopState, setLoopState] = useState(content.loop ?? false);
+    const [playbackRate, setPlaybackRate] = useState(getPlaybackRate(content));
 
     const playerRef = useRef<ReactPlayer>(null);
     const wrapperRef = useRef<HTMLDivElement>(null);
 
-    const DEFAULT_EMBED_WIDTH = 1000;
-    const height = 3;
-    const aspect = 16 / 9;
+    const height = STREAMING_PLANE_HEIGHT;
+    const aspect = STREAMING_ASPECT;
     const width = height * aspect; 
-    const scale = (width * 40) / DEFAULT_EMBED_WIDTH;
+    const scale = (width * 40) / STREAMING_EMBED_WIDTH;
 
     const videoUrl = useMemo(() => {
         if (!videoId) return undefined;
         // Use standard youtube.com URL to avoid potential issues with nocookie domain API initialization
-        if (service === 'youtube') return `https://www.youtube.com/watch?v=${videoId}`;
-        if (service === 'vimeo') return `https://vimeo.com/${videoId}`;
-        return undefined;
+        return getStreamingWatchUrl(service, videoId);
     }, [videoId, service]);
 
     useEffect(() => {
@@ -303,6 +475,10 @@ const EmbedContent = React.memo(({ content, onLoad, isRunning }: { content: Cont
         setLoopState(content.loop ?? false);
     }, [content.loop]);
 
+    useEffect(() => {
+        setPlaybackRate(getPlaybackRate(content));
+    }, [content.videoPlaybackRate]);
+
     const handlePlayerReady = useCallback((player: any) => {
         // Fix for Error 153: Manually set referrerPolicy on the YouTube iframe
         try {
@@ -317,13 +493,36 @@ const EmbedContent = React.memo(({ content, onLoad, isRunning }: { content: Cont
             // Ignore errors if internal player structure differs
         }
 
+        // Vimeo ignores start offsets passed through the watch URL
+        if (service === 'vimeo' && start) player.seekTo(start, 'seconds');
+
         if (onLoad) {
             onLoad({
                 player: {
                     playVideo: () => setPlaying(true),
                     pauseVideo: () => setPlaying(false),
-                    stopVideo: () => { setPlaying(false); player.seekTo(0); },
+                    stopVideo: () => { setPlaying(false); player.seekTo(start, 'seconds'); },
                     seekTo: (seconds: number) => player.seekTo(seconds, 'seconds'),
+                    setPlaybackRate: (rate: number) => setPlaybackRate(Math.min(2, Math.max(0.25, rate))),
+                    setCaptions: (enabled: boolean, lang?: string) => {
+                        const internal = player.getInternalPlayer();
+                        if (!internal) return;
+                        const language = lang ?? videoCaptionLang;
+                        if (service === 'youtube') {
+                            if (enabled) {
+                                internal.loadModule?.('captions');
+                                if (language) internal.setOption?.('captions', 'track', { languageCode: language });
+                            } else {
+                                internal.unloadModule?.('captions');
+                            }
+                        } else if (enabled) {
+                            internal.enableTextTrack?.(language || 'en');
+                        } else {
+                            internal.disableTextTrack?.();
+                        }
+                    },
+                    getVideoId: () => videoId,
+                    getService: () => service,
                     setVolume: (v: number) => setVolume(v),
                     setMuted: (m: boolean) => setMuted(m),
                     setLoop: (l: boolean) => setLoopState(l),
@@ -336,7 +535,14 @@ const EmbedContent = React.memo(({ content, onLoad, isRunning }: { content: Cont
                 }
             });
         }
-    }, [onLoad, playing, loopState]);
+    }, [onLoad, playing, loopState, service, start, videoId, videoCaptionLang]);
+
+    // Enforce the end offset, which the players only honour on first load
+    const handleProgress = useCallback(({ playedSeconds }: { playedSeconds: number }) => {
+        if (end === undefined || playedSeconds < end) return;
+        if (loopState) playerRef.current?.seekTo(start, 'seconds');
+        else setPlaying(false);
+    }, [start, end, loopState]);
 
     const handleClick = useCallback((e: any) => {
         if (!isRunning || !videoClickToggle || hasError) return;
@@ -382,8 +588,8 @@ const EmbedContent = React.memo(({ content, onLoad, isRunning }: { content: Cont
                     scale={scale} 
                     rotation={[0, 0, 0]}
                     style={{
-                        width: DEFAULT_EMBED_WIDTH,
-                        height: DEFAULT_EMBED_WIDTH / aspect,
+                        width: STREAMING_EMBED_WIDTH,
+                        height: STREAMING_EMBED_WIDTH / aspect,
                         background: 'black',
                         pointerEvents: (videoControls ?? true) ? 'auto' : 'none',
                     }}
@@ -396,11 +602,14 @@ const EmbedContent = React.memo(({ content, onLoad, isRunning }: { content: Cont
                             loop={loopState}
                             muted={muted}
                             volume={volume}
+                            playbackRate={playbackRate}
                             controls={videoControls ?? true}
                             width="100%"
                             height="100%"
                             onReady={handlePlayerReady}
                             onError={handlePlayerError}
+                            onProgress={handleProgress}
+                            progressInterval={250}
                             playsinline
                             config={{
                                 youtube: {
@@ -408,11 +617,18 @@ const EmbedContent = React.memo(({ content, onLoad, isRunning }: { content: Cont
                                         modestbranding: 1,
                                         rel: 0,
                                         fs: videoFullScreen ? 1 : 0,
+                                        start: start || undefined,
+                                        end,
+                                        cc_load_policy: videoCaptions ? 1 : 0,
+                                        cc_lang_pref: videoCaptions ? videoCaptionLang : undefined,
                                         origin: typeof window !== 'undefined' ? window.location.origin : ''
                                     },
                                     embedOptions: {
                                         host: 'https://www.youtube.com'
                                     }
+                                },
+                                vimeo: {
+                                    playerOptions: videoCaptions ? { texttrack: videoCaptionLang || 'en' } : {}
                                 }
                             }}
                         />
@@ -428,8 +644,14 @@ const EmbedContent = React.memo(({ content, onLoad, isRunning }: { content: Cont
 }, (prev, next) => {
     return prev.isRunning === next.isRunning &&
            prev.content.id === next.content.id &&
+           prev.content.type === next.content.type &&
            prev.content.videoUrl === next.content.videoUrl &&
            prev.content.streamingService === next.content.streamingService &&
+           prev.content.videoStart === next.content.videoStart &&
+           prev.content.videoEnd === next.content.videoEnd &&
+           prev.content.videoCaptions === next.content.videoCaptions &&
+           prev.content.videoCaptionLang === next.content.videoCaptionLang &&
+           prev.content.videoPlaybackRate === next.content.videoPlaybackRate &&
            prev.content.autoplay === next.content.autoplay &&
            prev.content.loop === next.content.loop &&
            prev.content.muted === next.content.muted &&
@@ -438,6 +660,55 @@ const EmbedContent = React.memo(({ content, onLoad, isRunning }: { content: Cont
            prev.content.videoFullScreen === next.content.videoFullScreen;
 });
 
+const WebEmbedContent = ({ content, isRunning }: { content: Content, isRunning: boolean }) => {
+    const src = useMemo(() => getSafeEmbedUrl(content.embedUrl), [content.embedUrl]);
+    const { width: pxWidth, height: pxHeight } = getEmbedSize(content);
+
+    // One world unit tall, matching the runtime EmbedObject
+    const width = pxWidth / pxHeight;
+    const height = 1;
+    // drei's transformed Html maps 40 CSS pixels to one world unit at scale 1
+    const scale = 40 / pxHeight;
+
+    // While editing the iframe must never swallow clicks, otherwise the content can't be selected
+    const interactive = isRunning && !content.embedClickThrough;
+
+    return (
+        <group>
+            <mesh>
+                <planeGeometry args={[width, height]} />
+                <meshBasicMaterial color={src ? '#ffffff' : '#555'} side={THREE.DoubleSide} toneMapped={false} />
+            </mesh>
+
+            {src ? (
+                <Html
+                    transform
+                    position={[0, 0, 0.01]}
+                    scale={scale}
+                    style={{
+                        width: pxWidth,
+                        height: pxHeight,
+                        pointerEvents: interactive ? 'auto' : 'none',
+                    }}
+                >
+                    <iframe
+                        src={src}
+                        title={content.name}
+                        sandbox={getEmbedSandbox(content)}
+                        allow={content.embedAllow ?? DEFAULT_EMBED_ALLOW}
+                        referrerPolicy="strict-origin-when-cross-origin"
+                        style={{ width: '100%', height: '100%', border: 0, background: 'white' }}
+                    />
+                </Html>
+            ) : (
+                <Text color="white" anchorX="center" anchorY="middle" fontSize={0.08} maxWidth={width} position={[0, 0, 0.01]}>
+                    {content.embedUrl ? 'UNSUPPORTED URL' : 'NO URL'}
+                </Text>
+            )}
+        </group>
+    );
+};
+
 const VideoFileContent = ({ content, onLoad, isRunning }: { content: Content, onLoad?: (data: any) => void, isRunning: boolean }) => {
     const meshRef = useRef<THREE.Mesh>(null);
     const [aspect, setAspect] = useState(1.77); 
@@ -467,6 +738,7 @@ const VideoFileContent = ({ content, onLoad, isRunning }: { content: Content, on
         }
     }, [content.videoUrl, content.loop, content.muted, content.autoplay, video, isRunning, content.type]);
 
+    // Aspect of the whole frame; a packed alpha matte takes half of it
     useEffect(() => {
         if (!video) return;
         const onLoadedMetadata = () => { if (video.videoWidth && video.videoHeight) setAspect(video.videoWidth / video.videoHeight); };
@@ -526,15 +798,30 @@ const VideoFileContent = ({ content, onLoad, isRunning }: { content: Content, on
         return new THREE.Color(c);
     }, [content.chromaColor]);
 
+    const alphaMode = getVideoAlphaMode(content);
+    const alphaLayout = useMemo(() => {
+        const layout = getPackedAlphaLayout(alphaMode);
+        return layout && {
+            scale: new THREE.Vector2(...layout.scale),
+            colorOffset: new THREE.Vector2(...layout.colorOffset),
+            alphaOffset: new THREE.Vector2(...layout.alphaOffset)
+        };
+    }, [alphaMode]);
+
+    const geometry = useMediaPlane(content, getVideoPictureAspect(alphaMode, aspect, 1));
+
     if (!texture) {
         // Fallback or invisible placeholder during loading/SSR
         return null;
     }
 
     return (
-        <mesh ref={meshRef} onClick={togglePlay}>
-            <planeGeometry args={[aspect, 1]} />
-            {content.chromaKey ? (
+        <mesh ref={meshRef} onClick={togglePlay} geometry={geometry}>
+            {alphaLayout ? (
+                <packedAlphaMaterial key={alphaMode} tex={texture} {...alphaLayout} transparent side={THREE.DoubleSide} />
+            ) : alphaMode === 'native' ? (
+                <meshBasicMaterial key="native" map={texture} transparent alphaTest={0.01} side={THREE.DoubleSide} toneMapped={false} />
+            ) : content.chromaKey ? (
                 <chromaKeyMaterial tex={texture} color={chromaColor} transparent side={THREE.DoubleSide} />
             ) : (
                 <meshBasicMaterial map={texture} side={THREE.DoubleSide} toneMapped={false} />
@@ -543,8 +830,59 @@ const VideoFileContent = ({ content, onLoad, isRunning }: { content: Content, on
     );
 }
 
-const AudioContent = ({ content, onLoad, listener }: { content: Content, onLoad?: (data: any) => void, listener: THREE.AudioListener | null }) => {
+// Where a spatial sound is at full volume, and where it has faded out. Clicks go through it.
+const AudioFalloffGizmo = ({ settings }: { settings: SpatialAudio }) => {
+    const falloff = getAudioFalloffDistance(settings, AUDIO_FALLOFF_GAIN);
+    const coneLength = isFinite(falloff) ? falloff : settings.refDistance * 2;
+    // Only cones narrower than a half space are drawn; wider ones read as all around
+    const cone = useMemo(() => {
+        const halfAngle = THREE.MathUtils.degToRad(settings.coneInner / 2);
+        if (halfAngle >= Math.PI / 2) return null;
+        // Apex on the content, opening along +Z
+        return new THREE.ConeGeometry(coneLength * Math.tan(halfAngle), coneLength, 32, 1, true)
+            .rotateX(-Math.PI / 2)
+            .translate(0, 0, coneLength / 2);
+    }, [settings.coneInner, coneLength]);
+    useEffect(() => () => cone?.dispose(), [cone]);
+
+    return (
+        <group>
+            <mesh raycast={() => null}>
+                <sphereGeometry args={[settings.refDistance, 24, 12]} />
+                <meshBasicMaterial color="#a855f7" wireframe transparent opacity={0.5} depthWrite={false} />
+            </mesh>
+            {isFinite(falloff) && (
+                <mesh raycast={() => null}>
+                    <sphereGeometry args={[falloff, 32, 16]} />
+                    <meshBasicMaterial color="#a855f7" wireframe transparent opacity={0.15} depthWrite={false} />
+                </mesh>
+            )}
+            {cone && (
+                <mesh geometry={cone} raycast={() => null}>
+                    <meshBasicMaterial color="#f59e0b" wireframe transparent opacity={0.3} depthWrite={false} />
+                </mesh>
+            )}
+        </group>
+    );
+};
+
+// Mounted again when spatial audio is switched, as the element stays routed through the positional audio
+const AudioContent = ({ content, onLoad, listener, isRunning, onAudioEvent }: {
+    content: Content,
+    onLoad?: (data: any) => void,
+    listener: THREE.AudioListener | null,
+    isRunning: boolean,
+    onAudioEvent?: (event: AudioScriptEvent, data: { track: number, cue?: SubtitleCue }) => void
+}) => {
     const sound = useRef<THREE.PositionalAudio>(null!);
+    const groupRef = useRef<THREE.Group>(null!);
+    const spatial = getSpatialAudio(content);
+    const { gl } = useThree();
+    const [playlist, setPlaylist] = useState<AudioPlaylist | null>(null);
+    const tracks = useMemo(() => getPlaylistTracks(content), [content.audioUrl, content.audioPlaylist]);
+    const onAudioEventRef = useRef(onAudioEvent);
+    onAudioEventRef.current = onAudioEvent;
+    const subtitlesRef = useRef<SubtitleDisplay | null>(null);
     const [audio] = useState<HTMLAudioElement | null>(() => {
         if (typeof Audio === 'undefined') return null; // SSR Guard
         const a = new Audio();
@@ -557,22 +895,52 @@ const AudioContent = ({ content, onLoad, listener }: { content: Content, onLoad?
     // and to avoid unnecessary reconnections.
     const connectedRef = useRef<THREE.PositionalAudio | null>(null);
 
+    // Browsers keep the context suspended until the page is interacted with, leaving the routed
+    // element silent; running the scene is, so resume it then, before the playlist plays
     useEffect(() => {
-        if (!content.audioUrl || !listener || !audio) return;
-        if (audio.src !== content.audioUrl) audio.src = content.audioUrl;
-        audio.loop = !!content.loop;
+        if (listener?.context.state === 'suspended') listener.context.resume().catch(() => {});
+    }, [listener, isRunning]);
+
+    useEffect(() => {
+        if (!tracks.length || !listener || !audio) return;
         
         // Ensure source is connected to this specific sound instance
-        if (sound.current && connectedRef.current !== sound.current) {
+        if (spatial && sound.current && connectedRef.current !== sound.current) {
             sound.current.setMediaElementSource(audio);
-            sound.current.setRefDistance(1);
             connectedRef.current = sound.current;
         }
-        
-        if (onLoad) onLoad({ audioElement: audio });
-        if (content.autoplay) audio.play().catch(e => console.error("Audio autoplay failed:", e));
+
+        const next = createAudioPlaylist(audio, tracks, { loop: !!content.loop, autoAdvance: content.audioAutoAdvance ?? true }, {
+            onEnded: (track) => onAudioEventRef.current?.('onEnded', { track }),
+            onCueEnter: (track, cue) => onAudioEventRef.current?.('onCueEnter', { track, cue }),
+            onCueExit: (track, cue) => onAudioEventRef.current?.('onCueExit', { track, cue }),
+            onCuesChange: (cues) => subtitlesRef.current?.setText(getSubtitleText(cues)),
+        });
+        setPlaylist(next);
+        if (content.autoplay) next.play();
         else if (!audio.paused) audio.pause();
-    }, [content.audioUrl, content.loop, content.autoplay, listener, onLoad, audio]);
+        return () => next.dispose();
+    }, [tracks, content.loop, content.audioAutoAdvance, content.autoplay, listener, audio]);
+
+    useEffect(() => {
+        if (playlist && onLoad) onLoad({ audioElement: audio, playlist });
+    }, [playlist, onLoad, audio]);
+
+    // The overlay sits over the canvas, in the positioned wrapper of the Canvas
+    useEffect(() => {
+        if (!groupRef.current) return;
+        const display = createSubtitleDisplay(content.subtitleMode, gl.domElement.parentElement, groupRef.current);
+        subtitlesRef.current = display;
+        return () => {
+            display?.dispose();
+            subtitlesRef.current = null;
+        };
+    }, [content.subtitleMode, gl]);
+
+    useFrame(() => {
+        if (spatial && sound.current) updateSpatialAudio(sound.current, spatial);
+        playlist?.update();
+    });
 
     useEffect(() => () => {
         if (audio) {
@@ -585,8 +953,9 @@ const AudioContent = ({ content, onLoad, listener }: { content: Content, onLoad?
     if (!listener || !audio) return null;
 
     return (
-        <group>
-            <positionalAudio ref={sound} args={[listener]} />
+        <group ref={groupRef}>
+            {spatial && <positionalAudio ref={sound} args={[listener]} />}
+            {spatial && !isRunning && <AudioFalloffGizmo settings={spatial} />}
              <Html center>
                 <div className="bg-purple-500 rounded-full p-2 w-10 h-10 flex items-center justify-center opacity-80 pointer-events-none">
                     <SpeakerIcon className="w-6 h-6 text-white" />
@@ -596,24 +965,152 @@ const AudioContent = ({ content, onLoad, listener }: { content: Content, onLoad?
     );
 };
 
+/**
+ * Plays a content's entry/exit animation on an inner group.
+ * The entry animation plays when the scene starts running; `preview` replays either direction on demand.
+ */
+// Plays entry/exit animations on an inner group, and poses the content group (its parent)
+// from the target timeline while one is playing or scrubbed
+const ContentAnimator = ({ content, isRunning, preview, timeline, playback, children }: {
+    content: Content,
+    isRunning: boolean,
+    preview?: AnimationPreview | null,
+    timeline?: Timeline,
+    playback?: TimelinePlayback | null,
+    children: (textProgress: number) => React.ReactNode
+}) => {
+    const groupRef = useRef<THREE.Group>(null);
+    const animation = useRef<{ name: string, direction: AnimationDirection, elapsed: number, delay: number, duration: number } | null>(null);
+    const frameRef = useRef<AnimationFrame>(IDENTITY_FRAME);
+    const posed = useRef<TimelinePose>({});
+    const timelineOpacity = useRef(1);
+    const [textProgress, setTextProgress] = useState(1);
+    const textLength = useMemo(() => getPlainText(getTextSpans(content)).length, [content.textContent, content.richText]);
+
+    const applyFrame = useCallback((frame: AnimationFrame) => {
+        const group = groupRef.current;
+        if (!group) return;
+        frameRef.current = frame;
+        group.position.set(...frame.offset);
+        group.rotation.set(0, 0, frame.rotationZ);
+        group.scale.setScalar(frame.scale);
+        applyAnimationOpacity(group, frame.opacity * timelineOpacity.current);
+        // Only re-render text when another character appears
+        const quantized = textLength > 0 ? Math.round(frame.textProgress * textLength) / textLength : 1;
+        setTextProgress(prev => prev === quantized ? prev : quantized);
+    }, [textLength]);
+
+    const start = useCallback((direction: AnimationDirection, settings?: AnimationPreview['settings']) => {
+        const source = settings ? { ...content, ...settings } : content;
+        const name = getContentAnimation(source, direction);
+        if (!name) {
+            animation.current = null;
+            applyFrame(IDENTITY_FRAME);
+            return;
+        }
+        const { delay, duration } = getAnimationTiming(source, direction);
+        animation.current = { name, direction, elapsed: 0, delay, duration };
+        applyFrame(sampleContentAnimation(name, direction, 0));
+    }, [content, applyFrame]);
+
+    // Only replay when the scene starts or stops running, not on every content edit
+    useEffect(() => {
+        if (isRunning) {
+            start('in');
+        } else {
+            animation.current = null;
+            applyFrame(IDENTITY_FRAME);
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isRunning]);
+
+    useEffect(() => {
+        if (preview && preview.contentId === content.id) start(preview.direction, preview.settings);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [preview]);
+
+    // Properties the timeline stops driving go back to the content's own values,
+    // since the group's props haven't changed and won't be re-applied
+    const applyTimeline = () => {
+        const group = groupRef.current;
+        const target = group?.parent;
+        if (!group || !target) return;
+        const pose: TimelinePose = playback && hasTimelineTracks(timeline, content.id)
+            ? sampleTimeline(timeline, content.id, getPlaybackTime(playback, timeline))
+            : {};
+        const { position, rotation, scale } = content.transform;
+
+        const nextPosition = pose.position ?? (posed.current.position && position);
+        if (nextPosition) target.position.fromArray(nextPosition);
+        const nextRotation = pose.rotation ?? (posed.current.rotation && rotation);
+        if (nextRotation) target.rotation.set(...nextRotation.map(d => THREE.MathUtils.degToRad(d)) as [number, number, number]);
+        const nextScale = pose.scale ?? (posed.current.scale && scale);
+        if (nextScale) target.scale.fromArray(nextScale);
+        if (pose.visible !== undefined) target.visible = pose.visible;
+        else if (posed.current.visible !== undefined) target.visible = content.visible ?? true;
+
+        const opacity = pose.opacity ?? 1;
+        if (opacity !== timelineOpacity.current) {
+            timelineOpacity.current = opacity;
+            applyAnimationOpacity(group, frameRef.current.opacity * opacity);
+        }
+        posed.current = pose;
+    };
+
+    useFrame((_, delta) => {
+        applyTimeline();
+        const anim = animation.current;
+        if (!anim) return;
+        anim.elapsed += delta * 1000;
+        const t = getAnimationProgress(anim.elapsed, anim);
+        applyFrame(sampleContentAnimation(anim.name, anim.direction, t));
+        if (t >= 1) {
+            animation.current = null;
+            // Previewed exits snap back so the content stays editable
+            if (anim.direction === 'in' || !isRunning) applyFrame(IDENTITY_FRAME);
+        }
+    });
+
+    return <group ref={groupRef}>{children(textProgress)}</group>;
+};
+
 const SceneContent = ({ 
     target, 
+    project,
+    assets,
+    scriptStorage,
     contentRefs, 
     onSelect, 
     isRunning,
     onError,
+    onDebugInfo,
     onContentUpdate,
-    onObjectMounted
+    onObjectMounted,
+    animationPreview,
+    timelinePlayback
 }: {
     target: Target | undefined,
+    project?: ScriptProject,
+    assets: Asset[],
+    scriptStorage?: ScriptStorage,
     contentRefs: React.MutableRefObject<Map<string, THREE.Object3D>>,
     onSelect: (targetId: string, contentId?: string) => void,
     isRunning: boolean,
-    onError: (error: Error | null) => void,
+    onError: (error: ScriptError | null) => void,
+    onDebugInfo?: (info: ScriptDebugInfo) => void,
     onContentUpdate: (content: Content) => void,
-    onObjectMounted: (id: string) => void
+    onObjectMounted: (id: string) => void,
+    animationPreview?: AnimationPreview | null,
+    timelinePlayback?: TimelinePlayback | null
 }) => {
-    const { handleScriptClick, error } = useScriptEngine(target, contentRefs, isRunning);
+    const { handleScriptClick, handleAnimationFinished, handleAudioEvent, error, debugInfo } = useScriptEngine(target, contentRefs, isRunning, project, scriptStorage);
+
+    // Running the scene plays the timeline from the start, like a target activation in AR
+    const runPlayback = useMemo<TimelinePlayback | null>(
+        () => isRunning ? { time: 0, playing: true, startedAt: performance.now() } : null,
+        [isRunning]
+    );
+    const playback = isRunning ? runPlayback : timelinePlayback;
     const { camera } = useThree();
     
     const [listener] = useState<THREE.AudioListener | null>(() => {
@@ -630,9 +1127,15 @@ const SceneContent = ({
 
     useEffect(() => { onError(error); }, [error, onError]);
 
+    useEffect(() => { onDebugInfo?.(debugInfo); }, [debugInfo, onDebugInfo]);
+
+    // Loaded model scenes by content id, so other contents can follow their bones
+    const [modelScenes, setModelScenes] = useState<Map<string, THREE.Object3D>>(() => new Map());
+
     const handleContentLoad = (id: string, data: any) => {
         const group = contentRefs.current.get(id);
         if (group) Object.assign(group.userData, data);
+        if (data.scene) setModelScenes(prev => prev.get(id) === data.scene ? prev : new Map(prev).set(id, data.scene));
     };
 
     const setRef = (id: string, node: THREE.Object3D | null) => {
@@ -655,45 +1158,40 @@ const SceneContent = ({
                         const isText = content.type === ContentType.TEXT && content.textContent;
                         const isImage = content.type === ContentType.IMAGE && content.imageUrl;
                         const isEmbed = content.type === ContentType.STREAMING_VIDEO || 
+                                        content.type === ContentType.YOUTUBE ||
+                                        content.type === ContentType.VIMEO ||
                                         (content.type === ContentType.ICON_YOUTUBE) || 
                                         (content.type === ContentType.VIDEO && typeof content.videoUrl === 'string' && 
                                         (content.videoUrl.includes('youtube') || content.videoUrl.includes('vimeo') || /^[a-zA-Z0-9_-]{11}$/.test(content.videoUrl)));
                         const isVideoFile = content.type === ContentType.VIDEO && !isEmbed && content.videoUrl;
+                        const isWebEmbed = content.type === ContentType.EMBED;
                         const isAudio = content.type === ContentType.AUDIO && content.audioUrl;
                         const isModel = content.type === ContentType.MODEL && content.modelUrl;
+                        const isOccluder = content.type === ContentType.OCCLUDER;
+                        const isShape = content.type === ContentType.SHAPE;
                         const isVisible = content.visible ?? true;
-                        const fontUrl = content.font ? FONT_MAP[content.font] : undefined;
-
-                        // Sanitize outline color. THREE does not accept 'transparent'.
-                        // If transparent is needed, width should be 0.
-                        let outlineColor = content.outlineColor || '#000000';
-                        if (outlineColor === 'transparent') outlineColor = '#000000';
 
-                        const renderContent = () => (
+                        const renderContent = (textProgress: number) => (
                             <>
                                 {isImage && <Suspense fallback={null}><ImageContent content={content} /></Suspense>}
                                 {isEmbed && <Suspense fallback={null}><EmbedContent content={content} onLoad={(data) => handleContentLoad(content.id, data)} isRunning={isRunning} /></Suspense>}
+                                {isWebEmbed && <WebEmbedContent content={content} isRunning={isRunning} />}
                                 {isVideoFile && <Suspense fallback={null}><VideoFileContent content={content} onLoad={(data) => handleContentLoad(content.id, data)} isRunning={isRunning} /></Suspense>}
-                                {isAudio && <AudioContent content={content} listener={listener} onLoad={(data) => handleContentLoad(content.id, data)} />}
-                                {isModel && <Suspense fallback={null}><ModelContent content={content} onLoad={(data) => handleContentLoad(content.id, data)} onUpdateMaterialNames={(names) => onContentUpdate({...content, materialNames: names})} /></Suspense>}
-                                {isText && (
-                                    <Text
-                                        color={content.color || '#000000'}
-                                        anchorX={(content.align as any) || 'center'}
-                                        textAlign={(content.align as any) || 'center'}
-                                        anchorY="middle"
-                                        fontSize={content.size ? content.size * 0.05 : 0.05}
-                                        font={fontUrl}
-                                        outlineWidth={content.outlineWidth ? `${content.outlineWidth}%` : 0}
-                                        outlineColor={outlineColor}
-                                    >
-                                        {content.textContent || ''}
-                                    </Text>
-                                )}
+                                {isAudio && <AudioContent key={content.spatialAudio ? 'spatial' : 'plain'} content={content} listener={listener} isRunning={isRunning} onLoad={(data) => handleContentLoad(content.id, data)} onAudioEvent={(event, data) => handleAudioEvent(content, event, data)} />}
+                                {isModel && <Suspense fallback={null}><ModelContent content={content} isRunning={isRunning} onLoad={(data) => handleContentLoad(content.id, data)} onUpdateModelInfo={(info) => onContentUpdate({...content, ...info})} onAnimationFinished={(clip) => handleAnimationFinished(content, clip)} /></Suspense>}
+                                {isOccluder && <OccluderContent content={content} isRunning={isRunning} />}
+                                {isShape && <ShapeContent content={content} />}
+                                {isText && <TextContent content={content} assets={assets} textProgress={textProgress} isRunning={isRunning} />}
                             </>
                         );
 
-                        return (
+                        const attachment = content.attachment;
+                        const attachedTo = attachment && attachment.modelId !== content.id && target.contents.some(c => c.id === attachment.modelId)
+                            ? modelScenes.get(attachment.modelId)
+                            : undefined;
+                        const bone = attachedTo && attachment ? findBone(attachedTo, attachment.bone) : null;
+
+                        const contentGroup = (
                             <group
                                 key={content.id}
                                 visible={isVisible}
@@ -707,13 +1205,20 @@ const SceneContent = ({
                                 rotation={new THREE.Euler(...safeRotation.map(d => THREE.MathUtils.degToRad(d)) as [number, number, number])}
                                 scale={safeScale as [number, number, number]}
                             >
-                                {content.alwaysFacingUser ? (
-                                    <Billboard follow={true} lockX={false} lockY={false} lockZ={false}>
-                                        {renderContent()}
-                                    </Billboard>
-                                ) : renderContent()}
+                                <ContentAnimator content={content} isRunning={isRunning} preview={animationPreview} timeline={target.timeline} playback={playback}>
+                                    {(textProgress) => content.alwaysFacingUser ? (
+                                        <Billboard follow={true} lockX={false} lockY={false} lockZ={false}>
+                                            {renderContent(textProgress)}
+                                        </Billboard>
+                                    ) : renderContent(textProgress)}
+                                </ContentAnimator>
                             </group>
                         );
+
+                        // Attached contents live under the bone, so their transform is relative to it
+                        return bone
+                            ? <React.Fragment key={content.id}>{createPortal(contentGroup, bone)}</React.Fragment>
+                            : contentGroup;
                     })}
                 </group>
             )}
@@ -721,8 +1226,12 @@ const SceneContent = ({
     );
 }
 
+type ScriptProject = Pick<Project, 'targets' | 'script' | 'scriptLanguage'>;
+
 interface ScenePanelProps {
   target: Target | undefined;
+  project?: ScriptProject; // Runs the project script next to the target's
+  scriptStorage?: ScriptStorage; // Keeps script `storage` values; in memory by default
   selectedContent: Content | undefined;
   onContentUpdate: (content: Content) => void;
   onContentAdd: (content: Content) => void;
@@ -731,11 +1240,17 @@ interface ScenePanelProps {
   isPreviewMode?: boolean;
   assets?: Asset[];
   onAddAsset?: (asset: Asset) => void;
-  sceneSettings?: SceneSettings; 
+  sceneSettings?: SceneSettings; // Lights, grid and axes. Targets with their own lights ignore the project's
+  animationPreview?: AnimationPreview | null;
+  timelinePlayback?: TimelinePlayback | null;
+  onScriptError?: (error: ScriptError | null) => void;
+  onScriptDebugInfo?: (info: ScriptDebugInfo) => void;
 }
 
 const ScenePanel: React.FC<ScenePanelProps> = ({ 
     target, 
+    project,
+    scriptStorage,
     selectedContent, 
     onContentUpdate, 
     onContentAdd, 
@@ -744,12 +1259,16 @@ const ScenePanel: React.FC<ScenePanelProps> = ({
     isPreviewMode = false,
     assets = [],
     onAddAsset,
-    sceneSettings
+    sceneSettings,
+    animationPreview,
+    timelinePlayback,
+    onScriptError,
+    onScriptDebugInfo
 }) => {
   const [transformMode, setTransformMode] = useState<'translate' | 'rotate' | 'scale'>('translate');
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [isRunning, setIsRunning] = useState(isPreviewMode);
-  const [scriptError, setScriptError] = useState<Error | null>(null);
+  const [scriptError, setScriptError] = useState<ScriptError | null>(null);
   const [snapEnabled, setSnapEnabled] = useState(false);
   const [isShiftDown, setIsShiftDown] = useState(false);
   const [isDockOpen, setIsDockOpen] = useState(true);
@@ -803,6 +1322,8 @@ const ScenePanel: React.FC<ScenePanelProps> = ({
 
   useEffect(() => { if (isPreviewMode) setIsRunning(true); }, [isPreviewMode]);
 
+  useEffect(() => { onScriptError?.(scriptError); }, [scriptError, onScriptError]);
+
   const selectedObject = selectedContent ? contentRefs.current.get(selectedContent.id) : undefined;
 
   const handleDrop = async (e: React.DragEvent) => {
@@ -914,6 +1435,7 @@ const ScenePanel: React.FC<ScenePanelProps> = ({
   }
 
   const isSnapping = snapEnabled || isShiftDown;
+  const lights = getSceneLights(sceneSettings, target);
 
   return (
     <main 
@@ -942,7 +1464,7 @@ const ScenePanel: React.FC<ScenePanelProps> = ({
       {isRunning && !isPreviewMode && <div className="absolute top-2 right-2 z-20 bg-red-600 text-white px-3 py-1 rounded-full text-xs font-bold shadow-md animate-pulse pointer-events-none">LIVE PREVIEW</div>}
       {scriptError && (
           <div className="absolute top-14 left-2 right-2 z-50 bg-red-500 text-white p-3 rounded-md shadow-lg flex justify-between items-start">
-              <div><p className="font-bold text-sm">Script Error</p><p className="text-xs mt-1 font-mono">{scriptError.message}</p></div>
+              <div><p className="font-bold text-sm">Script Error</p><p className="text-xs mt-1 font-mono">{scriptError.line ? `Line ${scriptError.line}: ` : ''}{scriptError.message}</p></div>
               <button onClick={() => setScriptError(null)} className="hover:text-gray-200"><XMarkIcon className="w-5 h-5" /></button>
           </div>
       )}
@@ -952,12 +1474,8 @@ const ScenePanel: React.FC<ScenePanelProps> = ({
         // explicit gl config to help with context loss management. Alpha enabled for preview transparency.
         gl={{ preserveDrawingBuffer: true, powerPreference: "default", alpha: true }}
       >
-        <ambientLight intensity={sceneSettings?.ambientLightIntensity ?? 0.8} />
-        <directionalLight 
-            position={sceneSettings?.directionalLightPosition ?? [0, 0, 5]} 
-            intensity={sceneSettings?.directionalLightIntensity ?? 1.5} 
-            castShadow 
-        />
+        <SceneLights lights={lights} />
+        <SceneEnvironmentMap environment={sceneSettings?.environment} />
         {!isPreviewMode && sceneSettings?.showGrid && <gridHelper args={[20, 20]} rotation={[Math.PI / 2, 0, 0]} />}
         {!isPreviewMode && sceneSettings?.showAxes && <axesHelper args={[2]} />}
         {target && (target.visible ?? true) && (
@@ -965,12 +1483,18 @@ const ScenePanel: React.FC<ScenePanelProps> = ({
             <Suspense fallback={null}><TargetPlane target={target} onDeselect={() => !isRunning && onSelect(target.id)} /></Suspense>
             <SceneContent 
                 target={target} 
+                project={project}
+                assets={assets}
+                scriptStorage={scriptStorage}
                 contentRefs={contentRefs} 
                 onSelect={onSelect} 
                 isRunning={isRunning} 
                 onError={setScriptError}
+                onDebugInfo={onScriptDebugInfo}
                 onContentUpdate={onContentUpdate}
                 onObjectMounted={handleObjectMounted}
+                animationPreview={animationPreview}
+                timelinePlayback={timelinePlayback}
             />
           </>
         )}
@@ -1021,6 +1545,8 @@ const ScenePanel: React.FC<ScenePanelProps> = ({
                                       {asset.type === 'model' && <CubeIcon className="w-8 h-8 text-gray-500" />}
                                       {asset.type === 'mind' && <img src={asset.thumbnail || PLACEHOLDER_MIND} alt="Mind" className="w-full h-full object-contain" />}
                                       {asset.type === 'script' && <img src={asset.thumbnail || PLACEHOLDER_SCRIPT} alt="Script" className="w-full h-full object-contain" />}
+                                      {asset.type === 'environment' && <Sparkles className="w-8 h-8 text-gray-500" />}
+                                      {asset.type === 'font' && <TextIcon className="w-8 h-8 text-gray-500" />}
                                   </div>
                                   <span className="text-[10px] text-gray-300 truncate w-full text-center px-1">{asset.name}</span>
                               </div>
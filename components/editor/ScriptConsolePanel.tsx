@@ -0,0 +1,195 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronRight, TrashIcon } from '../icons/Icons';
+import { ScriptDebugInfo, ScriptConsoleEntry } from './ScriptEngine';
+import { SCRIPT_RUNTIME_CONFIG, ScriptLogLevel } from '../../utils/scriptRuntime';
+import { clsx } from 'clsx';
+
+type ConsoleTab = 'console' | 'inspector' | 'storage';
+
+const LEVEL_CLASSES: Record<ScriptLogLevel, string> = {
+    log: 'text-text-primary',
+    info: 'text-accent-secondary',
+    warn: 'text-accent-tertiary',
+    error: 'text-accent-danger',
+    debug: 'text-text-tertiary'
+};
+
+interface ScriptConsolePanelProps {
+    debugInfo: ScriptDebugInfo;
+    storage: Record<string, unknown>; // Values scripts saved with storage.set() in the preview
+    onStorageRemove: (key: string) => void;
+    onStorageClear: () => void;
+    isOpen: boolean;
+    onToggle: () => void;
+}
+
+const formatMs = (ms: number) => `${ms.toFixed(2)} ms`;
+
+const ConsoleRow: React.FC<{ entry: ScriptConsoleEntry }> = ({ entry }) => (
+    <li className={clsx('px-3 py-0.5 border-b border-border-subtle', LEVEL_CLASSES[entry.level], entry.level === 'error' && 'bg-accent-danger/10', entry.level === 'warn' && 'bg-accent-tertiary/10')}>
+        <div className="flex items-start gap-2">
+            {entry.count > 1 && <span className="px-1 rounded-full bg-background-hover text-text-secondary text-[10px]">{entry.count}</span>}
+            {entry.inProjectScript && <span className="px-1 rounded bg-background-hover text-text-tertiary text-[10px]" title="From the project script">project</span>}
+            <span className="flex-1 whitespace-pre-wrap break-all">
+                {entry.error && <span className="font-semibold">{entry.error.event === 'compile' ? 'Error' : `Error in ${entry.error.event}`}: </span>}
+                {entry.message}
+            </span>
+            {entry.line && <span className="text-text-tertiary flex-shrink-0">line {entry.line}</span>}
+        </div>
+        {entry.error?.stack && entry.error.stack.length > 0 && (
+            <ul className="pl-4 text-text-tertiary">
+                {entry.error.stack.map((frame, i) => (
+                    <li key={i}>at {frame.name || '(anonymous)'} (line {frame.line}{frame.column ? `:${frame.column}` : ''})</li>
+                ))}
+            </ul>
+        )}
+    </li>
+);
+
+const ScriptConsolePanel: React.FC<ScriptConsolePanelProps> = ({ debugInfo, storage, onStorageRemove, onStorageClear, isOpen, onToggle }) => {
+    const [tab, setTab] = useState<ConsoleTab>('console');
+    const [clearedBefore, setClearedBefore] = useState(0); // Entries up to this id are hidden
+    const listRef = useRef<HTMLDivElement>(null);
+
+    const entries = debugInfo.entries.filter(e => e.id > clearedBefore);
+    const errorCount = entries.filter(e => e.level === 'error').length;
+    const { inspection } = debugInfo;
+    const lastEntry = entries[entries.length - 1];
+    const storageKeys = Object.keys(storage);
+
+    // Follow new output unless the user scrolled up to read older entries
+    useEffect(() => {
+        const list = listRef.current;
+        if (!list || tab !== 'console') return;
+        if (list.scrollHeight - list.scrollTop - list.clientHeight < 40) list.scrollTop = list.scrollHeight;
+    }, [lastEntry?.id, lastEntry?.count, tab]);
+
+    return (
+        <section
+            className="bg-background-secondary border-t border-border-default flex flex-col flex-shrink-0 text-text-primary"
+            style={{ height: isOpen ? 200 : 36 }}
+        >
+            <div className="h-9 flex items-center gap-3 px-3 border-b border-border-subtle flex-shrink-0 text-xs">
+                <button onClick={onToggle} className="flex items-center gap-1 font-semibold uppercase tracking-wider text-text-tertiary hover:text-text-primary">
+                    <ChevronRight className={clsx('w-3 h-3 transition-transform', isOpen && 'rotate-90')} />
+                    Script Console
+                </button>
+                {errorCount > 0 && <span className="px-1.5 rounded-full bg-accent-danger text-white text-[10px] font-bold">{errorCount}</span>}
+                {isOpen && (
+                    <>
+                        <div className="flex gap-1">
+                            {(['console', 'inspector', 'storage'] as ConsoleTab[]).map(t => (
+                                <button
+                                    key={t}
+                                    onClick={() => setTab(t)}
+                                    className={clsx('px-2 py-0.5 rounded capitalize', tab === t ? 'bg-background-active text-text-primary' : 'text-text-secondary hover:bg-background-hover')}
+                                >
+                                    {t}
+                                </button>
+                            ))}
+                        </div>
+                        {tab === 'console' && (
+                            <button
+                                onClick={() => setClearedBefore(lastEntry?.id ?? clearedBefore)}
+                                className="ml-auto p-1 rounded text-text-tertiary hover:text-text-primary hover:bg-background-hover"
+                                title="Clear console"
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                        {tab === 'storage' && (
+                            <button
+                                onClick={onStorageClear}
+                                disabled={storageKeys.length === 0}
+                                className="ml-auto p-1 rounded text-text-tertiary hover:text-text-primary hover:bg-background-hover disabled:opacity-40 disabled:pointer-events-none"
+                                title="Clear storage"
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                    </>
+                )}
+            </div>
+
+            {isOpen && tab === 'console' && (
+                <div ref={listRef} className="flex-1 overflow-y-auto font-mono text-[11px]">
+                    {entries.length === 0 ? (
+                        <div className="h-full flex items-center justify-center text-xs text-text-tertiary italic font-sans">
+                            Run the script to see its console output and errors here.
+                        </div>
+                    ) : (
+                        <ul>{entries.map(entry => <ConsoleRow key={entry.id} entry={entry} />)}</ul>
+                    )}
+                </div>
+            )}
+
+            {isOpen && tab === 'inspector' && (
+                <div className="flex-1 flex min-h-0 text-[11px]">
+                    <div className="flex-1 min-w-0 overflow-auto p-3 border-r border-border-subtle">
+                        <h5 className="text-[10px] font-semibold uppercase tracking-wider text-text-tertiary mb-1">data</h5>
+                        <pre className="font-mono whitespace-pre text-text-primary">{inspection?.data ?? '{}'}</pre>
+                    </div>
+                    <div className="w-80 flex-shrink-0 overflow-auto p-3">
+                        <h5 className="text-[10px] font-semibold uppercase tracking-wider text-text-tertiary mb-1">Handler timings</h5>
+                        <table className="w-full font-mono">
+                            <thead>
+                                <tr className="text-text-tertiary text-left">
+                                    <th className="font-normal">Hook</th>
+                                    <th className="font-normal text-right">Calls</th>
+                                    <th className="font-normal text-right">Last</th>
+                                    <th className="font-normal text-right">Avg</th>
+                                    <th className="font-normal text-right">Max</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {(['compile', ...SCRIPT_RUNTIME_CONFIG.events] as const).map((hook) => {
+                                    const timing = inspection?.timings[hook];
+                                    const budget = SCRIPT_RUNTIME_CONFIG.budgets[hook];
+                                    return (
+                                        <tr key={hook} className={clsx(!timing && 'text-text-tertiary')} title={`Stopped after ${budget} ms`}>
+                                            <td>{hook === 'compile' ? 'top level' : hook}</td>
+                                            <td className="text-right">{timing?.calls ?? 0}</td>
+                                            <td className="text-right">{timing ? formatMs(timing.last) : '-'}</td>
+                                            <td className="text-right">{timing ? formatMs(timing.total / timing.calls) : '-'}</td>
+                                            <td className={clsx('text-right', timing && timing.max > budget / 2 && 'text-accent-tertiary')}>{timing ? formatMs(timing.max) : '-'}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {isOpen && tab === 'storage' && (
+                <div className="flex-1 overflow-y-auto font-mono text-[11px]">
+                    {storageKeys.length === 0 ? (
+                        <div className="h-full flex items-center justify-center text-xs text-text-tertiary italic font-sans">
+                            Values saved with storage.set() are kept between preview runs and listed here.
+                        </div>
+                    ) : (
+                        <ul>
+                            {storageKeys.map(key => (
+                                <li key={key} className="group flex items-start gap-3 px-3 py-0.5 border-b border-border-subtle">
+                                    <span className="w-40 flex-shrink-0 truncate text-accent-secondary" title={key}>{key}</span>
+                                    <span className="flex-1 min-w-0 whitespace-pre-wrap break-all text-text-primary">{JSON.stringify(storage[key])}</span>
+                                    <button
+                                        onClick={() => onStorageRemove(key)}
+                                        className="p-0.5 rounded text-text-tertiary hover:text-accent-danger opacity-0 group-hover:opacity-100"
+                                        title={`Remove "${key}"`}
+                                    >
+                                        <TrashIcon className="w-3 h-3" />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </section>
+    );
+};
+
+export default ScriptConsolePanel;
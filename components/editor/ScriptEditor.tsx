@@ -0,0 +1,363 @@
+"use client";
+
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { Target, ScriptLanguage } from '../../types';
+import { useDebounce } from '../../hooks/useDebounce';
+import { ScriptDiagnostic } from '../../utils/scriptCompiler';
+import {
+    ScriptLanguageService,
+    ScriptToken,
+    ScriptTokenKind,
+    ScriptCompletions,
+    loadScriptLanguageService
+} from '../../utils/scriptLanguageService';
+import { ScriptError } from './ScriptEngine';
+import { clsx } from 'clsx';
+
+// Layout in pixels; the highlight layer, gutter and completion list are positioned from these
+const LINE_HEIGHT = 16;
+const PADDING = 8;
+const GUTTER_WIDTH = 40;
+const INDENT = '  ';
+
+const TOKEN_CLASSES: Record<ScriptTokenKind, string> = {
+    comment: 'text-gray-400 italic',
+    keyword: 'text-purple-700',
+    string: 'text-green-700',
+    number: 'text-orange-600',
+    regexp: 'text-red-700',
+    type: 'text-teal-700',
+    parameter: 'text-blue-800'
+};
+
+const SEVERITY_CLASSES = {
+    error: 'underline decoration-wavy decoration-red-500',
+    warning: 'underline decoration-wavy decoration-amber-500'
+};
+
+type Severity = keyof typeof SEVERITY_CLASSES;
+
+interface Decoration {
+    start: number;
+    end: number;
+    severity: Severity;
+}
+
+interface CompletionState extends ScriptCompletions {
+    index: number;
+    line: number; // Caret position the list opens at, 0-based
+    column: number;
+}
+
+interface ScriptEditorProps {
+    value: string;
+    onChange: (value: string) => void;
+    language: ScriptLanguage;
+    target: Pick<Target, 'name' | 'contents'>;
+    runtimeError?: ScriptError | null; // Marked on its line
+}
+
+const getLineStarts = (text: string) => {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') starts.push(i + 1);
+    }
+    return starts;
+};
+
+const getLineAndColumn = (text: string, offset: number) => {
+    const before = text.slice(0, offset);
+    const line = before.split('\n').length - 1;
+    return { line, column: offset - (before.lastIndexOf('\n') + 1) };
+};
+
+/**
+ * Split the script into lines of styled segments, cut at token and diagnostic boundaries.
+ */
+const renderLines = (text: string, tokens: ScriptToken[], decorations: Decoration[]): React.ReactNode[][] => {
+    const cuts = new Set<number>([0, text.length]);
+    tokens.forEach(t => { cuts.add(t.start); cuts.add(t.start + t.length); });
+    decorations.forEach(d => { cuts.add(d.start); cuts.add(d.end); });
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') { cuts.add(i); cuts.add(i + 1); }
+    }
+    const offsets = Array.from(cuts).filter(o => o <= text.length).sort((a, b) => a - b);
+
+    const lines: React.ReactNode[][] = [[]];
+    let tokenIndex = 0;
+    for (let i = 0; i < offsets.length - 1; i++) {
+        const start = offsets[i];
+        const piece = text.slice(start, offsets[i + 1]);
+        if (piece === '\n') {
+            lines.push([]);
+            continue;
+        }
+        while (tokenIndex < tokens.length && tokens[tokenIndex].start + tokens[tokenIndex].length <= start) tokenIndex++;
+        const token = tokens[tokenIndex] && tokens[tokenIndex].start <= start ? tokens[tokenIndex] : null;
+        const inRange = decorations.filter(d => d.start <= start && start < d.end);
+        const severity = inRange.some(d => d.severity === 'error') ? 'error' : inRange.length > 0 ? 'warning' : null;
+        lines[lines.length - 1].push(
+            <span key={start} className={clsx(token && TOKEN_CLASSES[token.kind], severity && SEVERITY_CLASSES[severity])}>{piece}</span>
+        );
+    }
+    return lines;
+};
+
+const ScriptEditor: React.FC<ScriptEditorProps> = ({ value, onChange, language, target, runtimeError }) => {
+    const [service, setService] = useState<ScriptLanguageService | null>(null);
+    const [serviceError, setServiceError] = useState<string | null>(null);
+    const [diagnostics, setDiagnostics] = useState<ScriptDiagnostic[]>([]);
+    const [completion, setCompletion] = useState<CompletionState | null>(null);
+    const [scroll, setScroll] = useState({ top: 0, left: 0 });
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const activeCompletionRef = useRef<HTMLLIElement>(null);
+    const pendingCaret = useRef<number | null>(null);
+
+    const debouncedValue = useDebounce(value, 400);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadScriptLanguageService()
+            .then((loaded) => { if (!cancelled) setService(loaded); })
+            .catch((e) => { if (!cancelled) setServiceError(e.message); });
+        return () => { cancelled = true; };
+    }, []);
+
+    // Highlighting is worked out during render so it never lags behind a keystroke
+    const tokens = useMemo(() => {
+        if (!service) return [];
+        service.update(value, language, target);
+        return service.getTokens();
+    }, [service, value, language, target]);
+
+    useEffect(() => {
+        if (!service) return;
+        service.update(debouncedValue, language, target);
+        setDiagnostics(service.getDiagnostics());
+    }, [service, debouncedValue, language, target]);
+
+    // Put the caret after text inserted by the editor itself (completions, indentation)
+    useLayoutEffect(() => {
+        if (pendingCaret.current === null || !textareaRef.current) return;
+        textareaRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+        pendingCaret.current = null;
+    }, [value]);
+
+    useEffect(() => {
+        activeCompletionRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [completion?.index]);
+
+    const lineStarts = useMemo(() => getLineStarts(value), [value]);
+
+    const toOffset = (line: number, column: number) =>
+        Math.min(value.length, (lineStarts[line - 1] ?? value.length) + column - 1);
+
+    const decorations = useMemo<Decoration[]>(() => diagnostics.map((d) => {
+        const start = toOffset(d.line, d.column);
+        return { start, end: start + Math.max(1, d.length ?? 1), severity: d.severity ?? 'error' };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }), [diagnostics, lineStarts]);
+
+    const lines = useMemo(() => renderLines(value, tokens, decorations), [value, tokens, decorations]);
+
+    // Gutter markers: the worst problem on each line, with its messages as a tooltip
+    const markers = useMemo(() => {
+        const byLine = new Map<number, { severity: Severity; messages: string[] }>();
+        const add = (line: number, severity: Severity, message: string) => {
+            const marker = byLine.get(line) ?? { severity, messages: [] };
+            if (severity === 'error') marker.severity = 'error';
+            marker.messages.push(message);
+            byLine.set(line, marker);
+        };
+        diagnostics.forEach(d => add(d.line, d.severity ?? 'error', d.message));
+        if (runtimeError?.line) add(runtimeError.line, 'error', runtimeError.message);
+        return byLine;
+    }, [diagnostics, runtimeError]);
+
+    const replaceRange = (from: number, to: number, text: string) => {
+        pendingCaret.current = from + text.length;
+        onChange(value.slice(0, from) + text + value.slice(to));
+    };
+
+    const updateCompletions = (text: string, caret: number) => {
+        if (!service) return;
+        service.update(text, language, target);
+        const result = service.getCompletions(caret);
+        setCompletion(result ? { ...result, index: 0, ...getLineAndColumn(text, result.from) } : null);
+    };
+
+    const acceptCompletion = (index: number) => {
+        const textarea = textareaRef.current;
+        if (!completion || !textarea) return;
+        replaceRange(completion.from, textarea.selectionStart, completion.entries[index].name);
+        setCompletion(null);
+    };
+
+    const format = () => {
+        if (!service) return;
+        service.update(value, language, target);
+        const formatted = service.format();
+        if (formatted !== value) onChange(formatted);
+    };
+
+    const jumpTo = (line: number, column = 1) => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        const offset = toOffset(line, column);
+        textarea.focus();
+        textarea.setSelectionRange(offset, offset);
+        textarea.scrollTop = Math.max(0, (line - 3) * LINE_HEIGHT);
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+        const next = e.target.value;
+        const caret = e.target.selectionStart;
+        onChange(next);
+        const typed = next.length > value.length ? next.slice(caret - 1, caret) : '';
+        if (/[\w$.'"`]/.test(typed) || (completion && !typed)) {
+            updateCompletions(next, caret);
+        } else {
+            setCompletion(null);
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        const textarea = e.currentTarget;
+        if (completion) {
+            const count = completion.entries.length;
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setCompletion({ ...completion, index: (completion.index + step + count) % count });
+                return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+                e.preventDefault();
+                acceptCompletion(completion.index);
+                return;
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                setCompletion(null);
+                return;
+            }
+        }
+        if (e.key === ' ' && e.ctrlKey) {
+            e.preventDefault();
+            updateCompletions(value, textarea.selectionStart);
+        } else if (e.code === 'KeyF' && e.shiftKey && e.altKey) {
+            e.preventDefault();
+            format();
+        } else if (e.key === 'Tab' && !e.shiftKey) {
+            e.preventDefault();
+            replaceRange(textarea.selectionStart, textarea.selectionEnd, INDENT);
+        }
+    };
+
+    const errorCount = diagnostics.filter(d => (d.severity ?? 'error') === 'error').length;
+    const warningCount = diagnostics.length - errorCount;
+
+    return (
+        <div>
+            <div className="relative h-[300px] border rounded bg-gray-50 focus-within:bg-white transition-colors overflow-hidden font-mono text-[11px]" style={{ lineHeight: `${LINE_HEIGHT}px` }}>
+                <div className="absolute top-0 left-0 bottom-0 bg-gray-100 border-r text-right text-gray-400 select-none overflow-hidden" style={{ width: GUTTER_WIDTH }}>
+                    <div style={{ paddingTop: PADDING, transform: `translateY(${-scroll.top}px)` }}>
+                        {lines.map((_, i) => {
+                            const marker = markers.get(i + 1);
+                            return (
+                                <div
+                                    key={i}
+                                    title={marker?.messages.join('\n')}
+                                    onClick={() => marker && jumpTo(i + 1)}
+                                    className={clsx('pr-1.5', marker && 'cursor-pointer font-bold', marker?.severity === 'error' && 'text-red-600 bg-red-100', marker?.severity === 'warning' && 'text-amber-600 bg-amber-50')}
+                                    style={{ height: LINE_HEIGHT }}
+                                >
+                                    {i + 1}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+                <pre aria-hidden className="absolute top-0 right-0 bottom-0 m-0 overflow-hidden whitespace-pre text-gray-800 pointer-events-none font-mono text-[11px]" style={{ left: GUTTER_WIDTH, lineHeight: `${LINE_HEIGHT}px` }}>
+                    <div style={{ padding: PADDING, transform: `translate(${-scroll.left}px, ${-scroll.top}px)` }}>
+                        {lines.map((segments, i) => (
+                            <div key={i} className={clsx(runtimeError?.line === i + 1 && 'bg-red-100')} style={{ height: LINE_HEIGHT }}>{segments}</div>
+                        ))}
+                    </div>
+                </pre>
+                <textarea
+                    id="script-editor"
+                    ref={textareaRef}
+                    value={value}
+                    onChange={handleChange}
+                    onKeyDown={handleKeyDown}
+                    onScroll={(e) => setScroll({ top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft })}
+                    onBlur={() => setCompletion(null)}
+                    onClick={() => setCompletion(null)}
+                    wrap="off"
+                    spellCheck={false}
+                    placeholder={language === 'typescript' ? '// function onUpdate({ target, deltaTime }: ScriptEventParams) { ... }' : '// function onUpdate({target, deltaTime}) { ... }'}
+                    className="absolute top-0 bottom-0 h-full m-0 resize-none overflow-auto whitespace-pre bg-transparent text-transparent caret-gray-800 placeholder:text-gray-400 selection:bg-blue-300/40 outline-none font-mono text-[11px]"
+                    style={{ left: GUTTER_WIDTH, width: `calc(100% - ${GUTTER_WIDTH}px)`, padding: PADDING, lineHeight: `${LINE_HEIGHT}px`, tabSize: INDENT.length }}
+                />
+                {completion && (
+                    <ul
+                        className="absolute z-20 max-h-40 min-w-[10rem] overflow-y-auto bg-white border rounded shadow-lg py-1"
+                        style={{
+                            top: PADDING + (completion.line + 1) * LINE_HEIGHT - scroll.top,
+                            left: `calc(${GUTTER_WIDTH + PADDING - scroll.left}px + ${completion.column}ch)`
+                        }}
+                    >
+                        {completion.entries.map((entry, i) => (
+                            <li
+                                key={entry.name}
+                                ref={i === completion.index ? activeCompletionRef : undefined}
+                                onMouseDown={(e) => { e.preventDefault(); acceptCompletion(i); }}
+                                className={clsx('px-2 flex justify-between gap-4 cursor-pointer', i === completion.index ? 'bg-blue-100' : 'hover:bg-gray-100')}
+                            >
+                                <span className="text-gray-800">{entry.name}</span>
+                                <span className="text-gray-400">{entry.kind}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="flex items-center justify-between mt-1 text-[10px]">
+                <span className={clsx(errorCount > 0 ? 'text-red-500' : warningCount > 0 ? 'text-amber-600' : 'text-gray-400')}>
+                    {serviceError
+                        ? `Code assistance is unavailable: ${serviceError}`
+                        : !service
+                            ? 'Loading code assistance…'
+                            : diagnostics.length === 0
+                                ? 'No problems'
+                                : `${errorCount} error${errorCount === 1 ? '' : 's'}, ${warningCount} warning${warningCount === 1 ? '' : 's'}`}
+                </span>
+                <button onClick={format} disabled={!service} className="text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline" title="Format (Shift+Alt+F)">
+                    Format
+                </button>
+            </div>
+
+            {(diagnostics.length > 0 || runtimeError) && (
+                <ul className="mt-1 max-h-24 overflow-y-auto space-y-0.5">
+                    {runtimeError && (
+                        <li>
+                            <button onClick={() => runtimeError.line && jumpTo(runtimeError.line, runtimeError.column)} className="text-left text-[10px] font-mono text-red-600 hover:underline">
+                                {runtimeError.line ? `Line ${runtimeError.line}: ` : ''}{runtimeError.message} ({runtimeError.event === 'compile' ? 'when starting' : `in ${runtimeError.event}`})
+                            </button>
+                        </li>
+                    )}
+                    {diagnostics.map((d, i) => (
+                        <li key={i}>
+                            <button onClick={() => jumpTo(d.line, d.column)} className={clsx('text-left text-[10px] font-mono hover:underline', (d.severity ?? 'error') === 'error' ? 'text-red-500' : 'text-amber-600')}>
+                                Line {d.line}:{d.column}: {d.message}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ScriptEditor;
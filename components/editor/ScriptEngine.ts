@@ -2,26 +2,124 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { Target, Content, ContentType } from '../../types';
+import { Project, Target, Content, ContentType, ScriptLanguage } from '../../types';
 import { ContentObject, VideoObject, EmbedObject, ModelObject, AudioObject } from './runtime/RuntimeObjects';
+import {
+  ScriptRuntime,
+  ScriptContentDriver,
+  ScriptEventName,
+  AudioScriptEvent,
+  ScriptCue,
+  ScriptLogLevel,
+  ScriptInspection,
+  ScriptStackFrame,
+  ScriptHub,
+  ScriptStorage,
+  ScriptPointer,
+  ScriptPointerHit,
+  ScriptScreenPoint,
+  createScriptHub,
+  createScriptPointer
+} from '../../utils/scriptRuntime';
+import { compileScript, toSourceLine } from '../../utils/scriptCompiler';
 
+/**
+ * A place in the script as written. Columns are only known for JavaScript.
+ */
+export interface ScriptSourceFrame {
+  name: string; // Empty for top-level code and anonymous functions
+  line: number;
+  column?: number;
+}
+
+/**
+ * A script failure in the editor preview. `line` is in the script as written, when known.
+ */
+export interface ScriptError {
+  message: string;
+  event: ScriptEventName | 'compile';
+  line?: number;
+  column?: number;
+  stack?: ScriptSourceFrame[];
+  inProjectScript?: boolean; // Raised by the project script rather than the target's
+}
+
+export interface ScriptConsoleEntry {
+  id: number;
+  level: ScriptLogLevel;
+  message: string;
+  line?: number;
+  error?: ScriptError; // Set for script errors
+  inProjectScript?: boolean;
+  count: number; // Identical consecutive entries are collapsed
+}
+
+/**
+ * What the script console shows for the running preview.
+ */
+export interface ScriptDebugInfo {
+  entries: ScriptConsoleEntry[];
+  inspection: ScriptInspection | null;
+}
+
+export const EMPTY_SCRIPT_DEBUG_INFO: ScriptDebugInfo = { entries: [], inspection: null };
+
+const MAX_CONSOLE_ENTRIES = 500;
+const DEBUG_REFRESH_MS = 250;
+
+/**
+ * Runs the target's script, and the project script, while the preview is running.
+ * The preview shows one target, so it is the only one the scripts ever see found.
+ */
 export const useScriptEngine = (
   target: Target | undefined,
   contentRefs: React.MutableRefObject<Map<string, THREE.Object3D>>,
-  isRunning: boolean
+  isRunning: boolean,
+  project?: Pick<Project, 'targets' | 'script' | 'scriptLanguage'>,
+  storage?: ScriptStorage
 ) => {
   const { gl, scene, camera } = useThree();
-  const [error, setError] = useState<Error | null>(null);
+  const [error, setError] = useState<ScriptError | null>(null);
+  const [debugInfo, setDebugInfo] = useState<ScriptDebugInfo>(EMPTY_SCRIPT_DEBUG_INFO);
   
-  const scriptState = useRef<{
-    functions: any;
-    data: any;
-    sceneObject: any;
-    objectWrappers: Map<string, ContentObject>; // Store the wrapper instances
-  } | null>(null);
+  const runtimeRef = useRef<ScriptRuntime | null>(null);
+  const projectRuntimeRef = useRef<ScriptRuntime | null>(null);
+  const stopTargetRef = useRef<(() => void) | null>(null); // Reports the target lost to the project script
+  const pointerRef = useRef<ScriptPointer | null>(null);
+  const raycaster = useRef(new THREE.Raycaster()).current;
+  const targetNamesRef = useRef<string[]>([]);
+  targetNamesRef.current = project?.targets.map(t => t.name) ?? [];
+  const runIdRef = useRef(0); // Bumped on every start/stop so a compile that finishes late is dropped
+  const debugRef = useRef<ScriptDebugInfo>(EMPTY_SCRIPT_DEBUG_INFO);
+  const publishTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const nextEntryId = useRef(1);
+
+  // Scripts log and update every frame, so the console is re-rendered at a fixed rate at most
+  const updateDebugInfo = (update: (info: ScriptDebugInfo) => ScriptDebugInfo) => {
+    debugRef.current = update(debugRef.current);
+    if (publishTimer.current) return;
+    publishTimer.current = setTimeout(() => {
+      publishTimer.current = null;
+      setDebugInfo(debugRef.current);
+    }, DEBUG_REFRESH_MS);
+  };
+
+  const addConsoleEntry = (level: ScriptLogLevel, message: string, line?: number, error?: ScriptError, inProjectScript?: boolean) => updateDebugInfo((info) => {
+    const last = info.entries[info.entries.length - 1];
+    const entries = last && last.level === level && last.message === message && last.line === line && !!last.error === !!error && last.inProjectScript === inProjectScript
+      ? [...info.entries.slice(0, -1), { ...last, count: last.count + 1 }]
+      : [...info.entries, { id: nextEntryId.current++, level, message, line, error, inProjectScript, count: 1 }].slice(-MAX_CONSOLE_ENTRIES);
+    return { ...info, entries };
+  });
+
+  const reportError = (scriptError: ScriptError) => {
+    addConsoleEntry('error', scriptError.message, scriptError.line, scriptError, scriptError.inProjectScript);
+    // A failing onUpdate reports once instead of on every frame
+    setError(prev => prev && scriptError.event === 'onUpdate' ? prev : scriptError);
+  };
 
   // Helper to create the correct wrapper based on content type
-  const createWrapper = (content: Content, mesh: THREE.Object3D) => {
+  const createWrapper = (content: Content, mesh: THREE.Object3D): ContentObject => {
       const type = content.type;
       
       // Check userData for specific capabilities attached during ScenePanel render
@@ -29,46 +127,47 @@ export const useScriptEngine = (
       const userData = mesh.userData;
 
       if (type === ContentType.VIDEO && userData.videoElement) {
-          return new VideoObject(content.id, content.name, mesh as THREE.Mesh, userData.videoElement);
+          return new VideoObject(content.id, content.name, type, mesh, userData.videoElement);
       }
       
-      if ((type === ContentType.STREAMING_VIDEO || type === ContentType.ICON_YOUTUBE) && userData.player) {
-          return new EmbedObject(content.id, content.name, mesh, userData.player);
+      const isStreaming = type === ContentType.STREAMING_VIDEO || type === ContentType.YOUTUBE ||
+                          type === ContentType.VIMEO || type === ContentType.ICON_YOUTUBE;
+      if (isStreaming && userData.player) {
+          return new EmbedObject(content.id, content.name, type, mesh, userData.player);
       }
 
-      if (type === ContentType.MODEL && userData.actions) {
-          return new ModelObject(content.id, content.name, mesh as THREE.Group, userData.actions);
+      if (type === ContentType.MODEL && userData.animator) {
+          return new ModelObject(content.id, content.name, type, mesh, userData.animator);
       }
 
-      if (type === ContentType.AUDIO && userData.audioElement) {
-          return new AudioObject(content.id, content.name, mesh, userData.audioElement);
+      if (type === ContentType.AUDIO && userData.playlist) {
+          return new AudioObject(content.id, content.name, type, mesh, userData.playlist);
       }
 
       // Default generic object (Image, Text, or generic)
-      return new ContentObject(content.id, content.name, mesh);
+      return new ContentObject(content.id, content.name, type, mesh);
   };
 
   // Reset when target changes or script stops
   useEffect(() => {
     if (!isRunning || !target) {
-      if (scriptState.current && scriptState.current.functions && scriptState.current.functions.onDeactivate) {
-          try {
-              scriptState.current.functions.onDeactivate({
-                  target: scriptState.current.sceneObject,
-                  data: scriptState.current.data
-              });
-          } catch (e) {
-              console.error("Script onDeactivate error:", e);
-              setError(e instanceof Error ? e : new Error(String(e)));
-          }
+      const runId = ++runIdRef.current;
+      // The workers finish onDeactivate and onTargetLost before they are terminated
+      if (runtimeRef.current) {
+          runtimeRef.current.dispatch('onDeactivate');
       }
+      stopTargetRef.current?.();
+      const runtimes = [runtimeRef.current, projectRuntimeRef.current].filter((runtime): runtime is ScriptRuntime => runtime !== null);
 
-      scriptState.current = null;
+      runtimeRef.current = null;
+      projectRuntimeRef.current = null;
+      stopTargetRef.current = null;
       
       // Reset objects to their original state from props
+      let resetContents = () => {};
       if (!isRunning && target) {
           setError(null);
-          target.contents.forEach(content => {
+          resetContents = () => target.contents.forEach(content => {
               const mesh = contentRefs.current.get(content.id);
               if (mesh) {
                   mesh.position.set(...content.transform.position);
@@ -82,13 +181,60 @@ export const useScriptEngine = (
               }
           });
       }
+
+      // Only once the last changes of the scripts are applied, unless the preview was started again meanwhile
+      let running = runtimes.length;
+      runtimes.forEach(runtime => runtime.stop(() => {
+          if (--running === 0 && runId === runIdRef.current) resetContents();
+      }));
+      if (runtimes.length === 0) resetContents();
       return;
     }
 
-    if (target.script) {
-      initScript(target);
+    if (target.script || project?.script) {
+      initScripts(target);
     }
-  }, [isRunning, target]);
+  }, [isRunning, target, project?.script, project?.scriptLanguage]);
+
+  // The preview shows the target at the origin, so world space is target space
+  const pickContent = (target: Target, screen: ScriptScreenPoint): ScriptPointerHit<null> | null => {
+    raycaster.setFromCamera(new THREE.Vector2(screen.x * 2 - 1, -screen.y * 2 + 1), camera);
+    let nearest: ScriptPointerHit<null> | null = null;
+    target.contents.forEach((content) => {
+      const mesh = contentRefs.current.get(content.id);
+      if (!mesh || !mesh.visible) return;
+      const [hit] = raycaster.intersectObject(mesh, true);
+      if (hit && (!nearest || hit.distance < nearest.distance)) {
+        nearest = { owner: null, object: content.name, point: hit.point.toArray(), distance: hit.distance };
+      }
+    });
+    return nearest;
+  };
+
+  useEffect(() => {
+    if (!isRunning || !target) return;
+    const pointer = createScriptPointer<null>(gl.domElement, {
+      pick: (screen) => pickContent(target, screen),
+      projectToTarget: (_, screen, depth) => {
+        raycaster.setFromCamera(new THREE.Vector2(screen.x * 2 - 1, -screen.y * 2 + 1), camera);
+        const hit = raycaster.ray.intersectPlane(new THREE.Plane(new THREE.Vector3(0, 0, 1), -depth), new THREE.Vector3());
+        return hit ? hit.toArray() : null;
+      },
+      dispatch: (_, event, params) => runtimeRef.current?.dispatch(event, params)
+    });
+    pointerRef.current = pointer;
+    return () => {
+      pointer.dispose();
+      pointerRef.current = null;
+    };
+  }, [isRunning, target, gl, camera]);
+
+  useEffect(() => () => {
+      runIdRef.current++;
+      runtimeRef.current?.dispose();
+      projectRuntimeRef.current?.dispose();
+      if (publishTimer.current) clearTimeout(publishTimer.current);
+  }, []);
 
   const captureScreen = useCallback(() => {
       if (!gl) return;
@@ -106,125 +252,137 @@ export const useScriptEngine = (
       window.open(url, '_blank');
   }, []);
 
-  const initScript = (target: Target) => {
-    setError(null);
-    const objectWrappers = new Map<string, ContentObject>();
+  /**
+   * Compile a script and start it on the hub. Returns null if it does not compile,
+   * or if the preview was stopped or restarted meanwhile.
+   */
+  const startScript = async (
+    hub: ScriptHub,
+    name: string,
+    source: { script?: string; scriptLanguage?: ScriptLanguage },
+    getObjects: () => ScriptContentDriver[],
+    runId: number,
+    target?: Target // Whose contents target.raycast() hits; none for the project script
+  ): Promise<ScriptRuntime | null> => {
+    const inProjectScript = !target;
+    let code: string;
+    let lineMap: number[] | undefined;
+    try {
+      const result = await compileScript(source.script || '', source.scriptLanguage);
+      if (runId !== runIdRef.current) return null;
+      if (result.code === null) {
+        const { message, line, column } = result.diagnostics[0];
+        reportError({ message, event: 'compile', line, column, inProjectScript });
+        return null;
+      }
+      code = result.code;
+      lineMap = result.lineMap;
+    } catch (e) {
+      if (runId === runIdRef.current) {
+        reportError({ message: `Could not load the TypeScript compiler: ${(e as Error).message}`, event: 'compile', inProjectScript });
+      }
+      return null;
+    }
 
-    const getObjectByName = (name: string) => {
-      if (objectWrappers.has(name)) return objectWrappers.get(name)?.getScriptWrapper();
+    // Transpiling keeps lines roughly in place but not columns
+    const toSourceFrame = ({ name, line, column }: ScriptStackFrame): ScriptSourceFrame => ({
+      name,
+      line: toSourceLine(lineMap, line),
+      column: lineMap ? undefined : column
+    });
 
-      const content = target.contents.find((c) => c.name === name);
-      if (!content) return null;
-      
-      const mesh = contentRefs.current.get(content.id);
-      if (!mesh) return null;
+    // The script runs in a worker; its calls are applied to the wrappers when each handler returns
+    return hub.createRuntime(name, code, {
+      getObjects,
+      captureScreen,
+      openUrl,
+      raycast: target && ((x, y) => pickContent(target, { x, y })),
+      onError: (message, event, location) => {
+        console.error(`Script ${event} error${inProjectScript ? ' (project script)' : ''}:`, message);
+        const stack = location?.stack.map(toSourceFrame);
+        reportError({ message, event, line: stack?.[0]?.line, column: stack?.[0]?.column, stack, inProjectScript });
+      },
+      onLog: (level, message, frame) => {
+        addConsoleEntry(level, message, frame && toSourceLine(lineMap, frame.line), undefined, inProjectScript);
+      },
+      onInspect: inProjectScript ? undefined : (inspection) => {
+        updateDebugInfo(info => ({ ...info, inspection }));
+      }
+    });
+  };
 
-      const wrapper = createWrapper(content, mesh);
-      objectWrappers.set(name, wrapper);
-      return wrapper.getScriptWrapper();
-    };
+  const initScripts = async (target: Target) => {
+    setError(null);
+    debugRef.current = EMPTY_SCRIPT_DEBUG_INFO;
+    setDebugInfo(EMPTY_SCRIPT_DEBUG_INFO);
+    runtimeRef.current?.dispose();
+    projectRuntimeRef.current?.dispose();
+    runtimeRef.current = null;
+    projectRuntimeRef.current = null;
+    stopTargetRef.current = null;
+    const runId = ++runIdRef.current;
 
-    const sceneObject = {
-      getObject: getObjectByName,
-      captureScreen: captureScreen,
-      openUrl: openUrl
-    };
+    const names = targetNamesRef.current;
+    const hub = createScriptHub(names.includes(target.name) ? names : [...names, target.name], storage);
 
-    const eventList = ['onInit', 'onActivate', 'onDeactivate', 'onUpdate', 'onClick'];
-    let scriptWrapResultObj: any = {};
-    eventList.forEach((eventKey) => {
-      scriptWrapResultObj[eventKey] = eventKey;
+    // Wrappers are rebuilt for every event, so players that finish loading later are picked up
+    const getObjects = (): ScriptContentDriver[] => target.contents.flatMap((content) => {
+      const mesh = contentRefs.current.get(content.id);
+      return mesh ? [createWrapper(content, mesh).getScriptDriver()] : [];
     });
-    let scriptWrapParams = eventList.join(',');
-    let scriptWrapResult = JSON.stringify(scriptWrapResultObj).replace(/\"/g, '');
-
-    try {
-      const scriptContent = target.script || '';
-      const functions = (new Function(scriptWrapParams, scriptContent + '\nreturn ' + scriptWrapResult + ';'))();
-      
-      const state = {
-        functions,
-        data: {},
-        sceneObject,
-        objectWrappers
-      };
-      
-      scriptState.current = state;
-
-      if (functions.onInit) {
-          try {
-              functions.onInit({ target: sceneObject, data: state.data });
-          } catch (e) {
-              console.error("Script onInit error:", e);
-              setError(e instanceof Error ? e : new Error(String(e)));
-          }
-      }
-
-      if (functions.onActivate) {
-          try {
-              functions.onActivate({ target: sceneObject, data: state.data });
-          } catch (e) {
-              console.error("Script onActivate error:", e);
-              setError(e instanceof Error ? e : new Error(String(e)));
-          }
-      }
 
-    } catch (e) {
-      console.error("Error compiling custom script:", e);
-      setError(e instanceof Error ? e : new Error(String(e)));
+    // Both compile before either starts, so neither misses the other's first messages
+    const [projectRuntime, runtime] = await Promise.all([
+      project?.script ? startScript(hub, '', project, () => [], runId) : null,
+      target.script ? startScript(hub, target.name, target, getObjects, runId, target) : null,
+    ]);
+    if (runId !== runIdRef.current) {
+      projectRuntime?.dispose();
+      runtime?.dispose();
+      return;
     }
+    projectRuntimeRef.current = projectRuntime;
+    runtimeRef.current = runtime;
+    stopTargetRef.current = () => hub.setTargetTracked(target.name, false);
+
+    projectRuntime?.dispatch('onInit');
+    runtime?.dispatch('onInit');
+    runtime?.dispatch('onActivate');
+    hub.setTargetTracked(target.name, true);
   };
 
   useFrame((state, delta) => {
-    if (isRunning && scriptState.current && scriptState.current.functions.onUpdate) {
-      try {
-        scriptState.current.functions.onUpdate({
-          target: scriptState.current.sceneObject,
-          data: scriptState.current.data,
-          time: state.clock.elapsedTime,
-          deltaTime: delta
-        });
-      } catch (e) {
-        if (!error) {
-            console.error("Script onUpdate error:", e);
-            setError(e instanceof Error ? e : new Error(String(e)));
-        }
-      }
-    }
+    if (!isRunning) return;
+    [projectRuntimeRef.current, runtimeRef.current].forEach(runtime => runtime?.dispatch('onUpdate', {
+      time: state.clock.elapsedTime,
+      deltaTime: delta
+    }));
   });
 
   const handleScriptClick = useCallback((content: Content) => {
-      if (!isRunning || !scriptState.current) return false;
-
-      const functions = scriptState.current.functions;
-      if (functions.onClick) {
-          // Initialize wrapper if not already done via getObject
-          let wrapper = scriptState.current.objectWrappers.get(content.name);
-          if (!wrapper) {
-             const mesh = contentRefs.current.get(content.id);
-             if (mesh) {
-                wrapper = createWrapper(content, mesh);
-                scriptState.current.objectWrappers.set(content.name, wrapper);
-             }
-          }
-
-          if (wrapper) {
-              try {
-                  functions.onClick({ 
-                      target: scriptState.current.sceneObject,
-                      data: scriptState.current.data,
-                      object: wrapper.getScriptWrapper(),
-                      time: performance.now() / 1000 
-                    });
-              } catch (e) {
-                  console.error("Script onClick error:", e);
-                  setError(e instanceof Error ? e : new Error(String(e)));
-              }
-              return true; 
-          }
-      }
-      return false;
-  }, [isRunning, error]);
+      const runtime = runtimeRef.current;
+      if (!isRunning || !runtime) return false;
+      // The end of a drag or long press is not a click
+      if (pointerRef.current && !pointerRef.current.isClick()) return true;
+      if (!runtime.hasHandler('onClick')) return false;
+      if (!contentRefs.current.has(content.id)) return false;
+
+      runtime.dispatch('onClick', {
+          object: content.name,
+          time: performance.now() / 1000
+      });
+      return true;
+  }, [isRunning]);
+
+  const handleAnimationFinished = useCallback((content: Content, clip: string) => {
+      if (!isRunning) return;
+      runtimeRef.current?.dispatch('onAnimationFinished', { object: content.name, clip });
+  }, [isRunning]);
+
+  const handleAudioEvent = useCallback((content: Content, event: AudioScriptEvent, data: { track: number, cue?: ScriptCue }) => {
+      if (!isRunning) return;
+      runtimeRef.current?.dispatch(event, { object: content.name, ...data });
+  }, [isRunning]);
 
-  return { handleScriptClick, error };
+  return { handleScriptClick, handleAnimationFinished, handleAudioEvent, error, debugInfo };
 };
@@ -0,0 +1,315 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Target, TimelineProperty, TimelineEasing, Timeline } from '../../types';
+import { PlayIcon, PauseIcon, TrashIcon, ChevronRight } from '../icons/Icons';
+import {
+    TimelinePlayback,
+    TIMELINE_PROPERTIES,
+    TIMELINE_EASINGS,
+    DEFAULT_KEYFRAME_EASING,
+    createTimeline,
+    getPlaybackTime,
+    getTimelineTrack,
+    getTimelineValue,
+    upsertKeyframe,
+    updateKeyframe,
+    removeKeyframe
+} from '../../utils/timelineUtils';
+import { clsx } from 'clsx';
+
+// Scrubbing and keyframe drags snap to this step, in seconds
+const TIME_SNAP = 0.05;
+
+interface KeyframeRef {
+    contentId: string;
+    property: TimelineProperty;
+    keyframeId: string;
+}
+
+interface TimelinePanelProps {
+    target: Target | undefined;
+    selectedContentId: string | null;
+    onSelectContent: (contentId: string) => void;
+    onTargetUpdate: (target: Target) => void;
+    isOpen: boolean;
+    onToggle: () => void;
+    playback: TimelinePlayback | null;
+    onPlaybackChange: (playback: TimelinePlayback) => void;
+}
+
+const formatTime = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({
+    target,
+    selectedContentId,
+    onSelectContent,
+    onTargetUpdate,
+    isOpen,
+    onToggle,
+    playback,
+    onPlaybackChange
+}) => {
+    const [selectedKey, setSelectedKey] = useState<KeyframeRef | null>(null);
+    const [dragging, setDragging] = useState<(KeyframeRef & { time: number }) | null>(null);
+    const [, setFrame] = useState(0);
+    const trackAreaRef = useRef<HTMLDivElement>(null);
+    const isScrubbing = useRef(false);
+
+    const timeline: Timeline = target?.timeline ?? createTimeline();
+    const duration = timeline.duration;
+    const time = playback ? getPlaybackTime(playback, timeline) : 0;
+    const isPlaying = !!playback?.playing;
+
+    // Re-render every frame while playing so the playhead moves. The scene derives the time on its own.
+    useEffect(() => {
+        if (!isPlaying || !playback) return;
+        let frameId = requestAnimationFrame(function tick() {
+            const elapsed = playback.time + (performance.now() - playback.startedAt) / 1000;
+            if (!timeline.loop && elapsed >= duration) {
+                onPlaybackChange({ time: duration, playing: false, startedAt: 0 });
+                return;
+            }
+            setFrame(n => n + 1);
+            frameId = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frameId);
+    }, [isPlaying, playback, timeline.loop, duration, onPlaybackChange]);
+
+    useEffect(() => { setSelectedKey(null); }, [target?.id]);
+
+    const updateTimeline = (next: Timeline) => {
+        if (target) onTargetUpdate({ ...target, timeline: next });
+    };
+
+    const seek = (seconds: number) => {
+        onPlaybackChange({ time: Math.min(duration, Math.max(0, seconds)), playing: false, startedAt: 0 });
+    };
+
+    const togglePlay = () => {
+        if (isPlaying) {
+            onPlaybackChange({ time, playing: false, startedAt: 0 });
+        } else {
+            // Playing from the end starts over
+            const from = !timeline.loop && time >= duration ? 0 : time;
+            onPlaybackChange({ time: from, playing: true, startedAt: performance.now() });
+        }
+    };
+
+    const timeFromPointer = (clientX: number) => {
+        const rect = trackAreaRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0) return 0;
+        const raw = ((clientX - rect.left) / rect.width) * duration;
+        const snapped = Number((Math.round(raw / TIME_SNAP) * TIME_SNAP).toFixed(3));
+        return Math.min(duration, Math.max(0, snapped));
+    };
+
+    const handleScrubStart = (e: React.PointerEvent) => {
+        isScrubbing.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setSelectedKey(null);
+        seek(timeFromPointer(e.clientX));
+    };
+
+    const handleScrubMove = (e: React.PointerEvent) => {
+        if (isScrubbing.current) seek(timeFromPointer(e.clientX));
+    };
+
+    const handleKeyframeDown = (e: React.PointerEvent, key: KeyframeRef, keyTime: number) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setSelectedKey(key);
+        setDragging({ ...key, time: keyTime });
+        seek(keyTime);
+    };
+
+    const handleKeyframeMove = (e: React.PointerEvent) => {
+        if (!dragging) return;
+        const next = timeFromPointer(e.clientX);
+        if (next !== dragging.time) setDragging({ ...dragging, time: next });
+    };
+
+    // Drags are committed once, on release, so they make a single undo step
+    const handleKeyframeUp = () => {
+        if (!dragging) return;
+        const { contentId, property, keyframeId, time: dropTime } = dragging;
+        setDragging(null);
+        const keyframe = getTimelineTrack(timeline, contentId, property)?.keyframes.find(k => k.id === keyframeId);
+        if (keyframe && keyframe.time !== dropTime) {
+            updateTimeline(updateKeyframe(timeline, contentId, property, keyframeId, { time: dropTime }));
+            seek(dropTime);
+        }
+    };
+
+    const handleAddKeyframe = (contentId: string, property: TimelineProperty) => {
+        const content = target?.contents.find(c => c.id === contentId);
+        if (!content) return;
+        const next = upsertKeyframe(timeline, contentId, property, time, getTimelineValue(timeline, content, property, time));
+        updateTimeline(next);
+        const added = getTimelineTrack(next, contentId, property)?.keyframes.find(k => Math.abs(k.time - time) < TIME_SNAP / 2);
+        if (added) setSelectedKey({ contentId, property, keyframeId: added.id });
+    };
+
+    const selectedKeyframe = selectedKey
+        ? getTimelineTrack(timeline, selectedKey.contentId, selectedKey.property)?.keyframes.find(k => k.id === selectedKey.keyframeId)
+        : undefined;
+
+    const toPercent = (seconds: number) => `${duration > 0 ? Math.min(100, (seconds / duration) * 100) : 0}%`;
+    const rulerTicks = Array.from({ length: Math.floor(duration) + 1 }, (_, i) => i);
+
+    const renderKeyframes = (contentId: string, property: TimelineProperty) => {
+        const track = getTimelineTrack(timeline, contentId, property);
+        return track?.keyframes.map(k => {
+            const isSelected = selectedKey?.keyframeId === k.id;
+            const keyTime = dragging?.keyframeId === k.id ? dragging.time : k.time;
+            return (
+                <div
+                    key={k.id}
+                    title={`${formatTime(keyTime)}: ${k.value.map(v => +v.toFixed(2)).join(', ')}`}
+                    onPointerDown={(e) => handleKeyframeDown(e, { contentId, property, keyframeId: k.id }, k.time)}
+                    onPointerMove={handleKeyframeMove}
+                    onPointerUp={handleKeyframeUp}
+                    className={clsx(
+                        'absolute top-1/2 w-2.5 h-2.5 -ml-[5px] -mt-[5px] rotate-45 border cursor-ew-resize',
+                        isSelected ? 'bg-accent-primary border-white' : 'bg-yellow-400 border-yellow-600'
+                    )}
+                    style={{ left: toPercent(keyTime) }}
+                />
+            );
+        });
+    };
+
+    return (
+        <section
+            className="bg-background-secondary border-t border-border-default flex flex-col flex-shrink-0 text-text-primary"
+            style={{ height: isOpen ? 220 : 36 }}
+        >
+            <div className="h-9 flex items-center gap-3 px-3 border-b border-border-subtle flex-shrink-0 text-xs">
+                <button onClick={onToggle} className="flex items-center gap-1 font-semibold uppercase tracking-wider text-text-tertiary hover:text-text-primary">
+                    <ChevronRight className={clsx('w-3 h-3 transition-transform', isOpen && 'rotate-90')} />
+                    Timeline
+                </button>
+                {isOpen && target && (
+                    <>
+                        <button onClick={togglePlay} className="p-1 rounded hover:bg-background-hover" title={isPlaying ? 'Pause' : 'Play'}>
+                            {isPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+                        </button>
+                        <span className="font-mono w-28">{formatTime(time)} / {formatTime(duration)}</span>
+                        <label className="flex items-center gap-1 text-text-tertiary">
+                            Duration
+                            <input
+                                type="number"
+                                min="0.1"
+                                step="0.5"
+                                value={duration}
+                                onChange={(e) => updateTimeline({ ...timeline, duration: Math.min(600, Math.max(0.1, parseFloat(e.target.value) || 0.1)) })}
+                                className="w-14 px-1 py-0.5 border border-border-default rounded bg-background-tertiary text-text-primary"
+                            />
+                        </label>
+                        <label className="flex items-center gap-1 text-text-tertiary" title="Restart when the end is reached, for as long as the target is tracked">
+                            <input type="checkbox" checked={timeline.loop ?? false} onChange={(e) => updateTimeline({ ...timeline, loop: e.target.checked })} className="h-3 w-3" />
+                            Loop
+                        </label>
+                        {selectedKey && selectedKeyframe && (
+                            <div className="ml-auto flex items-center gap-2">
+                                <span className="text-text-tertiary">Keyframe at {formatTime(selectedKeyframe.time)}</span>
+                                <select
+                                    value={selectedKey.property === 'visible' ? 'step' : (selectedKeyframe.easing ?? DEFAULT_KEYFRAME_EASING)}
+                                    onChange={(e) => updateTimeline(updateKeyframe(timeline, selectedKey.contentId, selectedKey.property, selectedKey.keyframeId, { easing: e.target.value as TimelineEasing }))}
+                                    disabled={selectedKey.property === 'visible'}
+                                    title="Curve towards the next keyframe"
+                                    className="px-1 py-0.5 border border-border-default rounded bg-background-tertiary text-text-primary disabled:opacity-50"
+                                >
+                                    {TIMELINE_EASINGS.map(e => <option key={e.id} value={e.id}>{e.label}</option>)}
+                                </select>
+                                <button
+                                    onClick={() => {
+                                        updateTimeline(removeKeyframe(timeline, selectedKey.contentId, selectedKey.property, selectedKey.keyframeId));
+                                        setSelectedKey(null);
+                                    }}
+                                    className="p-1 rounded text-accent-danger hover:bg-background-hover"
+                                    title="Delete keyframe"
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+
+            {isOpen && (
+                !target ? (
+                    <div className="flex-1 flex items-center justify-center text-xs text-text-tertiary italic">Select a target to animate its content.</div>
+                ) : target.contents.length === 0 ? (
+                    <div className="flex-1 flex items-center justify-center text-xs text-text-tertiary italic">Add content to this target to animate it.</div>
+                ) : (
+                    <div className="flex-1 overflow-y-auto text-xs">
+                        <div className="flex sticky top-0 z-10 bg-background-secondary border-b border-border-subtle">
+                            <div className="w-48 flex-shrink-0" />
+                            <div
+                                ref={trackAreaRef}
+                                className="relative flex-1 h-5 mr-3 cursor-pointer select-none"
+                                onPointerDown={handleScrubStart}
+                                onPointerMove={handleScrubMove}
+                                onPointerUp={() => { isScrubbing.current = false; }}
+                            >
+                                {rulerTicks.map(s => (
+                                    <div key={s} className="absolute top-0 h-full border-l border-border-default pl-0.5 text-[10px] text-text-tertiary" style={{ left: toPercent(s) }}>{s}s</div>
+                                ))}
+                                <div className="absolute top-0 h-full w-px bg-accent-danger pointer-events-none" style={{ left: toPercent(time) }} />
+                            </div>
+                        </div>
+
+                        {target.contents.map(content => {
+                            const isSelected = content.id === selectedContentId;
+                            const keyedTimes = Array.from(new Set(
+                                timeline.tracks.filter(t => t.contentId === content.id).flatMap(t => t.keyframes.map(k => k.time))
+                            ));
+                            return (
+                                <div key={content.id}>
+                                    <div className={clsx('flex items-center h-6', isSelected && 'bg-background-tertiary')}>
+                                        <button onClick={() => onSelectContent(content.id)} className="w-48 flex-shrink-0 px-3 text-left truncate font-medium hover:text-accent-primary">
+                                            {content.name}
+                                        </button>
+                                        <div className="relative flex-1 h-full mr-3 pointer-events-none">
+                                            {keyedTimes.map(t => (
+                                                <div key={t} className="absolute top-1/2 w-1.5 h-1.5 -ml-[3px] -mt-[3px] rotate-45 bg-text-tertiary" style={{ left: toPercent(t) }} />
+                                            ))}
+                                            <div className="absolute top-0 h-full w-px bg-accent-danger/60" style={{ left: toPercent(time) }} />
+                                        </div>
+                                    </div>
+                                    {isSelected && TIMELINE_PROPERTIES.map(({ id: property, label }) => (
+                                        <div key={property} className="flex items-center h-6">
+                                            <div className="w-48 flex-shrink-0 pl-6 pr-2 flex items-center justify-between text-text-secondary">
+                                                <span>{label}</span>
+                                                <button
+                                                    onClick={() => handleAddKeyframe(content.id, property)}
+                                                    className="px-1 text-yellow-500 hover:text-yellow-300"
+                                                    title={`Keyframe ${label.toLowerCase()} at ${formatTime(time)}`}
+                                                >
+                                                    ◆
+                                                </button>
+                                            </div>
+                                            <div
+                                                className="relative flex-1 h-full mr-3 border-b border-border-subtle cursor-pointer"
+                                                onPointerDown={handleScrubStart}
+                                                onPointerMove={handleScrubMove}
+                                                onPointerUp={() => { isScrubbing.current = false; }}
+                                            >
+                                                {renderKeyframes(content.id, property)}
+                                                <div className="absolute top-0 h-full w-px bg-accent-danger/60 pointer-events-none" style={{ left: toPercent(time) }} />
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )
+            )}
+        </section>
+    );
+};
+
+export default TimelinePanel;
@@ -2,23 +2,28 @@
  * AudioObject - Handles audio content in the scene.
  * Mirrors refcode/lib/src/scene/player/AudioAssetObject.js
  * 
- * Uses THREE.PositionalAudio for spatial audio.
+ * Plays the content's playlist on an HTMLAudioElement, with its subtitles (see utils/playlistUtils.ts).
+ * Spatial audio goes through a THREE.PositionalAudio on the content's transform, heard through the
+ * listener set with setAudioListener() (see utils/audioUtils.ts).
  */
 
 import * as THREE from 'three';
-import { ContentObject, ScriptAPI, ContentObjectOptions } from './ContentObject';
-
-export interface AudioScriptAPI extends ScriptAPI {
-  getAudio: () => HTMLAudioElement | null;
-  playVideo: () => void;
-  pauseVideo: () => void;
-  stopVideo: () => void;
-}
+import { ContentObject, ContentObjectOptions } from './ContentObject';
+import { AudioScriptEvent, ScriptContentDriver } from '../../../utils/scriptRuntime';
+import { SpatialAudio, getSpatialAudio, updateSpatialAudio } from '../../../utils/audioUtils';
+import { AudioPlaylist, SubtitleCue, SubtitleDisplay, getPlaylistTracks, createAudioPlaylist, createSubtitleDisplay, getSubtitleText } from '../../../utils/playlistUtils';
 
 export class AudioObject extends ContentObject {
   private audioElement: HTMLAudioElement | null = null;
+  private playlist: AudioPlaylist | null = null;
+  private subtitles: SubtitleDisplay | null = null;
+  private subtitleContainer: HTMLElement | null = null;
   private positionalAudio: THREE.PositionalAudio | null = null;
   private audioListener: THREE.AudioListener | null = null;
+  private spatialAudio: SpatialAudio | null = null;
+
+  /** Called when a clip ends and when a subtitle cue starts or ends */
+  public onAudioEvent: ((event: AudioScriptEvent, data: { track: number, cue?: SubtitleCue }) => void) | null = null;
 
   constructor(options: ContentObjectOptions) {
     super(options);
@@ -29,8 +34,9 @@ export class AudioObject extends ContentObject {
    */
   public async init(): Promise<void> {
     const { content } = this;
+    const tracks = getPlaylistTracks(content);
     
-    if (!content.audioUrl) {
+    if (!tracks.length) {
       console.warn('AudioObject: No audio URL provided');
       return;
     }
@@ -38,21 +44,32 @@ export class AudioObject extends ContentObject {
     // Create audio element
     this.audioElement = new Audio();
     this.audioElement.crossOrigin = 'anonymous';
-    this.audioElement.src = content.audioUrl;
-    this.audioElement.loop = content.loop ?? false;
-    
-    // Create audio listener and positional audio
-    this.audioListener = new THREE.AudioListener();
-    this.positionalAudio = new THREE.PositionalAudio(this.audioListener);
+    this.playlist = createAudioPlaylist(this.audioElement, tracks, {
+      loop: content.loop ?? false,
+      autoAdvance: content.audioAutoAdvance ?? true
+    }, {
+      onEnded: (track) => this.onAudioEvent?.('onEnded', { track }),
+      onCueEnter: (track, cue) => this.onAudioEvent?.('onCueEnter', { track, cue }),
+      onCueExit: (track, cue) => this.onAudioEvent?.('onCueExit', { track, cue }),
+      onCuesChange: (cues) => this.subtitles?.setText(getSubtitleText(cues))
+    });
     
     // Create a group to hold the audio
     this.mesh = new THREE.Group();
+    this.subtitles = createSubtitleDisplay(content.subtitleMode, this.subtitleContainer, this.mesh);
     
-    // Connect audio element to positional audio
-    this.positionalAudio.setMediaElementSource(this.audioElement);
-    this.positionalAudio.setRefDistance(1);
-    
-    this.mesh.add(this.positionalAudio);
+    // The element is routed through the positional audio for good, so the mode is fixed here
+    this.spatialAudio = getSpatialAudio(content);
+    if (this.spatialAudio) {
+      if (this.audioListener) {
+        this.positionalAudio = new THREE.PositionalAudio(this.audioListener);
+        this.positionalAudio.setMediaElementSource(this.audioElement);
+        this.mesh.add(this.positionalAudio);
+        updateSpatialAudio(this.positionalAudio, this.spatialAudio);
+      } else {
+        console.warn('AudioObject: No audio listener set, playing without spatial audio');
+      }
+    }
     
     // Apply transform
     this.applyTransformToMesh();
@@ -61,41 +78,73 @@ export class AudioObject extends ContentObject {
       this.mesh.userData.isContent = true;
       this.mesh.userData.contentId = this.uuid;
       this.mesh.userData.audioElement = this.audioElement;
+      this.mesh.userData.playlist = this.playlist;
     }
   }
 
   /**
-   * Set the audio listener (usually from the camera).
+   * Set the audio listener (usually on the camera) spatial audio is heard through.
+   * Takes effect on the next init().
    */
   public setAudioListener(listener: THREE.AudioListener): void {
     this.audioListener = listener;
-    if (this.positionalAudio && this.audioElement) {
-      // Reconnect with new listener
-      if (this.positionalAudio.isPlaying) {
-        this.positionalAudio.stop();
-      }
-      this.positionalAudio.setMediaElementSource(this.audioElement);
+  }
+
+  /**
+   * Set the positioned element overlay subtitles are shown in (usually the player's container).
+   * Takes effect on the next init().
+   */
+  public setSubtitleContainer(container: HTMLElement): void {
+    this.subtitleContainer = container;
+  }
+
+  /**
+   * Follow the target's scale with the falloff distances, and the clip's time with the subtitles.
+   */
+  public update(deltaTime: number): void {
+    super.update(deltaTime);
+    if (this.positionalAudio && this.spatialAudio) {
+      updateSpatialAudio(this.positionalAudio, this.spatialAudio);
     }
+    this.playlist?.update();
   }
 
   /**
    * Called when the target becomes active.
    */
   public activate(): void {
+    super.activate();
+    
     const content = this.getContent();
     
-    if (content.autoplay && this.audioElement) {
-      this.audioElement.play().catch(console.error);
+    if (content.autoplay) {
+      this.play();
     }
   }
 
+  /**
+   * Play the playlist, resuming the audio context first when the element is routed through it.
+   */
+  private play(): void {
+    this.resumeAudio();
+    this.playlist?.play();
+  }
+
+  /**
+   * A suspended context leaves the routed element silent. Browsers suspend it until the page is interacted with.
+   */
+  private resumeAudio(): void {
+    const context = this.positionalAudio?.context;
+    if (context?.state === 'suspended') context.resume().catch(() => {});
+  }
+
   /**
    * Called when the target becomes inactive.
    */
   public deactivate(): void {
-    if (this.audioElement) {
-      this.audioElement.pause();
-    }
+    super.deactivate();
+    
+    this.playlist?.pause();
   }
 
   /**
@@ -106,22 +155,30 @@ export class AudioObject extends ContentObject {
   }
 
   /**
-   * Create the script API wrapper.
+   * Describe this object to the script runtime, with playback controls over the playlist.
    */
-  public createScriptWrapper(): AudioScriptAPI {
-    const api = super.createScriptWrapper() as AudioScriptAPI;
+  public getScriptDriver(): ScriptContentDriver {
     const self = this;
     
     return {
-      ...api,
-      getAudio: () => self.audioElement,
-      playVideo: () => self.audioElement?.play(),
-      pauseVideo: () => self.audioElement?.pause(),
-      stopVideo: () => {
-        if (self.audioElement) {
-          self.audioElement.pause();
-          self.audioElement.currentTime = 0;
-        }
+      ...super.getScriptDriver(),
+      media: {
+        play: () => self.play(),
+        pause: () => self.playlist?.pause(),
+        stop: () => self.playlist?.stop(),
+        seekTo: (seconds) => self.playlist?.seekTo(seconds),
+        setVolume: (volume) => self.playlist?.setVolume(volume),
+        setMuted: (muted) => self.playlist?.setMuted(muted),
+        setLoop: (loop) => self.playlist?.setLoop(loop),
+        isPlaying: () => self.playlist?.isPlaying() ?? false,
+        next: () => self.playlist?.next(),
+        previous: () => self.playlist?.previous(),
+        playTrack: (index) => {
+          self.resumeAudio();
+          self.playlist?.playTrack(index);
+        },
+        getTrack: () => self.playlist?.getTrack() ?? 0,
+        getTrackCount: () => self.playlist?.getTrackCount() ?? 0
       }
     };
   }
@@ -130,6 +187,12 @@ export class AudioObject extends ContentObject {
    * Dispose of resources.
    */
   public dispose(): void {
+    this.playlist?.dispose();
+    this.playlist = null;
+    this.subtitles?.dispose();
+    this.subtitles = null;
+    this.onAudioEvent = null;
+
     if (this.audioElement) {
       this.audioElement.pause();
       this.audioElement.src = '';
@@ -7,24 +7,26 @@
  * - Visibility control
  * - Script API wrapper generation
  * - Lifecycle methods
+ * - Entry/exit animations on activate/deactivate
+ * - Keyframe timeline poses
  */
 
 import * as THREE from 'three';
 import { Content, ContentType } from '../../../types';
+import {
+  AnimationDirection,
+  AnimationFrame,
+  IDENTITY_FRAME,
+  getContentAnimation,
+  getAnimationTiming,
+  getAnimationProgress,
+  sampleContentAnimation,
+  applyAnimationOpacity
+} from '../../../utils/animationUtils';
+import { TimelinePose } from '../../../utils/timelineUtils';
+import { ScriptAPI, ScriptContentDriver, Vector3Tuple, createScriptAPI } from '../../../utils/scriptRuntime';
 
-export interface ScriptAPI {
-  uuid: string;
-  name: string;
-  mesh: THREE.Object3D;
-  position: THREE.Vector3;
-  rotation: { x: number; y: number; z: number };
-  scale: THREE.Vector3;
-  visible: boolean;
-  setPosition: (x: number, y: number, z: number) => void;
-  setRotation: (x: number, y: number, z: number) => void;
-  setScale: (x: number, y: number, z: number) => void;
-  setVisible: (visible: boolean) => void;
-}
+export type { ScriptAPI };
 
 export interface ContentObjectOptions {
   content: Content;
@@ -44,6 +46,9 @@ export abstract class ContentObject {
   /** THREE.js CSS element for embed content */
   public cssElement: THREE.Object3D | null = null;
   
+  /** Converts CSS pixels to world units for the CSS element */
+  protected cssScaleFactor: number = 1;
+  
   /** Original content data */
   protected content: Content;
   
@@ -61,6 +66,21 @@ export abstract class ContentObject {
   
   /** Visibility state */
   protected isVisible: boolean = true;
+  
+  /** Entry/exit animation currently playing */
+  private animation: {
+    name: string;
+    direction: AnimationDirection;
+    elapsed: number;
+    delay: number;
+    duration: number;
+  } | null = null;
+  
+  /** Last applied animation frame, re-applied when the timeline moves the base transform */
+  private animationFrame: AnimationFrame = IDENTITY_FRAME;
+  
+  /** Opacity multiplier from the target timeline */
+  private timelineOpacity: number = 1;
 
   constructor(options: ContentObjectOptions) {
     this.content = options.content;
@@ -96,17 +116,124 @@ export abstract class ContentObject {
   /**
    * Called when the target becomes active.
    * Use for starting animations, playing videos, etc.
+   * Subclasses overriding this should call super.activate() to play the entry animation.
    */
   public activate(): void {
-    // Override in subclasses
+    this.startAnimation('in');
   }
 
   /**
    * Called when the target becomes inactive.
    * Use for pausing videos, stopping animations, etc.
+   * Subclasses overriding this should call super.deactivate() to play the exit animation.
    */
   public deactivate(): void {
-    // Override in subclasses
+    this.startAnimation('out');
+  }
+
+  /**
+   * Advance the entry/exit animation. Called every frame while the target is shown.
+   */
+  public update(deltaTime: number): void {
+    if (!this.animation) return;
+    
+    const anim = this.animation;
+    anim.elapsed += deltaTime * 1000;
+    const t = getAnimationProgress(anim.elapsed, anim);
+    this.applyAnimationFrame(sampleContentAnimation(anim.name, anim.direction, t));
+    
+    if (t >= 1) {
+      this.animation = null;
+      // Exit animations leave the content hidden until the next activate
+      if (anim.direction === 'in') this.applyAnimationFrame(IDENTITY_FRAME);
+    }
+  }
+
+  /**
+   * Whether an entry/exit animation is still playing.
+   */
+  public isAnimating(): boolean {
+    return this.animation !== null;
+  }
+
+  /**
+   * Start the entry or exit animation configured on the content, if any.
+   */
+  protected startAnimation(direction: AnimationDirection): void {
+    const name = getContentAnimation(this.content, direction);
+    if (!name) {
+      this.animation = null;
+      this.applyAnimationFrame(IDENTITY_FRAME);
+      return;
+    }
+    
+    const { delay, duration } = getAnimationTiming(this.content, direction);
+    this.animation = { name, direction, elapsed: 0, delay, duration };
+    // Apply the first frame right away so entry content doesn't flash before the delay
+    this.applyAnimationFrame(sampleContentAnimation(name, direction, 0));
+  }
+
+  /**
+   * Apply a pose sampled from the target timeline. Keyframed properties replace the
+   * content's own transform; entry/exit animations still play on top of it.
+   */
+  public applyTimelinePose(pose: TimelinePose): void {
+    if (pose.position) this.position.fromArray(pose.position);
+    if (pose.rotation) {
+      this.rotation.set(
+        THREE.MathUtils.degToRad(pose.rotation[0]),
+        THREE.MathUtils.degToRad(pose.rotation[1]),
+        THREE.MathUtils.degToRad(pose.rotation[2])
+      );
+    }
+    if (pose.scale) this.scale.fromArray(pose.scale);
+    if (pose.visible !== undefined && pose.visible !== this.isVisible) {
+      this.isVisible = pose.visible;
+      if (this.mesh) this.mesh.visible = pose.visible;
+      if (this.cssElement) (this.cssElement as any).element.style.visibility = pose.visible ? 'visible' : 'hidden';
+    }
+    this.timelineOpacity = pose.opacity ?? 1;
+    this.applyAnimationFrame(this.animationFrame);
+  }
+
+  /**
+   * Apply an animation frame on top of the content's own transform.
+   */
+  protected applyAnimationFrame(frame: AnimationFrame): void {
+    this.animationFrame = frame;
+    const opacity = frame.opacity * this.timelineOpacity;
+    
+    // Offsets are in the content's local space, so slides follow its rotation and scale
+    const offset = new THREE.Vector3(...frame.offset).multiply(this.scale).applyEuler(this.rotation);
+    
+    const apply = (object: THREE.Object3D, scaleFactor: number) => {
+      object.position.copy(this.position).add(offset);
+      object.rotation.set(this.rotation.x, this.rotation.y, this.rotation.z + frame.rotationZ);
+      object.scale.copy(this.scale).multiplyScalar(frame.scale * scaleFactor);
+    };
+    
+    if (this.mesh) apply(this.mesh, 1);
+    if (this.cssElement) {
+      apply(this.cssElement, this.cssScaleFactor);
+      (this.cssElement as any).element.style.opacity = String(opacity);
+    }
+    
+    this.setOpacity(opacity);
+    this.setTextProgress(frame.textProgress);
+  }
+
+  /**
+   * Multiply the opacity of every material on the mesh.
+   */
+  protected setOpacity(opacity: number): void {
+    if (this.mesh) applyAnimationOpacity(this.mesh, opacity);
+  }
+
+  /**
+   * Reveal part of the text for the typewriter animation.
+   */
+  protected setTextProgress(_progress: number): void {
+    // Override in text-based subclasses
   }
 
   /**
@@ -146,67 +273,40 @@ export abstract class ContentObject {
   }
 
   /**
-   * Create the script API wrapper for this object.
-   * This is what scripts use to interact with the object.
+   * Describe this object to the shared script runtime.
+   * Subclasses add their media or model controls.
    */
-  public createScriptWrapper(): ScriptAPI {
+  public getScriptDriver(): ScriptContentDriver {
     const self = this;
     
-    const api: ScriptAPI = {
+    // Transform changes go through the animation frame so entry/exit animations stay on top
+    const setTransform = (update: () => void) => {
+      update();
+      self.applyAnimationFrame(self.animationFrame);
+    };
+    
+    return {
       uuid: self.uuid,
       name: self.name,
-      mesh: self.mesh!,
-      position: self.position,
-      rotation: {
-        x: THREE.MathUtils.radToDeg(self.rotation.x),
-        y: THREE.MathUtils.radToDeg(self.rotation.y),
-        z: THREE.MathUtils.radToDeg(self.rotation.z)
-      },
-      scale: self.scale,
-      visible: self.isVisible,
-      
-      setPosition: (x: number, y: number, z: number) => {
-        self.position.set(x, y, z);
-        if (self.mesh) {
-          self.mesh.position.set(x, y, z);
-        }
-        // Sync CSS element if exists
-        if (self.cssElement) {
-          self.cssElement.position.set(x, y, z);
-        }
-      },
-      
-      setRotation: (x: number, y: number, z: number) => {
-        self.rotation.set(
-          THREE.MathUtils.degToRad(x),
-          THREE.MathUtils.degToRad(y),
-          THREE.MathUtils.degToRad(z)
-        );
-        if (self.mesh) {
-          self.mesh.rotation.set(
-            THREE.MathUtils.degToRad(x),
-            THREE.MathUtils.degToRad(y),
-            THREE.MathUtils.degToRad(z)
-          );
-        }
-        // Sync CSS element if exists
-        if (self.cssElement) {
-          self.cssElement.rotation.set(
-            THREE.MathUtils.degToRad(x),
-            THREE.MathUtils.degToRad(y),
-            THREE.MathUtils.degToRad(z)
-          );
-        }
-      },
-      
-      setScale: (x: number, y: number, z: number) => {
-        self.scale.set(x, y, z);
-        if (self.mesh) {
-          self.mesh.scale.set(x, y, z);
-        }
-      },
-      
-      setVisible: (visible: boolean) => {
+      type: self.content.type,
+      getTransform: () => ({
+        position: self.position.toArray() as Vector3Tuple,
+        rotation: [
+          THREE.MathUtils.radToDeg(self.rotation.x),
+          THREE.MathUtils.radToDeg(self.rotation.y),
+          THREE.MathUtils.radToDeg(self.rotation.z)
+        ],
+        scale: self.scale.toArray() as Vector3Tuple,
+        visible: self.isVisible
+      }),
+      setPosition: (x, y, z) => setTransform(() => self.position.set(x, y, z)),
+      setRotation: (x, y, z) => setTransform(() => self.rotation.set(
+        THREE.MathUtils.degToRad(x),
+        THREE.MathUtils.degToRad(y),
+        THREE.MathUtils.degToRad(z)
+      )),
+      setScale: (x, y, z) => setTransform(() => self.scale.set(x, y, z)),
+      setVisible: (visible) => {
         self.isVisible = visible;
         if (self.mesh) {
           self.mesh.visible = visible;
@@ -217,8 +317,14 @@ export abstract class ContentObject {
         }
       }
     };
-    
-    return api;
+  }
+
+  /**
+   * Create the script API wrapper for this object.
+   * This is what scripts use to interact with the object.
+   */
+  public createScriptWrapper(): ScriptAPI {
+    return createScriptAPI(this.getScriptDriver());
   }
 
   /**
@@ -1,32 +1,195 @@
 /**
- * EmbedObject - Handles embedded video content (YouTube, Vimeo).
+ * EmbedObject - Handles embedded content.
  * Mirrors refcode/lib/src/scene/player/EmbedContentObject.js
  * 
+ * Supports:
+ * - YouTube and Vimeo videos, driven through the services' iframe postMessage APIs
+ *   (or by an external player set with setPlayer, e.g. ReactPlayer in the editor)
+ * - Arbitrary web pages (EMBED) in a sandboxed iframe
+ * 
  * Uses CSS3DRenderer for overlay content.
  */
 
 import * as THREE from 'three';
 import { CSS3DObject, CSS3DSprite } from 'three/examples/jsm/renderers/CSS3DRenderer.js';
 import { ContentObject, ScriptAPI, ContentObjectOptions } from './ContentObject';
-
-export interface EmbedScriptAPI extends ScriptAPI {
-  playVideo: () => void;
-  pauseVideo: () => void;
-  stopVideo: () => void;
-  isPlayingVideo: () => boolean;
-}
+import { ScriptContentDriver } from '../../../utils/scriptRuntime';
+import { Content, ContentType } from '../../../types';
+import { getSafeEmbedUrl, getEmbedSandbox, getEmbedSize, DEFAULT_EMBED_ALLOW } from '../../../utils/embedUtils';
+import {
+  StreamingService,
+  getStreamingService,
+  getStreamingVideoId,
+  getStreamingRange,
+  getPlaybackRate,
+  buildStreamingEmbedUrl,
+  STREAMING_ASPECT,
+  STREAMING_EMBED_WIDTH,
+  STREAMING_EMBED_HEIGHT,
+  STREAMING_PLANE_HEIGHT
+} from '../../../utils/streamingUtils';
 
 export interface EmbedPlayer {
   playVideo: () => void | Promise<void>;
   pauseVideo: () => void | Promise<void>;
   stopVideo: () => void | Promise<void>;
   getPlayerState: () => string;
+  seekTo?: (seconds: number) => void;
+  setPlaybackRate?: (rate: number) => void;
+  setCaptions?: (enabled: boolean, lang?: string) => void;
+  dispose?: () => void;
+}
+
+/**
+ * Drives a YouTube or Vimeo player iframe through the services' postMessage APIs.
+ * Commands sent before the player reports ready are queued.
+ */
+class StreamingIframePlayer implements EmbedPlayer {
+  private state: string = 'idle';
+  private ready: boolean = false;
+  private queue: object[] = [];
+  private readonly onMessage: (event: MessageEvent) => void;
+  private readonly onLoad: () => void;
+
+  constructor(
+    private iframe: HTMLIFrameElement,
+    private service: StreamingService,
+    private content: Content,
+    private onStateChange: (state: string) => void
+  ) {
+    this.onMessage = (event) => this.handleMessage(event);
+    this.onLoad = () => this.subscribe();
+    window.addEventListener('message', this.onMessage);
+    iframe.addEventListener('load', this.onLoad);
+  }
+
+  public playVideo(): void {
+    this.send(this.service === 'youtube' ? this.ytCommand('playVideo') : { method: 'play' });
+  }
+
+  public pauseVideo(): void {
+    this.send(this.service === 'youtube' ? this.ytCommand('pauseVideo') : { method: 'pause' });
+  }
+
+  public stopVideo(): void {
+    this.pauseVideo();
+    this.seekTo(getStreamingRange(this.content).start);
+    this.setState('idle');
+  }
+
+  public seekTo(seconds: number): void {
+    const t = Math.max(0, seconds);
+    this.send(this.service === 'youtube' ? this.ytCommand('seekTo', [t, true]) : { method: 'setCurrentTime', value: t });
+  }
+
+  public setPlaybackRate(rate: number): void {
+    this.send(this.service === 'youtube' ? this.ytCommand('setPlaybackRate', [rate]) : { method: 'setPlaybackRate', value: rate });
+  }
+
+  public setCaptions(enabled: boolean, lang?: string): void {
+    if (this.service === 'youtube') {
+      this.send(this.ytCommand(enabled ? 'loadModule' : 'unloadModule', ['captions']));
+      if (enabled && lang) this.send(this.ytCommand('setOption', ['captions', 'track', { languageCode: lang }]));
+    } else {
+      this.send(enabled ? { method: 'enableTextTrack', value: lang || 'en' } : { method: 'disableTextTrack' });
+    }
+  }
+
+  public getPlayerState(): string {
+    return this.state;
+  }
+
+  public dispose(): void {
+    window.removeEventListener('message', this.onMessage);
+    this.iframe.removeEventListener('load', this.onLoad);
+    this.queue = [];
+  }
+
+  private ytCommand(func: string, args: unknown[] = []): object {
+    return { event: 'command', func, args };
+  }
+
+  private post(message: object): void {
+    const target = this.iframe.contentWindow;
+    if (!target) return;
+    const origin = this.service === 'youtube' ? 'https://www.youtube.com' : 'https://player.vimeo.com';
+    target.postMessage(this.service === 'youtube' ? JSON.stringify(message) : message, origin);
+  }
+
+  private send(message: object): void {
+    if (this.ready) this.post(message);
+    else this.queue.push(message);
+  }
+
+  /**
+   * Ask the player to start reporting events.
+   */
+  private subscribe(): void {
+    if (this.service === 'youtube') {
+      this.post({ event: 'listening', id: this.iframe.id, channel: 'widget' });
+    } else {
+      ['play', 'pause', 'ended', 'timeupdate'].forEach(value => this.post({ method: 'addEventListener', value }));
+    }
+  }
+
+  private handleReady(): void {
+    if (this.ready) return;
+    this.ready = true;
+    const rate = getPlaybackRate(this.content);
+    if (rate !== 1) this.setPlaybackRate(rate);
+    this.queue.splice(0).forEach(message => this.post(message));
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    if (event.source !== this.iframe.contentWindow) return;
+    let data = event.data;
+    if (typeof data === 'string') {
+      try { data = JSON.parse(data); } catch { return; }
+    }
+    if (!data || typeof data !== 'object') return;
+
+    if (this.service === 'youtube') {
+      if (data.event === 'onReady' || data.event === 'initialDelivery') this.handleReady();
+      const ytState = data.event === 'onStateChange' ? data.info : data.info?.playerState;
+      // YouTube states: 0 ended, 1 playing, 2 paused
+      if (ytState === 0) this.setState('ended');
+      else if (ytState === 1) this.setState('playing');
+      else if (ytState === 2) this.setState('paused');
+      return;
+    }
+
+    // Vimeo has no end parameter, so enforce the end offset from timeupdate
+    if (data.event === 'ready') {
+      this.subscribe();
+      this.handleReady();
+    } else if (data.event === 'play') {
+      this.setState('playing');
+    } else if (data.event === 'pause') {
+      this.setState('paused');
+    } else if (data.event === 'ended') {
+      this.setState('ended');
+    } else if (data.event === 'timeupdate') {
+      const { start, end } = getStreamingRange(this.content);
+      if (end !== undefined && data.data?.seconds >= end) {
+        if (this.content.loop) this.seekTo(start);
+        else this.pauseVideo();
+      }
+    }
+  }
+
+  private setState(state: string): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.onStateChange(state);
+  }
 }
 
 export class EmbedObject extends ContentObject {
   private player: EmbedPlayer | null = null;
   private playerDiv: HTMLDivElement | null = null;
+  private iframe: HTMLIFrameElement | null = null;
   private playerState: string = 'idle';
+  private hideWhenIdle: boolean = false;
 
   constructor(options: ContentObjectOptions) {
     super(options);
@@ -40,8 +203,22 @@ export class EmbedObject extends ContentObject {
   public async init(): Promise<void> {
     const content = this.getContent();
     
+    // Iframe embeds are one unit tall with the viewport's aspect ratio;
+    // streaming players use the same 16:9 size as the editor preview
+    let planeWidth = 1;
+    let planeHeight = 1;
+    if (content.type === ContentType.EMBED) {
+      const { width, height } = getEmbedSize(content);
+      planeWidth = width / height;
+      this.cssScaleFactor = 1 / height;
+    } else if (getStreamingService(content)) {
+      planeHeight = STREAMING_PLANE_HEIGHT;
+      planeWidth = planeHeight * STREAMING_ASPECT;
+      this.cssScaleFactor = planeHeight / STREAMING_EMBED_HEIGHT;
+    }
+    
     // Create invisible mesh for raycasting
-    const geometry = new THREE.PlaneGeometry(1, 1);
+    const geometry = new THREE.PlaneGeometry(planeWidth, planeHeight);
     const material = new THREE.MeshBasicMaterial({
       color: 0x000000,
       opacity: 0,
@@ -78,7 +255,7 @@ export class EmbedObject extends ContentObject {
   /**
    * Create the DOM elements for the embed.
    */
-  private createDivs(content: any): { div: HTMLDivElement; playerDiv: HTMLDivElement } {
+  private createDivs(content: Content): { div: HTMLDivElement; playerDiv: HTMLDivElement } {
     const div = document.createElement('div');
     div.style.userSelect = 'none';
     div.style.position = 'relative';
@@ -92,14 +269,79 @@ export class EmbedObject extends ContentObject {
     playerDiv.style.border = '0px';
     div.appendChild(playerDiv);
     
+    if (content.type === ContentType.EMBED) {
+      const { width, height } = getEmbedSize(content);
+      div.style.width = `${width}px`;
+      div.style.height = `${height}px`;
+      // Click-through lets the raycast mesh behind receive the pointer instead
+      div.style.pointerEvents = content.embedClickThrough ? 'none' : 'auto';
+      
+      const src = getSafeEmbedUrl(content.embedUrl);
+      if (src) {
+        this.iframe = this.createIframe(content, src);
+        playerDiv.appendChild(this.iframe);
+      } else {
+        console.warn('EmbedObject: Missing or unsupported embed URL');
+      }
+    } else {
+      const service = getStreamingService(content);
+      const src = buildStreamingEmbedUrl(content, window.location.origin);
+      if (service && src) {
+        div.style.width = `${STREAMING_EMBED_WIDTH}px`;
+        div.style.height = `${STREAMING_EMBED_HEIGHT}px`;
+        div.style.background = '#000000';
+        div.style.pointerEvents = (content.videoControls ?? true) ? 'auto' : 'none';
+        
+        this.iframe = this.createStreamingIframe(src);
+        playerDiv.appendChild(this.iframe);
+        this.player = new StreamingIframePlayer(this.iframe, service, content, (state) => this.setPlayerState(state));
+      } else if (service) {
+        console.warn(`EmbedObject: Invalid ${service} video ID`, content.videoUrl);
+      }
+    }
+    
     return { div, playerDiv };
   }
 
+  /**
+   * Create the sandboxed iframe for an EMBED content.
+   */
+  private createIframe(content: Content, src: string): HTMLIFrameElement {
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('sandbox', getEmbedSandbox(content));
+    iframe.setAttribute('allow', content.embedAllow ?? DEFAULT_EMBED_ALLOW);
+    iframe.setAttribute('referrerpolicy', 'strict-origin-when-cross-origin');
+    iframe.setAttribute('loading', 'lazy');
+    iframe.style.width = '100%';
+    iframe.style.height = '100%';
+    iframe.style.border = '0px';
+    iframe.style.background = '#ffffff';
+    iframe.src = src;
+    return iframe;
+  }
+
+  /**
+   * Create the player iframe for a YouTube or Vimeo content.
+   */
+  private createStreamingIframe(src: string): HTMLIFrameElement {
+    const iframe = document.createElement('iframe');
+    iframe.id = `embed-${this.uuid}`;
+    iframe.setAttribute('allow', 'autoplay; encrypted-media; picture-in-picture; fullscreen');
+    iframe.setAttribute('allowfullscreen', '');
+    iframe.setAttribute('referrerpolicy', 'strict-origin-when-cross-origin');
+    iframe.style.width = '100%';
+    iframe.style.height = '100%';
+    iframe.style.border = '0px';
+    iframe.src = src;
+    return iframe;
+  }
+
   /**
    * Set the player instance.
    * Called by React components after player is initialized.
    */
   public setPlayer(player: EmbedPlayer): void {
+    this.player?.dispose?.();
     this.player = player;
   }
 
@@ -118,13 +360,16 @@ export class EmbedObject extends ContentObject {
     
     this.cssElement.position.copy(this.position);
     this.cssElement.rotation.copy(this.rotation);
-    // CSS3D objects don't support scale the same way
+    this.cssElement.scale.copy(this.scale).multiplyScalar(this.cssScaleFactor);
   }
 
   /**
    * Called when the target becomes active.
    */
   public activate(): void {
+    super.activate();
+    this.hideWhenIdle = false;
+    
     const content = this.getContent();
     
     // Show the CSS element
@@ -142,8 +387,12 @@ export class EmbedObject extends ContentObject {
    * Called when the target becomes inactive.
    */
   public deactivate(): void {
-    // Hide the CSS element
-    if (this.cssElement) {
+    super.deactivate();
+    
+    // Hide the CSS element, after the exit animation if one is playing
+    if (this.isAnimating()) {
+      this.hideWhenIdle = true;
+    } else if (this.cssElement) {
       (this.cssElement as any).element.style.visibility = 'hidden';
     }
     
@@ -153,6 +402,20 @@ export class EmbedObject extends ContentObject {
     }
   }
 
+  /**
+   * Advance animations and hide the CSS element once the exit animation ends.
+   */
+  public update(deltaTime: number): void {
+    super.update(deltaTime);
+    
+    if (this.hideWhenIdle && !this.isAnimating()) {
+      this.hideWhenIdle = false;
+      if (this.cssElement) {
+        (this.cssElement as any).element.style.visibility = 'hidden';
+      }
+    }
+  }
+
   /**
    * Handle click events.
    */
@@ -176,18 +439,26 @@ export class EmbedObject extends ContentObject {
   }
 
   /**
-   * Create the script API wrapper.
+   * Describe this object to the script runtime, with streaming playback controls.
    */
-  public createScriptWrapper(): EmbedScriptAPI {
-    const api = super.createScriptWrapper() as EmbedScriptAPI;
+  public getScriptDriver(): ScriptContentDriver {
     const self = this;
     
+    const content = this.getContent();
+    
     return {
-      ...api,
-      playVideo: () => self.player?.playVideo(),
-      pauseVideo: () => self.player?.pauseVideo(),
-      stopVideo: () => self.player?.stopVideo(),
-      isPlayingVideo: () => self.playerState === 'playing'
+      ...super.getScriptDriver(),
+      media: {
+        play: () => { self.player?.playVideo(); },
+        pause: () => { self.player?.pauseVideo(); },
+        stop: () => { self.player?.stopVideo(); },
+        isPlaying: () => self.playerState === 'playing',
+        seekTo: (seconds) => self.player?.seekTo?.(seconds),
+        setPlaybackRate: (rate) => self.player?.setPlaybackRate?.(rate),
+        setCaptions: (enabled, lang) => self.player?.setCaptions?.(enabled, lang ?? content.videoCaptionLang),
+        getVideoId: () => getStreamingVideoId(content),
+        getService: () => getStreamingService(content)
+      }
     };
   }
 
@@ -197,9 +468,16 @@ export class EmbedObject extends ContentObject {
   public dispose(): void {
     if (this.player) {
       this.player.stopVideo();
+      this.player.dispose?.();
       this.player = null;
     }
     
+    if (this.iframe) {
+      this.iframe.src = 'about:blank';
+      this.iframe.remove();
+      this.iframe = null;
+    }
+    
     if (this.playerDiv) {
       this.playerDiv = null;
     }
@@ -6,10 +6,11 @@
 import * as THREE from 'three';
 import { ContentObject, ScriptAPI, ContentObjectOptions } from './ContentObject';
 import { Content, ContentType } from '../../../types';
+import { getMediaFit, createMediaPlane } from '../../../utils/mediaFitUtils';
 
 export class ImageObject extends ContentObject {
   private texture: THREE.Texture | null = null;
-  private material: THREE.MeshBasicMaterial | null = null;
+  private material: THREE.MeshBasicMaterial | THREE.SpriteMaterial | null = null;
 
   constructor(options: ContentObjectOptions) {
     super(options);
@@ -30,16 +31,25 @@ export class ImageObject extends ContentObject {
       const texture = await this.loadTexture(content.imageUrl);
       this.texture = texture;
       
-      // Create geometry based on image aspect ratio
+      // Create geometry from the image aspect, fitted to the content's aspectRatio / fitMode
       const image = texture.image as HTMLImageElement;
       const aspect = image.naturalWidth / image.naturalHeight;
       
+      const fit = getMediaFit(content, aspect);
+      
       // Use sprite for user-facing content, plane for regular content
-      if (content.type === ContentType.IMAGE && (content as any).userFacing) {
-        const spriteMaterial = new THREE.SpriteMaterial({ map: texture });
-        this.mesh = new THREE.Sprite(spriteMaterial);
+      if (content.type === ContentType.IMAGE && content.alwaysFacingUser) {
+        // Sprites have no geometry to bake the crop into, so it goes on this object's own texture,
+        // and the size on a child since the transform sets the mesh's scale
+        texture.offset.fromArray(fit.offset);
+        texture.repeat.fromArray(fit.repeat);
+        this.material = new THREE.SpriteMaterial({ map: texture });
+        const sprite = new THREE.Sprite(this.material);
+        sprite.scale.set(fit.width, fit.height, 1);
+        this.mesh = new THREE.Group();
+        this.mesh.add(sprite);
       } else {
-        const geometry = new THREE.PlaneGeometry(aspect, 1);
+        const geometry = createMediaPlane(fit);
         this.material = new THREE.MeshBasicMaterial({
           map: texture,
           side: THREE.DoubleSide,
@@ -7,21 +7,19 @@
  * 
  * Supports:
  * - GLB/GLTF model files
- * - Animation playback (once, repeat, pingpong)
+ * - Animation playback (once, repeat, pingpong) of a chosen default clip, and crossfades from scripts
  * - Material property overrides
+ * - Morph target (blendshape) influences, and bones other contents can follow
  * - Texture replacement
  */
 
 import * as THREE from 'three';
 import { SkeletonUtils } from 'three-stdlib';
-import { ContentObject, ScriptAPI, ContentObjectOptions } from './ContentObject';
+import { ContentObject, ContentObjectOptions } from './ContentObject';
+import { ScriptAnimator, ScriptContentDriver, createScriptAnimator } from '../../../utils/scriptRuntime';
+import { applyMorphTargets, findBone, setMorphTarget } from '../../../utils/modelUtils';
 import { Content } from '../../../types';
 
-export interface ModelScriptAPI extends ScriptAPI {
-  getAction: (nameOrIndex?: string | number) => THREE.AnimationAction | undefined;
-  updateTexture: (materialName: string, imageUrl: string) => void;
-}
-
 export interface ModelData {
   scene: THREE.Group;
   animations: THREE.AnimationClip[];
@@ -31,8 +29,12 @@ export class ModelObject extends ContentObject {
   private model: THREE.Group | null = null;
   private actions: { [key: string]: THREE.AnimationAction } = {};
   private modelMixer: THREE.AnimationMixer | null = null;
+  private animator: ScriptAnimator | null = null;
   private modelData: ModelData | null = null;
 
+  /** Called with the clip name when a clip that does not loop forever ends */
+  public onAnimationFinished: ((clip: string) => void) | null = null;
+
   constructor(options: ContentObjectOptions) {
     super(options);
   }
@@ -56,6 +58,7 @@ export class ModelObject extends ContentObject {
         const action = this.modelMixer.clipAction(clip, this.model);
         this.actions[clip.name] = action;
       }
+      this.animator = createScriptAnimator(this.modelMixer, this.actions, (clip) => this.onAnimationFinished?.(clip));
     }
     
     // Apply material overrides if any
@@ -63,6 +66,13 @@ export class ModelObject extends ContentObject {
       this.applyMaterialOverrides(content.materialOverrides);
     }
     
+    applyMorphTargets(this.model, content.morphTargets);
+
+    // Models cast and receive the shadows of the scene lights
+    this.model.traverse((child) => {
+      if ((child as THREE.Mesh).isMesh) child.castShadow = child.receiveShadow = true;
+    });
+    
     // Apply transform
     this.applyTransformToMesh();
     
@@ -152,24 +162,12 @@ export class ModelObject extends ContentObject {
    * Called when the target becomes active.
    */
   public activate(): void {
+    super.activate();
+    
     const content = this.getContent();
     
-    if (content.animateAutostart && Object.keys(this.actions).length > 0) {
-      const actionName = Object.keys(this.actions)[0];
-      const action = this.actions[actionName];
-      
-      if (action) {
-        if (content.animateLoop === 'once') {
-          action.setLoop(THREE.LoopOnce, 1);
-          action.clampWhenFinished = true;
-        } else if (content.animateLoop === 'pingpong') {
-          action.setLoop(THREE.LoopPingPong, Infinity);
-        } else {
-          action.setLoop(THREE.LoopRepeat, Infinity);
-        }
-        
-        action.play();
-      }
+    if (content.animateAutostart) {
+      this.animator?.playDefault(content.animationClip, content.animateLoop);
     }
   }
 
@@ -177,9 +175,17 @@ export class ModelObject extends ContentObject {
    * Called when the target becomes inactive.
    */
   public deactivate(): void {
-    Object.values(this.actions).forEach((action) => {
-      action.stop();
-    });
+    super.deactivate();
+    
+    this.animator?.stopAll();
+  }
+
+  /**
+   * Advance the model's own clips along with the entry/exit animation.
+   */
+  public update(deltaTime: number): void {
+    super.update(deltaTime);
+    this.modelMixer?.update(deltaTime);
   }
 
   /**
@@ -189,6 +195,13 @@ export class ModelObject extends ContentObject {
     return this.actions;
   }
 
+  /**
+   * Get a bone of the model by name, for contents attached to it.
+   */
+  public getBone(name: string): THREE.Bone | null {
+    return this.model ? findBone(this.model, name) : null;
+  }
+
   /**
    * Get the animation mixer.
    */
@@ -197,40 +210,39 @@ export class ModelObject extends ContentObject {
   }
 
   /**
-   * Create the script API wrapper.
+   * Describe this object to the script runtime, with animation and texture controls.
    */
-  public createScriptWrapper(): ModelScriptAPI {
-    const api = super.createScriptWrapper() as ModelScriptAPI;
+  public getScriptDriver(): ScriptContentDriver {
     const self = this;
     
     return {
-      ...api,
-      getAction: (nameOrIndex?: string | number) => {
-        if (typeof nameOrIndex === 'number') {
-          const keys = Object.keys(self.actions);
-          return self.actions[keys[nameOrIndex]];
-        }
-        return self.actions[nameOrIndex || 0];
-      },
-      updateTexture: (materialName: string, imageUrl: string) => {
-        if (!imageUrl || !self.model) return;
-        
-        const loader = new THREE.TextureLoader();
-        loader.load(imageUrl, (tex) => {
-          tex.flipY = false;
-          tex.colorSpace = THREE.SRGBColorSpace;
+      ...super.getScriptDriver(),
+      model: {
+        getAction: () => undefined,
+        ...self.animator,
+        setMorph: (name: string, value: number) => {
+          if (self.model) setMorphTarget(self.model, name, value);
+        },
+        updateTexture: (materialName: string, imageUrl: string) => {
+          if (!self.model) return;
           
-          self.model!.traverse((child: any) => {
-            if (child.isMesh && child.material && child.material.name === materialName) {
-              const materials = Array.isArray(child.material) ? child.material : [child.material];
-              materials.forEach((mat: any) => {
-                if (mat.map) mat.map.dispose();
-                mat.map = tex;
-                mat.needsUpdate = true;
-              });
-            }
+          const loader = new THREE.TextureLoader();
+          loader.load(imageUrl, (tex) => {
+            tex.flipY = false;
+            tex.colorSpace = THREE.SRGBColorSpace;
+            
+            self.model!.traverse((child: any) => {
+              if (child.isMesh && child.material && child.material.name === materialName) {
+                const materials = Array.isArray(child.material) ? child.material : [child.material];
+                materials.forEach((mat: any) => {
+                  if (mat.map) mat.map.dispose();
+                  mat.map = tex;
+                  mat.needsUpdate = true;
+                });
+              }
+            });
           });
-        });
+        }
       }
     };
   }
@@ -240,8 +252,10 @@ export class ModelObject extends ContentObject {
    */
   public dispose(): void {
     // Stop all animations
+    this.animator?.dispose();
+    this.animator = null;
+    this.onAnimationFinished = null;
     Object.values(this.actions).forEach((action) => {
-      action.stop();
       action.reset();
     });
     this.actions = {};
@@ -0,0 +1,78 @@
+/**
+ * OccluderObject - Handles occluder content in the scene.
+ * Writes depth but no color, so content behind the physical object stays hidden.
+ */
+
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { ContentObject, ContentObjectOptions } from './ContentObject';
+import { DEFAULT_OCCLUDER_SHAPE, createOccluderGeometry, createOccluderMaterial, applyOccluderMaterial } from '../../../utils/occluderUtils';
+
+export class OccluderObject extends ContentObject {
+  constructor(options: ContentObjectOptions) {
+    super(options);
+  }
+
+  /**
+   * Initialize the occluder from its primitive shape, or by loading its model.
+   */
+  public async init(): Promise<void> {
+    const { content } = this;
+    const shape = content.occluderShape ?? DEFAULT_OCCLUDER_SHAPE;
+
+    if (shape === 'model') {
+      if (!content.modelUrl) {
+        console.warn('OccluderObject: No model URL provided');
+        return;
+      }
+      try {
+        const gltf = await new GLTFLoader().loadAsync(content.modelUrl);
+        // The model's own materials are replaced, so they can go
+        this.disposeMaterials(gltf.scene);
+        applyOccluderMaterial(gltf.scene, createOccluderMaterial());
+        // Grouped so the content transform doesn't override the model's root transform
+        this.mesh = new THREE.Group().add(gltf.scene);
+      } catch (error) {
+        console.error('OccluderObject: Failed to load model:', error);
+        throw error;
+      }
+    } else {
+      const mesh = new THREE.Mesh(createOccluderGeometry(shape));
+      applyOccluderMaterial(mesh, createOccluderMaterial());
+      this.mesh = mesh;
+    }
+
+    this.applyTransformToMesh();
+    this.mesh.userData.isContent = true;
+    this.mesh.userData.contentId = this.uuid;
+  }
+
+  private disposeMaterials(root: THREE.Object3D): void {
+    root.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const materials = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach((material: THREE.Material) => {
+        Object.values(material).forEach(value => {
+          if (value instanceof THREE.Texture) value.dispose();
+        });
+        material.dispose();
+      });
+    });
+  }
+
+  /**
+   * Dispose of resources. Every mesh shares one occluder material.
+   */
+  public dispose(): void {
+    if (!this.mesh) return;
+    const materials = new Set<THREE.Material>();
+    this.mesh.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      child.geometry?.dispose();
+      materials.add(child.material as THREE.Material);
+    });
+    materials.forEach(material => material.dispose());
+  }
+}
+
+export default OccluderObject;
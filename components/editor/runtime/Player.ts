@@ -7,16 +7,17 @@
  * - Manage multiple targets (AR images)
  * - Handle content object lifecycle
  * - Coordinate animation loop
- * - Dispatch script events (onInit, onActivate, onDeactivate, onUpdate, onClick)
- * - Handle raycasting for object selection
+ * - Play target timelines
+ * - Dispatch script events (onInit, onActivate, onDeactivate, onUpdate, onClick) to sandboxed scripts
+ * - Run the project script and connect it to the target scripts
+ * - Handle raycasting for object selection, and pointer, hover and drag events for scripts
  */
 
 import * as THREE from 'three';
 import { CSS3DRenderer } from 'three/examples/jsm/renderers/CSS3DRenderer.js';
-import { RoomEnvironment } from 'three/examples/jsm/environments/RoomEnvironment.js';
-import { Target, Content, ContentType } from '../../../types';
+import { Asset, Project, Target, Content, ContentType, SceneEnvironment, SceneSettings, ScriptLanguage } from '../../../types';
 import { ContentObject } from './ContentObject';
-import { SceneObject, SceneScriptAPI, SystemControl } from './SceneObject';
+import { SceneObject } from './SceneObject';
 import { EditorControls } from './EditorControls';
 import { ImageObject } from './ImageObject';
 import { VideoObject } from './VideoObject';
@@ -24,10 +25,31 @@ import { AudioObject } from './AudioObject';
 import { ModelObject } from './ModelObject';
 import { TextObject } from './TextObject';
 import { EmbedObject } from './EmbedObject';
+import { OccluderObject } from './OccluderObject';
+import { ShapeObject } from './ShapeObject';
+import { hasTimelineTracks, getTimelineTime, sampleTimeline } from '../../../utils/timelineUtils';
+import { buildSceneLight, getSceneLights, hasShadows } from '../../../utils/lightingUtils';
+import { loadEnvironmentTexture, createEnvironmentMap } from '../../../utils/environmentUtils';
+import { resolveTextFont } from '../../../utils/textUtils';
+import {
+  ScriptRuntime,
+  ScriptRuntimeHost,
+  ScriptEventName,
+  ScriptEventData,
+  ScriptHub,
+  ScriptStorage,
+  ScriptPointer,
+  ScriptPointerHit,
+  ScriptScreenPoint,
+  createScriptHub,
+  createScriptPointer
+} from '../../../utils/scriptRuntime';
+import { compileScript, formatScriptDiagnostic } from '../../../utils/scriptCompiler';
 
 export interface PlayerOptions {
   container: HTMLElement;
   showImageTarget?: boolean;
+  scriptStorage?: ScriptStorage; // Keeps script `storage` values; in memory by default
 }
 
 export interface TargetRuntime {
@@ -37,23 +59,8 @@ export interface TargetRuntime {
   cssSubScene: THREE.Group;
   objects: ContentObject[];
   sceneObject: SceneObject;
-  customFunctions: ScriptFunctions;
-  customData: Record<string, any>;
-}
-
-export interface ScriptFunctions {
-  onInit?: (params: ScriptEventParams) => void;
-  onActivate?: (params: ScriptEventParams) => void;
-  onDeactivate?: (params: ScriptEventParams) => void;
-  onUpdate?: (params: ScriptEventParams) => void;
-  onClick?: (params: ScriptEventParams & { object: any; time: number }) => void;
-}
-
-export interface ScriptEventParams {
-  target: SceneScriptAPI;
-  data: Record<string, any>;
-  time?: number;
-  deltaTime?: number;
+  script: ScriptRuntime | null; // The target's script, running in its own worker
+  timelineElapsed: number; // Seconds since the target was activated
 }
 
 export class Player {
@@ -71,6 +78,7 @@ export class Player {
   
   // Animation
   private mixer: THREE.AnimationMixer;
+  private audioListener: THREE.AudioListener; // Spatial audio is heard from the camera
   private clock: THREE.Clock | null = null;
   
   // Controls
@@ -79,21 +87,32 @@ export class Player {
   // State
   private targets: TargetRuntime[] = [];
   private selectedTarget: TargetRuntime | null = null;
+  private exitingTarget: TargetRuntime | null = null; // Lost target kept on screen for exit animations
   private isRunning: boolean = false;
+  private assets: Asset[] = []; // The project's uploaded fonts, looked up by text contents
   
   // Script state
+  private scriptHub: ScriptHub = createScriptHub([]);
+  private scriptStorage: ScriptStorage | undefined;
+  private scriptPointer: ScriptPointer | null = null;
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+  private projectScript: ScriptRuntime | null = null; // Runs for as long as the player
   private onCustomScriptError: ((error: string) => void) | null = null;
   
   // Rendering
+  private environmentMap: THREE.WebGLRenderTarget | null = null; // The project's HDR environment, prefiltered
   private animationFrameId: number | null = null;
   private rendererResolve: ((renderer: THREE.WebGLRenderer) => void) | null = null;
 
   constructor(options: PlayerOptions) {
     this.container = options.container;
+    this.scriptStorage = options.scriptStorage;
     
     // Create camera
     this.defaultCamera = this.createCamera();
     this.camera = this.defaultCamera;
+    this.audioListener = new THREE.AudioListener();
+    this.camera.add(this.audioListener);
     
     // Create renderer
     this.renderer = this.createRenderer();
@@ -101,15 +120,18 @@ export class Player {
     
     // Create mixer
     this.mixer = new THREE.AnimationMixer(this.scene);
-    
-    // Initialize environment
-    this.initEnvironment();
   }
 
   /**
-   * Initialize the player with targets.
+   * Initialize the player with targets, and the project script if there is one.
    */
-  public async init(targets: Target[], showImageTarget: boolean = false): Promise<string[]> {
+  public async init(
+    targets: Target[],
+    showImageTarget: boolean = false,
+    project?: Pick<Project, 'script' | 'scriptLanguage' | 'sceneSettings' | 'assets'>
+  ): Promise<string[]> {
+    this.assets = project?.assets ?? [];
+
     // Create performance div
     this.performanceDiv = this.createPerformanceDiv();
     
@@ -125,14 +147,25 @@ export class Player {
     // Set up mouse events
     this.setupMouseEvents();
     
+    await this.initEnvironment(project?.sceneSettings?.environment);
+    
     // Initialize each target
     let invalidScripts: string[] = [];
+    this.scriptHub = createScriptHub(targets.map(t => t.name), this.scriptStorage);
+    
+    if (project?.script) {
+      this.projectScript = await this.initScript('', project, new SceneObject({ objects: new Map() }));
+      if (!(await this.projectScript?.ready)) {
+        invalidScripts.push('project');
+      }
+    }
     
     for (let i = 0; i < targets.length; i++) {
-      const targetRuntime = await this.initTarget(targets[i], i, showImageTarget);
+      const targetRuntime = await this.initTarget(targets[i], i, showImageTarget, project?.sceneSettings);
       this.targets.push(targetRuntime);
       
-      if (!targetRuntime.customFunctions) {
+      // A script that did not compile has no runtime
+      if (targets[i].script && !(await targetRuntime.script?.ready)) {
         invalidScripts.push(`target ${i + 1}`);
       }
     }
@@ -150,12 +183,17 @@ export class Player {
   /**
    * Initialize a single target.
    */
-  private async initTarget(target: Target, targetIndex: number, showImageTarget: boolean): Promise<TargetRuntime> {
+  private async initTarget(target: Target, targetIndex: number, showImageTarget: boolean, sceneSettings?: SceneSettings): Promise<TargetRuntime> {
     const subScene = new THREE.Group();
     const cssSubScene = new THREE.Group();
     subScene.matrixAutoUpdate = false;
     cssSubScene.matrixAutoUpdate = false;
     
+    // The target's lights, or the project's, shown and hidden with the target
+    const lights = getSceneLights(sceneSettings, target);
+    lights.forEach((light) => subScene.add(buildSceneLight(light)));
+    if (hasShadows(lights)) this.renderer.shadowMap.enabled = true;
+    
     // Add image target mesh if enabled
     if (showImageTarget && target.imageUrl) {
       const targetMesh = await this.createTargetMesh(target.imageUrl);
@@ -186,14 +224,40 @@ export class Player {
       }
     }
     
-    // Initialize script
-    const customFunctions = this.initScript(target.script);
+    // Contents attached to a bone follow it instead of the target
+    contentObjects.forEach((obj) => {
+      const attachment = obj.getContent().attachment;
+      if (!attachment || !obj.mesh) return;
+      const model = contentObjects.find(o => o !== obj && o.getContent().id === attachment.modelId);
+      const bone = model instanceof ModelObject ? model.getBone(attachment.bone) : null;
+      if (bone) bone.add(obj.mesh);
+    });
     
     // Create scene object for script API
     const sceneObject = new SceneObject({
       objects: new Map(contentObjects.map(obj => [obj.name, obj]))
     });
     
+    // Initialize script
+    const script = await this.initScript(target.name, target, sceneObject, (x, y) => {
+      const runtime = this.targets[targetIndex];
+      return runtime && runtime === this.selectedTarget ? this.pickContent(runtime, { x, y }) : null;
+    });
+
+    contentObjects.forEach((obj) => {
+      if (obj instanceof ModelObject) {
+        obj.onAnimationFinished = (clip) => {
+          const runtime = this.targets[targetIndex];
+          if (runtime) this.dispatchTargetEvent(runtime, 'onAnimationFinished', { object: obj.name, clip });
+        };
+      } else if (obj instanceof AudioObject) {
+        obj.onAudioEvent = (event, data) => {
+          const runtime = this.targets[targetIndex];
+          if (runtime) this.dispatchTargetEvent(runtime, event, { object: obj.name, ...data });
+        };
+      }
+    });
+    
     return {
       targetIndex,
       target,
@@ -201,8 +265,8 @@ export class Player {
       cssSubScene,
       objects: contentObjects,
       sceneObject,
-      customFunctions: customFunctions || {},
-      customData: {}
+      script,
+      timelineElapsed: 0
     };
   }
 
@@ -244,15 +308,26 @@ export class Player {
         return new ImageObject(options);
       case ContentType.VIDEO:
         return new VideoObject(options);
-      case ContentType.AUDIO:
-        return new AudioObject(options);
+      case ContentType.AUDIO: {
+        const audio = new AudioObject(options);
+        audio.setAudioListener(this.audioListener);
+        audio.setSubtitleContainer(this.container);
+        return audio;
+      }
       case ContentType.MODEL:
         return new ModelObject(options);
       case ContentType.TEXT:
-        return new TextObject(options);
+        return new TextObject({ ...options, font: resolveTextFont(content, this.assets) });
       case ContentType.STREAMING_VIDEO:
+      case ContentType.YOUTUBE:
+      case ContentType.VIMEO:
       case ContentType.ICON_YOUTUBE:
+      case ContentType.EMBED:
         return new EmbedObject(options);
+      case ContentType.OCCLUDER:
+        return new OccluderObject(options);
+      case ContentType.SHAPE:
+        return new ShapeObject(options);
       default:
         console.warn(`Unknown content type: ${content.type}`);
         return null;
@@ -260,38 +335,60 @@ export class Player {
   }
 
   /**
-   * Initialize custom script.
+   * Compile a target's script, or the project script (name ''), and start it on the script hub.
+   * The script reaches the target's contents only through the scene object's drivers.
    */
-  private initScript(script: string | undefined): ScriptFunctions | null {
-    if (!script) return null;
-    
-    const eventList = ['onInit', 'onActivate', 'onDeactivate', 'onUpdate', 'onClick'];
-    const scriptWrapResultObj: Record<string, string> = {};
-    eventList.forEach((key) => {
-      scriptWrapResultObj[key] = key;
-    });
-    const scriptWrapParams = eventList.join(',');
-    const scriptWrapResult = JSON.stringify(scriptWrapResultObj).replace(/"/g, '');
-    
+  private async initScript(
+    name: string,
+    source: { script?: string; scriptLanguage?: ScriptLanguage },
+    sceneObject: SceneObject,
+    raycast?: ScriptRuntimeHost['raycast']
+  ): Promise<ScriptRuntime | null> {
+    if (!source.script) return null;
+
+    let code: string | null;
     try {
-      const functions = (new Function(scriptWrapParams, script + '\nreturn ' + scriptWrapResult + ';'))();
-      return functions as ScriptFunctions;
+      const result = await compileScript(source.script, source.scriptLanguage);
+      code = result.code;
+      if (code === null) this.reportScriptError(formatScriptDiagnostic(result.diagnostics[0]));
     } catch (e) {
-      console.error('Error compiling custom script:', e);
-      if (this.onCustomScriptError) {
-        this.onCustomScriptError((e as Error).message);
+      code = null;
+      this.reportScriptError(`Could not load the TypeScript compiler: ${(e as Error).message}`);
+    }
+    if (code === null) return null;
+
+    return this.scriptHub.createRuntime(name, code, {
+      getObjects: () => sceneObject.getScriptDrivers(),
+      captureScreen: () => sceneObject.captureScreen(),
+      openUrl: (url) => window.open(url, '_blank'),
+      raycast,
+      onError: (message, event) => {
+        console.error(`Script error in ${event}:`, message);
+        this.reportScriptError(message);
       }
-      return null;
+    });
+  }
+
+  private reportScriptError(message: string): void {
+    if (this.onCustomScriptError) {
+      this.onCustomScriptError(message);
     }
   }
 
   /**
-   * Initialize scene environment.
+   * Apply the project's HDR environment, like the editor and the exported viewer.
+   * Without one, models are lit by the scene lights only.
    */
-  private initEnvironment(): void {
-    const pmremGenerator = new THREE.PMREMGenerator(this.renderer);
-    pmremGenerator.compileEquirectangularShader();
-    this.scene.environment = pmremGenerator.fromScene(new RoomEnvironment(), 0.04).texture;
+  private async initEnvironment(environment?: SceneEnvironment): Promise<void> {
+    if (!environment) return;
+    try {
+      const texture = await loadEnvironmentTexture(environment.url, environment.format);
+      this.environmentMap = createEnvironmentMap(this.renderer, texture, environment);
+      this.scene.environment = this.environmentMap.texture;
+      texture.dispose();
+    } catch (error) {
+      console.error('Failed to load environment map', error);
+    }
   }
 
   /**
@@ -347,6 +444,54 @@ export class Player {
     container.addEventListener('click', (e) => {
       this.handleClick(e);
     });
+    container.addEventListener('pointerdown', () => this.resumeAudio());
+    
+    this.scriptPointer = createScriptPointer<TargetRuntime>(container, {
+      pick: (screen) => this.selectedTarget ? this.pickContent(this.selectedTarget, screen) : null,
+      projectToTarget: (target, screen, depth) => {
+        const subScene = target.subScene;
+        const normal = new THREE.Vector3(0, 0, 1).transformDirection(subScene.matrixWorld);
+        const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(normal, subScene.localToWorld(new THREE.Vector3(0, 0, depth)));
+        this.raycaster.setFromCamera(new THREE.Vector2(screen.x * 2 - 1, -screen.y * 2 + 1), this.camera);
+        const hit = this.raycaster.ray.intersectPlane(plane, new THREE.Vector3());
+        return hit ? subScene.worldToLocal(hit).toArray() : null;
+      },
+      dispatch: (target, name, params) => this.dispatchTargetEvent(target, name, params)
+    });
+  }
+
+  /**
+   * Meshes of a target's visible contents. Contents attached to a bone are not children of
+   * the sub scene, so they are taken from the objects rather than the scene graph.
+   */
+  private getContentMeshes(target: TargetRuntime): THREE.Object3D[] {
+    return target.objects
+      .map(o => o.mesh)
+      .filter((mesh): mesh is THREE.Object3D => !!mesh && mesh.userData.isContent && mesh.visible);
+  }
+
+  /**
+   * Nearest visible content of a target under a point of the view (0 to 1 from the top left).
+   * The hit point is in the target's space.
+   */
+  private pickContent(target: TargetRuntime, screen: ScriptScreenPoint): ScriptPointerHit<TargetRuntime> | null {
+    this.raycaster.setFromCamera(new THREE.Vector2(screen.x * 2 - 1, -screen.y * 2 + 1), this.camera);
+    const [intersect] = this.raycaster.intersectObjects(this.getContentMeshes(target), true);
+    if (!intersect) return null;
+
+    let obj = intersect.object;
+    while (obj.parent && !obj.userData.isContent) {
+      obj = obj.parent;
+    }
+    const contentObject = target.objects.find(o => o.uuid === obj.userData.contentId);
+    if (!contentObject) return null;
+
+    return {
+      owner: target,
+      object: contentObject.name,
+      point: target.subScene.worldToLocal(intersect.point.clone()).toArray(),
+      distance: intersect.distance
+    };
   }
 
   /**
@@ -354,6 +499,8 @@ export class Player {
    */
   private handleClick(event: MouseEvent): void {
     if (!this.selectedTarget) return;
+    // The end of a drag or long press is not a click
+    if (this.scriptPointer && !this.scriptPointer.isClick()) return;
     
     const rect = this.container.getBoundingClientRect();
     const x = event.clientX;
@@ -364,12 +511,7 @@ export class Player {
     const raycaster = new THREE.Raycaster();
     raycaster.setFromCamera(mouse, this.camera);
 
-    const subScene = this.selectedTarget.subScene;
-    const interestedObjects = subScene.children.filter((c) => 
-      c.userData.isContent && c.visible
-    );
-    
-    const intersects = raycaster.intersectObjects(interestedObjects, true);
+    const intersects = raycaster.intersectObjects(this.getContentMeshes(this.selectedTarget), true);
     if (intersects.length === 0) return;
 
     let obj = intersects[0].object;
@@ -382,20 +524,36 @@ export class Player {
       const contentObject = this.selectedTarget.objects.find(o => o.uuid === contentId);
       
       if (contentObject) {
+        if (contentObject instanceof TextObject && intersects[0].uv) contentObject.openLinkAt(intersects[0].uv);
         this.dispatchTargetEvent(this.selectedTarget, 'onClick', {
-          object: contentObject.createScriptWrapper(),
+          object: contentObject.name,
           time: this.clock?.elapsedTime || 0
         });
       }
     }
   }
 
+  /**
+   * Resume the audio context spatial audio plays through. Browsers keep it suspended until the
+   * page is interacted with, so this is also done on the first press in the view.
+   */
+  private resumeAudio(): void {
+    if (this.audioListener.context.state === 'suspended') {
+      this.audioListener.context.resume().catch(() => {});
+    }
+  }
+
   /**
    * Start a target (make it active).
    */
   public startTarget(targetIndex: number): void {
     this.stopTarget();
     
+    // A newly found target replaces one that is still animating out
+    if (this.exitingTarget) {
+      this.teardownTarget(this.exitingTarget);
+    }
+    
     const target = this.targets[targetIndex];
     if (!target) return;
     
@@ -405,7 +563,12 @@ export class Player {
     this.scene.add(target.subScene);
     this.cssScene.add(target.cssSubScene);
     
+    // Timelines restart from the beginning on every activation
+    target.timelineElapsed = 0;
+    this.updateTimeline(target, 0);
+    
     // Activate all content objects
+    this.resumeAudio();
     target.objects.forEach((obj) => {
       obj.activate();
     });
@@ -413,8 +576,9 @@ export class Player {
     // Start clock
     this.clock = new THREE.Clock();
     
-    // Dispatch onActivate event
-    this.dispatchTargetEvent(target, 'onActivate', {});
+    // Dispatch onActivate event, then tell the other scripts
+    this.dispatchTargetEvent(target, 'onActivate');
+    this.scriptHub.setTargetTracked(target.target.name, true);
     
     // Start animation loop
     this.startAnimationLoop();
@@ -434,16 +598,36 @@ export class Player {
     });
     
     // Dispatch onDeactivate event
-    this.dispatchTargetEvent(target, 'onDeactivate', {});
+    this.dispatchTargetEvent(target, 'onDeactivate');
+    this.scriptHub.setTargetTracked(target.target.name, false);
+    this.selectedTarget = null;
+    
+    // Keep rendering until exit animations finish
+    if (target.objects.some((obj) => obj.isAnimating())) {
+      this.exitingTarget = target;
+      return;
+    }
+    
+    this.teardownTarget(target);
+  }
+
+  /**
+   * Remove a stopped target from the scene, and stop rendering if nothing else is shown.
+   */
+  private teardownTarget(target: TargetRuntime): void {
+    if (this.exitingTarget === target) {
+      this.exitingTarget = null;
+    }
     
     // Stop animation
-    this.renderer.setAnimationLoop(null);
-    this.renderer.clear();
+    if (!this.selectedTarget) {
+      this.renderer.setAnimationLoop(null);
+      this.renderer.clear();
+    }
     this.mixer.uncacheRoot(target.subScene);
     
     // Remove from scene
     this.scene.remove(target.subScene);
-    this.selectedTarget = null;
   }
 
   /**
@@ -457,6 +641,19 @@ export class Player {
       // Update mixer
       this.mixer.update(delta);
       
+      // Advance the timeline, then entry/exit animations on top of it
+      if (this.selectedTarget) {
+        this.updateTimeline(this.selectedTarget, delta);
+      }
+      this.selectedTarget?.objects.forEach((obj) => obj.update(delta));
+      if (this.exitingTarget) {
+        const exiting = this.exitingTarget;
+        exiting.objects.forEach((obj) => obj.update(delta));
+        if (!exiting.objects.some((obj) => obj.isAnimating())) {
+          this.teardownTarget(exiting);
+        }
+      }
+      
       // Dispatch onUpdate event
       if (this.selectedTarget) {
         this.dispatchTargetEvent(this.selectedTarget, 'onUpdate', {
@@ -464,6 +661,7 @@ export class Player {
           deltaTime: delta
         });
       }
+      this.projectScript?.dispatch('onUpdate', { time: elapsed, deltaTime: delta });
       
       // Render
       this.renderer.render(this.scene, this.camera);
@@ -478,27 +676,29 @@ export class Player {
   }
 
   /**
-   * Dispatch event to target's custom script.
+   * Advance a target's timeline and pose the content it animates.
    */
-  private dispatchTargetEvent(target: TargetRuntime, name: string, extra: Record<string, any> = {}): void {
-    const params = Object.assign(
-      { target: target.sceneObject.createScriptObject(), data: target.customData },
-      extra
-    );
-    
-    if (target.customFunctions[name as keyof ScriptFunctions]) {
-      try {
-        const fn = target.customFunctions[name as keyof ScriptFunctions];
-        if (typeof fn === 'function') {
-          fn(params as any);
-        }
-      } catch (e) {
-        console.error(`Script error in ${name}:`, e);
-        if (this.onCustomScriptError) {
-          this.onCustomScriptError((e as Error).message);
-        }
+  private updateTimeline(target: TargetRuntime, deltaTime: number): void {
+    const timeline = target.target.timeline;
+    if (!hasTimelineTracks(timeline)) return;
+    
+    target.timelineElapsed += deltaTime;
+    const time = getTimelineTime(timeline, target.timelineElapsed);
+    
+    target.objects.forEach((obj) => {
+      const contentId = obj.getContent().id;
+      if (hasTimelineTracks(timeline, contentId)) {
+        obj.applyTimelinePose(sampleTimeline(timeline, contentId, time));
       }
-    }
+    });
+  }
+
+  /**
+   * Dispatch event to target's custom script.
+   * Scene changes made by the handler are applied once its worker replies.
+   */
+  private dispatchTargetEvent(target: TargetRuntime, name: ScriptEventName, extra: ScriptEventData = {}): void {
+    target.script?.dispatch(name, extra);
   }
 
   /**
@@ -506,6 +706,7 @@ export class Player {
    */
   public switchToAR(camera: THREE.Camera): void {
     this.camera = camera as unknown as THREE.PerspectiveCamera;
+    this.camera.add(this.audioListener);
     if (this.editorControls) {
       this.editorControls.enabled = false;
     }
@@ -520,6 +721,7 @@ export class Player {
     }
     
     this.camera = this.defaultCamera;
+    this.camera.add(this.audioListener);
     this.camera.position.set(0, 1000, 2000);
     this.camera.lookAt(new THREE.Vector3());
     
@@ -605,16 +807,21 @@ export class Player {
    */
   public dispose(): void {
     this.stopTarget();
+    this.scriptPointer?.dispose();
+    this.projectScript?.dispose();
     
     for (const target of this.targets) {
+      target.script?.dispose();
       for (const obj of target.objects) {
         obj.dispose();
       }
       target.sceneObject.clear();
     }
     
+    this.audioListener.removeFromParent();
     this.scene.clear();
     this.mixer.uncacheRoot(this.scene);
+    this.environmentMap?.dispose();
     this.renderer.dispose();
     
     if (this.editorControls) {
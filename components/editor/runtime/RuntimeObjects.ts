@@ -1,6 +1,8 @@
 
 import * as THREE from 'three';
-import { Content } from '../../../types';
+import { ScriptAnimator, ScriptContentDriver, Vector3Tuple } from '../../../utils/scriptRuntime';
+import { setMorphTarget } from '../../../utils/modelUtils';
+import { AudioPlaylist } from '../../../utils/playlistUtils';
 
 /**
  * Base class representing a content object in the runtime.
@@ -10,32 +12,27 @@ export class ContentObject {
   constructor(
     public readonly id: string,
     public readonly name: string,
+    public readonly type: string,
     public mesh: THREE.Object3D
   ) {}
 
-  getScriptWrapper() {
+  getScriptDriver(): ScriptContentDriver {
     const self = this;
-    const api: any = {
+    return {
       uuid: self.id,
       name: self.name,
-      // Expose the mesh primarily for internal debugging, 
-      // but users might access it if they know Three.js
-      mesh: self.mesh, 
-      
-      // Transform Getters
-      get position() { return self.mesh.position; },
-      get rotation() { 
-          // Convert radians to degrees for the script interface to match Editor UI
-          return {
-              x: THREE.MathUtils.radToDeg(self.mesh.rotation.x),
-              y: THREE.MathUtils.radToDeg(self.mesh.rotation.y),
-              z: THREE.MathUtils.radToDeg(self.mesh.rotation.z)
-          };
-      },
-      get scale() { return self.mesh.scale; },
-      get visible() { return self.mesh.visible; },
-
-      // Transform Setters
+      type: self.type,
+      // Rotation is converted to degrees for the script interface to match Editor UI
+      getTransform: () => ({
+        position: self.mesh.position.toArray() as Vector3Tuple,
+        rotation: [
+          THREE.MathUtils.radToDeg(self.mesh.rotation.x),
+          THREE.MathUtils.radToDeg(self.mesh.rotation.y),
+          THREE.MathUtils.radToDeg(self.mesh.rotation.z)
+        ],
+        scale: self.mesh.scale.toArray() as Vector3Tuple,
+        visible: self.mesh.visible
+      }),
       setPosition: (x: number, y: number, z: number) => {
         self.mesh.position.set(x, y, z);
       },
@@ -53,7 +50,6 @@ export class ContentObject {
         self.mesh.visible = visible;
       }
     };
-    return api;
   }
 }
 
@@ -61,27 +57,28 @@ export class ContentObject {
  * Mirrors refcode/lib/src/scene/player/VideoAssetObject.js
  */
 export class VideoObject extends ContentObject {
-  constructor(id: string, name: string, mesh: THREE.Mesh, public videoElement: HTMLVideoElement) {
-    super(id, name, mesh);
+  constructor(id: string, name: string, type: string, mesh: THREE.Object3D, public videoElement: HTMLVideoElement) {
+    super(id, name, type, mesh);
   }
 
-  getScriptWrapper() {
-    const api = super.getScriptWrapper();
-    Object.assign(api, {
-      getVideo: () => this.videoElement,
-      playVideo: () => this.videoElement.play(),
-      pauseVideo: () => this.videoElement.pause(),
-      stopVideo: () => {
-        this.videoElement.pause();
-        this.videoElement.currentTime = 0;
-      },
-      seekTo: (time: number) => { this.videoElement.currentTime = time; },
-      setVolume: (vol: number) => { this.videoElement.volume = vol; },
-      setMuted: (muted: boolean) => { this.videoElement.muted = muted; },
-      setLoop: (loop: boolean) => { this.videoElement.loop = loop; },
-      isPlayingVideo: () => !this.videoElement.paused
-    });
-    return api;
+  getScriptDriver(): ScriptContentDriver {
+    const video = this.videoElement;
+    return {
+      ...super.getScriptDriver(),
+      media: {
+        play: () => { video.play(); },
+        pause: () => video.pause(),
+        stop: () => {
+          video.pause();
+          video.currentTime = 0;
+        },
+        seekTo: (time: number) => { video.currentTime = time; },
+        setVolume: (vol: number) => { video.volume = vol; },
+        setMuted: (muted: boolean) => { video.muted = muted; },
+        setLoop: (loop: boolean) => { video.loop = loop; },
+        isPlaying: () => !video.paused
+      }
+    };
   }
 }
 
@@ -90,23 +87,28 @@ export class VideoObject extends ContentObject {
  */
 export class EmbedObject extends ContentObject {
   // We use a generic player interface to talk to ReactPlayer
-  constructor(id: string, name: string, mesh: THREE.Object3D, public playerRef: any) {
-    super(id, name, mesh);
+  constructor(id: string, name: string, type: string, mesh: THREE.Object3D, public playerRef: any) {
+    super(id, name, type, mesh);
   }
 
-  getScriptWrapper() {
-    const api = super.getScriptWrapper();
-    Object.assign(api, {
-       playVideo: () => this.playerRef?.playVideo(),
-       pauseVideo: () => this.playerRef?.pauseVideo(),
-       stopVideo: () => this.playerRef?.stopVideo(),
-       seekTo: (t: number) => this.playerRef?.seekTo(t),
-       setVolume: (v: number) => this.playerRef?.setVolume(v),
-       setMuted: (m: boolean) => this.playerRef?.setMuted(m),
-       setLoop: (l: boolean) => this.playerRef?.setLoop(l),
-       isPlayingVideo: () => this.playerRef?.isPlaying()
-    });
-    return api;
+  getScriptDriver(): ScriptContentDriver {
+    return {
+      ...super.getScriptDriver(),
+      media: {
+        play: () => this.playerRef?.playVideo(),
+        pause: () => this.playerRef?.pauseVideo(),
+        stop: () => this.playerRef?.stopVideo(),
+        seekTo: (t: number) => this.playerRef?.seekTo(t),
+        setVolume: (v: number) => this.playerRef?.setVolume(v),
+        setMuted: (m: boolean) => this.playerRef?.setMuted(m),
+        setLoop: (l: boolean) => this.playerRef?.setLoop(l),
+        setPlaybackRate: (rate: number) => this.playerRef?.setPlaybackRate(rate),
+        setCaptions: (enabled: boolean, lang?: string) => this.playerRef?.setCaptions(enabled, lang),
+        getVideoId: () => this.playerRef?.getVideoId() ?? null,
+        getService: () => this.playerRef?.getService() ?? null,
+        isPlaying: () => !!this.playerRef?.isPlaying()
+      }
+    };
   }
 }
 
@@ -115,61 +117,53 @@ export class EmbedObject extends ContentObject {
  */
 export class ModelObject extends ContentObject {
   constructor(
-      id: string, 
-      name: string, 
-      mesh: THREE.Group, 
-      public actions: { [key: string]: THREE.AnimationAction }
+      id: string,
+      name: string,
+      type: string,
+      mesh: THREE.Object3D,
+      public animator: ScriptAnimator
   ) {
-    super(id, name, mesh);
+    super(id, name, type, mesh);
   }
 
-  getScriptWrapper() {
-    const api = super.getScriptWrapper();
-    Object.assign(api, {
-      getAction: (nameOrIndex: string | number = 0) => {
-         if (typeof nameOrIndex === 'number') {
-             const keys = Object.keys(this.actions);
-             return this.actions[keys[nameOrIndex]];
-         }
-         return this.actions[nameOrIndex];
-      },
-      updateTexture: (materialName: string, imageUrl: string) => {
-         if (!imageUrl) return;
-         const loader = new THREE.TextureLoader();
-         loader.load(imageUrl, (tex) => {
-             tex.flipY = false;
-             tex.colorSpace = THREE.SRGBColorSpace;
-             this.mesh.traverse((child: any) => {
-                 if (child.isMesh && child.material && child.material.name === materialName) {
-                     // Handle multi-material or single material
-                     const materials = Array.isArray(child.material) ? child.material : [child.material];
-                     materials.forEach((mat: any) => {
-                         if (mat.map) mat.map.dispose();
-                         mat.map = tex;
-                         mat.needsUpdate = true;
-                     });
-                 }
-             });
-         });
+  getScriptDriver(): ScriptContentDriver {
+    return {
+      ...super.getScriptDriver(),
+      model: {
+        ...this.animator,
+        setMorph: (name: string, value: number) => setMorphTarget(this.mesh, name, value),
+        updateTexture: (materialName: string, imageUrl: string) => {
+           const loader = new THREE.TextureLoader();
+           loader.load(imageUrl, (tex) => {
+               tex.flipY = false;
+               tex.colorSpace = THREE.SRGBColorSpace;
+               this.mesh.traverse((child: any) => {
+                   if (child.isMesh && child.material && child.material.name === materialName) {
+                       // Handle multi-material or single material
+                       const materials = Array.isArray(child.material) ? child.material : [child.material];
+                       materials.forEach((mat: any) => {
+                           if (mat.map) mat.map.dispose();
+                           mat.map = tex;
+                           mat.needsUpdate = true;
+                       });
+                   }
+               });
+           });
+        }
       }
-    });
-    return api;
+    };
   }
 }
 
 export class AudioObject extends ContentObject {
-    constructor(id: string, name: string, mesh: THREE.Object3D, public audioEl: HTMLAudioElement) {
-        super(id, name, mesh);
+    constructor(id: string, name: string, type: string, mesh: THREE.Object3D, public playlist: AudioPlaylist) {
+        super(id, name, type, mesh);
     }
-    
-    getScriptWrapper() {
-        const api = super.getScriptWrapper();
-        Object.assign(api, {
-            getAudio: () => this.audioEl,
-            playVideo: () => this.audioEl.play(), // Alias for consistency
-            pauseVideo: () => this.audioEl.pause(),
-            stopVideo: () => { this.audioEl.pause(); this.audioEl.currentTime = 0; }
-        });
-        return api;
+
+    getScriptDriver(): ScriptContentDriver {
+        return {
+            ...super.getScriptDriver(),
+            media: this.playlist
+        };
     }
 }
@@ -8,18 +8,12 @@
 
 import * as THREE from 'three';
 import { ContentObject, ScriptAPI } from './ContentObject';
+import { SceneScriptAPI, ScriptContentDriver } from '../../../utils/scriptRuntime';
 
-export interface SystemControl {
-  captureScreen: () => void;
-}
+export type { SceneScriptAPI };
 
-export interface SceneScriptAPI {
-  /** Get a content object by name */
-  getObject: (name: string) => ScriptAPI | null;
-  /** Capture a screenshot of the current view */
+export interface SystemControl {
   captureScreen: () => void;
-  /** Open a URL in a new tab */
-  openUrl?: (url: string) => void;
 }
 
 export class SceneObject {
@@ -95,6 +89,13 @@ export class SceneObject {
     return this.objects.has(name);
   }
 
+  /**
+   * Get the script runtime drivers for all objects.
+   */
+  public getScriptDrivers(): ScriptContentDriver[] {
+    return Array.from(this.objects.values()).map(obj => obj.getScriptDriver());
+  }
+
   /**
    * Get the underlying ContentObject instance.
    */
@@ -155,9 +156,10 @@ export class SceneObject {
   }
 
   /**
-   * Create the script API object.
+   * Create the script API object. Timers and tween() need the target's clock,
+   * which only exists inside the script worker (utils/scriptRuntime.ts).
    */
-  public createScriptObject(): SceneScriptAPI {
+  public createScriptObject(): Pick<SceneScriptAPI, 'getObject' | 'captureScreen' | 'openUrl'> {
     const self = this;
     
     return {
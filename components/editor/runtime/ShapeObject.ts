@@ -0,0 +1,44 @@
+/**
+ * ShapeObject - Handles primitive shape content in the scene.
+ * Builds the geometry from the shape's kind and size, and its material from the material editor.
+ */
+
+import * as THREE from 'three';
+import { ContentObject, ContentObjectOptions } from './ContentObject';
+import { DEFAULT_SHAPE_KIND, getShapeSize, getShapeMaterial, createShapeGeometry, createShapeMaterial, loadShapeTexture } from '../../../utils/shapeUtils';
+
+export class ShapeObject extends ContentObject {
+  private material: THREE.MeshStandardMaterial | null = null;
+
+  constructor(options: ContentObjectOptions) {
+    super(options);
+  }
+
+  /**
+   * Initialize the shape. Its texture, if any, shows once loaded.
+   */
+  public async init(): Promise<void> {
+    const { content } = this;
+    const geometry = createShapeGeometry(content.shapeKind ?? DEFAULT_SHAPE_KIND, getShapeSize(content));
+    this.material = createShapeMaterial(getShapeMaterial(content), loadShapeTexture);
+
+    const mesh = new THREE.Mesh(geometry, this.material);
+    mesh.castShadow = mesh.receiveShadow = true;
+    this.mesh = mesh;
+
+    this.applyTransformToMesh();
+    this.mesh.userData.isContent = true;
+    this.mesh.userData.contentId = this.uuid;
+  }
+
+  /**
+   * Dispose of resources.
+   */
+  public dispose(): void {
+    this.material?.map?.dispose();
+    super.dispose();
+    this.material = null;
+  }
+}
+
+export default ShapeObject;
@@ -1,117 +1,142 @@
 /**
  * TextObject - Handles text content in the scene.
  * Mirrors refcode/lib/src/scene/player/TextObject.js
- * 
- * Renders text using Three.js text geometry or sprites.
+ *
+ * Renders flat text, rich text included, to a canvas texture, or extruded 3D text from the font's
+ * outlines when the text has a depth. Both are laid out like the editor's text (see utils/textUtils.ts
+ * and utils/richTextUtils.ts).
  */
 
 import * as THREE from 'three';
+import { Font } from 'three/examples/jsm/loaders/FontLoader.js';
 import { ContentObject, ScriptAPI, ContentObjectOptions } from './ContentObject';
+import { TextFont, TextLayout, getTextLayout, loadTextFont, loadFontFace, createExtrudedTextGeometry } from '../../../utils/textUtils';
+import {
+  TextSpan,
+  TextCanvasLayout,
+  TextCanvasStyle,
+  getTextSpans,
+  getPlainText,
+  getTextCanvasStyle,
+  layoutTextCanvas,
+  createTextCanvas,
+  drawTextCanvas,
+  createTextPlane,
+  findTextLink
+} from '../../../utils/richTextUtils';
+import { isSafeScriptUrl } from '../../../utils/scriptRuntime';
+
+export interface TextObjectOptions extends ContentObjectOptions {
+  font: TextFont;
+}
 
 export class TextObject extends ContentObject {
-  private textMaterial: THREE.MeshBasicMaterial | null = null;
+  private font: TextFont;
+  private text: string = ''; // Plain text, without markup
+  private typeface: Font | null = null; // Outlines of extruded text
+  private textMaterial: THREE.Material | null = null;
+  private textCanvas: HTMLCanvasElement | null = null;
+  private textLayout: TextCanvasLayout | null = null;
+  private textStyle: TextCanvasStyle | null = null;
+  private visibleLength: number = -1;
 
-  constructor(options: ContentObjectOptions) {
+  constructor(options: TextObjectOptions) {
     super(options);
+    this.font = options.font;
   }
 
   /**
-   * Initialize the text object.
-   * Note: In a real implementation, you'd use troika-three-text or similar
-   * for proper text rendering. This is a simplified version.
+   * Initialize the text object once its font has loaded.
    */
   public async init(): Promise<void> {
     const content = this.getContent();
-    
+
     if (!content.textContent) {
       console.warn('TextObject: No text content provided');
       return;
     }
 
-    // Create a simple plane with text texture
-    // In production, use troika-three-text or similar
-    const canvas = this.createTextCanvas(
-      content.textContent,
-      {
-        color: content.color || '#000000',
-        fontSize: content.size || 20,
-        fontFamily: content.font || 'Arial',
-        outlineColor: content.outlineColor || '#000000',
-        outlineWidth: content.outlineWidth || 0
-      }
-    );
+    const layout = getTextLayout(content);
+    const spans = getTextSpans(content);
+    this.text = getPlainText(spans);
+    this.visibleLength = this.text.length;
+    if (layout.depth > 0) {
+      // Extruded text has one font and color, so rich text shows as plain text
+      this.mesh = await this.createExtrudedText(layout);
+    } else {
+      this.textStyle = getTextCanvasStyle(content, this.font);
+      this.mesh = await this.createFlatText(spans, layout, this.textStyle);
+    }
+    this.applyTransformToMesh();
+
+    if (this.mesh) {
+      this.mesh.userData.isContent = true;
+      this.mesh.userData.contentId = this.uuid;
+    }
+  }
+
+  private async createExtrudedText(layout: TextLayout): Promise<THREE.Mesh> {
+    try {
+      this.typeface = await loadTextFont(this.font.url);
+    } catch (error) {
+      console.error('TextObject: Failed to load font:', error);
+      throw error;
+    }
+    this.textMaterial = new THREE.MeshStandardMaterial({ color: this.getContent().color || '#000000', roughness: 0.5 });
+    const mesh = new THREE.Mesh(createExtrudedTextGeometry(this.typeface, this.text, layout), this.textMaterial);
+    mesh.castShadow = mesh.receiveShadow = true;
+    return mesh;
+  }
 
-    const texture = new THREE.CanvasTexture(canvas);
+  private async createFlatText(spans: TextSpan[], layout: TextLayout, style: TextCanvasStyle): Promise<THREE.Mesh> {
+    try {
+      await loadFontFace(this.font);
+    } catch (error) {
+      // The canvas falls back to a system font
+      console.warn('TextObject: Failed to load font, using a fallback:', error);
+    }
+
+    this.textLayout = layoutTextCanvas(spans, layout, style);
+    this.textCanvas = createTextCanvas(this.textLayout);
+    drawTextCanvas(this.textCanvas, this.textLayout, style, this.visibleLength);
+
+    const texture = new THREE.CanvasTexture(this.textCanvas);
     texture.colorSpace = THREE.SRGBColorSpace;
-    
-    // Calculate aspect ratio
-    const aspect = canvas.width / canvas.height;
-    
-    // Create geometry and material
-    const geometry = new THREE.PlaneGeometry(aspect, 1);
     this.textMaterial = new THREE.MeshBasicMaterial({
       map: texture,
       transparent: true,
       side: THREE.DoubleSide,
       toneMapped: false
     });
+    return new THREE.Mesh(createTextPlane(this.textLayout), this.textMaterial);
+  }
 
-    this.mesh = new THREE.Mesh(geometry, this.textMaterial);
-    this.applyTransformToMesh();
+  /**
+   * Redraw part of the text for the typewriter animation.
+   */
+  protected setTextProgress(progress: number): void {
+    if (!this.text || !(this.mesh instanceof THREE.Mesh)) return;
 
-    if (this.mesh) {
-      this.mesh.userData.isContent = true;
-      this.mesh.userData.contentId = this.uuid;
+    const length = Math.round(this.text.length * progress);
+    if (length === this.visibleLength) return;
+    this.visibleLength = length;
+
+    if (this.typeface) {
+      this.mesh.geometry.dispose();
+      this.mesh.geometry = createExtrudedTextGeometry(this.typeface, this.text, getTextLayout(this.getContent()), length);
+    } else if (this.textCanvas && this.textLayout && this.textStyle && this.textMaterial instanceof THREE.MeshBasicMaterial && this.textMaterial.map) {
+      drawTextCanvas(this.textCanvas, this.textLayout, this.textStyle, length);
+      this.textMaterial.map.needsUpdate = true;
     }
   }
 
   /**
-   * Create a canvas with text rendered on it.
+   * Open the link at a point of the text, given by the UV coordinates of the click's raycast hit.
+   * Links open like openUrl() from a script.
    */
-  private createTextCanvas(
-    text: string,
-    options: {
-      color: string;
-      fontSize: number;
-      fontFamily: string;
-      outlineColor?: string;
-      outlineWidth?: number;
-    }
-  ): HTMLCanvasElement {
-    const { color, fontSize, fontFamily, outlineColor, outlineWidth } = options;
-    
-    // Create a canvas with appropriate size
-    const fontSizePx = fontSize * 4; // Scale up for resolution
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d')!;
-    
-    // Measure text
-    ctx.font = `${fontSizePx}px ${fontFamily}`;
-    const metrics = ctx.measureText(text);
-    const textWidth = Math.ceil(metrics.width) + 40;
-    const textHeight = fontSizePx * 1.5;
-    
-    canvas.width = textWidth;
-    canvas.height = textHeight;
-    
-    // Re-measure with actual canvas
-    ctx.font = `${fontSizePx}px ${fontFamily}`;
-    ctx.textBaseline = 'middle';
-    ctx.textAlign = 'center';
-    
-    // Draw outline if specified
-    if (outlineWidth && outlineWidth > 0 && outlineColor) {
-      ctx.strokeStyle = outlineColor;
-      ctx.lineWidth = outlineWidth * 4;
-      ctx.lineJoin = 'round';
-      ctx.strokeText(text, canvas.width / 2, canvas.height / 2);
-    }
-    
-    // Draw text
-    ctx.fillStyle = color;
-    ctx.fillText(text, canvas.width / 2, canvas.height / 2);
-    
-    return canvas;
+  public openLinkAt(uv: THREE.Vector2): void {
+    const url = this.textLayout ? findTextLink(this.textLayout, uv) : null;
+    if (url && isSafeScriptUrl(url)) window.open(url, '_blank');
   }
 
   /**
@@ -121,7 +146,7 @@ export class TextObject extends ContentObject {
     const content = this.getContent();
     const updatedContent = { ...content, textContent: newText };
     this.updateContent(updatedContent);
-    
+
     // Re-create the text if mesh exists
     if (this.mesh) {
       this.dispose();
@@ -141,13 +166,17 @@ export class TextObject extends ContentObject {
    */
   public dispose(): void {
     if (this.textMaterial) {
-      if (this.textMaterial.map) {
-        (this.textMaterial.map as THREE.Texture).dispose();
+      if (this.textMaterial instanceof THREE.MeshBasicMaterial && this.textMaterial.map) {
+        this.textMaterial.map.dispose();
       }
       this.textMaterial.dispose();
       this.textMaterial = null;
     }
-    
+    this.textCanvas = null;
+    this.textLayout = null;
+    this.textStyle = null;
+    this.typeface = null;
+
     super.dispose();
   }
 }
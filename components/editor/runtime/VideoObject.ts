@@ -5,24 +5,17 @@
  * Supports:
  * - Local video files
  * - Chroma key (green screen) effect
+ * - Alpha mattes, packed in the frame or native to WebM (see utils/videoAlphaUtils.ts)
  * - Auto-play, loop, mute controls
+ * - Locked aspect ratio with cover/contain/fill fitting
  * - Click-to-toggle playback
  */
 
 import * as THREE from 'three';
 import { ContentObject, ScriptAPI, ContentObjectOptions } from './ContentObject';
-
-export interface VideoScriptAPI extends ScriptAPI {
-  getVideo: () => HTMLVideoElement | null;
-  playVideo: () => void;
-  pauseVideo: () => void;
-  stopVideo: () => void;
-  seekTo: (seconds: number) => void;
-  setVolume: (volume: number) => void;
-  setMuted: (muted: boolean) => void;
-  setLoop: (loop: boolean) => void;
-  isPlayingVideo: () => boolean;
-}
+import { ScriptContentDriver } from '../../../utils/scriptRuntime';
+import { getMediaFit, createMediaPlane } from '../../../utils/mediaFitUtils';
+import { getVideoAlphaMode, getPackedAlphaLayout, getVideoPictureAspect, createPackedAlphaMaterial } from '../../../utils/videoAlphaUtils';
 
 export class VideoObject extends ContentObject {
   private videoElement: HTMLVideoElement | null = null;
@@ -57,14 +50,26 @@ export class VideoObject extends ContentObject {
     this.videoTexture.magFilter = THREE.LinearFilter;
     this.videoTexture.format = THREE.RGBAFormat;
     
-    // Get aspect ratio
-    const aspect = this.videoElement.videoWidth / this.videoElement.videoHeight;
+    // Get aspect ratio of the picture, without a packed alpha matte
+    const alphaMode = getVideoAlphaMode(content);
+    const alphaLayout = getPackedAlphaLayout(alphaMode);
+    const aspect = getVideoPictureAspect(alphaMode, this.videoElement.videoWidth, this.videoElement.videoHeight);
     
-    // Create geometry
-    const geometry = new THREE.PlaneGeometry(aspect, 1);
+    // Create geometry, fitted to the content's aspectRatio / fitMode
+    const geometry = createMediaPlane(getMediaFit(content, aspect));
     
-    // Create material (chroma key or regular)
-    if (content.chromaKey && content.chromaColor) {
+    // Create material (alpha matte, chroma key or regular)
+    if (alphaLayout) {
+      this.material = createPackedAlphaMaterial(this.videoTexture, alphaLayout);
+    } else if (alphaMode === 'native') {
+      this.material = new THREE.MeshBasicMaterial({
+        map: this.videoTexture,
+        transparent: true,
+        alphaTest: 0.01,
+        side: THREE.DoubleSide,
+        toneMapped: false
+      });
+    } else if (content.chromaKey && content.chromaColor) {
       this.material = this.createChromaMaterial(this.videoTexture, content.chromaColor);
       this.chromaMaterial = this.material as THREE.ShaderMaterial;
     } else {
@@ -165,6 +170,8 @@ export class VideoObject extends ContentObject {
    * Called when the target becomes active.
    */
   public activate(): void {
+    super.activate();
+    
     const content = this.getContent();
     
     if (content.autoplay && this.videoElement) {
@@ -176,6 +183,8 @@ export class VideoObject extends ContentObject {
    * Called when the target becomes inactive.
    */
   public deactivate(): void {
+    super.deactivate();
+    
     if (this.videoElement) {
       this.videoElement.pause();
     }
@@ -218,45 +227,35 @@ export class VideoObject extends ContentObject {
   }
 
   /**
-   * Create the script API wrapper.
+   * Describe this object to the script runtime, with video playback controls.
    */
-  public createScriptWrapper(): VideoScriptAPI {
-    const api = super.createScriptWrapper() as VideoScriptAPI;
+  public getScriptDriver(): ScriptContentDriver {
     const self = this;
     
     return {
-      ...api,
-      getVideo: () => self.videoElement,
-      playVideo: () => self.videoElement?.play(),
-      pauseVideo: () => self.videoElement?.pause(),
-      stopVideo: () => {
-        if (self.videoElement) {
-          self.videoElement.pause();
-          self.videoElement.currentTime = 0;
-        }
-      },
-      seekTo: (seconds: number) => {
-        if (self.videoElement) {
-          self.videoElement.currentTime = seconds;
-        }
-      },
-      setVolume: (volume: number) => {
-        if (self.videoElement) {
-          self.videoElement.volume = Math.max(0, Math.min(1, volume));
-        }
-      },
-      setMuted: (muted: boolean) => {
-        if (self.videoElement) {
-          self.videoElement.muted = muted;
-        }
-      },
-      setLoop: (loop: boolean) => {
-        if (self.videoElement) {
-          self.videoElement.loop = loop;
-        }
-      },
-      isPlayingVideo: () => {
-        return self.videoElement ? !self.videoElement.paused : false;
+      ...super.getScriptDriver(),
+      media: {
+        play: () => { self.videoElement?.play(); },
+        pause: () => self.videoElement?.pause(),
+        stop: () => {
+          if (self.videoElement) {
+            self.videoElement.pause();
+            self.videoElement.currentTime = 0;
+          }
+        },
+        seekTo: (seconds) => {
+          if (self.videoElement) self.videoElement.currentTime = seconds;
+        },
+        setVolume: (volume) => {
+          if (self.videoElement) self.videoElement.volume = volume;
+        },
+        setMuted: (muted) => {
+          if (self.videoElement) self.videoElement.muted = muted;
+        },
+        setLoop: (loop) => {
+          if (self.videoElement) self.videoElement.loop = loop;
+        },
+        isPlaying: () => self.videoElement ? !self.videoElement.paused : false
       }
     };
   }
@@ -11,19 +11,29 @@ export { EditorControls, type EditorControlsOptions } from './EditorControls';
 
 // Content object classes
 export { ImageObject } from './ImageObject';
-export { VideoObject, type VideoScriptAPI } from './VideoObject';
-export { AudioObject, type AudioScriptAPI } from './AudioObject';
-export { ModelObject, type ModelScriptAPI, type ModelData } from './ModelObject';
+export { VideoObject } from './VideoObject';
+export { AudioObject } from './AudioObject';
+export { ModelObject, type ModelData } from './ModelObject';
 export { TextObject } from './TextObject';
-export { EmbedObject, type EmbedScriptAPI, type EmbedPlayer } from './EmbedObject';
+export { EmbedObject, type EmbedPlayer } from './EmbedObject';
+export { OccluderObject } from './OccluderObject';
+export { ShapeObject } from './ShapeObject';
+
+// Script API shared with the editor preview and the exported viewer
+export type {
+  VideoScriptAPI,
+  AudioScriptAPI,
+  ModelScriptAPI,
+  EmbedScriptAPI,
+  ScriptEventParams,
+  ScriptContentDriver
+} from '../../../utils/scriptRuntime';
 
 // Main orchestrator
 export { 
   Player, 
   type PlayerOptions, 
-  type TargetRuntime, 
-  type ScriptFunctions, 
-  type ScriptEventParams 
+  type TargetRuntime
 } from './Player';
 
 // Re-export legacy RuntimeObjects for backwards compatibility
@@ -10,6 +10,12 @@ declare global {
         tex?: THREE.Texture | null;
         color?: THREE.Color;
       };
+      packedAlphaMaterial: Object3DNode<THREE.ShaderMaterial, typeof THREE.ShaderMaterial> & {
+        tex?: THREE.Texture | null;
+        scale?: THREE.Vector2;
+        colorOffset?: THREE.Vector2;
+        alphaOffset?: THREE.Vector2;
+      };
       // Allow any other standard HTML or Three elements
       [elemName: string]: any;
     }
@@ -20,6 +26,7 @@ declare module 'react' {
   namespace JSX {
     interface IntrinsicElements {
       chromaKeyMaterial: any;
+      packedAlphaMaterial: any;
       [elemName: string]: any;
     }
   }
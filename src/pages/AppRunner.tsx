@@ -3,6 +3,7 @@ import { useParams } from 'react-router-dom';
 import { getProjectById, getProjectBySlug } from '../services/projectService';
 import { Project } from '../../types';
 import { generatePapARHtml } from '../../utils/exportUtils';
+import { compileProjectScripts } from '../../utils/scriptCompiler';
 
 interface DebugState {
   mindarLoaded: boolean;
@@ -125,6 +126,15 @@ const AppRunner: React.FC = () => {
           return;
         }
 
+        // TypeScript scripts are transpiled here, the generated app only runs JavaScript
+        try {
+          project = await compileProjectScripts(project);
+        } catch (err) {
+          setError((err as Error).message);
+          setLoading(false);
+          return;
+        }
+
         // Generate HTML using the export utility
         // Enable debug by default for AppRunner so users can troubleshoot
         let generatedHtml;
@@ -1,8 +1,9 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { getProjectById } from '../services/projectService';
 import { Project } from '../../types';
 import ScenePanel from '../../components/editor/ScenePanel';
+import { createScriptStorage, getScriptStorageNamespace } from '../../utils/scriptRuntime';
 
 const Viewer: React.FC = () => {
   const params = useParams();
@@ -34,6 +35,12 @@ const Viewer: React.FC = () => {
     fetchProject();
   }, [id]);
 
+  // Scripts remember values between visits, like in the published app
+  const scriptStorage = useMemo(
+    () => project ? createScriptStorage(getScriptStorageNamespace(project)) : undefined,
+    [project]
+  );
+
   if (loading) {
     return (
       <div className="flex h-screen w-screen items-center justify-center bg-black text-white">
@@ -73,6 +80,10 @@ const Viewer: React.FC = () => {
     <div className="w-screen h-screen bg-black overflow-hidden relative">
         <ScenePanel 
             target={activeTarget}
+            project={project}
+            sceneSettings={project.sceneSettings}
+            assets={project.assets}
+            scriptStorage={scriptStorage}
             selectedContent={undefined}
             onContentUpdate={() => {}}
             onContentAdd={() => {}}
@@ -11,14 +11,44 @@ export enum ContentType {
   IMAGE = 'image',
   VIDEO = 'video',
   STREAMING_VIDEO = 'streaming-video',
-  // TODO: Implement YOUTUBE content type support - used for embedding YouTube videos directly
-  YOUTUBE = 'youtube',
-  // TODO: Implement VIMEO content type support - used for embedding Vimeo videos directly
-  VIMEO = 'vimeo',
+  YOUTUBE = 'youtube', // YouTube video by ID, played through the embedded player
+  VIMEO = 'vimeo', // Vimeo video by ID, played through the embedded player
   AUDIO = 'audio',
   MODEL = 'model',
-  // TODO: Implement EMBED content type support - used for embedding third-party content (iframes, etc.)
-  EMBED = 'embed',
+  EMBED = 'embed', // Third-party web page rendered in a sandboxed iframe
+  OCCLUDER = 'occluder', // Hides content behind the physical object, see utils/occluderUtils
+  SHAPE = 'shape', // Primitive geometry with an editable material, see utils/shapeUtils
+}
+
+export type OccluderShape = 'box' | 'cylinder' | 'plane' | 'model';
+
+export type ShapeKind = 'plane' | 'roundedRect' | 'box' | 'sphere' | 'cylinder' | 'ring' | 'arrow';
+
+// How spatial audio fades with distance, as in the Web Audio API
+export type AudioDistanceModel = 'linear' | 'inverse' | 'exponential';
+
+// How a video carries its alpha matte: packed beside or under the picture, or in the video itself (WebM VP9)
+export type VideoAlphaMode = 'side-by-side' | 'stacked' | 'native';
+
+// Where an audio playlist shows its subtitles: over the view, or as text under the content
+export type SubtitleMode = 'overlay' | 'text';
+
+// One clip of an audio playlist
+export interface AudioTrack {
+  id: string;
+  name: string;
+  url: string;
+  subtitles?: string; // WebVTT file contents
+}
+
+// Dimensions of a shape in scene units; each kind uses some of them
+export interface ShapeSize {
+  width?: number;
+  height?: number;
+  depth?: number; // Thickness of boxes; rounded rectangles and arrows are flat at 0
+  radius?: number; // Outer radius of rings
+  innerRadius?: number;
+  cornerRadius?: number;
 }
 
 export interface Transform {
@@ -27,6 +57,14 @@ export interface Transform {
   scale: [number, number, number];
 }
 
+/**
+ * A content that follows a bone of a model of the same target. Its transform is relative to the bone.
+ */
+export interface BoneAttachment {
+  modelId: string; // Content id of the model
+  bone: string; // Bone name, as listed in the model's boneNames
+}
+
 export interface MaterialProperties {
   color?: string;
   map?: string; // Texture URL
@@ -45,16 +83,23 @@ export interface Content {
   transform: Transform;
   alwaysFacingUser?: boolean;
   visible?: boolean;
+  attachment?: BoneAttachment; // Follow a model's bone instead of the target
   // Text specific
   color?: string;
   outlineColor?: string;
   outlineWidth?: number;
-  font?: string;
+  font?: string; // Built-in font name, see utils/textUtils
+  fontAssetId?: string; // Uploaded font asset, used instead of `font`
   style?: 'normal' | 'italic';
   weight?: 'normal' | 'bold';
   size?: number;
   align?: 'left' | 'center' | 'right';
   textContent?: string;
+  richText?: boolean; // textContent is markup, see utils/richTextUtils
+  textMaxWidth?: number; // Lines wrap past this width in scene units; 0 or unset never wraps
+  textLineHeight?: number; // Multiple of the font size (default 1.2)
+  textDepth?: number; // Extrusion in scene units; 0 or unset is flat text
+  textBevel?: number; // Bevel size of extruded text in scene units
   // Image specific
   imageUrl?: string;
   // Video/Audio specific
@@ -69,40 +114,98 @@ export interface Content {
   videoFullScreen?: boolean; // Allow fullscreen
   chromaKey?: boolean;
   chromaColor?: string;
+  videoAlpha?: VideoAlphaMode; // Transparency from an alpha matte, used instead of chromaKey. See utils/videoAlphaUtils
+  // Audio specific. Playlists are in utils/playlistUtils, spatial audio in utils/audioUtils (distances in the content's units)
+  audioPlaylist?: AudioTrack[]; // Clips played in order; audioUrl is the first one's
+  audioAutoAdvance?: boolean; // Play the next clip when one ends (default true)
+  subtitleMode?: SubtitleMode; // Unset hides the subtitles; their cue events still fire
+  spatialAudio?: boolean; // Positioned at the content, louder closer to it
+  audioDistanceModel?: AudioDistanceModel;
+  audioRefDistance?: number; // Full volume up to this distance
+  audioMaxDistance?: number; // Silent from this distance on ('linear' model)
+  audioRolloff?: number; // How fast the volume falls past the ref distance
+  audioConeInner?: number; // Degrees around the content's facing direction at full volume
+  audioConeOuter?: number; // Degrees, outside which the volume is audioConeOuterGain
+  audioConeOuterGain?: number; // 0 to 1
+  // YouTube / Vimeo specific (videoUrl holds the ID or a watch URL)
+  videoStart?: number; // Start offset in seconds
+  videoEnd?: number; // Stop offset in seconds
+  videoCaptions?: boolean; // Show captions by default
+  videoCaptionLang?: string; // Preferred caption language, e.g. 'en'
+  videoPlaybackRate?: number; // 1 = normal speed
   // Model specific
   modelUrl?: string;
   animateAutostart?: boolean;
   animateLoop?: 'once' | 'repeat' | 'pingpong';
+  animationClip?: string; // Clip played automatically; the first clip when unset or not in the model
+  animationClips?: string[]; // Detected clip names, in the model's order
   textureOverrides?: Record<string, string>; // materialName -> imageUrl (Legacy)
   materialOverrides?: Record<string, MaterialProperties>; // Advanced material editing
   materialNames?: string[]; // Detected material names
+  morphTargets?: Record<string, number>; // Blendshape influences (0 to 1) by morph target name
+  morphTargetNames?: string[]; // Detected morph target names
+  boneNames?: string[]; // Detected bone names
   // Pictarize Studio additional properties
-  // TODO: Implement embedUrl support - for EMBED content type rendering
-  embedUrl?: string; // For EMBED content type
-  // TODO: Implement aspectRatio support - for controlling video/image aspect ratios
-  aspectRatio?: string; // e.g., '16:9', '4:3'
-  // TODO: Implement fitMode support - for object-fit style rendering
-  fitMode?: 'cover' | 'contain' | 'fill';
+  // Embed specific
+  embedUrl?: string; // Page loaded into the iframe (http/https only)
+  embedSandbox?: string[]; // iframe sandbox tokens, e.g. ['allow-scripts', 'allow-forms']
+  embedAllow?: string; // iframe permissions policy, e.g. 'fullscreen; geolocation'
+  embedWidth?: number; // Iframe viewport width in CSS pixels
+  embedHeight?: number; // Iframe viewport height in CSS pixels
+  embedClickThrough?: boolean; // Pass pointer events to the scene instead of the page
+  // Occluder specific (a 'model' occluder uses modelUrl)
+  occluderShape?: OccluderShape;
+  // Shape specific. Its material is materialOverrides[SHAPE_MATERIAL_NAME]
+  shapeKind?: ShapeKind;
+  shapeSize?: ShapeSize;
+  // Image/video plane sizing, see utils/mediaFitUtils
+  aspectRatio?: string; // Locked plane aspect, e.g. '16:9', '1:1'. Empty follows the media
+  fitMode?: 'cover' | 'contain' | 'fill'; // How media fills a locked aspect (default 'cover')
   // Note: opacity is already defined in MaterialProperties, keeping here for content-level control
   opacity?: number;
-  // TODO: Implement animationIn/Out - for entry/exit animations on content
-  animationIn?: string; // Entry animation
-  animationOut?: string; // Exit animation
-  // TODO: Implement delay/duration - for controlling animation timing
-  delay?: number; // Animation delay in ms
+  // Entry/exit animations, see CONTENT_ANIMATIONS in utils/animationUtils
+  animationIn?: string; // Played when the target is found, e.g. 'fade', 'scale-pop'
+  animationOut?: string; // Played when the target is lost
+  delay?: number; // Entry animation delay in ms
   duration?: number; // Animation duration in ms
 }
 
 export interface Asset {
     id: string; // Add ID for better tracking
     name: string;
-    type: 'image' | 'video' | 'audio' | 'model' | 'mind' | 'script' | 'embed';
+    type: 'image' | 'video' | 'audio' | 'model' | 'mind' | 'script' | 'embed' | 'environment' | 'font';
     url: string; // Generic URL field
     thumbnail?: string; // For videos/models
     contentType?: ContentType; // Link to ContentType for compatibility
     metadata?: Record<string, unknown>; // Additional metadata
 }
 
+export type TimelineProperty = 'position' | 'rotation' | 'scale' | 'opacity' | 'visible';
+export type TimelineEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+
+export interface Keyframe {
+  id: string;
+  time: number; // Seconds from the start of the timeline
+  value: number[]; // [x, y, z] for position/rotation (deg)/scale, [v] for opacity, [0 | 1] for visible
+  easing?: TimelineEasing; // Curve towards the next keyframe (default 'easeInOut')
+}
+
+export interface TimelineTrack {
+  contentId: string;
+  property: TimelineProperty;
+  keyframes: Keyframe[]; // Sorted by time
+}
+
+// Keyframed content animation, played from the start each time the target is found. See utils/timelineUtils
+export interface Timeline {
+  duration: number; // Seconds
+  loop?: boolean;
+  tracks: TimelineTrack[];
+}
+
+// Language a target script is written in. TypeScript is transpiled before the script runs. See utils/scriptCompiler
+export type ScriptLanguage = 'javascript' | 'typescript';
+
 export interface Target {
   id: string;
   name: string;
@@ -111,6 +214,9 @@ export interface Target {
   contents: Content[];
   visible?: boolean;
   script?: string; 
+  scriptLanguage?: ScriptLanguage; // Defaults to 'javascript'
+  timeline?: Timeline;
+  lights?: SceneLight[]; // Replaces the project's lights for this target
 }
 
 export interface MindARConfig {
@@ -128,6 +234,9 @@ export interface Project {
   targets: Target[];
   assets?: Asset[];
   mindARConfig?: MindARConfig;
+  script?: string; // Project script: shared state and messages between the target scripts
+  scriptLanguage?: ScriptLanguage; // Defaults to 'javascript'
+  sceneSettings?: SceneSettings; // Lights of every target, unless a target has its own
   lastUpdated: string;
   status: 'Draft' | 'Published';
   sizeMB: number;
@@ -147,20 +256,34 @@ export interface Template {
     category?: string; // e.g., 'business', 'education', 'entertainment'
 }
 
+export type SceneLightType = 'ambient' | 'hemisphere' | 'directional' | 'point' | 'spot';
+
+export interface SceneLight {
+  id: string;
+  type: SceneLightType;
+  color: string; // Hex, e.g. '#ffffff'
+  intensity: number;
+  position?: [number, number, number]; // Directional, point and spot lights. Directional and spot lights aim at the target's center
+  groundColor?: string; // Hemisphere lights
+  castShadow?: boolean; // Directional, point and spot lights
+  distance?: number; // Point and spot lights. 0 = no limit
+  angle?: number; // Spot lights, degrees
+}
+
+export type EnvironmentFormat = 'hdr' | 'exr';
+
+// Equirectangular HDR image lighting and reflecting on the models
+export interface SceneEnvironment {
+  assetId: string;
+  url: string;
+  format: EnvironmentFormat;
+  intensity: number;
+  rotation: number; // Degrees around the vertical axis
+}
+
 export interface SceneSettings {
-  ambientLightIntensity: number;
-  directionalLightIntensity: number;
-  directionalLightPosition: [number, number, number];
+  lights: SceneLight[];
+  environment?: SceneEnvironment;
   showGrid: boolean;
   showAxes: boolean;
 }
-
-// Font Mapping for reliable rendering
-export const FONT_MAP: Record<string, string> = {
-  'Roboto': 'https://fonts.gstatic.com/s/roboto/v30/KFOmCnqEu92Fr1Mu4mxK.woff2',
-  'Arial': 'https://fonts.gstatic.com/s/arimo/v28/P5sMzZCDf9_T_10ZxCKE.woff2', 
-  'Courier New': 'https://fonts.gstatic.com/s/cousine/v25/d6lIkPgBpSg_A7tF9i8d.woff2', 
-  'Times New Roman': 'https://fonts.gstatic.com/s/tinos/v25/buE4poGqeOy1m54nmD8S.woff2', 
-  'Montserrat': 'https://fonts.gstatic.com/s/montserrat/v25/JTUSjIg1_i6t8kCHKm459Wlhyw.woff2',
-  'Oswald': 'https://fonts.gstatic.com/s/oswald/v49/TK3iWkUHHAIjg75oxSD03w.woff2',
-};
\ No newline at end of file
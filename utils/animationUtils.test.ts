@@ -0,0 +1,95 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { Content, ContentType } from '../types';
+import {
+  DEFAULT_ANIMATION_DURATION,
+  IDENTITY_FRAME,
+  SLIDE_DISTANCE,
+  applyAnimationOpacity,
+  getAnimationProgress,
+  getAnimationTiming,
+  getContentAnimation,
+  sampleContentAnimation,
+} from './animationUtils';
+
+const content = (type: ContentType, extra: Partial<Content> = {}) => ({ id: 'c', type, ...extra }) as Content;
+
+describe('getContentAnimation', () => {
+  it('returns null for no, none and unknown animations', () => {
+    expect(getContentAnimation(content(ContentType.IMAGE), 'in')).toBeNull();
+    expect(getContentAnimation(content(ContentType.IMAGE, { animationIn: 'none' }), 'in')).toBeNull();
+    expect(getContentAnimation(content(ContentType.IMAGE, { animationIn: 'wobble' }), 'in')).toBeNull();
+  });
+
+  it('picks the animation for the direction', () => {
+    const c = content(ContentType.IMAGE, { animationIn: 'fade', animationOut: 'spin-in' });
+    expect(getContentAnimation(c, 'in')).toBe('fade');
+    expect(getContentAnimation(c, 'out')).toBe('spin-in');
+  });
+
+  it('falls back to a fade for typewriter on non-text content', () => {
+    expect(getContentAnimation(content(ContentType.TEXT, { animationIn: 'typewriter' }), 'in')).toBe('typewriter');
+    expect(getContentAnimation(content(ContentType.IMAGE, { animationIn: 'typewriter' }), 'in')).toBe('fade');
+  });
+});
+
+describe('getAnimationTiming', () => {
+  it('only delays the entry animation', () => {
+    const c = content(ContentType.IMAGE, { delay: 200, duration: 1000 });
+    expect(getAnimationTiming(c, 'in')).toEqual({ delay: 200, duration: 1000 });
+    expect(getAnimationTiming(c, 'out')).toEqual({ delay: 0, duration: 1000 });
+  });
+
+  it('falls back to the defaults for missing and invalid values', () => {
+    expect(getAnimationTiming(content(ContentType.IMAGE, { delay: -5, duration: 0 }), 'in')).toEqual({ delay: 0, duration: DEFAULT_ANIMATION_DURATION });
+  });
+});
+
+describe('getAnimationProgress', () => {
+  it('waits for the delay and clamps to 0..1', () => {
+    const timing = { delay: 100, duration: 200 };
+    expect(getAnimationProgress(50, timing)).toBe(0);
+    expect(getAnimationProgress(200, timing)).toBe(0.5);
+    expect(getAnimationProgress(1000, timing)).toBe(1);
+  });
+});
+
+describe('sampleContentAnimation', () => {
+  it.each(['fade', 'scale-pop', 'slide-left', 'slide-right', 'slide-top', 'slide-bottom', 'spin-in', 'typewriter'])(
+    'rests at the identity frame: %s',
+    (name) => {
+      const rest = sampleContentAnimation(name, 'in', 1);
+      expect(rest.opacity).toBeCloseTo(1);
+      expect(rest.scale).toBeCloseTo(1);
+      rest.offset.forEach(v => expect(v).toBeCloseTo(0));
+      expect(rest.rotationZ).toBeCloseTo(0);
+      expect(rest.textProgress).toBeCloseTo(1);
+      expect(sampleContentAnimation(name, 'out', 0)).toEqual(rest);
+    },
+  );
+
+  it('starts hidden and offset', () => {
+    expect(sampleContentAnimation('fade', 'in', 0).opacity).toBe(0);
+    expect(sampleContentAnimation('slide-left', 'in', 0).offset).toEqual([-SLIDE_DISTANCE, 0, 0]);
+    expect(sampleContentAnimation('slide-top', 'out', 1).offset).toEqual([0, SLIDE_DISTANCE, 0]);
+    expect(sampleContentAnimation('typewriter', 'out', 0.25).textProgress).toBe(0.75);
+  });
+
+  it('returns the identity frame for unknown animations', () => {
+    expect(sampleContentAnimation('wobble', 'in', 0)).toBe(IDENTITY_FRAME);
+  });
+});
+
+describe('applyAnimationOpacity', () => {
+  it('scales the authored opacity without compounding', () => {
+    const material = new THREE.MeshBasicMaterial({ opacity: 0.8 });
+    const root = new THREE.Group().add(new THREE.Mesh(new THREE.BufferGeometry(), material));
+    applyAnimationOpacity(root, 0.5);
+    applyAnimationOpacity(root, 0.5);
+    expect(material.opacity).toBeCloseTo(0.4);
+    expect(material.transparent).toBe(true);
+    applyAnimationOpacity(root, 1);
+    expect(material.opacity).toBeCloseTo(0.8);
+    expect(material.transparent).toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+import * as THREE from 'three';
+import { Content, ContentType } from '../types';
+
+export type AnimationDirection = 'in' | 'out';
+
+export interface ContentAnimationOption {
+  id: string;
+  label: string;
+  textOnly?: boolean;
+}
+
+/**
+ * Named entry/exit animations. Exit animations play the entry in reverse.
+ */
+export const CONTENT_ANIMATIONS: ContentAnimationOption[] = [
+  { id: 'none', label: 'None' },
+  { id: 'fade', label: 'Fade' },
+  { id: 'scale-pop', label: 'Scale Pop' },
+  { id: 'slide-left', label: 'Slide from Left' },
+  { id: 'slide-right', label: 'Slide from Right' },
+  { id: 'slide-top', label: 'Slide from Top' },
+  { id: 'slide-bottom', label: 'Slide from Bottom' },
+  { id: 'spin-in', label: 'Spin' },
+  { id: 'typewriter', label: 'Typewriter', textOnly: true },
+];
+
+export const DEFAULT_ANIMATION_DURATION = 600; // ms
+
+// How far slide animations travel, in content local units
+export const SLIDE_DISTANCE = 1;
+
+export interface AnimationFrame {
+  opacity: number; // Multiplier on the material opacity
+  scale: number; // Multiplier on the content scale
+  offset: [number, number, number]; // Added to the content position, in its local space
+  rotationZ: number; // Added to the content Z rotation, in radians
+  textProgress: number; // Fraction of characters shown (text only)
+}
+
+/**
+ * Editor request to replay a content's animation in the scene view.
+ * Carries the animation settings being edited, since content updates from the panel are debounced.
+ * `key` changes on every request so the same animation can be replayed.
+ */
+export interface AnimationPreview {
+  contentId: string;
+  direction: AnimationDirection;
+  settings: Pick<Content, 'animationIn' | 'animationOut' | 'delay' | 'duration'>;
+  key: number;
+}
+
+export const IDENTITY_FRAME: AnimationFrame = { opacity: 1, scale: 1, offset: [0, 0, 0], rotationZ: 0, textProgress: 1 };
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+const easeInCubic = (t: number) => t * t * t;
+const easeOutBack = (t: number) => {
+  const c1 = 1.70158;
+  const c3 = c1 + 1;
+  return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+};
+
+/**
+ * Name of the animation to play for a content, or null if there is none.
+ * Typewriter falls back to a fade on non-text content.
+ */
+export const getContentAnimation = (content: Content, direction: AnimationDirection): string | null => {
+  const name = direction === 'in' ? content.animationIn : content.animationOut;
+  if (!name || name === 'none') return null;
+  if (!CONTENT_ANIMATIONS.some(a => a.id === name)) return null;
+  if (name === 'typewriter' && content.type !== ContentType.TEXT) return 'fade';
+  return name;
+};
+
+/**
+ * Delay and duration in ms. The delay only applies to the entry animation.
+ */
+export const getAnimationTiming = (content: Content, direction: AnimationDirection): { delay: number; duration: number } => {
+  const delay = direction === 'in' ? Math.max(0, content.delay ?? 0) : 0;
+  const duration = content.duration && content.duration > 0 ? content.duration : DEFAULT_ANIMATION_DURATION;
+  return { delay, duration };
+};
+
+/**
+ * Linear 0..1 progress for an animation that has been running for `elapsed` ms.
+ */
+export const getAnimationProgress = (elapsed: number, timing: { delay: number; duration: number }): number => {
+  return Math.min(1, Math.max(0, (elapsed - timing.delay) / timing.duration));
+};
+
+/**
+ * Sample an animation at linear progress t (0..1).
+ * Entry animations go from hidden to the content's resting state, exit animations the other way.
+ */
+export const sampleContentAnimation = (name: string, direction: AnimationDirection, t: number): AnimationFrame => {
+  // 1 = fully shown, 0 = fully hidden
+  const shown = direction === 'in' ? easeOutCubic(t) : 1 - easeInCubic(t);
+  const hidden = 1 - shown;
+
+  switch (name) {
+    case 'fade':
+      return { ...IDENTITY_FRAME, opacity: shown };
+    case 'scale-pop':
+      return {
+        ...IDENTITY_FRAME,
+        opacity: Math.min(1, shown * 2),
+        scale: direction === 'in' ? Math.max(0, easeOutBack(t)) : shown
+      };
+    case 'slide-left':
+      return { ...IDENTITY_FRAME, opacity: shown, offset: [-hidden * SLIDE_DISTANCE, 0, 0] };
+    case 'slide-right':
+      return { ...IDENTITY_FRAME, opacity: shown, offset: [hidden * SLIDE_DISTANCE, 0, 0] };
+    case 'slide-top':
+      return { ...IDENTITY_FRAME, opacity: shown, offset: [0, hidden * SLIDE_DISTANCE, 0] };
+    case 'slide-bottom':
+      return { ...IDENTITY_FRAME, opacity: shown, offset: [0, -hidden * SLIDE_DISTANCE, 0] };
+    case 'spin-in':
+      return { ...IDENTITY_FRAME, opacity: shown, scale: shown, rotationZ: -hidden * Math.PI * 2 };
+    case 'typewriter':
+      // Characters appear at a constant rate
+      return { ...IDENTITY_FRAME, textProgress: direction === 'in' ? t : 1 - t };
+    default:
+      return IDENTITY_FRAME;
+  }
+};
+
+/**
+ * Multiply the opacity of every material under `root`.
+ * The authored opacity is remembered on the material so repeated calls don't compound.
+ */
+export const applyAnimationOpacity = (root: THREE.Object3D, opacity: number): void => {
+  root.traverse((child) => {
+    const material = (child as THREE.Mesh).material;
+    if (!material) return;
+    const materials = Array.isArray(material) ? material : [material];
+    materials.forEach((m: THREE.Material) => {
+      if (m.userData.baseOpacity === undefined) {
+        m.userData.baseOpacity = m.opacity;
+        m.userData.baseTransparent = m.transparent;
+      }
+      m.opacity = m.userData.baseOpacity * opacity;
+      const transparent = m.userData.baseTransparent || opacity < 1;
+      if (m.transparent !== transparent) {
+        m.transparent = transparent;
+        m.needsUpdate = true;
+      }
+    });
+  });
+};
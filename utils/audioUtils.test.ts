@@ -0,0 +1,63 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SPATIAL_AUDIO, SpatialAudio, getAudioFalloffDistance, getSpatialAudio, updateSpatialAudio } from './audioUtils';
+
+const settings = (extra: Partial<SpatialAudio> = {}): SpatialAudio => ({ ...DEFAULT_SPATIAL_AUDIO, ...extra });
+
+describe('getSpatialAudio', () => {
+  it('returns null for sounds that are not spatial', () => {
+    expect(getSpatialAudio({})).toBeNull();
+    expect(getSpatialAudio({ spatialAudio: false, audioRefDistance: 2 })).toBeNull();
+  });
+
+  it('falls back to the defaults', () => {
+    expect(getSpatialAudio({ spatialAudio: true })).toEqual(DEFAULT_SPATIAL_AUDIO);
+  });
+
+  it('clamps values into range and keeps the outer limits outside the inner ones', () => {
+    expect(getSpatialAudio({
+      spatialAudio: true,
+      audioRefDistance: 3,
+      audioMaxDistance: 1,
+      audioRolloff: -1,
+      audioConeInner: 400,
+      audioConeOuter: 90,
+      audioConeOuterGain: 2,
+    })).toMatchObject({ refDistance: 3, maxDistance: 3, rolloff: 0, coneInner: 360, coneOuter: 360, coneOuterGain: 1 });
+  });
+
+  it('ignores unknown distance models', () => {
+    expect(getSpatialAudio({ spatialAudio: true, audioDistanceModel: 'cubic' as never })!.distanceModel).toBe('inverse');
+  });
+});
+
+describe('getAudioFalloffDistance', () => {
+  it('is the ref distance at full volume', () => {
+    expect(getAudioFalloffDistance(settings(), 1)).toBe(DEFAULT_SPATIAL_AUDIO.refDistance);
+  });
+
+  it('follows the Web Audio distance models', () => {
+    // inverse: ref / (ref + rolloff * (d - ref))
+    expect(getAudioFalloffDistance(settings({ refDistance: 1, rolloff: 1 }), 0.5)).toBeCloseTo(2);
+    // linear: 1 - rolloff * (d - ref) / (max - ref)
+    expect(getAudioFalloffDistance(settings({ distanceModel: 'linear', refDistance: 1, maxDistance: 5 }), 0.5)).toBeCloseTo(3);
+    // exponential: (d / ref) ^ -rolloff
+    expect(getAudioFalloffDistance(settings({ distanceModel: 'exponential', refDistance: 1, rolloff: 1 }), 0.25)).toBeCloseTo(4);
+  });
+
+  it('is infinite when the volume never falls that low', () => {
+    expect(getAudioFalloffDistance(settings({ rolloff: 0 }), 0.5)).toBe(Infinity);
+    expect(getAudioFalloffDistance(settings(), 0)).toBe(Infinity);
+    expect(getAudioFalloffDistance(settings({ distanceModel: 'linear', rolloff: 0.25 }), 0.5)).toBe(Infinity);
+  });
+});
+
+describe('updateSpatialAudio', () => {
+  it('converts distances to world units with the sound scale', () => {
+    const panner = { distanceModel: '', refDistance: 0, maxDistance: 0, rolloffFactor: 0, coneInnerAngle: 0, coneOuterAngle: 0, coneOuterGain: 0 };
+    const audio = Object.assign(new THREE.Object3D(), { panner }) as unknown as THREE.PositionalAudio;
+    new THREE.Group().add(audio).scale.setScalar(2);
+    updateSpatialAudio(audio, settings({ refDistance: 1, maxDistance: 4, coneInner: 90, coneOuter: 180 }));
+    expect(panner).toMatchObject({ distanceModel: 'inverse', refDistance: 2, maxDistance: 8, rolloffFactor: 1, coneInnerAngle: 90, coneOuterAngle: 180 });
+  });
+});
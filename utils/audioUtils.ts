@@ -0,0 +1,101 @@
+/**
+ * Spatial audio: a sound positioned at its content, louder as the listener (the camera) gets
+ * closer, optionally only in front of it. Distances are in the content's own units, so they
+ * follow the target and the content's scale wherever the scene is shown. The exported viewer
+ * carries its own copy of these helpers (see utils/exportUtils.ts).
+ */
+
+import * as THREE from 'three';
+import { AudioDistanceModel, Content } from '../types';
+
+export interface SpatialAudio {
+  distanceModel: AudioDistanceModel;
+  refDistance: number; // Full volume up to this distance
+  maxDistance: number; // Silent from this distance on, with the linear model
+  rolloff: number; // How fast the volume falls past the ref distance
+  coneInner: number; // Degrees around the content's +Z at full volume
+  coneOuter: number; // Degrees, outside which the volume is coneOuterGain
+  coneOuterGain: number;
+}
+
+export const AUDIO_DISTANCE_MODELS: { id: AudioDistanceModel; label: string }[] = [
+  { id: 'inverse', label: 'Inverse (natural)' },
+  { id: 'linear', label: 'Linear' },
+  { id: 'exponential', label: 'Exponential' },
+];
+
+// A cone of 360 degrees sounds the same all around
+export const DEFAULT_SPATIAL_AUDIO: SpatialAudio = {
+  distanceModel: 'inverse',
+  refDistance: 0.5,
+  maxDistance: 5,
+  rolloff: 1,
+  coneInner: 360,
+  coneOuter: 360,
+  coneOuterGain: 0,
+};
+
+// Volume the editor's outer falloff sphere is drawn at
+export const AUDIO_FALLOFF_GAIN = 0.1;
+
+const clampNumber = (value: number | undefined, fallback: number, min: number, max = Infinity) =>
+  typeof value === 'number' && isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/**
+ * Spatial settings of an audio content, or null when it plays the same wherever the camera is.
+ */
+export const getSpatialAudio = (
+  content: Pick<Content, 'spatialAudio' | 'audioDistanceModel' | 'audioRefDistance' | 'audioMaxDistance' | 'audioRolloff' | 'audioConeInner' | 'audioConeOuter' | 'audioConeOuterGain'>
+): SpatialAudio | null => {
+  if (!content.spatialAudio) return null;
+  const d = DEFAULT_SPATIAL_AUDIO;
+  const refDistance = clampNumber(content.audioRefDistance, d.refDistance, 0.001);
+  const coneInner = clampNumber(content.audioConeInner, d.coneInner, 0, 360);
+  return {
+    distanceModel: AUDIO_DISTANCE_MODELS.some(m => m.id === content.audioDistanceModel) ? content.audioDistanceModel! : d.distanceModel,
+    refDistance,
+    maxDistance: Math.max(refDistance, clampNumber(content.audioMaxDistance, d.maxDistance, 0)),
+    rolloff: clampNumber(content.audioRolloff, d.rolloff, 0),
+    coneInner,
+    coneOuter: Math.max(coneInner, clampNumber(content.audioConeOuter, d.coneOuter, 0, 360)),
+    coneOuterGain: clampNumber(content.audioConeOuterGain, d.coneOuterGain, 0, 1),
+  };
+};
+
+/**
+ * Distance at which the volume falls to `gain`, following the Web Audio distance models.
+ * Infinity when it never gets that low.
+ */
+export const getAudioFalloffDistance = (settings: SpatialAudio, gain: number): number => {
+  const { distanceModel, refDistance, maxDistance, rolloff } = settings;
+  if (gain >= 1) return refDistance;
+  if (rolloff <= 0) return Infinity;
+  switch (distanceModel) {
+    case 'linear': {
+      // The linear model's rolloff is clamped to 1
+      const rate = Math.min(1, rolloff);
+      return rate >= 1 - gain ? refDistance + (1 - gain) * (maxDistance - refDistance) / rate : Infinity;
+    }
+    case 'exponential': return gain > 0 ? refDistance * Math.pow(gain, -1 / rolloff) : Infinity;
+    default: return gain > 0 ? refDistance + refDistance * (1 / gain - 1) / rolloff : Infinity;
+  }
+};
+
+const worldScale = new THREE.Vector3();
+
+/**
+ * Apply spatial settings to a positional sound, its distances converted to world units with
+ * the sound's world scale. Call it every frame, as the target's scale changes while it is tracked.
+ */
+export const updateSpatialAudio = (audio: THREE.PositionalAudio, settings: SpatialAudio): void => {
+  audio.getWorldScale(worldScale);
+  const unit = Math.max(Math.abs(worldScale.x), Math.abs(worldScale.y), Math.abs(worldScale.z)) || 1;
+  const { panner } = audio;
+  if (panner.distanceModel !== settings.distanceModel) panner.distanceModel = settings.distanceModel;
+  if (panner.refDistance !== settings.refDistance * unit) panner.refDistance = settings.refDistance * unit;
+  if (panner.maxDistance !== settings.maxDistance * unit) panner.maxDistance = settings.maxDistance * unit;
+  if (panner.rolloffFactor !== settings.rolloff) panner.rolloffFactor = settings.rolloff;
+  if (panner.coneInnerAngle !== settings.coneInner) panner.coneInnerAngle = settings.coneInner;
+  if (panner.coneOuterAngle !== settings.coneOuter) panner.coneOuterAngle = settings.coneOuter;
+  if (panner.coneOuterGain !== settings.coneOuterGain) panner.coneOuterGain = settings.coneOuterGain;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Content, ContentType } from '../types';
+import { DEFAULT_EMBED_HEIGHT, DEFAULT_EMBED_SANDBOX, DEFAULT_EMBED_WIDTH, getEmbedSandbox, getEmbedSize, getSafeEmbedUrl } from './embedUtils';
+
+const embed = (extra: Partial<Content> = {}) => ({ id: 'c', type: ContentType.EMBED, ...extra }) as Content;
+
+describe('getSafeEmbedUrl', () => {
+  it('returns null for empty input', () => {
+    expect(getSafeEmbedUrl(undefined)).toBeNull();
+    expect(getSafeEmbedUrl('')).toBeNull();
+  });
+
+  it('accepts absolute http(s) URLs', () => {
+    expect(getSafeEmbedUrl(' https://example.com/form?a=1 ')).toBe('https://example.com/form?a=1');
+    expect(getSafeEmbedUrl('http://example.com')).toBe('http://example.com/');
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'data:text/html,<script>alert(1)</script>',
+    'file:///etc/passwd',
+    '/relative/page',
+    'example.com',
+  ])('rejects %s', (url) => {
+    expect(getSafeEmbedUrl(url)).toBeNull();
+  });
+});
+
+describe('getEmbedSandbox', () => {
+  it('uses the default tokens when none are set', () => {
+    expect(getEmbedSandbox(embed())).toBe(DEFAULT_EMBED_SANDBOX.join(' '));
+  });
+
+  it('only allows the same origin when opted in', () => {
+    expect(getEmbedSandbox(embed())).not.toContain('allow-same-origin');
+    expect(getEmbedSandbox(embed({ embedSandbox: ['allow-scripts', 'allow-same-origin'] }))).toBe('allow-scripts allow-same-origin');
+  });
+
+  it('drops tokens that are not offered', () => {
+    expect(getEmbedSandbox(embed({ embedSandbox: ['allow-forms', 'allow-top-navigation', 'allow-modals'] }))).toBe('allow-forms allow-modals');
+  });
+
+  it('allows an empty sandbox', () => {
+    expect(getEmbedSandbox(embed({ embedSandbox: [] }))).toBe('');
+  });
+});
+
+describe('getEmbedSize', () => {
+  it('falls back to the defaults for missing and invalid sizes', () => {
+    expect(getEmbedSize(embed())).toEqual({ width: DEFAULT_EMBED_WIDTH, height: DEFAULT_EMBED_HEIGHT });
+    expect(getEmbedSize(embed({ embedWidth: 0, embedHeight: -5 }))).toEqual({ width: DEFAULT_EMBED_WIDTH, height: DEFAULT_EMBED_HEIGHT });
+    expect(getEmbedSize(embed({ embedWidth: 320, embedHeight: 480 }))).toEqual({ width: 320, height: 480 });
+  });
+});
@@ -0,0 +1,56 @@
+import { Content } from '../types';
+
+/**
+ * Sandbox tokens an author can grant to an embedded page.
+ * Anything not listed here is dropped before the iframe is created.
+ */
+export const EMBED_SANDBOX_OPTIONS: { token: string; label: string }[] = [
+  { token: 'allow-scripts', label: 'Scripts' },
+  { token: 'allow-same-origin', label: 'Same origin' },
+  { token: 'allow-forms', label: 'Forms' },
+  { token: 'allow-popups', label: 'Popups' },
+  { token: 'allow-popups-to-escape-sandbox', label: 'Unsandboxed popups' },
+  { token: 'allow-modals', label: 'Modals' },
+  { token: 'allow-presentation', label: 'Presentation' },
+  { token: 'allow-downloads', label: 'Downloads' },
+];
+
+// Enough for most forms, maps and dashboards to work. allow-same-origin is left for the author
+// to opt into per embed: together with allow-scripts it lets the page remove its own sandbox.
+export const DEFAULT_EMBED_SANDBOX = ['allow-scripts', 'allow-forms', 'allow-popups'];
+export const DEFAULT_EMBED_ALLOW = 'fullscreen';
+export const DEFAULT_EMBED_WIDTH = 800;
+export const DEFAULT_EMBED_HEIGHT = 600;
+
+/**
+ * Returns the URL if it is safe to load into an iframe, otherwise null.
+ * Only absolute http(s) URLs are accepted so `javascript:` and `data:` pages can't be injected.
+ */
+export const getSafeEmbedUrl = (url: string | undefined): string | null => {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Resolve the sandbox attribute value for an embed content.
+ */
+export const getEmbedSandbox = (content: Content): string => {
+  const allowed = new Set(EMBED_SANDBOX_OPTIONS.map(o => o.token));
+  const tokens = content.embedSandbox ?? DEFAULT_EMBED_SANDBOX;
+  return tokens.filter(t => allowed.has(t)).join(' ');
+};
+
+/**
+ * Resolve the iframe viewport size in CSS pixels.
+ */
+export const getEmbedSize = (content: Content): { width: number; height: number } => {
+  const width = content.embedWidth && content.embedWidth > 0 ? content.embedWidth : DEFAULT_EMBED_WIDTH;
+  const height = content.embedHeight && content.embedHeight > 0 ? content.embedHeight : DEFAULT_EMBED_HEIGHT;
+  return { width, height };
+};
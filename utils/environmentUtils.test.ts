@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { Asset } from '../types';
+import { createSceneEnvironment, getEnvironmentFormat } from './environmentUtils';
+
+const asset = (name: string, extra: Partial<Asset> = {}) => ({ id: 'env', name, url: 'data:application/octet-stream;base64,', ...extra }) as Asset;
+
+describe('getEnvironmentFormat', () => {
+  it('reads the format from the file extension', () => {
+    expect(getEnvironmentFormat('studio.HDR')).toBe('hdr');
+    expect(getEnvironmentFormat('sky.v2.exr')).toBe('exr');
+  });
+
+  it('returns null for other files', () => {
+    expect(getEnvironmentFormat('sky.jpg')).toBeNull();
+    expect(getEnvironmentFormat('sky')).toBeNull();
+  });
+});
+
+describe('createSceneEnvironment', () => {
+  it('takes the format from the asset metadata before its name', () => {
+    expect(createSceneEnvironment(asset('upload', { metadata: { format: 'exr' } })).format).toBe('exr');
+    expect(createSceneEnvironment(asset('sky.exr')).format).toBe('exr');
+    expect(createSceneEnvironment(asset('upload')).format).toBe('hdr');
+  });
+
+  it('keeps the intensity and rotation of the environment it replaces', () => {
+    const current = createSceneEnvironment(asset('a.hdr'));
+    expect(current).toMatchObject({ assetId: 'env', intensity: 1, rotation: 0 });
+    expect(createSceneEnvironment(asset('b.hdr'), { ...current, intensity: 2, rotation: 90 })).toMatchObject({ intensity: 2, rotation: 90 });
+  });
+});
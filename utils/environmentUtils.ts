@@ -0,0 +1,66 @@
+/**
+ * HDR environment maps (.hdr, .exr) that light the models, for the editor and the Player.
+ * The exported viewer carries its own copy of these helpers (see utils/exportUtils.ts).
+ */
+
+import * as THREE from 'three';
+import { RGBELoader } from 'three/examples/jsm/loaders/RGBELoader.js';
+import { EXRLoader } from 'three/examples/jsm/loaders/EXRLoader.js';
+import { Asset, EnvironmentFormat, SceneEnvironment } from '../types';
+
+export const ENVIRONMENT_FORMATS: EnvironmentFormat[] = ['hdr', 'exr'];
+
+// Radius of the sphere the image is drawn on, within the PMREM cube camera's near and far planes
+const SKY_RADIUS = 10;
+
+export const getEnvironmentFormat = (fileName: string): EnvironmentFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return ENVIRONMENT_FORMATS.find(format => format === extension) ?? null;
+};
+
+/**
+ * Environment settings for an environment asset. Uploads are data URLs, so the format
+ * comes from the asset's metadata, saved from the file name.
+ */
+export const createSceneEnvironment = (asset: Asset, current?: SceneEnvironment): SceneEnvironment => ({
+  assetId: asset.id,
+  url: asset.url,
+  format: (asset.metadata?.format as EnvironmentFormat | undefined) ?? getEnvironmentFormat(asset.name) ?? 'hdr',
+  intensity: current?.intensity ?? 1,
+  rotation: current?.rotation ?? 0,
+});
+
+export const loadEnvironmentTexture = async (url: string, format: EnvironmentFormat): Promise<THREE.DataTexture> => {
+  const loader = format === 'exr' ? new EXRLoader() : new RGBELoader();
+  const texture = await loader.loadAsync(url);
+  texture.mapping = THREE.EquirectangularReflectionMapping;
+  return texture;
+};
+
+/**
+ * Prefilter an equirectangular texture for `scene.environment`. three.js r160 has no
+ * environment intensity or rotation, so the image is drawn inside a sphere turned by
+ * `rotation` and tinted by `intensity` first. Dispose the returned render target when done.
+ */
+export const createEnvironmentMap = (
+  renderer: THREE.WebGLRenderer,
+  texture: THREE.Texture,
+  { intensity, rotation }: Pick<SceneEnvironment, 'intensity' | 'rotation'>
+): THREE.WebGLRenderTarget => {
+  const material = new THREE.MeshBasicMaterial({ map: texture, side: THREE.BackSide, toneMapped: false });
+  material.color.setScalar(Math.max(0, intensity));
+  const sky = new THREE.Mesh(new THREE.SphereGeometry(SKY_RADIUS, 64, 32), material);
+  // The sphere's UVs run the other way round than three.js' equirectangular lookup
+  sky.scale.x = -1;
+  sky.rotation.y = Math.PI + THREE.MathUtils.degToRad(rotation);
+
+  const scene = new THREE.Scene();
+  scene.add(sky);
+  const generator = new THREE.PMREMGenerator(renderer);
+  const renderTarget = generator.fromScene(scene, 0, 0.1, SKY_RADIUS * 2);
+
+  generator.dispose();
+  sky.geometry.dispose();
+  material.dispose();
+  return renderTarget;
+};
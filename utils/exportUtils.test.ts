@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { Asset, Content, ContentType, Project } from '../types';
+import { generatePapARHtml } from './exportUtils';
+
+// Ends the viewer's script and starts one of its own, if inlined as is
+const BREAKOUT = '</script><script>alert(1)</script>';
+
+const exportContents = (contents: Partial<Content>[], assets: Asset[] = []): string => generatePapARHtml({
+  id: 'p', name: 'Demo', lastUpdated: '', status: 'Draft', sizeMB: 0, assets,
+  targets: [{
+    id: 't', name: 'Poster', imageUrl: 'poster.png',
+    contents: contents.map((content, i) => ({
+      id: `c${i}`, name: `c${i}`, type: ContentType.IMAGE, transform: { position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] }, ...content,
+    })),
+  }],
+} as Project);
+
+describe('generatePapARHtml', () => {
+  it('keeps streaming video settings inside the viewer script', () => {
+    const html = exportContents([{ type: ContentType.YOUTUBE, videoUrl: 'https://youtu.be/dQw4w9WgXcQ', videoCaptionLang: BREAKOUT }]);
+    expect(html).not.toContain(BREAKOUT);
+    expect(html).toContain('\\u003c/script>\\u003cscript>');
+  });
+
+  it('keeps text fonts inside the viewer script', () => {
+    const font: Asset = { id: 'f', name: 'Brand', type: 'font', url: `fonts/${BREAKOUT}.ttf` };
+    expect(exportContents([{ type: ContentType.TEXT, textContent: 'Hi', fontAssetId: 'f' }], [font])).not.toContain(BREAKOUT);
+  });
+
+  it('keeps text content inside the viewer script', () => {
+    expect(exportContents([{ type: ContentType.TEXT, textContent: BREAKOUT }])).not.toContain(BREAKOUT);
+    expect(exportContents([{ type: ContentType.TEXT, textContent: `**${BREAKOUT}**`, richText: true }])).not.toContain(BREAKOUT);
+  });
+});
@@ -1,6 +1,52 @@
 
-import { Project, Target, Content, ContentType } from '../types';
+import { Project, Target, Content, ContentType, Asset, AudioTrack } from '../types';
 import JSZip from 'jszip';
+import { EMBED_SANDBOX_OPTIONS, DEFAULT_EMBED_SANDBOX, DEFAULT_EMBED_ALLOW, DEFAULT_EMBED_WIDTH, DEFAULT_EMBED_HEIGHT } from './embedUtils';
+import {
+  getStreamingService,
+  getStreamingVideoId,
+  getStreamingRange,
+  getPlaybackRate,
+  getStreamingWatchUrl,
+  buildStreamingEmbedUrl,
+  STREAMING_EMBED_WIDTH,
+  STREAMING_EMBED_HEIGHT,
+  STREAMING_PLANE_HEIGHT
+} from './streamingUtils';
+
+import { CONTENT_ANIMATIONS, DEFAULT_ANIMATION_DURATION, SLIDE_DISTANCE, getContentAnimation, getAnimationTiming } from './animationUtils';
+import { DEFAULT_FIT_MODE } from './mediaFitUtils';
+import { hasTimelineTracks } from './timelineUtils';
+import { SCRIPT_RUNTIME_CONFIG, defineScriptRuntime, getScriptStorageNamespace } from './scriptRuntime';
+import { compileProjectScripts } from './scriptCompiler';
+import { SHADOW_CONFIG, DEFAULT_SPOT_ANGLE, getSceneLights } from './lightingUtils';
+import { DEFAULT_OCCLUDER_SHAPE } from './occluderUtils';
+import { SHAPE_MATERIAL_NAME, getShapeKind, getShapeSize, getShapeMaterial } from './shapeUtils';
+import { TextFont, TextLayout, resolveTextFont, getTextLayout } from './textUtils';
+import { SpatialAudio, getSpatialAudio } from './audioUtils';
+import { PACKED_ALPHA_SHADER, getVideoAlphaMode, getPackedAlphaLayout } from './videoAlphaUtils';
+import { SUBTITLE_TEXT, SUBTITLE_LAYOUT, getAudioTracks, parseWebVTT } from './playlistUtils';
+import { TextSpan, TextCanvasStyle, TEXT_CANVAS_FONT_SIZE, DEFAULT_LINK_COLOR, getTextSpans, getTextCanvasStyle } from './richTextUtils';
+
+// Key of the project's environment map in the local asset map of ZIP exports
+const ENVIRONMENT_ASSET_KEY = 'environment';
+
+// Content types played through the YouTube / Vimeo iframe players in the exported app
+const STREAMING_TYPES = [ContentType.YOUTUBE, ContentType.VIMEO, ContentType.STREAMING_VIDEO, ContentType.ICON_YOUTUBE];
+
+// File extensions of uploaded audio in ZIP exports by MIME type; other audio is saved as .mp3
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/aac': 'aac',
+  'audio/flac': 'flac',
+};
 
 export const generateProjectJson = (project: Project, masterMindFileUrl: string | null = null) => {
   return {
@@ -13,6 +59,9 @@ export const generateProjectJson = (project: Project, masterMindFileUrl: string
         filterBeta: 0.001
     },
     mindFile: masterMindFileUrl, 
+    script: project.script,
+    scriptLanguage: project.scriptLanguage,
+    sceneSettings: project.sceneSettings,
     targets: project.targets
   };
 };
@@ -39,6 +88,8 @@ export const generateARJson = (
 
   // Map assets to local paths if provided
   if (localAssetMap) {
+    const environmentPath = localAssetMap.get(ENVIRONMENT_ASSET_KEY);
+    if (environmentPath && exportProject.sceneSettings?.environment) exportProject.sceneSettings.environment.url = environmentPath;
     exportProject.targets.forEach(target => {
       target.contents.forEach(content => {
         const localPath = localAssetMap.get(content.id);
@@ -46,7 +97,7 @@ export const generateARJson = (
           if (content.type === ContentType.IMAGE) content.imageUrl = localPath;
           if (content.type === ContentType.VIDEO) content.videoUrl = localPath;
           if (content.type === ContentType.AUDIO) content.audioUrl = localPath;
-          if (content.type === ContentType.MODEL) content.modelUrl = localPath;
+          if (content.type === ContentType.MODEL || content.type === ContentType.OCCLUDER) content.modelUrl = localPath;
         }
       });
     });
@@ -67,12 +118,21 @@ export const generateARJson = (
         url: getContentUrl(content),
         visible: content.visible ?? true,
         alwaysFacingUser: content.alwaysFacingUser ?? false,
+        attachment: content.attachment ?? null,
+        animation: getContentAnimationJson(content),
         // Type-specific properties
-        ...getContentProperties(content)
+        ...getContentProperties(content, project.assets, localAssetMap)
       })),
-      visible: target.visible ?? true
+      visible: target.visible ?? true,
+      // The target's own lights or the project's, in target units from its center
+      lights: getSceneLights(project.sceneSettings, target)
     };
 
+    // Keyframe timeline, played from the start on every activation
+    if (hasTimelineTracks(target.timeline)) {
+      targetJson.timeline = target.timeline;
+    }
+
     // Add script if present
     if (target.script) {
       targetJson.script = `scripts/target_${index}.json`;
@@ -93,6 +153,7 @@ export const generateARJson = (
       warmupTolerance: config.warmupTolerance,
       missTolerance: config.missTolerance
     },
+    environment: exportProject.sceneSettings?.environment ?? null,
     targets: arTargets
   };
 };
@@ -110,6 +171,17 @@ function getContentUrl(content: Content): string {
       return content.audioUrl || '';
     case ContentType.MODEL:
       return content.modelUrl || '';
+    case ContentType.OCCLUDER:
+      return content.occluderShape === 'model' ? content.modelUrl || '' : '';
+    case ContentType.EMBED:
+      return content.embedUrl || '';
+    case ContentType.YOUTUBE:
+    case ContentType.VIMEO:
+    case ContentType.STREAMING_VIDEO: {
+      const service = getStreamingService(content);
+      const id = getStreamingVideoId(content);
+      return service && id ? getStreamingWatchUrl(service, id) : '';
+    }
     default:
       return '';
   }
@@ -118,42 +190,157 @@ function getContentUrl(content: Content): string {
 /**
  * Helper to get type-specific properties for a content item
  */
-function getContentProperties(content: Content): object {
+function getContentProperties(content: Content, assets?: Asset[], localAssetMap?: Map<string, string>): object {
   switch (content.type) {
+    case ContentType.IMAGE:
+      return {
+        aspectRatio: content.aspectRatio || null,
+        fitMode: content.fitMode ?? DEFAULT_FIT_MODE
+      };
     case ContentType.VIDEO:
       return {
+        aspectRatio: content.aspectRatio || null,
+        fitMode: content.fitMode ?? DEFAULT_FIT_MODE,
         autoplay: content.autoplay ?? false,
         loop: content.loop ?? true,
         muted: content.muted ?? true,
         videoClickToggle: content.videoClickToggle ?? false,
         videoControls: content.videoControls ?? false,
         chromaKey: content.chromaKey ?? false,
-        chromaColor: content.chromaColor
+        chromaColor: content.chromaColor,
+        videoAlpha: getVideoAlphaMode(content)
       };
     case ContentType.AUDIO:
       return {
         autoplay: content.autoplay ?? false,
-        loop: content.loop ?? true
+        loop: content.loop ?? true,
+        spatialAudio: getSpatialAudio(content),
+        ...getPlaylistExport(content, localAssetMap)
       };
     case ContentType.MODEL:
       return {
         animateAutostart: content.animateAutostart ?? true,
         animateLoop: content.animateLoop ?? 'repeat',
-        materialOverrides: content.materialOverrides
+        animationClip: content.animationClip,
+        materialOverrides: content.materialOverrides,
+        morphTargets: content.morphTargets ?? {}
+      };
+    case ContentType.OCCLUDER:
+      return {
+        shape: content.occluderShape ?? DEFAULT_OCCLUDER_SHAPE
       };
-    case ContentType.TEXT:
+    case ContentType.SHAPE:
+      return {
+        shape: getShapeKind(content).id,
+        size: getShapeSize(content),
+        material: getShapeMaterial(content)
+      };
+    case ContentType.TEXT: {
+      const { font, layout, spans } = getTextExport(content, assets, localAssetMap);
       return {
         color: content.color,
         font: content.font,
+        fontUrl: font.url,
         size: content.size,
         textContent: content.textContent,
-        align: content.align
+        richText: content.richText ?? false,
+        spans,
+        outlineColor: content.outlineColor,
+        outlineWidth: content.outlineWidth ?? 0,
+        ...layout
+      };
+    }
+    case ContentType.EMBED:
+      return {
+        sandbox: content.embedSandbox ?? DEFAULT_EMBED_SANDBOX,
+        allow: content.embedAllow ?? DEFAULT_EMBED_ALLOW,
+        width: content.embedWidth ?? DEFAULT_EMBED_WIDTH,
+        height: content.embedHeight ?? DEFAULT_EMBED_HEIGHT,
+        clickThrough: content.embedClickThrough ?? false
+      };
+    case ContentType.YOUTUBE:
+    case ContentType.VIMEO:
+    case ContentType.STREAMING_VIDEO:
+      return {
+        ...getStreamingVideo(content),
+        autoplay: content.autoplay ?? false,
+        loop: content.loop ?? false,
+        muted: content.muted ?? false,
+        videoClickToggle: content.videoClickToggle ?? true,
+        videoControls: content.videoControls ?? true,
+        captions: content.videoCaptions ?? false
       };
     default:
       return {};
   }
 }
 
+/**
+ * Helper to resolve the font, layout and styled spans of a text, with an uploaded font at its local path if provided
+ */
+function getTextExport(content: Content, assets?: Asset[], localAssetMap?: Map<string, string>): { font: TextFont; layout: TextLayout; spans: TextSpan[]; style: TextCanvasStyle } {
+  const resolved = resolveTextFont(content, assets);
+  const localPath = content.fontAssetId ? localAssetMap?.get(content.fontAssetId) : undefined;
+  const font = localPath ? { ...resolved, url: localPath } : resolved;
+  return { font, layout: getTextLayout(content), spans: getTextSpans(content), style: getTextCanvasStyle(content, font) };
+}
+
+/**
+ * Helper to resolve how 3D subtitles are drawn: in the default font, as in utils/playlistUtils.ts
+ */
+function getSubtitleTextExport(): { font: TextFont; layout: TextLayout; style: TextCanvasStyle; offsetY: number } {
+  const font = resolveTextFont({});
+  return { font, layout: SUBTITLE_LAYOUT, style: getTextCanvasStyle(SUBTITLE_TEXT, font), offsetY: SUBTITLE_TEXT.offsetY };
+}
+
+/**
+ * Helper to get an audio content's clips with their cues parsed, and how the playlist advances
+ */
+function getPlaylistExport(content: Content, localAssetMap?: Map<string, string>) {
+  const tracks = getAudioTracks(content).map((track, index) => ({
+    name: track.name,
+    url: localAssetMap?.get(getAudioAssetKey(content, track, index)) ?? track.url,
+    cues: track.subtitles ? parseWebVTT(track.subtitles) : []
+  }));
+  return { tracks, autoAdvance: content.audioAutoAdvance ?? true, subtitleMode: content.subtitleMode ?? null };
+}
+
+// The first clip is the content's audioUrl, so it is zipped under the content's id like a single audio file
+function getAudioAssetKey(content: Content, track: AudioTrack, index: number): string {
+  return index === 0 ? content.id : `${content.id}_${track.id}`;
+}
+
+/**
+ * Helper to get the entry/exit animation settings for a content, or null if it has none
+ */
+function getContentAnimationJson(content: Content): object | null {
+  const animationIn = getContentAnimation(content, 'in');
+  const animationOut = getContentAnimation(content, 'out');
+  if (!animationIn && !animationOut) return null;
+  const { delay, duration } = getAnimationTiming(content, 'in');
+  return { in: animationIn, out: animationOut, delay, duration };
+}
+
+/**
+ * Helper to resolve the player details for a YouTube / Vimeo content, or null if the ID is invalid
+ */
+function getStreamingVideo(content: Content) {
+  const service = getStreamingService(content);
+  const videoId = getStreamingVideoId(content);
+  const src = buildStreamingEmbedUrl(content);
+  if (!service || !videoId || !src) return null;
+  const { start, end } = getStreamingRange(content);
+  return {
+    service,
+    videoId,
+    src,
+    start,
+    end: end ?? null,
+    playbackRate: getPlaybackRate(content),
+    captionLang: content.videoCaptionLang ?? null
+  };
+}
+
 /**
  * Converts JavaScript script to JSON action format for AR apps
  * Improved parser that handles comments, multi-line scripts, and various formats
@@ -283,10 +470,17 @@ export const generateScriptJson = (script: string | undefined): object => {
   return actions;
 };
 
+/**
+ * Helper to inline a value in the viewer's <script> as JSON. `<` is escaped so no string can close the tag.
+ */
+function toScriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
 /**
  * Generates a standalone HTML file using MindAR + Three.js + CSS3DRenderer
  * Includes a Player architecture similar to the refcode for scripting and asset management.
- * @param project - The project to export
+ * @param project - The project to export, with TypeScript scripts already transpiled (see compileProjectScripts)
  * @param localAssetMap - Optional map of local asset paths
  * @param mindFileUrl - URL to the compiled mind file
  * @param enableDebug - Whether to enable debug overlay in the published app
@@ -300,11 +494,80 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
         filterBeta: 0.001
     };
 
+    // The exported viewer has no compiler, it only runs JavaScript
+    if (project.script && project.scriptLanguage === 'typescript') {
+        throw new Error('The TypeScript project script must be compiled before export.');
+    }
+    const uncompiled = project.targets.find(t => t.script && t.scriptLanguage === 'typescript');
+    if (uncompiled) {
+        throw new Error(`The TypeScript script of target "${uncompiled.name}" must be compiled before export.`);
+    }
+
     // Deep copy project to prepare for export (replacing URLs with local paths)
     const exportProject = JSON.parse(JSON.stringify(project)) as Project;
 
+    // Every target carries the lights it is shown with: its own, or the project's
+    exportProject.targets.forEach(target => {
+        target.lights = getSceneLights(project.sceneSettings, target);
+    });
+
+    // Shapes carry their full size and material, so the viewer needs no defaults
+    exportProject.targets.forEach(target => {
+        target.contents.forEach(content => {
+            if (content.type !== ContentType.SHAPE) return;
+            content.shapeKind = getShapeKind(content).id;
+            content.shapeSize = getShapeSize(content);
+            content.materialOverrides = { ...content.materialOverrides, [SHAPE_MATERIAL_NAME]: getShapeMaterial(content) };
+        });
+    });
+
+    // Spatial sounds carry their full settings, so the viewer needs no defaults
+    const spatialAudio: Record<string, SpatialAudio> = {};
+    exportProject.targets.forEach(target => {
+        target.contents.forEach(content => {
+            const settings = content.type === ContentType.AUDIO ? getSpatialAudio(content) : null;
+            if (settings) spatialAudio[content.id] = settings;
+        });
+    });
+
+    // Alpha videos come with where their matte is packed, if it is
+    const videoAlpha: Record<string, object> = {};
+    exportProject.targets.forEach(target => {
+        target.contents.forEach(content => {
+            const mode = content.type === ContentType.VIDEO ? getVideoAlphaMode(content) : null;
+            if (mode) videoAlpha[content.id] = { mode, layout: getPackedAlphaLayout(mode) };
+        });
+    });
+
+    // Audio clips come with their subtitles parsed and their local paths
+    const playlists: Record<string, object> = {};
+    exportProject.targets.forEach(target => {
+        target.contents.forEach(content => {
+            if (content.type === ContentType.AUDIO) playlists[content.id] = getPlaylistExport(content, localAssetMap);
+        });
+    });
+
+    // Resolve YouTube / Vimeo IDs and player URLs up front so the runtime doesn't parse URLs
+    const streamingVideos: Record<string, object> = {};
+    exportProject.targets.forEach(target => {
+        target.contents.forEach(content => {
+            const video = getStreamingVideo(content);
+            if (video) streamingVideos[content.id] = video;
+        });
+    });
+
+    // Resolve every text's font, layout and spans, so the viewer needs neither the assets, defaults nor a markup parser
+    const texts: Record<string, object> = {};
+    exportProject.targets.forEach(target => {
+        target.contents.forEach(content => {
+            if (content.type === ContentType.TEXT && content.textContent) texts[content.id] = getTextExport(content, project.assets, localAssetMap);
+        });
+    });
+
     // Map assets to local paths if provided (for ZIP export)
     if (localAssetMap) {
+        const environmentPath = localAssetMap.get(ENVIRONMENT_ASSET_KEY);
+        if (environmentPath && exportProject.sceneSettings?.environment) exportProject.sceneSettings.environment.url = environmentPath;
         exportProject.targets.forEach(target => {
             target.contents.forEach(content => {
                 const localPath = localAssetMap.get(content.id);
@@ -312,7 +575,7 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
                     if (content.type === ContentType.IMAGE) content.imageUrl = localPath;
                     if (content.type === ContentType.VIDEO) content.videoUrl = localPath;
                     if (content.type === ContentType.AUDIO) content.audioUrl = localPath;
-                    if (content.type === ContentType.MODEL) content.modelUrl = localPath;
+                    if (content.type === ContentType.MODEL || content.type === ContentType.OCCLUDER) content.modelUrl = localPath;
                 }
             });
         });
@@ -334,7 +597,7 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
   <title>${project.name}</title>
   <style>
     body { margin: 0; overflow: hidden; font-family: sans-serif; }
-    #container { width: 100vw; height: 100vh; position: relative; overflow: hidden; z-index: 1; }
+    #container { width: 100vw; height: 100vh; position: relative; overflow: hidden; z-index: 1; touch-action: none; }
     #ui-layer { position: absolute; top: 0; left: 0; width: 100%; height: 100%; pointer-events: none; z-index: 10; }
     #start-screen {
         position: absolute; top: 0; left: 0; width: 100%; height: 100%;
@@ -440,6 +703,11 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
     // Three.js imports (ES modules)
     import * as THREE from 'three';
     import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+    import { RGBELoader } from 'three/addons/loaders/RGBELoader.js';
+    import { EXRLoader } from 'three/addons/loaders/EXRLoader.js';
+    import { TTFLoader } from 'three/addons/loaders/TTFLoader.js';
+    import { FontLoader } from 'three/addons/loaders/FontLoader.js';
+    import { mergeGeometries } from 'three/addons/utils/BufferGeometryUtils.js';
     import { CSS3DRenderer, CSS3DObject } from 'three/addons/renderers/CSS3DRenderer.js';
     
     // Wait for MindAR to be available (loaded via script tag)
@@ -521,6 +789,35 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
 
     const projectData = ${projectDataString};
     const mindFileUrl = "${mindFileUrl}";
+    const embedDefaults = ${toScriptJson({
+        sandboxOptions: EMBED_SANDBOX_OPTIONS.map(o => o.token),
+        sandbox: DEFAULT_EMBED_SANDBOX,
+        allow: DEFAULT_EMBED_ALLOW,
+        width: DEFAULT_EMBED_WIDTH,
+        height: DEFAULT_EMBED_HEIGHT
+    })};
+    const streamingDefaults = ${toScriptJson({
+        width: STREAMING_EMBED_WIDTH,
+        height: STREAMING_EMBED_HEIGHT,
+        planeHeight: STREAMING_PLANE_HEIGHT
+    })};
+    const streamingTypes = ${toScriptJson(STREAMING_TYPES)};
+    const streamingVideos = ${toScriptJson(streamingVideos)};
+    const videoAlpha = ${toScriptJson(videoAlpha)};
+    const packedAlphaShader = ${toScriptJson(PACKED_ALPHA_SHADER)};
+    const texts = ${toScriptJson(texts)};
+    const spatialAudio = ${toScriptJson(spatialAudio)};
+    const playlists = ${toScriptJson(playlists)};
+    const animationConfig = ${toScriptJson({
+        ids: CONTENT_ANIMATIONS.map(a => a.id),
+        defaultDuration: DEFAULT_ANIMATION_DURATION,
+        slideDistance: SLIDE_DISTANCE
+    })};
+    const mediaFitConfig = ${toScriptJson({ defaultFitMode: DEFAULT_FIT_MODE })};
+    const lightingConfig = ${toScriptJson({ shadow: SHADOW_CONFIG, defaultSpotAngle: DEFAULT_SPOT_ANGLE })};
+    const shapeConfig = ${toScriptJson({ materialName: SHAPE_MATERIAL_NAME })};
+    const textConfig = ${toScriptJson({ canvasFontSize: TEXT_CANVAS_FONT_SIZE, linkColor: DEFAULT_LINK_COLOR })};
+    const subtitleConfig = ${toScriptJson(getSubtitleTextExport())};
     const startBtn = document.getElementById('start-btn');
     const startScreen = document.getElementById('start-screen');
     const loadingStatus = document.getElementById('loading-status');
@@ -553,18 +850,113 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
             this.pivot.scale.set(scale[0], scale[1], scale[2]);
             this.pivot.visible = this.visible;
 
+            // Animation Group (Entry/Exit animations, on top of the user transform)
+            this.animGroup = new THREE.Group();
+            this.pivot.add(this.animGroup);
+            this.animation = null;
+            this.animFrame = { opacity: 1, scale: 1, offset: [0, 0, 0], rotationZ: 0, textProgress: 1 };
+            this.animOpacity = 1;
+            this.timelineOpacity = 1;
+
             this.correctionGroup.add(this.pivot);
             this.mesh.add(this.correctionGroup);
             this.anchor.group.add(this.mesh);
         }
+
+        startAnimation(direction) {
+            const name = getContentAnimation(this.content, direction);
+            if (!name) {
+                this.animation = null;
+                this.applyAnimationFrame(sampleContentAnimation(null, direction, 1));
+                return;
+            }
+            const delay = direction === 'in' ? Math.max(0, this.content.delay || 0) : 0;
+            const duration = this.content.duration > 0 ? this.content.duration : animationConfig.defaultDuration;
+            this.animation = { name, direction, elapsed: 0, delay, duration };
+            // Apply the first frame right away so entry content doesn't flash before the delay
+            this.applyAnimationFrame(sampleContentAnimation(name, direction, 0));
+        }
+
+        updateAnimation(deltaTime) {
+            if (!this.animation) return;
+            const anim = this.animation;
+            anim.elapsed += deltaTime * 1000;
+            const t = Math.min(1, Math.max(0, (anim.elapsed - anim.delay) / anim.duration));
+            this.applyAnimationFrame(sampleContentAnimation(anim.name, anim.direction, t));
+            if (t >= 1) {
+                this.animation = null;
+                if (anim.direction === 'in') this.applyAnimationFrame(sampleContentAnimation(null, 'in', 1));
+            }
+        }
+
+        isAnimating() {
+            return this.animation !== null;
+        }
+
+        // Keyframed properties replace the user transform on the pivot; entry/exit animations still play on top
+        applyTimelinePose(pose) {
+            if (pose.position) this.pivot.position.set(pose.position[0], pose.position[1], pose.position[2]);
+            if (pose.rotation) {
+                this.pivot.rotation.set(
+                    THREE.MathUtils.degToRad(pose.rotation[0]),
+                    THREE.MathUtils.degToRad(pose.rotation[1]),
+                    THREE.MathUtils.degToRad(pose.rotation[2])
+                );
+            }
+            if (pose.scale) this.pivot.scale.set(pose.scale[0], pose.scale[1], pose.scale[2]);
+            if (pose.visible !== undefined) {
+                this.visible = pose.visible;
+                this.pivot.visible = pose.visible;
+            }
+            const opacity = pose.opacity ?? 1;
+            if (opacity !== this.timelineOpacity) {
+                this.timelineOpacity = opacity;
+                this.applyAnimationFrame(this.animFrame);
+            }
+        }
+
+        applyAnimationFrame(frame) {
+            this.animFrame = frame;
+            const opacity = frame.opacity * this.timelineOpacity;
+            this.animGroup.position.set(frame.offset[0], frame.offset[1], frame.offset[2]);
+            this.animGroup.rotation.set(0, 0, frame.rotationZ);
+            this.animGroup.scale.setScalar(frame.scale);
+            this.animOpacity = opacity;
+            this.animGroup.traverse(child => {
+                if (!child.material) return;
+                const materials = Array.isArray(child.material) ? child.material : [child.material];
+                materials.forEach(m => {
+                    if (m.userData.baseOpacity === undefined) {
+                        m.userData.baseOpacity = m.opacity;
+                        m.userData.baseTransparent = m.transparent;
+                    }
+                    m.opacity = m.userData.baseOpacity * opacity;
+                    const transparent = m.userData.baseTransparent || opacity < 1;
+                    if (m.transparent !== transparent) {
+                        m.transparent = transparent;
+                        m.needsUpdate = true;
+                    }
+                });
+            });
+        }
         
-        getScriptWrapper() {
+        getScriptDriver() {
              const self = this;
              return {
                  uuid: self.uuid,
                  name: self.name,
-                 mesh: self.pivot, // Expose pivot so user transforms affect local space
-                 visible: self.visible,
+                 type: self.content.type,
+                 // Scripts move the pivot, so user transforms stay in local space
+                 getTransform: () => ({
+                     position: self.pivot.position.toArray(),
+                     rotation: [
+                         self.pivot.rotation.x * THREE.MathUtils.RAD2DEG,
+                         self.pivot.rotation.y * THREE.MathUtils.RAD2DEG,
+                         self.pivot.rotation.z * THREE.MathUtils.RAD2DEG
+                     ],
+                     scale: self.pivot.scale.toArray(),
+                     visible: self.visible
+                 }),
                  setPosition: (x, y, z) => self.pivot.position.set(x, y, z),
                  setRotation: (x, y, z) => self.pivot.rotation.set(
                      x * THREE.MathUtils.DEG2RAD,
@@ -581,8 +973,8 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
 
         onUpdate(deltaTime) {}
         onClick() {}
-        activate() {}
-        deactivate() {}
+        activate() { this.startAnimation('in'); }
+        deactivate() { this.startAnimation('out'); }
     }
 
     class VideoObject extends ContentObject {
@@ -600,8 +992,25 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
             const texture = new THREE.VideoTexture(this.video);
             // texture.colorSpace = THREE.SRGBColorSpace; // VideoTexture usually handles this
             let material;
+            // Picture and alpha matte packed in one frame, see utils/videoAlphaUtils.ts
+            const alpha = videoAlpha[content.id] || null;
             
-            if (content.chromaKey && content.chromaColor) {
+            if (alpha && alpha.layout) {
+                material = new THREE.ShaderMaterial({
+                    uniforms: {
+                        tex: { value: texture },
+                        scale: { value: new THREE.Vector2(...alpha.layout.scale) },
+                        colorOffset: { value: new THREE.Vector2(...alpha.layout.colorOffset) },
+                        alphaOffset: { value: new THREE.Vector2(...alpha.layout.alphaOffset) }
+                    },
+                    ...packedAlphaShader,
+                    transparent: true,
+                    side: THREE.DoubleSide
+                });
+            } else if (alpha) {
+                // WebM with VP9 alpha
+                material = new THREE.MeshBasicMaterial({ map: texture, transparent: true, alphaTest: 0.01, side: THREE.DoubleSide, toneMapped: false });
+            } else if (content.chromaKey && content.chromaColor) {
                  const color = new THREE.Color(content.chromaColor);
                  material = new THREE.ShaderMaterial({
                     uniforms: {
@@ -639,22 +1048,26 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
             }
 
             // Default aspect 16:9 until loaded
-            const geom = new THREE.PlaneGeometry(1, 0.5625); 
+            const geom = createMediaPlane(getMediaFit(content, 16 / 9));
             this.obj = new THREE.Mesh(geom, material);
             this.obj.userData.contentObject = this;
-            this.pivot.add(this.obj);
+            this.animGroup.add(this.obj);
             
             this.video.addEventListener('loadedmetadata', () => {
-                const aspect = this.video.videoWidth / this.video.videoHeight;
-                this.obj.scale.set(1, 1/aspect, 1);
+                if (!this.video.videoWidth || !this.video.videoHeight) return;
+                // A packed matte takes half the frame
+                const [scaleX, scaleY] = alpha && alpha.layout ? alpha.layout.scale : [1, 1];
+                setMediaPlane(this.obj, content, (this.video.videoWidth * scaleX) / (this.video.videoHeight * scaleY));
             });
         }
         
         activate() {
+            super.activate();
             if (this.content.autoplay) this.video.play();
         }
         
         deactivate() {
+            super.deactivate();
             this.video.pause();
         }
 
@@ -664,54 +1077,73 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
             }
         }
 
-        getScriptWrapper() {
+        getScriptDriver() {
             return {
-                ...super.getScriptWrapper(),
-                playVideo: () => this.video.play(),
-                pauseVideo: () => this.video.pause(),
-                stopVideo: () => { this.video.pause(); this.video.currentTime = 0; },
-                setVolume: (v) => { this.video.volume = v; },
-                setMuted: (m) => { this.video.muted = m; },
-                setLoop: (l) => { this.video.loop = l; },
-                getVideo: () => this.video
+                ...super.getScriptDriver(),
+                media: {
+                    play: () => { this.video.play(); },
+                    pause: () => this.video.pause(),
+                    stop: () => { this.video.pause(); this.video.currentTime = 0; },
+                    seekTo: (t) => { this.video.currentTime = t; },
+                    setVolume: (v) => { this.video.volume = v; },
+                    setMuted: (m) => { this.video.muted = m; },
+                    setLoop: (l) => { this.video.loop = l; },
+                    isPlaying: () => !this.video.paused
+                }
             };
         }
     }
 
+    // Plays its playlist like an <audio> element, or positioned at the content when spatial (see utils/audioUtils.ts)
     class AudioObject extends ContentObject {
-        constructor(content, anchor, listener) {
+        constructor(content, anchor, listener, overlayContainer) {
             super(content, anchor);
-            this.audio = new Audio(content.audioUrl);
+            const playlist = playlists[content.id];
+            this.audio = new Audio();
             this.audio.crossOrigin = 'anonymous';
-            this.audio.loop = content.loop !== false;
-            
-            this.positionalAudio = new THREE.PositionalAudio(listener);
-            this.positionalAudio.setMediaElementSource(this.audio);
-            this.positionalAudio.setRefDistance(20);
+            this.onAudioEvent = null; // Clips that end and cues that start or end, for the target script
+            this.playlist = createAudioPlaylist(this.audio, playlist.tracks, { loop: !!content.loop, autoAdvance: playlist.autoAdvance }, {
+                onEnded: (track) => this.onAudioEvent && this.onAudioEvent('onEnded', { track }),
+                onCueEnter: (track, cue) => this.onAudioEvent && this.onAudioEvent('onCueEnter', { track, cue }),
+                onCueExit: (track, cue) => this.onAudioEvent && this.onAudioEvent('onCueExit', { track, cue }),
+                onCuesChange: (cues) => this.subtitles && this.subtitles.setText(cues.map(cue => cue.text).join('\\n'))
+            });
+            this.subtitles = createSubtitleDisplay(playlist.subtitleMode, overlayContainer, this.animGroup);
             
-            this.pivot.add(this.positionalAudio);
+            this.spatialAudio = spatialAudio[content.id] || null;
+            if (this.spatialAudio) {
+                this.positionalAudio = new THREE.PositionalAudio(listener);
+                this.positionalAudio.setMediaElementSource(this.audio);
+                this.animGroup.add(this.positionalAudio);
+            }
             
             // Helper visual (invisible)
             const helper = new THREE.Mesh(new THREE.BoxGeometry(0.1,0.1,0.1), new THREE.MeshBasicMaterial({visible: false}));
-            this.pivot.add(helper);
+            this.animGroup.add(helper);
+        }
+
+        // The falloff distances follow the target's scale while it is tracked, the subtitles the clip's time
+        onUpdate() {
+            if (this.positionalAudio) updateSpatialAudio(this.positionalAudio, this.spatialAudio);
+            this.playlist.update();
         }
 
         activate() {
-            if (this.content.autoplay) this.audio.play().catch(e => console.warn("Audio autoplay blocked", e));
+            super.activate();
+            if (this.content.autoplay) this.playlist.play();
         }
 
         deactivate() {
-            this.audio.pause();
+            super.deactivate();
+            this.playlist.pause();
         }
         
-        getScriptWrapper() {
+        // The playlist has every media method, the playlist ones included
+        getScriptDriver() {
             return {
-                ...super.getScriptWrapper(),
-                playVideo: () => this.audio.play(), // Reuse naming for simplicity
-                pauseVideo: () => this.audio.pause(),
-                stopVideo: () => { this.audio.pause(); this.audio.currentTime = 0; },
-                getAudio: () => this.audio
-            }
+                ...super.getScriptDriver(),
+                media: this.playlist
+            };
         }
     }
 
@@ -719,20 +1151,30 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
         constructor(content, anchor, loader) {
             super(content, anchor);
             this.mixer = null;
+            this.animator = null; // Clip playback shared with the editor (createScriptAnimator)
+            this.onAnimationFinished = null;
+            let resolveLoaded;
+            this.loaded = new Promise(resolve => { resolveLoaded = resolve; });
             loader.load(content.modelUrl, (gltf) => {
                 this.model = gltf.scene;
-                this.pivot.add(this.model);
+                this.animGroup.add(this.model);
+                this.model.traverse(child => {
+                    if (child.isMesh) child.castShadow = child.receiveShadow = true;
+                });
+                Object.entries(content.morphTargets || {}).forEach(([name, value]) => this.setMorph(name, value));
                 
                 if (gltf.animations && gltf.animations.length > 0) {
                     this.mixer = new THREE.AnimationMixer(this.model);
-                    this.animations = gltf.animations;
-                    this.actions = {};
-                    this.animations.forEach(anim => {
-                        this.actions[anim.name] = this.mixer.clipAction(anim);
+                    const actions = {};
+                    gltf.animations.forEach(anim => {
+                        actions[anim.name] = this.mixer.clipAction(anim);
+                    });
+                    this.animator = createScriptAnimator(this.mixer, actions, (clip) => {
+                        if (this.onAnimationFinished) this.onAnimationFinished(clip);
                     });
                     
                     if (content.animateAutostart !== false) {
-                        this.actions[this.animations[0].name].play();
+                        this.animator.playDefault(content.animationClip, content.animateLoop);
                     }
                 }
                 
@@ -754,6 +1196,7 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
                        } 
                     });
                 }
+                resolveLoaded();
             });
         }
         
@@ -761,43 +1204,1048 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
             if (this.mixer) this.mixer.update(delta);
         }
 
-        getScriptWrapper() {
+        // Morph target (blendshape) influence on every mesh that has it, 0 to 1
+        setMorph(name, value) {
+            if (!this.model) return;
+            const influence = Math.min(1, Math.max(0, Number(value) || 0));
+            this.model.traverse(child => {
+                const index = child.morphTargetDictionary ? child.morphTargetDictionary[name] : undefined;
+                if (index !== undefined && child.morphTargetInfluences) child.morphTargetInfluences[index] = influence;
+            });
+        }
+
+        // Move another content under a bone once the model has loaded; its transform is then relative to the bone
+        attach(obj, boneName) {
+            this.loaded.then(() => {
+                let bone = null;
+                this.model.traverse(child => {
+                    if (!bone && child.isBone && child.name === boneName) bone = child;
+                });
+                if (bone) bone.add(obj.pivot);
+            });
+        }
+
+        getScriptDriver() {
             return {
-                ...super.getScriptWrapper(),
-                getAction: (nameOrIndex) => {
-                    if (!this.actions) return null;
-                    if (typeof nameOrIndex === 'number') return this.actions[this.animations[nameOrIndex].name];
-                    return this.actions[nameOrIndex];
-                },
-                updateTexture: (matName, url) => {
-                    if (!this.model) return;
-                    const tex = new THREE.TextureLoader().load(url);
-                    tex.flipY = false;
-                    tex.colorSpace = THREE.SRGBColorSpace;
-                    this.model.traverse(c => {
-                        if (c.isMesh && c.material && c.material.name === matName) {
-                            c.material.map = tex;
-                            c.material.needsUpdate = true;
-                        }
-                    });
+                ...super.getScriptDriver(),
+                model: {
+                    getAction: () => undefined,
+                    ...this.animator,
+                    setMorph: (name, value) => this.setMorph(name, value),
+                    updateTexture: (matName, url) => {
+                        if (!this.model) return;
+                        const tex = new THREE.TextureLoader().load(url);
+                        tex.flipY = false;
+                        tex.colorSpace = THREE.SRGBColorSpace;
+                        this.model.traverse(c => {
+                            if (c.isMesh && c.material && c.material.name === matName) {
+                                c.material.map = tex;
+                                c.material.needsUpdate = true;
+                            }
+                        });
+                    }
                 }
             };
         }
     }
     
+    class ShapeObject extends ContentObject {
+        constructor(content, anchor) {
+            super(content, anchor);
+            const geometry = createShapeGeometry(content.shapeKind, content.shapeSize);
+            const material = createShapeMaterial(content.materialOverrides[shapeConfig.materialName]);
+            this.obj = new THREE.Mesh(geometry, material);
+            this.obj.castShadow = this.obj.receiveShadow = true;
+            this.obj.userData.contentObject = this;
+            this.animGroup.add(this.obj);
+        }
+    }
+
+    // Flat text, rich text included, drawn to a canvas, or extruded from the font's outlines when it has a depth
+    // (see utils/textUtils.ts and utils/richTextUtils.ts). The spans come parsed from the editor.
+    class TextObject extends ContentObject {
+        constructor(content, anchor) {
+            super(content, anchor);
+            const { font, layout, spans, style } = texts[content.id];
+            this.font = font;
+            this.layout = layout;
+            this.spans = spans;
+            this.style = style;
+            this.text = spans.map(span => span.text).join('');
+            this.visibleLength = this.text.length;
+            const ready = layout.depth > 0 ? this.initExtruded() : this.initFlat();
+            ready.catch(e => debugLog('ERROR', 'TEXT', 'Failed to create text', { name: content.name, error: e.message }));
+        }
+
+        // One font and color, so rich text shows as plain text
+        async initExtruded() {
+            this.typeface = await loadTextFont(this.font.url);
+            const material = new THREE.MeshStandardMaterial({ color: this.content.color || '#000000', roughness: 0.5 });
+            const mesh = new THREE.Mesh(createExtrudedTextGeometry(this.typeface, this.text, this.layout, this.visibleLength), material);
+            mesh.castShadow = mesh.receiveShadow = true;
+            this.setMesh(mesh);
+        }
+
+        async initFlat() {
+            await loadFontFace(this.font).catch(e => debugLog('WARN', 'TEXT', 'Failed to load font, using a fallback', { error: e.message }));
+            this.textLayout = layoutTextCanvas(this.spans, this.layout, this.style);
+            this.canvas = document.createElement('canvas');
+            this.canvas.width = this.textLayout.width;
+            this.canvas.height = this.textLayout.height;
+            drawTextCanvas(this.canvas, this.textLayout, this.style, this.visibleLength);
+
+            const texture = new THREE.CanvasTexture(this.canvas);
+            texture.colorSpace = THREE.SRGBColorSpace;
+            const material = new THREE.MeshBasicMaterial({ map: texture, transparent: true, side: THREE.DoubleSide, toneMapped: false });
+            this.setMesh(new THREE.Mesh(createTextPlane(this.textLayout), material));
+        }
+
+        setMesh(mesh) {
+            this.obj = mesh;
+            this.obj.userData.contentObject = this;
+            this.animGroup.add(this.obj);
+            // Catch up with the animation that started while the font loaded
+            this.applyAnimationFrame(this.animFrame);
+        }
+
+        applyAnimationFrame(frame) {
+            super.applyAnimationFrame(frame);
+            this.setTextProgress(frame.textProgress);
+        }
+
+        setTextProgress(progress) {
+            if (!this.obj) return;
+            const length = Math.round(this.text.length * progress);
+            if (length === this.visibleLength) return;
+            this.visibleLength = length;
+            if (this.typeface) {
+                this.obj.geometry.dispose();
+                this.obj.geometry = createExtrudedTextGeometry(this.typeface, this.text, this.layout, length);
+            } else {
+                drawTextCanvas(this.canvas, this.textLayout, this.style, length);
+                this.obj.material.map.needsUpdate = true;
+            }
+        }
+
+        // Links open like openUrl() from a script
+        onClick(hit) {
+            const url = this.textLayout && hit && hit.uv ? findTextLink(this.textLayout, hit.uv) : null;
+            if (url && isSafeScriptUrl(url)) window.open(url, '_blank');
+        }
+    }
+
+    // Writes depth but no color, so content behind the physical object stays hidden (see utils/occluderUtils.ts)
+    class OccluderObject extends ContentObject {
+        constructor(content, anchor, loader) {
+            super(content, anchor);
+            this.material = new THREE.MeshBasicMaterial({ colorWrite: false, side: THREE.DoubleSide });
+            const shape = content.occluderShape || 'box';
+            if (shape === 'model') {
+                if (content.modelUrl) loader.load(content.modelUrl, (gltf) => this.setShape(gltf.scene));
+            } else {
+                const geometry = shape === 'cylinder' ? new THREE.CylinderGeometry(0.5, 0.5, 1, 32)
+                    : shape === 'plane' ? new THREE.PlaneGeometry(1, 1)
+                    : new THREE.BoxGeometry(1, 1, 1);
+                this.setShape(new THREE.Mesh(geometry));
+            }
+        }
+
+        // Drawn before everything else, so the depth is there when content is drawn
+        setShape(root) {
+            root.traverse(child => {
+                if (!child.isMesh) return;
+                child.material = this.material;
+                child.renderOrder = -1;
+            });
+            this.obj = root;
+            this.obj.userData.contentObject = this;
+            this.animGroup.add(this.obj);
+        }
+    }
+
     class ImageObject extends ContentObject {
         constructor(content, anchor) {
             super(content, anchor);
             const loader = new THREE.TextureLoader();
-            const tex = loader.load(content.imageUrl);
-            const geom = new THREE.PlaneGeometry(1, 1);
+            const tex = loader.load(content.imageUrl, (loaded) => {
+                const image = loaded.image;
+                if (image && image.width && image.height) setMediaPlane(this.obj, content, image.width / image.height);
+            });
+            const geom = createMediaPlane(getMediaFit(content, 1));
             const mat = new THREE.MeshBasicMaterial({ map: tex, transparent: true, side: THREE.DoubleSide });
             this.obj = new THREE.Mesh(geom, mat);
             this.obj.userData.contentObject = this;
-            this.pivot.add(this.obj);
+            this.animGroup.add(this.obj);
+        }
+    }
+
+    class EmbedObject extends ContentObject {
+        constructor(content, anchor, cssScene) {
+            super(content, anchor);
+            const { width, height, planeHeight } = this.getViewport(content);
+            this.pixelScale = new THREE.Vector3().setScalar(planeHeight / height);
+
+            // Invisible plane for raycasting, hit when the pointer passes through the iframe
+            const geom = new THREE.PlaneGeometry(planeHeight * width / height, planeHeight);
+            const mat = new THREE.MeshBasicMaterial({ transparent: true, opacity: 0, side: THREE.DoubleSide });
+            this.obj = new THREE.Mesh(geom, mat);
+            this.obj.userData.contentObject = this;
+            this.animGroup.add(this.obj);
+
+            const div = document.createElement('div');
+            div.style.width = width + 'px';
+            div.style.height = height + 'px';
+            div.style.pointerEvents = this.getPointerEvents(content);
+
+            this.iframe = this.createIframe(content);
+            if (this.iframe) div.appendChild(this.iframe);
+
+            // CSS3D objects live in their own scene, so they follow the pivot's world matrix each frame
+            this.cssObject = new CSS3DObject(div);
+            this.cssObject.matrixAutoUpdate = false;
+            this.cssObject.visible = false;
+            cssScene.add(this.cssObject);
+        }
+
+        getViewport(content) {
+            const width = content.embedWidth > 0 ? content.embedWidth : embedDefaults.width;
+            const height = content.embedHeight > 0 ? content.embedHeight : embedDefaults.height;
+            return { width, height, planeHeight: 1 };
+        }
+
+        getPointerEvents(content) {
+            return content.embedClickThrough ? 'none' : 'auto';
+        }
+
+        createIframe(content) {
+            const src = EmbedObject.safeUrl(content.embedUrl);
+            if (!src) {
+                debugLog('WARN', 'EMBED', 'Missing or unsupported embed URL', { name: content.name });
+                return null;
+            }
+            const sandbox = (content.embedSandbox || embedDefaults.sandbox)
+                .filter(t => embedDefaults.sandboxOptions.includes(t));
+            const iframe = document.createElement('iframe');
+            iframe.setAttribute('sandbox', sandbox.join(' '));
+            iframe.setAttribute('allow', content.embedAllow ?? embedDefaults.allow);
+            iframe.setAttribute('referrerpolicy', 'strict-origin-when-cross-origin');
+            iframe.style.cssText = 'width:100%;height:100%;border:0;background:#fff;';
+            iframe.src = src;
+            return iframe;
+        }
+
+        static safeUrl(url) {
+            try {
+                const parsed = new URL((url || '').trim());
+                return (parsed.protocol === 'http:' || parsed.protocol === 'https:') ? parsed.toString() : null;
+            } catch (e) {
+                return null;
+            }
+        }
+
+        onUpdate() {
+            this.obj.updateWorldMatrix(true, false);
+            this.cssObject.matrix.copy(this.obj.matrixWorld).scale(this.pixelScale);
+            this.cssObject.visible = (!!this.anchor.visible || this.isAnimating()) && this.pivot.visible;
+            this.cssObject.element.style.opacity = String(this.animOpacity);
         }
     }
 
+    // YouTube / Vimeo player driven through the services' postMessage APIs
+    class StreamingObject extends EmbedObject {
+        constructor(content, anchor, cssScene) {
+            super(content, anchor, cssScene);
+            this.video = streamingVideos[content.id] || null;
+            this.state = 'idle';
+            this.ready = false;
+            this.queue = [];
+            if (!this.iframe) return;
+
+            window.addEventListener('message', (e) => this.handleMessage(e));
+            this.iframe.addEventListener('load', () => this.subscribe());
+        }
+
+        getViewport() {
+            return { width: streamingDefaults.width, height: streamingDefaults.height, planeHeight: streamingDefaults.planeHeight };
+        }
+
+        getPointerEvents(content) {
+            return (content.videoControls ?? true) ? 'auto' : 'none';
+        }
+
+        createIframe(content) {
+            const video = streamingVideos[content.id];
+            if (!video) {
+                debugLog('WARN', 'EMBED', 'Invalid streaming video ID', { name: content.name, videoUrl: content.videoUrl });
+                return null;
+            }
+            let src = video.src;
+            if (video.service === 'youtube') src += '&origin=' + encodeURIComponent(window.location.origin);
+            const iframe = document.createElement('iframe');
+            iframe.id = 'embed-' + this.uuid;
+            iframe.setAttribute('allow', 'autoplay; encrypted-media; picture-in-picture; fullscreen');
+            iframe.setAttribute('allowfullscreen', '');
+            iframe.setAttribute('referrerpolicy', 'strict-origin-when-cross-origin');
+            iframe.style.cssText = 'width:100%;height:100%;border:0;background:#000;';
+            iframe.src = src;
+            return iframe;
+        }
+
+        isYouTube() {
+            return this.video && this.video.service === 'youtube';
+        }
+
+        post(message) {
+            if (!this.iframe || !this.iframe.contentWindow) return;
+            if (this.isYouTube()) this.iframe.contentWindow.postMessage(JSON.stringify(message), 'https://www.youtube.com');
+            else this.iframe.contentWindow.postMessage(message, 'https://player.vimeo.com');
+        }
+
+        send(message) {
+            if (this.ready) this.post(message);
+            else this.queue.push(message);
+        }
+
+        command(ytFunc, ytArgs, vimeoMethod, vimeoValue) {
+            if (!this.video) return;
+            if (this.isYouTube()) this.send({ event: 'command', func: ytFunc, args: ytArgs || [] });
+            else this.send(vimeoValue === undefined ? { method: vimeoMethod } : { method: vimeoMethod, value: vimeoValue });
+        }
+
+        subscribe() {
+            if (this.isYouTube()) {
+                this.post({ event: 'listening', id: this.iframe.id, channel: 'widget' });
+            } else {
+                ['play', 'pause', 'ended', 'timeupdate'].forEach(value => this.post({ method: 'addEventListener', value }));
+            }
+        }
+
+        handleReady() {
+            if (this.ready) return;
+            this.ready = true;
+            if (this.video.playbackRate !== 1) this.setPlaybackRate(this.video.playbackRate);
+            this.queue.splice(0).forEach(m => this.post(m));
+        }
+
+        handleMessage(event) {
+            if (!this.iframe || event.source !== this.iframe.contentWindow) return;
+            let data = event.data;
+            if (typeof data === 'string') {
+                try { data = JSON.parse(data); } catch (e) { return; }
+            }
+            if (!data || typeof data !== 'object') return;
+
+            if (this.isYouTube()) {
+                if (data.event === 'onReady' || data.event === 'initialDelivery') this.handleReady();
+                const ytState = data.event === 'onStateChange' ? data.info : (data.info && data.info.playerState);
+                if (ytState === 0) this.state = 'ended';
+                else if (ytState === 1) this.state = 'playing';
+                else if (ytState === 2) this.state = 'paused';
+                return;
+            }
+
+            // Vimeo has no end parameter, so enforce the end offset from timeupdate
+            if (data.event === 'ready') {
+                this.subscribe();
+                this.handleReady();
+            } else if (data.event === 'play') {
+                this.state = 'playing';
+            } else if (data.event === 'pause') {
+                this.state = 'paused';
+            } else if (data.event === 'ended') {
+                this.state = 'ended';
+            } else if (data.event === 'timeupdate' && this.video.end != null && data.data && data.data.seconds >= this.video.end) {
+                if (this.content.loop) this.seekTo(this.video.start); else this.pauseVideo();
+            }
+        }
+
+        playVideo() { this.command('playVideo', [], 'play'); }
+        pauseVideo() { this.command('pauseVideo', [], 'pause'); }
+        stopVideo() {
+            this.pauseVideo();
+            if (this.video) this.seekTo(this.video.start);
+            this.state = 'idle';
+        }
+        seekTo(seconds) {
+            const t = Math.max(0, seconds);
+            this.command('seekTo', [t, true], 'setCurrentTime', t);
+        }
+        setPlaybackRate(rate) {
+            const r = Math.min(2, Math.max(0.25, rate));
+            this.command('setPlaybackRate', [r], 'setPlaybackRate', r);
+        }
+        setCaptions(enabled, lang) {
+            const language = lang || (this.video && this.video.captionLang);
+            if (this.isYouTube()) {
+                this.command(enabled ? 'loadModule' : 'unloadModule', ['captions']);
+                if (enabled && language) this.command('setOption', ['captions', 'track', { languageCode: language }]);
+            } else if (enabled) {
+                this.command(null, null, 'enableTextTrack', language || 'en');
+            } else {
+                this.command(null, null, 'disableTextTrack');
+            }
+        }
+
+        activate() {
+            super.activate();
+            if (this.content.autoplay) this.playVideo();
+        }
+
+        deactivate() {
+            super.deactivate();
+            this.pauseVideo();
+        }
+
+        onClick() {
+            if (this.content.videoClickToggle) {
+                if (this.state === 'playing') this.pauseVideo(); else this.playVideo();
+            }
+        }
+
+        getScriptDriver() {
+            return {
+                ...super.getScriptDriver(),
+                media: {
+                    play: () => this.playVideo(),
+                    pause: () => this.pauseVideo(),
+                    stop: () => this.stopVideo(),
+                    isPlaying: () => this.state === 'playing',
+                    seekTo: (seconds) => this.seekTo(seconds),
+                    setPlaybackRate: (rate) => this.setPlaybackRate(rate),
+                    setCaptions: (enabled, lang) => this.setCaptions(enabled, lang),
+                    getVideoId: () => this.video ? this.video.videoId : null,
+                    getService: () => this.video ? this.video.service : null
+                }
+            };
+        }
+    }
+
+    // --- Media Fit (same rules as utils/mediaFitUtils.ts) ---
+    function parseAspectRatio(value) {
+        const match = String(value || '').trim().match(/^(\\d*\\.?\\d+)\\s*(?:[:/x]\\s*(\\d*\\.?\\d+))?$/i);
+        if (!match) return null;
+        const ratio = match[2] !== undefined ? parseFloat(match[1]) / parseFloat(match[2]) : parseFloat(match[1]);
+        return isFinite(ratio) && ratio > 0 ? ratio : null;
+    }
+
+    function getMediaFit(content, mediaAspect) {
+        const media = isFinite(mediaAspect) && mediaAspect > 0 ? mediaAspect : 1;
+        const frame = parseAspectRatio(content.aspectRatio);
+        const fit = { width: media, height: 1, repeat: [1, 1], offset: [0, 0] };
+        if (frame === null) return fit;
+        const mode = content.fitMode || mediaFitConfig.defaultFitMode;
+        if (mode === 'fill') {
+            fit.width = frame;
+        } else if (mode === 'contain') {
+            if (media > frame) { fit.width = frame; fit.height = frame / media; }
+        } else if (media > frame) {
+            fit.width = frame;
+            fit.repeat = [frame / media, 1];
+            fit.offset = [(1 - frame / media) / 2, 0];
+        } else {
+            fit.width = frame;
+            fit.repeat = [1, media / frame];
+            fit.offset = [0, (1 - media / frame) / 2];
+        }
+        return fit;
+    }
+
+    function createMediaPlane(fit) {
+        const geometry = new THREE.PlaneGeometry(fit.width, fit.height);
+        const uv = geometry.attributes.uv;
+        for (let i = 0; i < uv.count; i++) {
+            uv.setXY(i, fit.offset[0] + uv.getX(i) * fit.repeat[0], fit.offset[1] + uv.getY(i) * fit.repeat[1]);
+        }
+        uv.needsUpdate = true;
+        return geometry;
+    }
+
+    function setMediaPlane(mesh, content, mediaAspect) {
+        mesh.geometry.dispose();
+        mesh.geometry = createMediaPlane(getMediaFit(content, mediaAspect));
+    }
+
+    // --- Shapes (built like utils/shapeUtils.ts) ---
+    function createOutlineGeometry(path, width, height, depth) {
+        const geometry = depth > 0
+            ? new THREE.ExtrudeGeometry(path, { depth, bevelEnabled: false, curveSegments: 12 }).translate(0, 0, -depth / 2)
+            : new THREE.ShapeGeometry(path, 12);
+        const position = geometry.attributes.position;
+        const uv = geometry.attributes.uv;
+        for (let i = 0; i < uv.count; i++) {
+            uv.setXY(i, width ? position.getX(i) / width + 0.5 : 0, height ? position.getY(i) / height + 0.5 : 0);
+        }
+        uv.needsUpdate = true;
+        return geometry;
+    }
+
+    function createShapeGeometry(kind, size) {
+        const { width, height, depth, radius, innerRadius, cornerRadius } = size;
+        const x = width / 2, y = height / 2;
+        const path = new THREE.Shape();
+        if (kind === 'roundedRect') {
+            const r = Math.min(cornerRadius, x, y);
+            path.moveTo(-x + r, -y);
+            path.lineTo(x - r, -y);
+            path.quadraticCurveTo(x, -y, x, -y + r);
+            path.lineTo(x, y - r);
+            path.quadraticCurveTo(x, y, x - r, y);
+            path.lineTo(-x + r, y);
+            path.quadraticCurveTo(-x, y, -x, y - r);
+            path.lineTo(-x, -y + r);
+            path.quadraticCurveTo(-x, -y, -x + r, -y);
+            return createOutlineGeometry(path, width, height, depth);
+        }
+        if (kind === 'arrow') {
+            const shaft = y * 0.4;
+            const head = x - Math.min(width * 0.5, height);
+            path.moveTo(-x, -shaft);
+            path.lineTo(head, -shaft);
+            path.lineTo(head, -y);
+            path.lineTo(x, 0);
+            path.lineTo(head, y);
+            path.lineTo(head, shaft);
+            path.lineTo(-x, shaft);
+            path.closePath();
+            return createOutlineGeometry(path, width, height, depth);
+        }
+        if (kind === 'box') return new THREE.BoxGeometry(width, height, depth);
+        if (kind === 'sphere') return new THREE.SphereGeometry(radius, 48, 24);
+        if (kind === 'cylinder') return new THREE.CylinderGeometry(radius, radius, height, 48);
+        if (kind === 'ring') return new THREE.RingGeometry(Math.min(innerRadius, radius), radius, 64);
+        return new THREE.PlaneGeometry(width, height);
+    }
+
+    function createShapeMaterial(props) {
+        const material = new THREE.MeshStandardMaterial({
+            name: shapeConfig.materialName,
+            color: props.color && props.color !== 'transparent' ? props.color : '#ffffff',
+            emissive: props.emissive && props.emissive !== 'transparent' ? props.emissive : '#000000',
+            metalness: props.metalness ?? 0,
+            roughness: props.roughness ?? 1,
+            opacity: props.opacity ?? 1,
+            transparent: props.transparent ?? false,
+            wireframe: props.wireframe ?? false,
+            side: THREE.DoubleSide
+        });
+        if (props.map) {
+            material.map = new THREE.TextureLoader().load(props.map);
+            material.map.colorSpace = THREE.SRGBColorSpace;
+        }
+        return material;
+    }
+
+    // --- Text (laid out like utils/textUtils.ts) ---
+    function wrapTextLines(text, maxWidth, measure) {
+        return text.split('\\n').flatMap(paragraph => {
+            if (!maxWidth) return [paragraph];
+            const lines = [];
+            let line = '';
+            paragraph.split(' ').forEach(word => {
+                const candidate = line ? line + ' ' + word : word;
+                if (line && measure(candidate) > maxWidth) {
+                    lines.push(line);
+                    line = word;
+                } else {
+                    line = candidate;
+                }
+            });
+            lines.push(line);
+            return lines;
+        });
+    }
+
+    // Each line also counts the space or line break it ends with
+    function sliceTextLines(lines, length) {
+        let remaining = length;
+        return lines.map(line => {
+            const visible = line.slice(0, Math.max(0, remaining));
+            remaining -= line.length + 1;
+            return visible;
+        });
+    }
+
+    const textFonts = new Map();
+    function loadTextFont(url) {
+        if (!textFonts.has(url)) textFonts.set(url, new TTFLoader().loadAsync(url).then(json => new FontLoader().parse(json)));
+        return textFonts.get(url);
+    }
+
+    function createExtrudedTextGeometry(font, text, layout, length) {
+        // TTFLoader fonts are 1000/72 units per em, so this size gives the layout's em
+        const size = layout.fontSize * 0.72;
+        const scale = size / font.data.resolution;
+        const glyphs = font.data.glyphs;
+        const measure = line => Array.from(line).reduce((width, char) => width + ((glyphs[char] || glyphs['?'] || {}).ha || 0) * scale, 0);
+
+        const lines = wrapTextLines(text, layout.maxWidth, measure);
+        const lineBox = layout.fontSize * layout.lineHeight;
+        const ascender = font.data.ascender * scale;
+        const halfLeading = (lineBox - (font.data.ascender - font.data.descender) * scale) / 2;
+        const top = lines.length * lineBox / 2;
+
+        const geometries = sliceTextLines(lines, length).flatMap((visible, i) => {
+            if (!visible.trim()) return [];
+            const width = measure(lines[i]);
+            const x = layout.align === 'left' ? 0 : layout.align === 'right' ? -width : -width / 2;
+            const y = top - i * lineBox - halfLeading - ascender;
+            const geometry = new THREE.ExtrudeGeometry(font.generateShapes(visible, size), {
+                depth: layout.depth,
+                bevelEnabled: layout.bevel > 0,
+                bevelSize: layout.bevel,
+                bevelThickness: layout.bevel,
+                curveSegments: 6
+            });
+            return [geometry.translate(x, y, -layout.depth / 2)];
+        });
+
+        const merged = geometries.length ? mergeGeometries(geometries) : new THREE.BufferGeometry();
+        geometries.forEach(geometry => geometry.dispose());
+        return merged;
+    }
+
+    // Rich text canvas (drawn like utils/richTextUtils.ts)
+    function layoutTextCanvas(spans, layout, style) {
+        const size = textConfig.canvasFontSize;
+        const unit = layout.fontSize / size;
+        const maxWidth = layout.maxWidth / unit;
+        const ctx = document.createElement('canvas').getContext('2d');
+
+        // Paragraphs of words; a word is its pieces up to and including the spaces after it
+        const paragraphs = [[[]]];
+        let index = 0;
+        spans.forEach(span => {
+            const font = (span.italic ? 'italic ' : '') + (span.bold ? 'bold ' : '') + size + 'px ' + style.fontFamily;
+            ctx.font = font;
+            span.text.split(/(\\n| +)/).forEach(part => {
+                if (!part) return;
+                const words = paragraphs[paragraphs.length - 1];
+                if (part === '\\n') {
+                    paragraphs.push([[]]);
+                } else {
+                    const space = part[0] === ' ';
+                    words[words.length - 1].push({
+                        text: part, start: index, x: 0, y: 0, width: ctx.measureText(part).width, font,
+                        color: span.color || (span.link ? textConfig.linkColor : style.color), link: span.link, space
+                    });
+                    if (space) words.push([]);
+                }
+                index += part.length;
+            });
+        });
+
+        // Line widths leave out the spaces they end with
+        const lines = [];
+        paragraphs.forEach(words => {
+            let pieces = [];
+            let width = 0;
+            let inkWidth = 0;
+            words.forEach(word => {
+                const wordWidth = word.reduce((sum, piece) => sum + piece.width, 0);
+                const trailing = word.length && word[word.length - 1].space ? word[word.length - 1].width : 0;
+                if (pieces.length && maxWidth && width + wordWidth - trailing > maxWidth) {
+                    lines.push({ pieces, width: inkWidth });
+                    pieces = [];
+                    width = 0;
+                }
+                inkWidth = width + wordWidth - trailing;
+                width += wordWidth;
+                pieces.push(...word);
+            });
+            lines.push({ pieces, width: inkWidth });
+        });
+
+        const outline = style.outlineWidth / 100 * size;
+        const padding = Math.ceil(outline) + 2;
+        const lineHeight = size * layout.lineHeight;
+        const width = Math.max(1, Math.ceil(Math.max(0, ...lines.map(line => line.width))) + padding * 2);
+        const height = Math.max(1, Math.ceil(lines.length * lineHeight) + padding * 2);
+
+        const runs = lines.flatMap((line, i) => {
+            let x = layout.align === 'left' ? padding : layout.align === 'right' ? width - padding - line.width : (width - line.width) / 2;
+            const y = padding + (i + 0.5) * lineHeight;
+            return line.pieces.map(piece => {
+                const run = { ...piece, x, y };
+                x += piece.width;
+                return run;
+            });
+        });
+
+        return { width, height, lineHeight, outline, padding, unit, align: layout.align, runs };
+    }
+
+    function drawTextCanvas(canvas, textLayout, style, length) {
+        const ctx = canvas.getContext('2d');
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.textBaseline = 'middle';
+        ctx.textAlign = 'left';
+        ctx.lineJoin = 'round';
+
+        const visible = textLayout.runs
+            .map(run => ({ run, text: run.text.slice(0, Math.max(0, length - run.start)) }))
+            .filter(({ text }) => text.trim());
+
+        // Every outline first, so it never covers the neighbouring run
+        if (textLayout.outline > 0) {
+            ctx.strokeStyle = style.outlineColor;
+            ctx.lineWidth = textLayout.outline * 2;
+            visible.forEach(({ run, text }) => {
+                ctx.font = run.font;
+                ctx.strokeText(text, run.x, run.y);
+            });
+        }
+
+        const size = textConfig.canvasFontSize;
+        visible.forEach(({ run, text }) => {
+            ctx.font = run.font;
+            ctx.fillStyle = run.color;
+            ctx.fillText(text, run.x, run.y);
+            if (run.link) ctx.fillRect(run.x, run.y + size * 0.35, ctx.measureText(text).width, size * 0.06);
+        });
+    }
+
+    // Anchored on the left edge, center or right edge of the text, centered vertically
+    function createTextPlane(textLayout) {
+        const { unit, padding, align } = textLayout;
+        const width = textLayout.width * unit;
+        const geometry = new THREE.PlaneGeometry(width, textLayout.height * unit);
+        if (align === 'left') geometry.translate(width / 2 - padding * unit, 0, 0);
+        else if (align === 'right') geometry.translate(padding * unit - width / 2, 0, 0);
+        return geometry;
+    }
+
+    function findTextLink(textLayout, uv) {
+        const x = uv.x * textLayout.width;
+        const y = (1 - uv.y) * textLayout.height;
+        const run = textLayout.runs.find(r => r.link && x >= r.x && x <= r.x + r.width && Math.abs(y - r.y) <= textLayout.lineHeight / 2);
+        return run ? run.link : null;
+    }
+
+    const fontFaces = new Map();
+    function loadFontFace(font) {
+        if (!fontFaces.has(font.family)) {
+            fontFaces.set(font.family, new FontFace(font.family, 'url(' + font.url + ')').load().then(face => { document.fonts.add(face); }));
+        }
+        return fontFaces.get(font.family);
+    }
+
+    // --- Audio Playlists (played like utils/playlistUtils.ts) ---
+    function createAudioPlaylist(audio, tracks, options, events) {
+        let index = 0;
+        let loop = options.loop;
+        let active = [];
+
+        const setActive = (cues) => {
+            const exited = active.filter(cue => !cues.includes(cue));
+            const entered = cues.filter(cue => !active.includes(cue));
+            if (!exited.length && !entered.length) return;
+            active = cues;
+            exited.forEach(cue => events.onCueExit(index, cue));
+            entered.forEach(cue => events.onCueEnter(index, cue));
+            events.onCuesChange(active);
+        };
+
+        const load = (next) => {
+            setActive([]);
+            index = next;
+            const url = tracks[index] ? tracks[index].url : '';
+            if (audio.getAttribute('src') !== url) audio.src = url;
+            else audio.currentTime = 0;
+            audio.loop = loop && tracks.length === 1;
+        };
+
+        const play = () => audio.play().catch(e => debugLog('WARN', 'AUDIO', 'Playback blocked', { error: e.message }));
+
+        const playTrack = (next) => {
+            if (!tracks.length) return;
+            load(Math.min(tracks.length - 1, Math.max(0, Math.floor(next))));
+            play();
+        };
+
+        // onEnded may start another clip itself
+        audio.addEventListener('ended', () => {
+            const ended = index;
+            setActive([]);
+            events.onEnded(ended);
+            if (index !== ended || !audio.paused) return;
+            if (options.autoAdvance && ended < tracks.length - 1) playTrack(ended + 1);
+            else if (loop && tracks.length > 1) playTrack(options.autoAdvance ? 0 : ended);
+        });
+        load(0);
+
+        return {
+            play,
+            pause: () => audio.pause(),
+            stop: () => { audio.pause(); audio.currentTime = 0; setActive([]); },
+            isPlaying: () => !audio.paused,
+            seekTo: (seconds) => { audio.currentTime = seconds; },
+            setVolume: (volume) => { audio.volume = volume; },
+            setMuted: (muted) => { audio.muted = muted; },
+            setLoop: (value) => { loop = value; audio.loop = loop && tracks.length === 1; },
+            next: () => {
+                if (index < tracks.length - 1) playTrack(index + 1);
+                else if (loop) playTrack(0);
+            },
+            previous: () => playTrack(audio.currentTime > 3 || index === 0 ? index : index - 1),
+            playTrack,
+            getTrack: () => index,
+            getTrackCount: () => tracks.length,
+            update: () => {
+                const time = audio.currentTime;
+                const cues = tracks[index] ? tracks[index].cues : [];
+                const current = cues.filter(cue => time >= cue.start && time < cue.end);
+                if (current.length !== active.length || current.some((cue, i) => cue !== active[i])) setActive(current);
+            }
+        };
+    }
+
+    // Over the bottom of the view
+    function createSubtitleOverlay(container) {
+        const element = document.createElement('div');
+        Object.assign(element.style, {
+            position: 'absolute', left: '50%', bottom: '8%', transform: 'translateX(-50%)', maxWidth: '80%',
+            padding: '6px 12px', borderRadius: '6px', background: 'rgba(0, 0, 0, 0.7)', color: '#ffffff',
+            font: '16px/1.4 sans-serif', textAlign: 'center', whiteSpace: 'pre-line', pointerEvents: 'none', zIndex: '20', display: 'none'
+        });
+        container.appendChild(element);
+        return {
+            setText: (text) => {
+                element.textContent = text;
+                element.style.display = text ? 'block' : 'none';
+            }
+        };
+    }
+
+    // Flat text under the content, in the default font
+    function createSubtitleText(parent) {
+        const { font, layout, style, offsetY } = subtitleConfig;
+        const material = new THREE.MeshBasicMaterial({ transparent: true, side: THREE.DoubleSide, toneMapped: false, depthWrite: false });
+        const mesh = new THREE.Mesh(new THREE.BufferGeometry(), material);
+        mesh.position.y = offsetY;
+        parent.add(mesh);
+        let text = '';
+
+        const draw = () => {
+            mesh.visible = !!text;
+            if (!text) return;
+            const textLayout = layoutTextCanvas([{ text, bold: false, italic: false }], layout, style);
+            const canvas = document.createElement('canvas');
+            canvas.width = textLayout.width;
+            canvas.height = textLayout.height;
+            drawTextCanvas(canvas, textLayout, style, text.length);
+            if (material.map) material.map.dispose();
+            material.map = new THREE.CanvasTexture(canvas);
+            material.map.colorSpace = THREE.SRGBColorSpace;
+            material.needsUpdate = true;
+            mesh.geometry.dispose();
+            mesh.geometry = createTextPlane(textLayout);
+        };
+
+        // Drawn again once the font is in, as the first cues may come before it
+        loadFontFace(font).catch(e => debugLog('WARN', 'AUDIO', 'Subtitle font failed to load, using a fallback', { error: e.message })).then(draw);
+
+        return {
+            setText: (value) => {
+                if (value === text) return;
+                text = value;
+                draw();
+            }
+        };
+    }
+
+    function createSubtitleDisplay(mode, container, parent) {
+        if (mode === 'overlay' && container) return createSubtitleOverlay(container);
+        if (mode === 'text') return createSubtitleText(parent);
+        return null;
+    }
+
+    // --- Spatial Audio (same distances as utils/audioUtils.ts) ---
+    const audioScale = new THREE.Vector3();
+    function updateSpatialAudio(audio, settings) {
+        audio.getWorldScale(audioScale);
+        const unit = Math.max(Math.abs(audioScale.x), Math.abs(audioScale.y), Math.abs(audioScale.z)) || 1;
+        const panner = audio.panner;
+        if (panner.distanceModel !== settings.distanceModel) panner.distanceModel = settings.distanceModel;
+        if (panner.refDistance !== settings.refDistance * unit) panner.refDistance = settings.refDistance * unit;
+        if (panner.maxDistance !== settings.maxDistance * unit) panner.maxDistance = settings.maxDistance * unit;
+        if (panner.rolloffFactor !== settings.rolloff) panner.rolloffFactor = settings.rolloff;
+        if (panner.coneInnerAngle !== settings.coneInner) panner.coneInnerAngle = settings.coneInner;
+        if (panner.coneOuterAngle !== settings.coneOuter) panner.coneOuterAngle = settings.coneOuter;
+        if (panner.coneOuterGain !== settings.coneOuterGain) panner.coneOuterGain = settings.coneOuterGain;
+    }
+
+    // --- Scene Lights (built like utils/lightingUtils.ts, in the same frame as the contents) ---
+    class SceneLight {
+        constructor(data, anchor, scene) {
+            this.data = data;
+            this.anchor = anchor;
+            this.scene = scene;
+            this.group = new THREE.Group();
+            this.group.scale.set(0.1, 0.1, 0.1);
+            this.group.rotation.set(Math.PI / 2, 0, 0);
+            anchor.group.add(this.group);
+
+            const color = new THREE.Color(data.color);
+            if (data.type === 'ambient') {
+                this.light = new THREE.AmbientLight(color, data.intensity);
+            } else if (data.type === 'hemisphere') {
+                // Lit from the direction of its position in world space, so it lives in the scene and turns with the target
+                this.light = new THREE.HemisphereLight(color, new THREE.Color(data.groundColor || '#ffffff'), data.intensity);
+                this.skyDirection = new THREE.Vector3(...(data.position || [0, 1, 0])).normalize();
+                this.light.visible = false;
+                scene.add(this.light);
+                return;
+            } else if (data.type === 'directional') {
+                this.light = new THREE.DirectionalLight(color, data.intensity);
+                this.group.add(this.light.target);
+            } else if (data.type === 'point') {
+                this.light = new THREE.PointLight(color, data.intensity, data.distance || 0);
+            } else {
+                this.light = new THREE.SpotLight(color, data.intensity, data.distance || 0, THREE.MathUtils.degToRad(data.angle || lightingConfig.defaultSpotAngle));
+                this.group.add(this.light.target);
+            }
+            if (data.position) this.light.position.set(data.position[0], data.position[1], data.position[2]);
+            if (data.castShadow && this.light.shadow) {
+                this.light.castShadow = true;
+                this.light.shadow.mapSize.set(lightingConfig.shadow.mapSize, lightingConfig.shadow.mapSize);
+                this.light.shadow.bias = lightingConfig.shadow.bias;
+            }
+            this.group.add(this.light);
+        }
+
+        // Falloff and shadow cameras are in world units, while the editor's are in target units
+        update() {
+            const scale = this.group.getWorldScale(new THREE.Vector3()).x;
+            if (this.data.type === 'hemisphere') {
+                this.light.visible = this.anchor.group.visible;
+                this.light.position.copy(this.skyDirection).transformDirection(this.group.matrixWorld);
+                return;
+            }
+            if (this.data.type === 'point' || this.data.type === 'spot') {
+                this.light.intensity = this.data.intensity * scale * scale;
+                this.light.distance = (this.data.distance || 0) * scale;
+            }
+            if (this.light.castShadow) {
+                const camera = this.light.shadow.camera;
+                if (this.data.type === 'directional') {
+                    camera.left = camera.bottom = -lightingConfig.shadow.cameraSize * scale;
+                    camera.right = camera.top = lightingConfig.shadow.cameraSize * scale;
+                }
+                camera.near = lightingConfig.shadow.near * scale;
+                camera.far = lightingConfig.shadow.far * scale;
+                camera.updateProjectionMatrix();
+            }
+        }
+    }
+
+    // --- Environment Map (same prefiltering as utils/environmentUtils.ts) ---
+    async function createEnvironmentMap(renderer, environment) {
+        const loader = environment.format === 'exr' ? new EXRLoader() : new RGBELoader();
+        const texture = await loader.loadAsync(environment.url);
+        const material = new THREE.MeshBasicMaterial({ map: texture, side: THREE.BackSide, toneMapped: false });
+        material.color.setScalar(Math.max(0, environment.intensity));
+        const sky = new THREE.Mesh(new THREE.SphereGeometry(10, 64, 32), material);
+        sky.scale.x = -1;
+        sky.rotation.y = Math.PI + THREE.MathUtils.degToRad(environment.rotation);
+        const scene = new THREE.Scene();
+        scene.add(sky);
+        const generator = new THREE.PMREMGenerator(renderer);
+        const renderTarget = generator.fromScene(scene, 0, 0.1, 20);
+        generator.dispose();
+        sky.geometry.dispose();
+        material.dispose();
+        texture.dispose();
+        return renderTarget;
+    }
+
+    // --- Entry / Exit Animations (same catalog and curves as utils/animationUtils.ts) ---
+    const easeOutCubic = t => 1 - Math.pow(1 - t, 3);
+    const easeInCubic = t => t * t * t;
+    const easeOutBack = t => 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2);
+
+    function getContentAnimation(content, direction) {
+        const name = direction === 'in' ? content.animationIn : content.animationOut;
+        if (!name || name === 'none' || !animationConfig.ids.includes(name)) return null;
+        // Other contents have no characters to type, so they fade instead
+        if (name === 'typewriter' && content.type !== 'text') return 'fade';
+        return name;
+    }
+
+    function sampleContentAnimation(name, direction, t) {
+        const shown = direction === 'in' ? easeOutCubic(t) : 1 - easeInCubic(t);
+        const hidden = 1 - shown;
+        const d = animationConfig.slideDistance;
+        const frame = { opacity: 1, scale: 1, offset: [0, 0, 0], rotationZ: 0, textProgress: 1 };
+        switch (name) {
+            case 'fade': frame.opacity = shown; break;
+            case 'scale-pop':
+                frame.opacity = Math.min(1, shown * 2);
+                frame.scale = direction === 'in' ? Math.max(0, easeOutBack(t)) : shown;
+                break;
+            case 'slide-left': frame.opacity = shown; frame.offset = [-hidden * d, 0, 0]; break;
+            case 'slide-right': frame.opacity = shown; frame.offset = [hidden * d, 0, 0]; break;
+            case 'slide-top': frame.opacity = shown; frame.offset = [0, hidden * d, 0]; break;
+            case 'slide-bottom': frame.opacity = shown; frame.offset = [0, -hidden * d, 0]; break;
+            case 'spin-in':
+                frame.opacity = shown;
+                frame.scale = shown;
+                frame.rotationZ = -hidden * Math.PI * 2;
+                break;
+            case 'typewriter': frame.textProgress = direction === 'in' ? t : 1 - t; break;
+        }
+        return frame;
+    }
+
+    // --- Keyframe Timeline (same sampling rules as utils/timelineUtils.ts) ---
+    function applyTimelineEasing(easing, t) {
+        switch (easing) {
+            case 'linear': return t;
+            case 'easeIn': return t * t * t;
+            case 'easeOut': return 1 - Math.pow(1 - t, 3);
+            case 'step': return 0;
+            default: return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+        }
+    }
+
+    function sampleTrack(track, time) {
+        const keys = track.keyframes;
+        if (!keys || keys.length === 0) return null;
+        if (time <= keys[0].time) return keys[0].value;
+        const last = keys[keys.length - 1];
+        if (time >= last.time) return last.value;
+        let i = 0;
+        while (i < keys.length - 2 && time >= keys[i + 1].time) i++;
+        const from = keys[i];
+        const to = keys[i + 1];
+        const easing = track.property === 'visible' ? 'step' : (from.easing || 'easeInOut');
+        const t = applyTimelineEasing(easing, (time - from.time) / (to.time - from.time));
+        return from.value.map((v, n) => v + ((to.value[n] ?? v) - v) * t);
+    }
+
+    function sampleTimeline(timeline, contentId, time) {
+        const pose = {};
+        timeline.tracks.forEach(track => {
+            if (track.contentId !== contentId) return;
+            const value = sampleTrack(track, time);
+            if (!value) return;
+            if (track.property === 'opacity') pose.opacity = Math.min(1, Math.max(0, value[0] ?? 1));
+            else if (track.property === 'visible') pose.visible = (value[0] ?? 1) >= 0.5;
+            else pose[track.property] = [value[0] ?? 0, value[1] ?? 0, value[2] ?? 0];
+        });
+        return pose;
+    }
+
+    function getTimelineTime(timeline, elapsed) {
+        const duration = Math.max(0, timeline.duration);
+        if (duration === 0) return 0;
+        if (timeline.loop) return ((elapsed % duration) + duration) % duration;
+        return Math.min(duration, Math.max(0, elapsed));
+    }
+
+    // --- Script Runtime (utils/scriptRuntime.ts, embedded as-is) ---
+    // Scripts run in a worker with no access to this page; their scene calls are applied here
+    const { createScriptHub, createScriptStorage, createScriptPointer, createScriptAnimator, isSafeScriptUrl } = (${defineScriptRuntime.toString()})(${toScriptJson(SCRIPT_RUNTIME_CONFIG)});
+
     // --- Main Player Logic ---
 
     class Player {
@@ -808,6 +2256,12 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
             this.objects = []; // All content objects
             this.updatables = [];
             this.clock = new THREE.Clock();
+            // Connects the project script and the target scripts; their storage persists per visitor
+            this.hub = createScriptHub(
+                projectData.targets.map(t => t.name),
+                createScriptStorage(${toScriptJson(getScriptStorageNamespace(project))})
+            );
+            this.projectScript = null;
         }
 
         async init() {
@@ -879,12 +2333,19 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
             // However, MindAR updates the THREE camera. We just need to render CSS scene with it.
             this.cssScene = new THREE.Scene();
 
-            // Lighting
-            const light = new THREE.HemisphereLight(0xffffff, 0xbbbbff, 1);
-            this.scene.add(light);
-            const dirLight = new THREE.DirectionalLight(0xffffff, 1.5);
-            dirLight.position.set(5, 10, 7);
-            this.scene.add(dirLight);
+            // HDR environment. Models show with the scene lights only until it has loaded.
+            const environment = projectData.sceneSettings && projectData.sceneSettings.environment;
+            if (environment) {
+                createEnvironmentMap(this.renderer, environment)
+                    .then(renderTarget => { this.scene.environment = renderTarget.texture; })
+                    .catch(e => debugLog('ERROR', 'ENVIRONMENT', 'Failed to load environment map', { error: e.message }));
+            }
+
+            // Shadows as in the editor, when a light casts them
+            if (projectData.targets.some(t => t.lights.some(l => l.castShadow))) {
+                this.renderer.shadowMap.enabled = true;
+                this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+            }
             
             // Audio Listener
             this.listener = new THREE.AudioListener();
@@ -898,9 +2359,11 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
                 const targetObj = { 
                     anchor, 
                     index, 
-                    customFunctions: {}, 
-                    customData: {}, // Store script variables here
-                    objects: [] 
+                    script: null, // Sandboxed target script
+                    objects: [],
+                    timeline: (targetData.timeline && targetData.timeline.tracks.some(t => t.keyframes.length > 0)) ? targetData.timeline : null,
+                    timelineElapsed: 0,
+                    lights: targetData.lights.map(light => new SceneLight(light, anchor, this.scene))
                 };
 
                 // Create Content Objects
@@ -908,41 +2371,85 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
                     let obj;
                     if (content.type === 'image') obj = new ImageObject(content, anchor);
                     else if (content.type === 'video') obj = new VideoObject(content, anchor);
-                    else if (content.type === 'audio') obj = new AudioObject(content, anchor, this.listener);
+                    else if (content.type === 'audio' && playlists[content.id]) obj = new AudioObject(content, anchor, this.listener, document.getElementById('ui-layer'));
                     else if (content.type === 'model') obj = new ModelObject(content, anchor, gltfLoader);
+                    else if (content.type === 'occluder') obj = new OccluderObject(content, anchor, gltfLoader);
+                    else if (content.type === 'shape') obj = new ShapeObject(content, anchor);
+                    else if (content.type === 'text' && texts[content.id]) obj = new TextObject(content, anchor);
+                    else if (content.type === 'embed') obj = new EmbedObject(content, anchor, this.cssScene);
+                    else if (streamingTypes.includes(content.type)) obj = new StreamingObject(content, anchor, this.cssScene);
                     
                     if (obj) {
+                        if (content.type === 'model') {
+                            obj.onAnimationFinished = (clip) => this.dispatch(targetObj, 'onAnimationFinished', { object: obj.name, clip });
+                        } else if (content.type === 'audio') {
+                            obj.onAudioEvent = (eventName, params) => this.dispatch(targetObj, eventName, { object: obj.name, ...params });
+                        }
                         this.objects.push(obj);
                         targetObj.objects.push(obj);
                         if (obj.onUpdate) this.updatables.push(obj);
                     }
                 });
 
+                // Contents attached to a bone follow it instead of the target
+                targetObj.objects.forEach(obj => {
+                    const attachment = obj.content.attachment;
+                    if (!attachment) return;
+                    const model = targetObj.objects.find(o => o !== obj && o.content.id === attachment.modelId);
+                    if (model && model.attach) model.attach(obj, attachment.bone);
+                });
+
                 // Compile Script
                 if (targetData.script) {
-                    this.initScript(targetObj, targetData.script);
+                    this.initScript(targetObj, targetData.name, targetData.script);
                 }
                 
                 // Events
                 anchor.onTargetFound = () => {
                     debugLog('INFO', 'TRACKER', 'targetFound', { targetIndex: index });
+                    // Timelines restart from the beginning on every activation
+                    targetObj.timelineElapsed = 0;
+                    this.updateTimeline(targetObj, 0);
                     targetObj.objects.forEach(o => o.activate());
                     this.dispatch(targetObj, 'onActivate');
+                    this.hub.setTargetTracked(targetData.name, true);
                 };
                 anchor.onTargetLost = () => {
                     debugLog('INFO', 'TRACKER', 'targetLost', { targetIndex: index });
                     targetObj.objects.forEach(o => o.deactivate());
                     this.dispatch(targetObj, 'onDeactivate');
+                    this.hub.setTargetTracked(targetData.name, false);
                 };
                 
                 this.targets.push(targetObj);
             });
+
+            // The project script runs for the whole experience and has no contents of its own
+            if (projectData.script) {
+                this.projectScript = { objects: [], script: null };
+                this.initScript(this.projectScript, '', projectData.script);
+            }
             
             // Raycaster
             this.raycaster = new THREE.Raycaster();
             this.pointer = new THREE.Vector2();
             window.addEventListener('click', (e) => this.onClick(e));
 
+            // Pointer, hover and drag events for the scripts
+            this.scriptPointer = createScriptPointer(this.container, {
+                pick: (screen) => this.pick(screen),
+                projectToTarget: (targetObj, screen, depth) => {
+                    const group = targetObj.anchor.group;
+                    const normal = new THREE.Vector3(0, 0, 1).transformDirection(group.matrixWorld);
+                    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(normal, group.localToWorld(new THREE.Vector3(0, 0, depth)));
+                    this.pointer.set(screen.x * 2 - 1, -screen.y * 2 + 1);
+                    this.raycaster.setFromCamera(this.pointer, this.camera);
+                    const hit = this.raycaster.ray.intersectPlane(plane, new THREE.Vector3());
+                    return hit ? group.worldToLocal(hit).toArray() : null;
+                },
+                dispatch: (targetObj, eventName, params) => this.dispatch(targetObj, eventName, params)
+            });
+
             // Start MindAR - this is where camera access happens
             debugLog('INFO', 'CAMERA', 'Requesting camera access...', {});
             try {
@@ -965,12 +2472,22 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
             
             // Trigger Init
             this.targets.forEach(t => this.dispatch(t, 'onInit'));
+            if (this.projectScript) this.dispatch(this.projectScript, 'onInit');
         }
 
         renderLoop() {
             const delta = this.clock.getDelta();
             const elapsed = this.clock.getElapsedTime();
             
+            // Timeline, then entry/exit animations on top of it.
+            // A lost target stays on screen at its last pose until its exit animations end.
+            this.targets.forEach(t => {
+                if (t.anchor.visible) this.updateTimeline(t, delta);
+                t.objects.forEach(o => o.updateAnimation(delta));
+                if (!t.anchor.visible) t.anchor.group.visible = t.objects.some(o => o.isAnimating());
+                t.lights.forEach(l => l.update());
+            });
+            
             this.updatables.forEach(o => o.onUpdate(delta));
             
             // Trigger onUpdate scripts
@@ -979,12 +2496,53 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
                     this.dispatch(t, 'onUpdate', { time: elapsed, deltaTime: delta });
                 }
             });
+            if (this.projectScript) this.dispatch(this.projectScript, 'onUpdate', { time: elapsed, deltaTime: delta });
 
             this.renderer.render(this.scene, this.camera);
             this.cssRenderer.render(this.cssScene, this.camera);
         }
 
+        updateTimeline(targetObj, deltaTime) {
+            if (!targetObj.timeline) return;
+            targetObj.timelineElapsed += deltaTime;
+            const time = getTimelineTime(targetObj.timeline, targetObj.timelineElapsed);
+            targetObj.objects.forEach(o => {
+                if (targetObj.timeline.tracks.some(t => t.contentId === o.content.id)) {
+                    o.applyTimelinePose(sampleTimeline(targetObj.timeline, o.content.id, time));
+                }
+            });
+        }
+
+        // Nearest shown content under a point of the view (0 to 1 from the top left), in its target's space
+        pick(screen, targetObj = null) {
+            this.pointer.set(screen.x * 2 - 1, -screen.y * 2 + 1);
+            this.raycaster.setFromCamera(this.pointer, this.camera);
+            const targets = targetObj ? [targetObj] : this.targets;
+            const intersects = this.raycaster.intersectObjects(targets.map(t => t.anchor.group), true);
+            for (const intersect of intersects) {
+                let obj = intersect.object;
+                let shown = true;
+                while (obj && !obj.userData.contentObject) {
+                    shown = shown && obj.visible;
+                    obj = obj.parent;
+                }
+                if (!obj) continue;
+                const owner = targets.find(t => t.objects.includes(obj.userData.contentObject));
+                for (let o = obj; o; o = o.parent) shown = shown && o.visible;
+                if (!owner || !shown) continue;
+                return {
+                    owner,
+                    object: obj.userData.contentObject.name,
+                    point: owner.anchor.group.worldToLocal(intersect.point.clone()).toArray(),
+                    distance: intersect.distance
+                };
+            }
+            return null;
+        }
+
         onClick(event) {
+            // The end of a drag or long press is not a click
+            if (!this.scriptPointer.isClick()) return;
             this.pointer.x = (event.clientX / window.innerWidth) * 2 - 1;
             this.pointer.y = -(event.clientY / window.innerHeight) * 2 + 1;
             
@@ -1005,59 +2563,39 @@ export const generatePapARHtml = (project: Project, localAssetMap?: Map<string,
                 }
                 
                 if (contentObj) {
-                    contentObj.onClick();
+                    contentObj.onClick(intersects[0]);
                     // Dispatch to script
                     // Find which target owns this object
                     const target = this.targets.find(t => t.objects.includes(contentObj));
                     if (target) {
-                         this.dispatch(target, 'onClick', { object: contentObj.getScriptWrapper() });
+                         this.dispatch(target, 'onClick', { object: contentObj.name, time: this.clock.elapsedTime });
                     }
                 }
             }
         }
 
-        initScript(targetObj, script) {
-            const eventList = ['onInit', 'onActivate', 'onDeactivate', 'onUpdate', 'onClick'];
-            let scriptWrapResultObj = {};
-            eventList.forEach((key) => { scriptWrapResultObj[key] = key; });
-            let scriptWrapParams = eventList.join(',');
-            let scriptWrapResult = JSON.stringify(scriptWrapResultObj).replace(/\"/g, '');
-
-            try {
-                const functions = (new Function(scriptWrapParams, script + '\\nreturn ' + scriptWrapResult + ';'))();
-                targetObj.customFunctions = functions;
-            } catch (e) {
-                console.error("Script compilation error:", e);
-            }
+        initScript(targetObj, name, script) {
+            targetObj.script = this.hub.createRuntime(name, script, {
+                getObjects: () => targetObj.objects.map(o => o.getScriptDriver()),
+                captureScreen: () => console.warn('captureScreen is not available in the exported viewer'),
+                openUrl: (url) => window.open(url, '_blank'),
+                raycast: targetObj.anchor ? (x, y) => this.pick({ x, y }, targetObj) : undefined,
+                onError: (message, eventName, at) => console.error("Runtime script error (" + (name || 'project script') + ", " + eventName + (at ? ", line " + at.line : "") + "):", message)
+            });
         }
 
         dispatch(targetObj, eventName, extra = {}) {
-            if (targetObj.customFunctions[eventName]) {
-                const sceneObject = {
-                    getObject: (name) => {
-                        const found = targetObj.objects.find(o => o.name === name);
-                        return found ? found.getScriptWrapper() : null;
-                    },
-                    openUrl: (url) => window.open(url, '_blank')
-                };
-
-                const params = {
-                    target: sceneObject,
-                    data: targetObj.customData,
-                    ...extra
-                };
-                
-                try {
-                    targetObj.customFunctions[eventName](params);
-                } catch(e) {
-                    console.error("Runtime script error (" + eventName + "):", e);
-                }
-            }
+            if (targetObj.script) targetObj.script.dispatch(eventName, extra);
         }
     }
 
     const player = new Player();
-    startBtn.addEventListener('click', () => player.init());
+    startBtn.addEventListener('click', () => {
+        // Browsers keep audio contexts suspended until a user gesture, and spatial audio plays
+        // through the one shared context; init() awaits too long to still count as the gesture
+        THREE.AudioContext.getContext().resume();
+        player.init();
+    });
 
   </script>
 </body>
@@ -1124,6 +2662,9 @@ export const generateProjectZip = async (
 ): Promise<Blob> => {
     if (signal?.aborted) throw new Error("Aborted");
 
+    // Scripts are exported as JavaScript, both for the viewer and the AR script JSON
+    project = await compileProjectScripts(project);
+
     const zip = new JSZip();
     const assetsFolder = zip.folder("assets");
     const targetsFolder = zip.folder("targets");
@@ -1154,10 +2695,15 @@ export const generateProjectZip = async (
             let ext = defaultExt;
             if (url.startsWith('data:')) {
                  const type = url.split(';')[0].split(':')[1];
-                 if(type.includes('png')) ext = 'png';
-                 if(type.includes('jpeg')) ext = 'jpg';
-                 if(type.includes('mpeg') || type.includes('mp4')) ext = 'mp4';
-                 if(type.includes('audio')) ext = 'mp3';
+                 // Audio first, or audio/webm and audio/mp4 would be saved as video
+                 if(type.startsWith('audio/')) {
+                     ext = AUDIO_EXTENSIONS[type] || 'mp3';
+                 } else {
+                     if(type.includes('png')) ext = 'png';
+                     if(type.includes('jpeg')) ext = 'jpg';
+                     if(type.includes('mpeg') || type.includes('mp4')) ext = 'mp4';
+                     if(type.includes('webm')) ext = 'webm';
+                 }
             } else {
                  const urlParts = url.split('.');
                  if (urlParts.length > 1) {
@@ -1187,14 +2733,25 @@ export const generateProjectZip = async (
                 assetPromises.push(fetchAndAddAsset(content.imageUrl, content.id, 'png'));
             } else if (content.type === ContentType.VIDEO && content.videoUrl && !content.streamingService) {
                 assetPromises.push(fetchAndAddAsset(content.videoUrl, content.id, 'mp4'));
-            } else if (content.type === ContentType.AUDIO && content.audioUrl) {
-                assetPromises.push(fetchAndAddAsset(content.audioUrl, content.id, 'mp3'));
-            } else if (content.type === ContentType.MODEL && content.modelUrl) {
+            } else if (content.type === ContentType.AUDIO) {
+                getAudioTracks(content).forEach((track, index) => assetPromises.push(fetchAndAddAsset(track.url, getAudioAssetKey(content, track, index), 'mp3')));
+            } else if ((content.type === ContentType.MODEL || (content.type === ContentType.OCCLUDER && content.occluderShape === 'model')) && content.modelUrl) {
                 assetPromises.push(fetchAndAddAsset(content.modelUrl, content.id, 'glb'));
             }
         }
     }
 
+    // Uploaded fonts, once each however many texts use them
+    const fontAssetIds = new Set(project.targets.flatMap(t => t.contents).map(c => c.type === ContentType.TEXT ? c.fontAssetId : undefined));
+    (project.assets ?? []).forEach(asset => {
+        if (asset.type === 'font' && fontAssetIds.has(asset.id)) assetPromises.push(fetchAndAddAsset(asset.url, asset.id, 'ttf'));
+    });
+
+    const environment = project.sceneSettings?.environment;
+    if (environment) {
+        assetPromises.push(fetchAndAddAsset(environment.url, ENVIRONMENT_ASSET_KEY, environment.format));
+    }
+
     await Promise.all(assetPromises);
     if (signal?.aborted) throw new Error("Aborted");
 
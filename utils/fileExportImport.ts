@@ -50,7 +50,7 @@ export const exportProjectToZip = async (
       if (content.type === 'audio' && content.audioUrl && !content.audioUrl.startsWith('data:')) {
         assetUrls.push({ url: content.audioUrl, id: content.id, type: 'audio' });
       }
-      if (content.type === 'model' && content.modelUrl && !content.modelUrl.startsWith('data:')) {
+      if ((content.type === 'model' || content.type === 'occluder') && content.modelUrl && !content.modelUrl.startsWith('data:')) {
         assetUrls.push({ url: content.modelUrl, id: content.id, type: 'model' });
       }
     }
@@ -200,7 +200,7 @@ export const importProjectFromZip = async (
           if (content.type === 'image') content.imageUrl = localUrl;
           if (content.type === 'video') content.videoUrl = localUrl;
           if (content.type === 'audio') content.audioUrl = localUrl;
-          if (content.type === 'model') content.modelUrl = localUrl;
+          if (content.type === 'model' || content.type === 'occluder') content.modelUrl = localUrl;
         }
       }
     }
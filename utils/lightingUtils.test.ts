@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { SceneLight } from '../types';
+import {
+  DEFAULT_SCENE_SETTINGS,
+  DEFAULT_SPOT_ANGLE,
+  SHADOW_CONFIG,
+  buildSceneLight,
+  canCastShadow,
+  createSceneLight,
+  getSceneLights,
+  hasShadows,
+} from './lightingUtils';
+
+const light = (extra: Partial<SceneLight> & Pick<SceneLight, 'type'>): SceneLight => ({ id: 'l', color: '#ffffff', intensity: 1, ...extra });
+
+const findLight = (group: THREE.Group) => group.children.find((child): child is THREE.Light => (child as THREE.Light).isLight)!;
+
+describe('getSceneLights', () => {
+  it('prefers the target lights over the project lights', () => {
+    const own = [light({ type: 'point' })];
+    const project = { ...DEFAULT_SCENE_SETTINGS, lights: [light({ type: 'ambient' })] };
+    expect(getSceneLights(project, { lights: own })).toBe(own);
+    expect(getSceneLights(project, {})).toBe(project.lights);
+  });
+
+  it('falls back to the default lights for older projects', () => {
+    expect(getSceneLights(undefined)).toBe(DEFAULT_SCENE_SETTINGS.lights);
+  });
+});
+
+describe('createSceneLight', () => {
+  it('starts from the defaults of the light type', () => {
+    expect(createSceneLight('spot')).toMatchObject({ type: 'spot', angle: DEFAULT_SPOT_ANGLE, castShadow: false });
+    expect(createSceneLight('hemisphere').groundColor).toBeDefined();
+  });
+});
+
+describe('shadows', () => {
+  it('are only cast by directional, point and spot lights', () => {
+    expect(canCastShadow(light({ type: 'ambient', castShadow: true }))).toBe(false);
+    expect(canCastShadow(light({ type: 'spot' }))).toBe(true);
+    expect(hasShadows([light({ type: 'hemisphere', castShadow: true }), light({ type: 'point' })])).toBe(false);
+    expect(hasShadows([light({ type: 'directional', castShadow: true })])).toBe(true);
+  });
+});
+
+describe('buildSceneLight', () => {
+  it('builds the three.js light of each type', () => {
+    expect(findLight(buildSceneLight(light({ type: 'ambient' })))).toBeInstanceOf(THREE.AmbientLight);
+    expect(findLight(buildSceneLight(light({ type: 'hemisphere', groundColor: '#000000' })))).toBeInstanceOf(THREE.HemisphereLight);
+    expect(findLight(buildSceneLight(light({ type: 'point', distance: 4 })))).toMatchObject({ distance: 4 });
+  });
+
+  it('adds the aim point of directional and spot lights', () => {
+    const group = buildSceneLight(light({ type: 'spot', position: [0, 0, 2], angle: 45 }));
+    const spot = findLight(group) as THREE.SpotLight;
+    expect(spot.position.toArray()).toEqual([0, 0, 2]);
+    expect(spot.angle).toBeCloseTo(Math.PI / 4);
+    expect(group.children).toContain(spot.target);
+  });
+
+  it('sets up the shadow camera of lights casting shadows', () => {
+    const directional = findLight(buildSceneLight(light({ type: 'directional', castShadow: true }))) as THREE.DirectionalLight;
+    expect(directional.castShadow).toBe(true);
+    expect(directional.shadow.mapSize.x).toBe(SHADOW_CONFIG.mapSize);
+    expect(directional.shadow.camera.right).toBe(SHADOW_CONFIG.cameraSize);
+    expect(directional.shadow.camera.far).toBe(SHADOW_CONFIG.far);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Scene lights of a project, as the editor and the Player build them.
+ * The exported viewer builds the same lights from the project JSON (see utils/exportUtils.ts).
+ */
+
+import * as THREE from 'three';
+import { SceneLight, SceneLightType, SceneSettings, Target } from '../types';
+
+export const LIGHT_TYPES: { id: SceneLightType; label: string }[] = [
+  { id: 'ambient', label: 'Ambient' },
+  { id: 'hemisphere', label: 'Hemisphere' },
+  { id: 'directional', label: 'Directional' },
+  { id: 'point', label: 'Point' },
+  { id: 'spot', label: 'Spot' },
+];
+
+// Lights of projects saved before lighting was stored with the project
+export const DEFAULT_SCENE_SETTINGS: SceneSettings = {
+  lights: [
+    { id: 'light_ambient', type: 'ambient', color: '#ffffff', intensity: 0.8 },
+    { id: 'light_directional', type: 'directional', color: '#ffffff', intensity: 1.5, position: [10, 10, 5], castShadow: false },
+  ],
+  showGrid: true,
+  showAxes: true,
+};
+
+/**
+ * Shadow map settings, in scene units. The shadow camera of directional lights covers
+ * `cameraSize` units around the target's center, which holds any content near the target.
+ */
+export const SHADOW_CONFIG = {
+  mapSize: 1024,
+  cameraSize: 2,
+  near: 0.1,
+  far: 50,
+  bias: -0.0005,
+};
+
+export const DEFAULT_SPOT_ANGLE = 30;
+
+const NEW_LIGHTS: Record<SceneLightType, Omit<SceneLight, 'id'>> = {
+  ambient: { type: 'ambient', color: '#ffffff', intensity: 0.5 },
+  hemisphere: { type: 'hemisphere', color: '#ffffff', groundColor: '#bbbbff', intensity: 1, position: [0, 1, 0] },
+  directional: { type: 'directional', color: '#ffffff', intensity: 1, position: [10, 10, 5], castShadow: false },
+  point: { type: 'point', color: '#ffffff', intensity: 1, position: [0, 0, 1], distance: 0, castShadow: false },
+  spot: { type: 'spot', color: '#ffffff', intensity: 3, position: [0, 0, 2], distance: 0, angle: DEFAULT_SPOT_ANGLE, castShadow: false },
+};
+
+export const createSceneLight = (type: SceneLightType): SceneLight => ({
+  ...NEW_LIGHTS[type],
+  id: `light_${Date.now()}`,
+});
+
+/**
+ * Lights shining on a target: its own, or the project's.
+ */
+export const getSceneLights = (settings: SceneSettings | undefined, target?: Pick<Target, 'lights'>): SceneLight[] =>
+  target?.lights ?? (settings ?? DEFAULT_SCENE_SETTINGS).lights;
+
+export const canCastShadow = (light: SceneLight): boolean =>
+  light.type === 'directional' || light.type === 'point' || light.type === 'spot';
+
+export const hasShadows = (lights: SceneLight[]): boolean =>
+  lights.some(light => canCastShadow(light) && light.castShadow);
+
+/**
+ * Build a light for a three.js scene whose origin is the target's center.
+ * Directional and spot lights come with their aim point, so the returned group holds both.
+ */
+export const buildSceneLight = (light: SceneLight): THREE.Group => {
+  const group = new THREE.Group();
+  const color = new THREE.Color(light.color);
+  let object: THREE.Light;
+
+  switch (light.type) {
+    case 'ambient':
+      object = new THREE.AmbientLight(color, light.intensity);
+      break;
+    case 'hemisphere':
+      object = new THREE.HemisphereLight(color, new THREE.Color(light.groundColor ?? '#ffffff'), light.intensity);
+      break;
+    case 'directional': {
+      const directional = new THREE.DirectionalLight(color, light.intensity);
+      const { camera } = directional.shadow;
+      camera.left = camera.bottom = -SHADOW_CONFIG.cameraSize;
+      camera.right = camera.top = SHADOW_CONFIG.cameraSize;
+      group.add(directional.target);
+      object = directional;
+      break;
+    }
+    case 'point':
+      object = new THREE.PointLight(color, light.intensity, light.distance ?? 0);
+      break;
+    case 'spot': {
+      const spot = new THREE.SpotLight(color, light.intensity, light.distance ?? 0, THREE.MathUtils.degToRad(light.angle ?? DEFAULT_SPOT_ANGLE));
+      group.add(spot.target);
+      object = spot;
+      break;
+    }
+  }
+
+  if (light.position) object.position.set(...light.position);
+  if (canCastShadow(light) && light.castShadow && object.shadow) {
+    const camera = object.shadow.camera as THREE.PerspectiveCamera | THREE.OrthographicCamera;
+    object.castShadow = true;
+    object.shadow.mapSize.set(SHADOW_CONFIG.mapSize, SHADOW_CONFIG.mapSize);
+    object.shadow.bias = SHADOW_CONFIG.bias;
+    camera.near = SHADOW_CONFIG.near;
+    camera.far = SHADOW_CONFIG.far;
+    camera.updateProjectionMatrix();
+  }
+  group.add(object);
+  return group;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Content, ContentType } from '../types';
+import { createMediaPlane, getMediaFit, parseAspectRatio } from './mediaFitUtils';
+
+const media = (extra: Partial<Content> = {}) => ({ id: 'c', type: ContentType.VIDEO, ...extra }) as Content;
+
+describe('parseAspectRatio', () => {
+  it.each([
+    ['16:9', 16 / 9],
+    ['4/3', 4 / 3],
+    [' 1 x 2 ', 0.5],
+    ['1.5', 1.5],
+  ])('parses %s', (value, ratio) => {
+    expect(parseAspectRatio(value)).toBeCloseTo(ratio);
+  });
+
+  it.each([undefined, '', 'wide', '16:0', '0', '-1:2', '1:2:3'])('returns null for %s', (value) => {
+    expect(parseAspectRatio(value)).toBeNull();
+  });
+});
+
+describe('getMediaFit', () => {
+  it('follows the media without a locked ratio', () => {
+    expect(getMediaFit(media(), 2)).toEqual({ width: 2, height: 1, repeat: [1, 1], offset: [0, 0] });
+    expect(getMediaFit(media(), NaN).width).toBe(1);
+  });
+
+  it('crops wider media to cover the frame', () => {
+    expect(getMediaFit(media({ aspectRatio: '1:1' }), 2)).toEqual({ width: 1, height: 1, repeat: [0.5, 1], offset: [0.25, 0] });
+  });
+
+  it('crops taller media to cover the frame', () => {
+    expect(getMediaFit(media({ aspectRatio: '1:1', fitMode: 'cover' }), 0.5)).toEqual({ width: 1, height: 1, repeat: [1, 0.5], offset: [0, 0.25] });
+  });
+
+  it('letterboxes media to fit inside the frame', () => {
+    expect(getMediaFit(media({ aspectRatio: '1:1', fitMode: 'contain' }), 2)).toEqual({ width: 1, height: 0.5, repeat: [1, 1], offset: [0, 0] });
+    expect(getMediaFit(media({ aspectRatio: '1:1', fitMode: 'contain' }), 0.5)).toEqual({ width: 0.5, height: 1, repeat: [1, 1], offset: [0, 0] });
+  });
+
+  it('stretches media to fill the frame', () => {
+    expect(getMediaFit(media({ aspectRatio: '16:9', fitMode: 'fill' }), 1)).toEqual({ width: 16 / 9, height: 1, repeat: [1, 1], offset: [0, 0] });
+  });
+});
+
+describe('createMediaPlane', () => {
+  it('bakes the crop into the UVs', () => {
+    const geometry = createMediaPlane({ width: 1, height: 1, repeat: [0.5, 1], offset: [0.25, 0] });
+    const uv = geometry.attributes.uv;
+    const us = Array.from({ length: uv.count }, (_, i) => uv.getX(i));
+    expect(Math.min(...us)).toBe(0.25);
+    expect(Math.max(...us)).toBe(0.75);
+  });
+});
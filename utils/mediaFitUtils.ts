@@ -0,0 +1,85 @@
+import * as THREE from 'three';
+import { Content } from '../types';
+
+export type FitMode = NonNullable<Content['fitMode']>;
+
+export const ASPECT_RATIO_PRESETS = ['16:9', '9:16', '4:3', '3:4', '1:1'];
+
+export const FIT_MODES: { id: FitMode; label: string }[] = [
+  { id: 'cover', label: 'Cover (crop)' },
+  { id: 'contain', label: 'Contain (letterbox)' },
+  { id: 'fill', label: 'Fill (stretch)' },
+];
+
+export const DEFAULT_FIT_MODE: FitMode = 'cover';
+
+/**
+ * Plane size in world units (height 1 at the content's own scale) and the
+ * UV window of the media shown on it.
+ */
+export interface MediaFit {
+  width: number;
+  height: number;
+  repeat: [number, number];
+  offset: [number, number];
+}
+
+/**
+ * Parse an aspect ratio written as 'W:H', 'W/H' or a plain number.
+ * Returns null for empty or invalid values, meaning "use the media's own aspect".
+ */
+export const parseAspectRatio = (value: string | undefined): number | null => {
+  const str = (value || '').trim();
+  if (!str) return null;
+  const match = str.match(/^(\d*\.?\d+)\s*(?:[:/x]\s*(\d*\.?\d+))?$/i);
+  if (!match) return null;
+  const ratio = match[2] !== undefined ? parseFloat(match[1]) / parseFloat(match[2]) : parseFloat(match[1]);
+  return isFinite(ratio) && ratio > 0 ? ratio : null;
+};
+
+/**
+ * Fit media of the given natural aspect into the content's locked aspect ratio.
+ * - cover: the plane keeps the locked ratio and the media is cropped via UVs
+ * - contain: the media keeps its aspect and shrinks to fit inside the locked frame
+ * - fill: the media is stretched to the locked ratio
+ * Without a locked ratio the plane simply follows the media.
+ */
+export const getMediaFit = (content: Content, mediaAspect: number): MediaFit => {
+  const media = isFinite(mediaAspect) && mediaAspect > 0 ? mediaAspect : 1;
+  const frame = parseAspectRatio(content.aspectRatio);
+  const full: Pick<MediaFit, 'repeat' | 'offset'> = { repeat: [1, 1], offset: [0, 0] };
+
+  if (frame === null) return { width: media, height: 1, ...full };
+
+  switch (content.fitMode ?? DEFAULT_FIT_MODE) {
+    case 'fill':
+      return { width: frame, height: 1, ...full };
+    case 'contain':
+      return media > frame
+        ? { width: frame, height: frame / media, ...full }
+        : { width: media, height: 1, ...full };
+    case 'cover':
+    default: {
+      if (media > frame) {
+        const repeat = frame / media;
+        return { width: frame, height: 1, repeat: [repeat, 1], offset: [(1 - repeat) / 2, 0] };
+      }
+      const repeat = media / frame;
+      return { width: frame, height: 1, repeat: [1, repeat], offset: [0, (1 - repeat) / 2] };
+    }
+  }
+};
+
+/**
+ * Build a plane for the fit. The crop is baked into the geometry UVs rather than the
+ * texture's repeat/offset, so textures shared between contents aren't affected.
+ */
+export const createMediaPlane = (fit: MediaFit): THREE.PlaneGeometry => {
+  const geometry = new THREE.PlaneGeometry(fit.width, fit.height);
+  const uv = geometry.attributes.uv as THREE.BufferAttribute;
+  for (let i = 0; i < uv.count; i++) {
+    uv.setXY(i, fit.offset[0] + uv.getX(i) * fit.repeat[0], fit.offset[1] + uv.getY(i) * fit.repeat[1]);
+  }
+  uv.needsUpdate = true;
+  return geometry;
+};
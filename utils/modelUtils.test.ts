@@ -0,0 +1,58 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { Content, ContentType } from '../types';
+import { applyMorphTargets, canAttachToBone, findBone, getModelRig, setMorphTarget } from './modelUtils';
+
+// A face with two blendshapes, posed at load, on a two-bone skeleton
+const createModel = () => {
+  const mesh = new THREE.Mesh(new THREE.BufferGeometry());
+  mesh.morphTargetDictionary = { smile: 0, blink: 1 };
+  mesh.morphTargetInfluences = [0.2, 0];
+  const head = Object.assign(new THREE.Bone(), { name: 'Head' });
+  const root = Object.assign(new THREE.Bone(), { name: 'Root' }).add(head);
+  return { mesh, head, root: new THREE.Group().add(root, mesh) };
+};
+
+describe('getModelRig', () => {
+  it('lists the morph targets and bones once each', () => {
+    const { root } = createModel();
+    const other = new THREE.Mesh(new THREE.BufferGeometry());
+    other.morphTargetDictionary = { blink: 0, frown: 1 };
+    root.add(other, new THREE.Bone());
+    expect(getModelRig(root)).toEqual({ morphTargetNames: ['smile', 'blink', 'frown'], boneNames: ['Root', 'Head'] });
+  });
+});
+
+describe('findBone', () => {
+  it('finds a bone by name', () => {
+    const { root, head } = createModel();
+    expect(findBone(root, 'Head')).toBe(head);
+    expect(findBone(root, 'Tail')).toBeNull();
+  });
+});
+
+describe('setMorphTarget', () => {
+  it('clamps the value to 0..1', () => {
+    const { root, mesh } = createModel();
+    setMorphTarget(root, 'blink', 3);
+    setMorphTarget(root, 'smile', Number.NaN);
+    expect(mesh.morphTargetInfluences).toEqual([0, 1]);
+  });
+});
+
+describe('applyMorphTargets', () => {
+  it('goes back to the loaded pose for morph targets without a value', () => {
+    const { root, mesh } = createModel();
+    applyMorphTargets(root, { smile: 1, blink: 0.5 });
+    expect(mesh.morphTargetInfluences).toEqual([1, 0.5]);
+    applyMorphTargets(root, { blink: 0.25 });
+    expect(mesh.morphTargetInfluences).toEqual([0.2, 0.25]);
+  });
+});
+
+describe('canAttachToBone', () => {
+  it('leaves out contents rendered as CSS3D objects', () => {
+    expect(canAttachToBone({ id: 'c', type: ContentType.IMAGE } as Content)).toBe(true);
+    expect(canAttachToBone({ id: 'c', type: ContentType.YOUTUBE } as Content)).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Morph targets (blendshapes) and bones of glTF models, for the editor and the Player.
+ * The exported viewer carries its own copy of these helpers (see utils/exportUtils.ts).
+ */
+
+import * as THREE from 'three';
+import { Content, ContentType } from '../types';
+
+export interface ModelRig {
+  morphTargetNames: string[];
+  boneNames: string[];
+}
+
+// Rendered as CSS3D objects in exported apps, which can't follow a bone
+const UNATTACHABLE_TYPES = [ContentType.EMBED, ContentType.STREAMING_VIDEO, ContentType.YOUTUBE, ContentType.VIMEO, ContentType.ICON_YOUTUBE];
+
+/**
+ * Names of the morph targets and bones of a model, in scene order, without duplicates.
+ */
+export const getModelRig = (root: THREE.Object3D): ModelRig => {
+  const morphTargetNames = new Set<string>();
+  const boneNames = new Set<string>();
+  root.traverse((o) => {
+    if ((o as THREE.Bone).isBone && o.name) boneNames.add(o.name);
+    const dictionary = (o as THREE.Mesh).morphTargetDictionary;
+    if (dictionary) Object.keys(dictionary).forEach(name => morphTargetNames.add(name));
+  });
+  return { morphTargetNames: Array.from(morphTargetNames), boneNames: Array.from(boneNames) };
+};
+
+export const findBone = (root: THREE.Object3D, name: string): THREE.Bone | null => {
+  let bone: THREE.Bone | null = null;
+  root.traverse((o) => {
+    if (!bone && (o as THREE.Bone).isBone && o.name === name) bone = o as THREE.Bone;
+  });
+  return bone;
+};
+
+/**
+ * Set one morph target on every mesh of the model that has it. Values are clamped to 0..1.
+ */
+export const setMorphTarget = (root: THREE.Object3D, name: string, value: number): void => {
+  const influence = THREE.MathUtils.clamp(Number(value) || 0, 0, 1);
+  root.traverse((o) => {
+    const mesh = o as THREE.Mesh;
+    const index = mesh.morphTargetDictionary?.[name];
+    if (index !== undefined && mesh.morphTargetInfluences) mesh.morphTargetInfluences[index] = influence;
+  });
+};
+
+/**
+ * Pose a model with a content's `morphTargets`. Morph targets without a value go back to
+ * the influences the model was loaded with.
+ */
+export const applyMorphTargets = (root: THREE.Object3D, morphTargets: Record<string, number> = {}): void => {
+  root.traverse((o) => {
+    const mesh = o as THREE.Mesh;
+    if (!mesh.morphTargetInfluences) return;
+    if (!mesh.userData.baseMorphTargetInfluences) mesh.userData.baseMorphTargetInfluences = [...mesh.morphTargetInfluences];
+    mesh.morphTargetInfluences.splice(0, Infinity, ...mesh.userData.baseMorphTargetInfluences);
+  });
+  Object.entries(morphTargets).forEach(([name, value]) => setMorphTarget(root, name, value));
+};
+
+export const canAttachToBone = (content: Content): boolean => !UNATTACHABLE_TYPES.includes(content.type);
@@ -0,0 +1,35 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { OCCLUDER_RENDER_ORDER, applyOccluderMaterial, createOccluderGeometry, createOccluderMaterial } from './occluderUtils';
+
+describe('createOccluderGeometry', () => {
+  it('builds a unit-sized primitive of the shape', () => {
+    expect(createOccluderGeometry('box')).toBeInstanceOf(THREE.BoxGeometry);
+    expect(createOccluderGeometry('plane')).toBeInstanceOf(THREE.PlaneGeometry);
+    const cylinder = createOccluderGeometry('cylinder');
+    cylinder.computeBoundingBox();
+    expect(cylinder.boundingBox!.getSize(new THREE.Vector3()).toArray()).toEqual([1, 1, 1]);
+  });
+});
+
+describe('createOccluderMaterial', () => {
+  it('writes depth but no color', () => {
+    const material = createOccluderMaterial();
+    expect(material.colorWrite).toBe(false);
+    expect(material.depthWrite).toBe(true);
+  });
+});
+
+describe('applyOccluderMaterial', () => {
+  it('gives every mesh the material and draws it first, without shadows', () => {
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry());
+    mesh.castShadow = true;
+    const root = new THREE.Group().add(new THREE.Group().add(mesh));
+    const material = createOccluderMaterial();
+    applyOccluderMaterial(root, material);
+    expect(mesh.material).toBe(material);
+    expect(mesh.renderOrder).toBe(OCCLUDER_RENDER_ORDER);
+    expect(mesh.castShadow).toBe(false);
+    expect(root.renderOrder).toBe(0);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Occluders: invisible stand-ins for the physical object a target is printed on. They write
+ * depth but no color, so virtual content behind them is hidden and the camera image shows through.
+ * The exported viewer carries its own copy of these helpers (see utils/exportUtils.ts).
+ */
+
+import * as THREE from 'three';
+import { OccluderShape } from '../types';
+
+export const OCCLUDER_SHAPES: { id: OccluderShape; label: string }[] = [
+  { id: 'box', label: 'Box' },
+  { id: 'cylinder', label: 'Cylinder' },
+  { id: 'plane', label: 'Plane' },
+  { id: 'model', label: 'glTF Model' },
+];
+
+export const DEFAULT_OCCLUDER_SHAPE: OccluderShape = 'box';
+
+// Drawn before everything else, so the depth is there when content is drawn
+export const OCCLUDER_RENDER_ORDER = -1;
+
+/**
+ * Unit-sized primitive, sized with the content's scale. The cylinder stands along Y.
+ */
+export const createOccluderGeometry = (shape: Exclude<OccluderShape, 'model'>): THREE.BufferGeometry => {
+  switch (shape) {
+    case 'cylinder': return new THREE.CylinderGeometry(0.5, 0.5, 1, 32);
+    case 'plane': return new THREE.PlaneGeometry(1, 1);
+    default: return new THREE.BoxGeometry(1, 1, 1);
+  }
+};
+
+export const createOccluderMaterial = (): THREE.MeshBasicMaterial =>
+  new THREE.MeshBasicMaterial({ colorWrite: false, side: THREE.DoubleSide });
+
+// How occluders show in the editor, where they would otherwise hide content without a trace
+export const createOccluderGhostMaterial = (): THREE.MeshBasicMaterial =>
+  new THREE.MeshBasicMaterial({ color: '#7c3aed', transparent: true, opacity: 0.25, depthWrite: false, side: THREE.DoubleSide });
+
+/**
+ * Give every mesh of an occluder (a primitive or a model) the occluder material.
+ */
+export const applyOccluderMaterial = (root: THREE.Object3D, material: THREE.Material): void => {
+  root.traverse((o) => {
+    const mesh = o as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    mesh.material = material;
+    mesh.renderOrder = OCCLUDER_RENDER_ORDER;
+    mesh.castShadow = mesh.receiveShadow = false;
+  });
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PlaylistTrack, createAudioPlaylist, getPlaylistTracks, parseWebVTT } from './playlistUtils';
+
+describe('parseWebVTT', () => {
+  it('returns no cues for empty input', () => {
+    expect(parseWebVTT('')).toEqual([]);
+    expect(parseWebVTT('WEBVTT\n\n')).toEqual([]);
+  });
+
+  it('parses cues with and without identifiers', () => {
+    const source = '\uFEFFWEBVTT\r\n\r\nintro\r\n00:00:01.000 --> 00:00:02.500 align:center\r\nHello\r\nworld\r\n\r\n01:02.000 --> 01:03.000\r\nBye\r\n';
+    expect(parseWebVTT(source)).toEqual([
+      { id: 'intro', start: 1, end: 2.5, text: 'Hello\nworld' },
+      { id: '2', start: 62, end: 63, text: 'Bye' },
+    ]);
+  });
+
+  it('skips NOTE, STYLE and REGION blocks', () => {
+    const source = 'WEBVTT\n\nNOTE a comment\n\nSTYLE\n::cue { color: red }\n\nREGION\nid:r\n\n00:01.000 --> 00:02.000\nText';
+    expect(parseWebVTT(source).map(cue => cue.text)).toEqual(['Text']);
+  });
+
+  it.each([
+    ['a malformed timestamp', '00:01 --> 00:02.000\nText'],
+    ['a missing end', '00:01.000 -->\nText'],
+    ['an end before the start', '00:05.000 --> 00:02.000\nText'],
+    ['an empty cue', '00:05.000 --> 00:05.000\nText'],
+    ['a timing after two lines', 'a\nb\n00:01.000 --> 00:02.000\nText'],
+  ])('skips cues with %s', (_, cue) => {
+    expect(parseWebVTT(`WEBVTT\n\n${cue}\n\n00:03.000 --> 00:04.000\nKept`).map(c => c.text)).toEqual(['Kept']);
+  });
+
+  it('strips cue markup and decodes entities', () => {
+    const source = 'WEBVTT\n\n00:01.000 --> 00:02.000\n<v Roger>Tom &amp; <i>Jerry</i> &lt;3<00:01.500> <c.loud>now</c>';
+    expect(parseWebVTT(source)[0].text).toBe('Tom & Jerry <3 now');
+  });
+
+  it('keeps a lone < as text', () => {
+    expect(parseWebVTT('WEBVTT\n\n00:01.000 --> 00:02.000\n1 < 2')[0].text).toBe('1 < 2');
+  });
+});
+
+describe('getPlaylistTracks', () => {
+  it('plays the single audio file without a playlist', () => {
+    expect(getPlaylistTracks({ audioUrl: 'a.mp3' })).toEqual([{ name: 'Clip 1', url: 'a.mp3', cues: [] }]);
+    expect(getPlaylistTracks({})).toEqual([]);
+  });
+});
+
+// Enough of an audio element for the playlist: it plays instantly and ends on demand
+class FakeAudio extends EventTarget {
+  src = '';
+  currentTime = 0;
+  paused = true;
+  loop = false;
+  getAttribute() { return this.src; }
+  play() { this.paused = false; return Promise.resolve(); }
+  pause() { this.paused = true; }
+  end() {
+    this.paused = true;
+    this.dispatchEvent(new Event('ended'));
+  }
+}
+
+const tracks = (count: number): PlaylistTrack[] =>
+  Array.from({ length: count }, (_, i) => ({ name: `Clip ${i + 1}`, url: `${i}.mp3`, cues: [] }));
+
+const playlist = (count: number, options: { loop: boolean; autoAdvance: boolean }, events = {}) => {
+  const audio = new FakeAudio();
+  return { audio, playlist: createAudioPlaylist(audio as unknown as HTMLAudioElement, tracks(count), options, events) };
+};
+
+describe('createAudioPlaylist', () => {
+  it('advances to the next clip and stops after the last', () => {
+    const onEnded = vi.fn();
+    const { audio, playlist: p } = playlist(2, { loop: false, autoAdvance: true }, { onEnded });
+    p.play();
+    audio.end();
+    expect(p.getTrack()).toBe(1);
+    expect(audio.src).toBe('1.mp3');
+    audio.end();
+    expect(p.getTrack()).toBe(1);
+    expect(p.isPlaying()).toBe(false);
+    expect(onEnded.mock.calls).toEqual([[0], [1]]);
+  });
+
+  it('starts over after the last clip when looping', () => {
+    const { audio, playlist: p } = playlist(2, { loop: true, autoAdvance: true });
+    p.playTrack(1);
+    audio.end();
+    expect(p.getTrack()).toBe(0);
+    expect(p.isPlaying()).toBe(true);
+  });
+
+  it('lets a single looping clip loop on its own', () => {
+    const { audio } = playlist(1, { loop: true, autoAdvance: true });
+    expect(audio.loop).toBe(true);
+  });
+
+  it('does nothing without clips', () => {
+    const { audio, playlist: p } = playlist(0, { loop: true, autoAdvance: true });
+    p.playTrack(3);
+    p.next();
+    p.update();
+    expect(audio.paused).toBe(true);
+    expect(p.getTrackCount()).toBe(0);
+  });
+
+  it('reports cues as the clip plays', () => {
+    const onCueEnter = vi.fn();
+    const onCueExit = vi.fn();
+    const audio = new FakeAudio();
+    const cues = parseWebVTT('WEBVTT\n\n00:01.000 --> 00:02.000\nOne');
+    const p = createAudioPlaylist(audio as unknown as HTMLAudioElement, [{ name: 'Clip', url: 'a.mp3', cues }], { loop: false, autoAdvance: true }, { onCueEnter, onCueExit });
+    audio.currentTime = 1.5;
+    p.update();
+    p.update();
+    audio.currentTime = 2;
+    p.update();
+    expect(onCueEnter.mock.calls).toEqual([[0, cues[0]]]);
+    expect(onCueExit.mock.calls).toEqual([[0, cues[0]]]);
+  });
+});
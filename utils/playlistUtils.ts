@@ -0,0 +1,294 @@
+/**
+ * Audio playlists: clips played in order on one audio element, each with optional WebVTT
+ * subtitles. The playlist reports clips that end and cues that start or end, for the script
+ * events onEnded, onCueEnter and onCueExit, and shows the current cues as an overlay on the
+ * view or as text under the content. The exported viewer carries its own copy of the playlist
+ * and the subtitle displays, and gets the cues already parsed (see utils/exportUtils.ts).
+ */
+
+import * as THREE from 'three';
+import { AudioTrack, Content, SubtitleMode } from '../types';
+import { TextLayout, DEFAULT_LINE_HEIGHT, resolveTextFont, loadFontFace } from './textUtils';
+import { TextCanvasLayout, TextCanvasStyle, getTextCanvasStyle, layoutTextCanvas, createTextCanvas, drawTextCanvas, createTextPlane } from './richTextUtils';
+
+export interface SubtitleCue {
+  id: string; // The cue's identifier in the file, or its number from 1
+  start: number; // Seconds
+  end: number;
+  text: string; // Without markup; lines joined with '\n'
+}
+
+export interface PlaylistTrack {
+  name: string;
+  url: string;
+  cues: SubtitleCue[];
+}
+
+export const SUBTITLE_MODES: { id: SubtitleMode; label: string }[] = [
+  { id: 'overlay', label: 'Overlay on the view' },
+  { id: 'text', label: '3D text under the content' },
+];
+
+// 3D subtitles, in the content's units, centered under it
+export const SUBTITLE_TEXT = { offsetY: -0.3, color: '#ffffff', outlineColor: '#000000', outlineWidth: 12 };
+
+export const SUBTITLE_LAYOUT: TextLayout = { fontSize: 0.06, lineHeight: DEFAULT_LINE_HEIGHT, maxWidth: 1.2, depth: 0, bevel: 0, align: 'center' };
+
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{2})\.(\d{3})$/;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', nbsp: '\u00a0', lrm: '\u200e', rlm: '\u200f', quot: '"', apos: "'" };
+
+const parseTimestamp = (value: string): number | null => {
+  const match = TIMESTAMP_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [, hours, minutes, seconds, millis] = match;
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+};
+
+// Voices, classes, styling and karaoke timestamps are dropped; only the words are shown
+const stripCueMarkup = (text: string): string =>
+  text.replace(/<[^>]*>/g, '').replace(/&(amp|lt|gt|nbsp|lrm|rlm|quot|apos);/g, (_, name: string) => ENTITIES[name]);
+
+/**
+ * Cues of a WebVTT file, in file order. Blocks that aren't cues (NOTE, STYLE, REGION)
+ * and cues with broken timings are skipped.
+ */
+export const parseWebVTT = (source: string): SubtitleCue[] => {
+  const blocks = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: SubtitleCue[] = [];
+  blocks.forEach((block) => {
+    const lines = block.split('\n').filter((line, i) => i > 0 || line.trim());
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex < 0 || timingIndex > 1) return;
+    const [from, rest = ''] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(from);
+    const end = parseTimestamp(rest.trim().split(/\s+/)[0]);
+    if (start === null || end === null || end <= start) return;
+    const text = stripCueMarkup(lines.slice(timingIndex + 1).join('\n')).trim();
+    cues.push({ id: timingIndex === 1 ? lines[0].trim() : String(cues.length + 1), start, end, text });
+  });
+  return cues;
+};
+
+/**
+ * Clips of an audio content: its playlist, or its single audio file.
+ */
+export const getAudioTracks = (content: Pick<Content, 'audioUrl' | 'audioPlaylist'>): AudioTrack[] => {
+  if (content.audioPlaylist?.length) return content.audioPlaylist;
+  return content.audioUrl ? [{ id: 'main', name: 'Clip 1', url: content.audioUrl }] : [];
+};
+
+/**
+ * Clips with their subtitles parsed, ready to play.
+ */
+export const getPlaylistTracks = (content: Pick<Content, 'audioUrl' | 'audioPlaylist'>): PlaylistTrack[] =>
+  getAudioTracks(content).map(track => ({ name: track.name, url: track.url, cues: track.subtitles ? parseWebVTT(track.subtitles) : [] }));
+
+export interface AudioPlaylistOptions {
+  loop: boolean; // Start over after the last clip; a single clip loops on its own
+  autoAdvance: boolean; // Play the next clip when one ends
+}
+
+export interface AudioPlaylistEvents {
+  onEnded?: (track: number) => void; // A single clip that loops never ends
+  onCueEnter?: (track: number, cue: SubtitleCue) => void;
+  onCueExit?: (track: number, cue: SubtitleCue) => void;
+  onCuesChange?: (cues: SubtitleCue[]) => void; // The cues shown now, for the subtitle display
+}
+
+/**
+ * Playback of a playlist. It doubles as the script media driver of the audio content.
+ */
+export interface AudioPlaylist {
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  isPlaying: () => boolean;
+  seekTo: (seconds: number) => void;
+  setVolume: (volume: number) => void;
+  setMuted: (muted: boolean) => void;
+  setLoop: (loop: boolean) => void;
+  next: () => void;
+  previous: () => void;
+  playTrack: (index: number) => void;
+  getTrack: () => number;
+  getTrackCount: () => number;
+  /** Report the cues that started or ended. Call it every frame. */
+  update: () => void;
+  dispose: () => void;
+}
+
+/**
+ * Play `tracks` on `audio`. Clips change as they end, or on next(), previous() and playTrack().
+ */
+export const createAudioPlaylist = (
+  audio: HTMLAudioElement,
+  tracks: PlaylistTrack[],
+  options: AudioPlaylistOptions,
+  events: AudioPlaylistEvents = {}
+): AudioPlaylist => {
+  let index = 0;
+  let loop = options.loop;
+  let active: SubtitleCue[] = [];
+
+  const setActive = (cues: SubtitleCue[]) => {
+    const exited = active.filter(cue => !cues.includes(cue));
+    const entered = cues.filter(cue => !active.includes(cue));
+    if (!exited.length && !entered.length) return;
+    active = cues;
+    exited.forEach(cue => events.onCueExit?.(index, cue));
+    entered.forEach(cue => events.onCueEnter?.(index, cue));
+    events.onCuesChange?.(active);
+  };
+
+  const load = (next: number) => {
+    setActive([]);
+    index = next;
+    const url = tracks[index]?.url ?? '';
+    if (audio.getAttribute('src') !== url) audio.src = url;
+    else audio.currentTime = 0;
+    audio.loop = loop && tracks.length === 1;
+  };
+
+  const playTrack = (next: number) => {
+    if (!tracks.length) return;
+    load(Math.min(tracks.length - 1, Math.max(0, Math.floor(next))));
+    audio.play().catch(e => console.warn('Audio playback failed:', e));
+  };
+
+  const handleEnded = () => {
+    const ended = index;
+    setActive([]);
+    events.onEnded?.(ended);
+    // onEnded may have started another clip
+    if (index !== ended || !audio.paused) return;
+    if (options.autoAdvance && ended < tracks.length - 1) playTrack(ended + 1);
+    else if (loop && tracks.length > 1) playTrack(options.autoAdvance ? 0 : ended);
+  };
+
+  audio.addEventListener('ended', handleEnded);
+  load(0);
+
+  return {
+    play: () => { audio.play().catch(e => console.warn('Audio playback failed:', e)); },
+    pause: () => audio.pause(),
+    stop: () => {
+      audio.pause();
+      audio.currentTime = 0;
+      setActive([]);
+    },
+    isPlaying: () => !audio.paused,
+    seekTo: (seconds) => { audio.currentTime = seconds; },
+    setVolume: (volume) => { audio.volume = volume; },
+    setMuted: (muted) => { audio.muted = muted; },
+    setLoop: (value) => {
+      loop = value;
+      audio.loop = loop && tracks.length === 1;
+    },
+    next: () => {
+      if (index < tracks.length - 1) playTrack(index + 1);
+      else if (loop) playTrack(0);
+    },
+    // Like a music player: back to the start of the clip, unless it has only just started
+    previous: () => playTrack(audio.currentTime > 3 || index === 0 ? index : index - 1),
+    playTrack,
+    getTrack: () => index,
+    getTrackCount: () => tracks.length,
+    update: () => {
+      const time = audio.currentTime;
+      const cues = tracks[index]?.cues ?? [];
+      const current = cues.filter(cue => time >= cue.start && time < cue.end);
+      if (current.length !== active.length || current.some((cue, i) => cue !== active[i])) setActive(current);
+    },
+    dispose: () => {
+      audio.removeEventListener('ended', handleEnded);
+      active = [];
+    },
+  };
+};
+
+// The cues shown together, one per line
+export const getSubtitleText = (cues: SubtitleCue[]): string => cues.map(cue => cue.text).join('\n');
+
+export interface SubtitleDisplay {
+  setText: (text: string) => void;
+  dispose: () => void;
+}
+
+/**
+ * Subtitles over the bottom of `container`, which must be positioned.
+ */
+export const createSubtitleOverlay = (container: HTMLElement): SubtitleDisplay => {
+  const element = document.createElement('div');
+  Object.assign(element.style, {
+    position: 'absolute', left: '50%', bottom: '8%', transform: 'translateX(-50%)', maxWidth: '80%',
+    padding: '6px 12px', borderRadius: '6px', background: 'rgba(0, 0, 0, 0.7)', color: '#ffffff',
+    font: '16px/1.4 sans-serif', textAlign: 'center', whiteSpace: 'pre-line', pointerEvents: 'none', zIndex: '20', display: 'none',
+  });
+  container.appendChild(element);
+  return {
+    setText: (text) => {
+      element.textContent = text;
+      element.style.display = text ? 'block' : 'none';
+    },
+    dispose: () => element.remove(),
+  };
+};
+
+/**
+ * Subtitles as flat text under the content, drawn like flat text contents in the default font.
+ */
+export const createSubtitleText = (): SubtitleDisplay & { mesh: THREE.Mesh } => {
+  const font = resolveTextFont({});
+  const style: TextCanvasStyle = getTextCanvasStyle(SUBTITLE_TEXT, font);
+  const material = new THREE.MeshBasicMaterial({ transparent: true, side: THREE.DoubleSide, toneMapped: false, depthWrite: false });
+  const mesh = new THREE.Mesh(new THREE.BufferGeometry(), material);
+  mesh.position.y = SUBTITLE_TEXT.offsetY;
+  let text = '';
+
+  const draw = () => {
+    mesh.visible = !!text;
+    if (!text) return;
+    const textLayout: TextCanvasLayout = layoutTextCanvas([{ text, bold: false, italic: false }], SUBTITLE_LAYOUT, style);
+    const canvas = createTextCanvas(textLayout);
+    drawTextCanvas(canvas, textLayout, style, text.length);
+    material.map?.dispose();
+    material.map = new THREE.CanvasTexture(canvas);
+    material.map.colorSpace = THREE.SRGBColorSpace;
+    material.needsUpdate = true;
+    mesh.geometry.dispose();
+    mesh.geometry = createTextPlane(textLayout);
+  };
+
+  // Drawn again once the font is in, as the first cues may come before it
+  loadFontFace(font).catch(e => console.warn('Subtitle font failed to load, using a fallback:', e)).then(draw);
+
+  return {
+    mesh,
+    setText: (value) => {
+      if (value === text) return;
+      text = value;
+      draw();
+    },
+    dispose: () => {
+      mesh.removeFromParent();
+      mesh.geometry.dispose();
+      material.map?.dispose();
+      material.dispose();
+    },
+  };
+};
+
+/**
+ * Show a playlist's cues in the content's subtitle mode. `container` holds the overlay,
+ * `parent` the 3D text. Returns null when the content shows no subtitles.
+ */
+export const createSubtitleDisplay = (mode: SubtitleMode | undefined, container: HTMLElement | null, parent: THREE.Object3D): SubtitleDisplay | null => {
+  if (mode === 'overlay' && container) return createSubtitleOverlay(container);
+  if (mode === 'text') {
+    const display = createSubtitleText();
+    parent.add(display.mesh);
+    return display;
+  }
+  return null;
+};
@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { TextCanvasLayout, TextCanvasStyle, findTextLink, getPlainText, getTextSpans, layoutTextCanvas, parseRichText } from './richTextUtils';
+import { TextLayout } from './textUtils';
+
+const plain = { bold: false, italic: false };
+
+describe('parseRichText', () => {
+  it('returns no spans for empty text', () => {
+    expect(parseRichText('')).toEqual([]);
+  });
+
+  it('styles bold, italic, colored and linked text', () => {
+    expect(parseRichText('a **b** *c* {#e11d48|d} [e](https://example.com)')).toEqual([
+      { ...plain, text: 'a ' },
+      { ...plain, bold: true, text: 'b' },
+      { ...plain, text: ' ' },
+      { ...plain, italic: true, text: 'c' },
+      { ...plain, text: ' ' },
+      { ...plain, color: '#e11d48', text: 'd' },
+      { ...plain, text: ' ' },
+      { ...plain, link: 'https://example.com', text: 'e' },
+    ]);
+  });
+
+  it('nests styles', () => {
+    expect(parseRichText('**bold *both* {red|[all](https://example.com)}**')).toEqual([
+      { ...plain, bold: true, text: 'bold ' },
+      { bold: true, italic: true, text: 'both' },
+      { ...plain, bold: true, text: ' ' },
+      { ...plain, bold: true, color: 'red', link: 'https://example.com', text: 'all' },
+    ]);
+  });
+
+  it.each([
+    '**not closed',
+    '*not closed',
+    '2 * 3 * 4',
+    '[no url]',
+    '[empty]()',
+    '{#e11d48 no bar}',
+    '{not a color!|text}',
+    '{red|}',
+  ])('keeps malformed markup as text: %s', (markup) => {
+    expect(parseRichText(markup)).toEqual([{ ...plain, text: markup }]);
+  });
+
+  it('unescapes escaped markers', () => {
+    expect(parseRichText('\\*\\*not bold\\*\\* \\[x\\]')).toEqual([{ ...plain, text: '**not bold** [x]' }]);
+  });
+
+  it('keeps emoji as plain characters', () => {
+    expect(getPlainText(parseRichText('**hi 👋🏽**'))).toBe('hi 👋🏽');
+  });
+});
+
+describe('getTextSpans', () => {
+  it('leaves markup alone unless the content is rich text', () => {
+    expect(getTextSpans({ textContent: '**a**', weight: 'bold' })).toEqual([{ bold: true, italic: false, text: '**a**' }]);
+    expect(getTextSpans({ textContent: '**a**', richText: true, style: 'italic' })).toEqual([{ bold: true, italic: true, text: 'a' }]);
+  });
+
+  it('returns an empty span for a content without text', () => {
+    expect(getTextSpans({})).toEqual([{ ...plain, text: '' }]);
+  });
+});
+
+describe('layoutTextCanvas', () => {
+  // Every character is half an em wide (64 of the 128 canvas pixels per em)
+  beforeAll(() => {
+    vi.stubGlobal('document', {
+      createElement: () => ({ getContext: () => ({ font: '', measureText: (text: string) => ({ width: text.length * 64 }) }) }),
+    });
+  });
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // A font size of 1 unit, so a character is 0.5 units wide
+  const layout = (maxWidth: number): TextLayout => ({ fontSize: 1, lineHeight: 1, maxWidth, depth: 0, bevel: 0, align: 'left' });
+  const style: TextCanvasStyle = { fontFamily: 'sans-serif', color: '#000000', outlineColor: '#000000', outlineWidth: 0 };
+  const lineTexts = (textLayout: TextCanvasLayout) => {
+    const lines = new Map<number, string>();
+    textLayout.runs.forEach(run => lines.set(run.y, (lines.get(run.y) ?? '') + run.text));
+    return [...lines.values()];
+  };
+
+  it('lays out empty text as a blank canvas', () => {
+    const textLayout = layoutTextCanvas([], layout(0), style);
+    expect(textLayout.runs).toEqual([]);
+    expect(textLayout.width).toBeGreaterThan(0);
+    expect(textLayout.height).toBeGreaterThan(0);
+  });
+
+  it('wraps between words across spans', () => {
+    const textLayout = layoutTextCanvas(parseRichText('one **two** three'), layout(4), style);
+    expect(lineTexts(textLayout)).toEqual(['one two ', 'three']);
+  });
+
+  it('keeps words longer than a line whole', () => {
+    const textLayout = layoutTextCanvas(parseRichText('a extraordinarily b'), layout(2), style);
+    expect(lineTexts(textLayout)).toEqual(['a ', 'extraordinarily ', 'b']);
+  });
+
+  it('finds the link under a point of the laid out text', () => {
+    const textLayout = layoutTextCanvas(parseRichText('go [here](https://example.com)'), layout(0), style);
+    const link = textLayout.runs.find(run => run.link)!;
+    const uv = (x: number) => ({ x: x / textLayout.width, y: 0.5 });
+    expect(findTextLink(textLayout, uv(link.x + link.width / 2))).toBe('https://example.com');
+    expect(findTextLink(textLayout, uv(textLayout.runs[0].x + 1))).toBeNull();
+  });
+});
+
+describe('findTextLink', () => {
+  const textLayout: TextCanvasLayout = {
+    width: 200, height: 100, lineHeight: 50, outline: 0, padding: 0, unit: 0.01, align: 'left',
+    runs: [
+      { text: 'plain', start: 0, x: 0, y: 25, width: 100, font: '', color: '#000' },
+      { text: 'link', start: 5, x: 100, y: 25, width: 100, font: '', color: '#00f', link: 'https://example.com' },
+    ],
+  };
+
+  it('finds the link under the point', () => {
+    expect(findTextLink(textLayout, { x: 0.75, y: 0.75 })).toBe('https://example.com');
+  });
+
+  it('finds nothing on plain text, other lines or no runs', () => {
+    expect(findTextLink(textLayout, { x: 0.25, y: 0.75 })).toBeNull();
+    expect(findTextLink(textLayout, { x: 0.75, y: 0.25 })).toBeNull();
+    expect(findTextLink({ ...textLayout, runs: [] }, { x: 0.75, y: 0.75 })).toBeNull();
+  });
+});
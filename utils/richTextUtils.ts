@@ -0,0 +1,292 @@
+/**
+ * Rich text: a small markdown subset for text contents, and the canvas renderer flat text is drawn
+ * with in the editor, the Player and the exported viewer (which carries its own copy of the renderer,
+ * see utils/exportUtils.ts, and gets the spans already parsed).
+ *
+ *   **bold**   *italic*   {#e11d48|colored}   [link](https://example.com)   \* escapes a marker
+ *
+ * Emoji are plain characters, drawn with the system's emoji font.
+ */
+
+import * as THREE from 'three';
+import { Content } from '../types';
+import { TextFont, TextLayout } from './textUtils';
+
+export interface TextSpan {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  color?: string; // Overrides the text color
+  link?: string; // Opened like openUrl() when clicked in a running scene
+}
+
+type SpanStyle = Omit<TextSpan, 'text'>;
+
+export const RICH_TEXT_HELP = '**bold**  *italic*  {#e11d48|color}  [link](https://...)';
+
+export const DEFAULT_LINK_COLOR = '#2563eb';
+
+// Canvas pixels per em, enough to stay sharp close up
+export const TEXT_CANVAS_FONT_SIZE = 128;
+
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|[a-z]+)$/i;
+
+// Listed before the generic family, so emoji are drawn in color
+const EMOJI_FONTS = '"Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji"';
+
+// Index of the next unescaped `marker` in [from, end), or -1
+const findMarker = (markup: string, marker: string, from: number, end: number): number => {
+  for (let i = from; i <= end - marker.length; i++) {
+    if (markup[i] === '\\') { i++; continue; }
+    if (markup.startsWith(marker, i)) return i;
+  }
+  return -1;
+};
+
+// Emphasis hugs its text, so "2 * 3 * 4" stays as it is
+const isEmphasis = (markup: string, open: number, close: number, length: number) =>
+  close > open + length && markup[open + length] !== ' ' && markup[close - 1] !== ' ';
+
+const parseRange = (markup: string, start: number, end: number, style: SpanStyle, spans: TextSpan[]): void => {
+  let text = '';
+  const nest = (from: number, to: number, nested: SpanStyle) => {
+    if (text) spans.push({ ...style, text });
+    text = '';
+    parseRange(markup, from, to, nested, spans);
+  };
+
+  let i = start;
+  while (i < end) {
+    const char = markup[i];
+    if (char === '\\' && i + 1 < end) {
+      text += markup[i + 1];
+      i += 2;
+      continue;
+    }
+    if (markup.startsWith('**', i)) {
+      const close = findMarker(markup, '**', i + 2, end);
+      if (isEmphasis(markup, i, close, 2)) { nest(i + 2, close, { ...style, bold: true }); i = close + 2; continue; }
+    } else if (char === '*') {
+      const close = findMarker(markup, '*', i + 1, end);
+      if (isEmphasis(markup, i, close, 1)) { nest(i + 1, close, { ...style, italic: true }); i = close + 1; continue; }
+    } else if (char === '[') {
+      const close = findMarker(markup, '](', i + 1, end);
+      const urlEnd = close === -1 ? -1 : findMarker(markup, ')', close + 2, end);
+      if (close > i + 1 && urlEnd > close + 2) {
+        nest(i + 1, close, { ...style, link: markup.slice(close + 2, urlEnd).trim() });
+        i = urlEnd + 1;
+        continue;
+      }
+    } else if (char === '{') {
+      const bar = findMarker(markup, '|', i + 1, end);
+      const close = bar === -1 ? -1 : findMarker(markup, '}', bar + 1, end);
+      const color = markup.slice(i + 1, Math.max(i + 1, bar)).trim();
+      if (close > bar + 1 && COLOR_PATTERN.test(color)) { nest(bar + 1, close, { ...style, color }); i = close + 1; continue; }
+    }
+    text += char;
+    i++;
+  }
+  if (text) spans.push({ ...style, text });
+};
+
+/**
+ * Spans of a text with their styles. Markers that aren't closed stay as text.
+ */
+export const parseRichText = (markup: string, style: SpanStyle = { bold: false, italic: false }): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  parseRange(markup, 0, markup.length, style, spans);
+  return spans;
+};
+
+/**
+ * Spans of a text content: its markup parsed if it is rich text, otherwise the whole text in
+ * the content's weight and style.
+ */
+export const getTextSpans = (content: Pick<Content, 'textContent' | 'richText' | 'weight' | 'style'>): TextSpan[] => {
+  const text = content.textContent || '';
+  const style = { bold: content.weight === 'bold', italic: content.style === 'italic' };
+  return content.richText ? parseRichText(text, style) : [{ ...style, text }];
+};
+
+// The characters shown, which the typewriter animation counts
+export const getPlainText = (spans: TextSpan[]): string => spans.map(span => span.text).join('');
+
+export interface TextCanvasStyle {
+  fontFamily: string; // CSS font family list
+  color: string;
+  outlineColor: string;
+  outlineWidth: number; // Percentage of the font size, as in the editor
+}
+
+export const getTextCanvasStyle = (content: Pick<Content, 'color' | 'outlineColor' | 'outlineWidth'>, font: TextFont): TextCanvasStyle => ({
+  fontFamily: `"${font.family}", ${EMOJI_FONTS}, sans-serif`,
+  color: content.color || '#000000',
+  // THREE and the canvas don't take 'transparent'; no outline is drawn without a width anyway
+  outlineColor: content.outlineColor && content.outlineColor !== 'transparent' ? content.outlineColor : '#000000',
+  outlineWidth: Math.max(0, content.outlineWidth || 0),
+});
+
+export interface TextCanvasRun {
+  text: string;
+  start: number; // Index of its first character in the plain text
+  x: number; // Canvas pixels, left edge
+  y: number; // Canvas pixels, middle of the line
+  width: number;
+  font: string; // CSS font
+  color: string;
+  link?: string;
+}
+
+export interface TextCanvasLayout {
+  width: number; // Canvas pixels
+  height: number;
+  lineHeight: number;
+  outline: number; // Outline width in pixels
+  padding: number; // Room for the outline around the text
+  unit: number; // World units per canvas pixel
+  align: TextLayout['align'];
+  runs: TextCanvasRun[];
+}
+
+interface TextPiece extends TextCanvasRun {
+  space: boolean;
+}
+
+/**
+ * Lay spans out in lines, wrapping between words past the layout's max width. Lines are
+ * aligned within the widest one; the canvas fits them with room for the outline.
+ */
+export const layoutTextCanvas = (spans: TextSpan[], layout: TextLayout, style: TextCanvasStyle): TextCanvasLayout => {
+  const size = TEXT_CANVAS_FONT_SIZE;
+  const unit = layout.fontSize / size;
+  const maxWidth = layout.maxWidth / unit;
+  const ctx = document.createElement('canvas').getContext('2d')!;
+
+  // Paragraphs of words; a word is its pieces up to and including the spaces after it
+  const paragraphs: TextPiece[][][] = [[[]]];
+  let index = 0;
+  spans.forEach((span) => {
+    const font = `${span.italic ? 'italic ' : ''}${span.bold ? 'bold ' : ''}${size}px ${style.fontFamily}`;
+    ctx.font = font;
+    span.text.split(/(\n| +)/).forEach((part) => {
+      if (!part) return;
+      const words = paragraphs[paragraphs.length - 1];
+      if (part === '\n') {
+        paragraphs.push([[]]);
+      } else {
+        const space = part[0] === ' ';
+        words[words.length - 1].push({
+          text: part, start: index, x: 0, y: 0, width: ctx.measureText(part).width, font,
+          color: span.color || (span.link ? DEFAULT_LINK_COLOR : style.color), link: span.link, space
+        });
+        if (space) words.push([]);
+      }
+      index += part.length;
+    });
+  });
+
+  // Line widths leave out the spaces they end with
+  const lines: { pieces: TextPiece[]; width: number }[] = [];
+  paragraphs.forEach((words) => {
+    let pieces: TextPiece[] = [];
+    let width = 0;
+    let inkWidth = 0;
+    words.forEach((word) => {
+      const wordWidth = word.reduce((sum, piece) => sum + piece.width, 0);
+      const trailing = word.length && word[word.length - 1].space ? word[word.length - 1].width : 0;
+      if (pieces.length && maxWidth && width + wordWidth - trailing > maxWidth) {
+        lines.push({ pieces, width: inkWidth });
+        pieces = [];
+        width = 0;
+      }
+      inkWidth = width + wordWidth - trailing;
+      width += wordWidth;
+      pieces.push(...word);
+    });
+    lines.push({ pieces, width: inkWidth });
+  });
+
+  const outline = style.outlineWidth / 100 * size;
+  const padding = Math.ceil(outline) + 2;
+  const lineHeight = size * layout.lineHeight;
+  const width = Math.max(1, Math.ceil(Math.max(0, ...lines.map(line => line.width))) + padding * 2);
+  const height = Math.max(1, Math.ceil(lines.length * lineHeight) + padding * 2);
+
+  const runs = lines.flatMap((line, i) => {
+    let x = layout.align === 'left' ? padding : layout.align === 'right' ? width - padding - line.width : (width - line.width) / 2;
+    const y = padding + (i + 0.5) * lineHeight;
+    return line.pieces.map(({ space, ...piece }) => {
+      const run = { ...piece, x, y };
+      x += piece.width;
+      return run;
+    });
+  });
+
+  return { width, height, lineHeight, outline, padding, unit, align: layout.align, runs };
+};
+
+export const createTextCanvas = (textLayout: TextCanvasLayout): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = textLayout.width;
+  canvas.height = textLayout.height;
+  return canvas;
+};
+
+/**
+ * Draw the first `length` characters of the text, each run where it sits in the full text so
+ * nothing shifts while typing. Links are underlined.
+ */
+export const drawTextCanvas = (canvas: HTMLCanvasElement, textLayout: TextCanvasLayout, style: TextCanvasStyle, length: number): void => {
+  const ctx = canvas.getContext('2d')!;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'left';
+  ctx.lineJoin = 'round';
+
+  const visible = textLayout.runs
+    .map(run => ({ run, text: run.text.slice(0, Math.max(0, length - run.start)) }))
+    .filter(({ text }) => text.trim());
+
+  // Every outline first, so it never covers the neighbouring run
+  if (textLayout.outline > 0) {
+    ctx.strokeStyle = style.outlineColor;
+    ctx.lineWidth = textLayout.outline * 2;
+    visible.forEach(({ run, text }) => {
+      ctx.font = run.font;
+      ctx.strokeText(text, run.x, run.y);
+    });
+  }
+
+  visible.forEach(({ run, text }) => {
+    ctx.font = run.font;
+    ctx.fillStyle = run.color;
+    ctx.fillText(text, run.x, run.y);
+    if (run.link) {
+      const thickness = TEXT_CANVAS_FONT_SIZE * 0.06;
+      ctx.fillRect(run.x, run.y + TEXT_CANVAS_FONT_SIZE * 0.35, ctx.measureText(text).width, thickness);
+    }
+  });
+};
+
+/**
+ * Plane the canvas is shown on, anchored like the editor's text: on its left edge, center or
+ * right edge, centered vertically.
+ */
+export const createTextPlane = (textLayout: TextCanvasLayout): THREE.PlaneGeometry => {
+  const { unit, padding, align } = textLayout;
+  const width = textLayout.width * unit;
+  const geometry = new THREE.PlaneGeometry(width, textLayout.height * unit);
+  if (align === 'left') geometry.translate(width / 2 - padding * unit, 0, 0);
+  else if (align === 'right') geometry.translate(padding * unit - width / 2, 0, 0);
+  return geometry;
+};
+
+/**
+ * The link at a point of the text plane, from the UV coordinates of a raycast hit.
+ */
+export const findTextLink = (textLayout: TextCanvasLayout, uv: { x: number; y: number }): string | null => {
+  const x = uv.x * textLayout.width;
+  const y = (1 - uv.y) * textLayout.height;
+  const run = textLayout.runs.find(r => r.link && x >= r.x && x <= r.x + r.width && Math.abs(y - r.y) <= textLayout.lineHeight / 2);
+  return run?.link ?? null;
+};
@@ -0,0 +1,59 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Project } from '../types';
+import { compileProjectScripts, compileScript, formatScriptDiagnostic, loadTypeScript, toSourceLine } from './scriptCompiler';
+
+const project = (extra: Partial<Project> = {}): Project => ({
+  id: 'p', name: 'Demo', targets: [], lastUpdated: '', status: 'Draft', sizeMB: 0, ...extra,
+});
+
+// The compiler is downloaded on first use
+beforeAll(async () => { await loadTypeScript(); }, 30000);
+
+describe('compileScript', () => {
+  it('returns JavaScript unchanged', async () => {
+    const source = 'function onInit() { const x: number = 1; }';
+    expect(await compileScript(source)).toEqual({ code: source, diagnostics: [] });
+  });
+
+  it('strips types and keeps handlers as plain functions', async () => {
+    const { code, diagnostics } = await compileScript('function onInit({ data }: { data: any }): void {\n  data.count = 1 as number;\n}', 'typescript');
+    expect(diagnostics).toEqual([]);
+    expect(code).toContain('function onInit({ data }) {');
+    expect(code).not.toMatch(/export|sourceMappingURL/);
+  });
+
+  it('reports syntax errors with their line and column', async () => {
+    const { code, diagnostics } = await compileScript('function onInit() {\n  let x = ;\n}', 'typescript');
+    expect(code).toBeNull();
+    expect(diagnostics[0]).toMatchObject({ line: 2, column: 11, severity: 'error' });
+    expect(formatScriptDiagnostic(diagnostics[0])).toMatch(/^Line 2:11: /);
+  });
+});
+
+describe('compileProjectScripts', () => {
+  it('compiles the TypeScript scripts of a project to JavaScript', async () => {
+    const compiled = await compileProjectScripts(project({
+      targets: [
+        { id: 't1', name: 'One', imageUrl: '', contents: [], script: 'let b: string;', scriptLanguage: 'typescript' },
+        { id: 't2', name: 'Two', imageUrl: '', contents: [], script: 'var c = 1;' },
+      ],
+    }));
+    expect(compiled.targets[0]).toMatchObject({ scriptLanguage: 'javascript' });
+    expect(compiled.targets[0].script).toContain('let b;');
+    expect(compiled.targets[1].script).toBe('var c = 1;');
+  });
+
+  it('names the script that does not compile', async () => {
+    const broken = project({ targets: [{ id: 't', name: 'Poster', imageUrl: '', contents: [], script: 'let = ;', scriptLanguage: 'typescript' }] });
+    await expect(compileProjectScripts(broken)).rejects.toThrow(/script of target "Poster" has errors\. Line 1:/);
+  });
+});
+
+describe('toSourceLine', () => {
+  it('maps compiled lines back to the script', async () => {
+    const { code, lineMap } = await compileScript('interface Score {\n  value: number;\n}\n\nfunction onInit() {\n  throw new Error();\n}', 'typescript');
+    const line = code!.split('\n').findIndex(l => l.includes('throw')) + 1;
+    expect(toSourceLine(lineMap, line)).toBe(6);
+    expect(toSourceLine(undefined, 3)).toBe(3);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * TypeScript support for target scripts.
+ *
+ * Scripts are stored as written. TypeScript sources are transpiled in the browser right before
+ * they run: in the editor preview, in the Player and when a project is exported. The compiler
+ * is only downloaded the first time a TypeScript script is compiled.
+ *
+ * Transpiling strips types without checking them; the declarations in utils/scriptTypings.ts
+ * are what editors use to check scripts against the target's contents.
+ */
+
+import type * as TS from 'typescript';
+import { Project, ScriptLanguage } from '../types';
+
+export interface ScriptDiagnostic {
+  line: number; // 1-based
+  column: number; // 1-based
+  length?: number; // Characters the problem spans, from line:column
+  message: string;
+  severity?: 'error' | 'warning'; // Defaults to 'error'
+}
+
+export interface ScriptCompileResult {
+  code: string | null; // JavaScript to run, null if the script has errors
+  diagnostics: ScriptDiagnostic[];
+  /** Source line of each line of `code` (both 1-based), when transpiling moved lines */
+  lineMap?: number[];
+}
+
+let typescript: Promise<typeof TS> | null = null;
+
+/**
+ * The TypeScript compiler, downloaded on first use. Also used by the script editor.
+ */
+export const loadTypeScript = (): Promise<typeof TS> => {
+  if (!typescript) {
+    typescript = import('typescript').then(module => module.default);
+    // Let a failed chunk download be retried on the next compile
+    typescript.catch(() => { typescript = null; });
+  }
+  return typescript;
+};
+
+export const toScriptDiagnostic = (ts: typeof TS, diagnostic: TS.Diagnostic): ScriptDiagnostic => {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  const severity = diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning';
+  if (!diagnostic.file || diagnostic.start === undefined) {
+    return { line: 1, column: 1, message, severity };
+  }
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  return { line: line + 1, column: character + 1, length: diagnostic.length, message, severity };
+};
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Read the source line of every generated line from a source map's `mappings`.
+ * Only the first segment of a line is needed; its fields are deltas carried across lines.
+ */
+const decodeLineMap = (mappings: string): number[] => {
+  const lineMap: number[] = [];
+  let sourceLine = 0;
+
+  mappings.split(';').forEach((segments) => {
+    let lineStart = -1;
+    segments.split(',').forEach((segment) => {
+      if (!segment) return;
+      // Base64 VLQ: 5 data bits per digit, continuation bit 32, sign in the lowest bit
+      const fields: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of segment) {
+        const digit = BASE64.indexOf(char);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+          shift += 5;
+        } else {
+          fields.push(value & 1 ? -(value >> 1) : value >> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+      if (fields.length >= 4) {
+        sourceLine += fields[2];
+        if (lineStart < 0) lineStart = sourceLine;
+      }
+    });
+    // Lines without a mapping (e.g. a closing brace) belong to the previous source line
+    lineMap.push((lineStart >= 0 ? lineStart : sourceLine) + 1);
+  });
+
+  return lineMap;
+};
+
+export const formatScriptDiagnostic = (diagnostic: ScriptDiagnostic): string =>
+  `Line ${diagnostic.line}:${diagnostic.column}: ${diagnostic.message}`;
+
+/**
+ * Turn a script into the JavaScript the script runtime executes. JavaScript is returned unchanged.
+ */
+export const compileScript = async (
+  source: string,
+  language: ScriptLanguage = 'javascript'
+): Promise<ScriptCompileResult> => {
+  if (language !== 'typescript') {
+    return { code: source, diagnostics: [] };
+  }
+
+  const ts = await loadTypeScript();
+  const output = ts.transpileModule(source, {
+    fileName: 'script.ts',
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      // Scripts are plain function bodies; handlers are found by name, not exported
+      module: ts.ModuleKind.None,
+      sourceMap: true,
+    },
+  });
+
+  const diagnostics = (output.diagnostics ?? []).map(d => toScriptDiagnostic(ts, d));
+  if (diagnostics.length > 0) {
+    return { code: null, diagnostics };
+  }
+
+  // Drop the source map comment; the map is only used to place runtime errors
+  const code = output.outputText.replace(/\n\/\/# sourceMappingURL=.*\s*$/, '\n');
+  const lineMap = output.sourceMapText ? decodeLineMap(JSON.parse(output.sourceMapText).mappings) : undefined;
+  return { code, diagnostics, lineMap };
+};
+
+/**
+ * Transpile the project script and every TypeScript target script so the project can be
+ * exported as plain JavaScript. Throws with the first error if a script does not compile.
+ */
+export const compileProjectScripts = async (project: Project): Promise<Project> => {
+  const compile = async <T extends { script?: string; scriptLanguage?: ScriptLanguage }>(owner: T, label: string): Promise<T> => {
+    if (!owner.script || owner.scriptLanguage !== 'typescript') return owner;
+
+    const { code, diagnostics } = await compileScript(owner.script, owner.scriptLanguage);
+    if (code === null) {
+      throw new Error(`The ${label} has errors. ${formatScriptDiagnostic(diagnostics[0])}`);
+    }
+    return { ...owner, script: code, scriptLanguage: 'javascript' as const };
+  };
+
+  const [compiled, targets] = await Promise.all([
+    compile(project, 'project script'),
+    Promise.all(project.targets.map(target => compile(target, `script of target "${target.name}"`))),
+  ]);
+
+  return { ...compiled, targets };
+};
+
+/**
+ * Source line of a line of compiled code, e.g. to place a runtime error.
+ */
+export const toSourceLine = (lineMap: number[] | undefined, line: number): number =>
+  lineMap?.[line - 1] ?? line;
@@ -0,0 +1,58 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Content, ContentType, Target } from '../types';
+import { ScriptLanguageService, loadScriptLanguageService } from './scriptLanguageService';
+
+const target: Target = {
+  id: 'poster',
+  name: 'Poster',
+  imageUrl: '',
+  contents: [{ id: 'logo', name: 'logo', type: ContentType.IMAGE }, { id: 'intro', name: 'intro', type: ContentType.VIDEO }] as Content[],
+};
+
+describe('scriptLanguageService', () => {
+  let service: ScriptLanguageService;
+
+  beforeAll(async () => {
+    service = await loadScriptLanguageService();
+  }, 30000);
+
+  const completionsAtEnd = (source: string, language: 'javascript' | 'typescript' = 'javascript') => {
+    service.update(source, language, target);
+    return service.getCompletions(source.length)?.entries.map(entry => entry.name) ?? [];
+  };
+
+  it('checks TypeScript against the contents of the target', () => {
+    service.update('function onInit({ target }: ScriptEventParams) {\n  target.getObject("intro")!.playVideo();\n  target.getObject("logo")!.playVideo();\n}', 'typescript', target);
+    const diagnostics = service.getDiagnostics();
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ line: 3, severity: 'error' });
+  });
+
+  it('warns about misspelled handlers and unknown objects in JavaScript', () => {
+    service.update('function oninit({ target }) {\n  target.getObject("banner");\n}', 'javascript', target);
+    expect(service.getDiagnostics().map(d => [d.line, d.severity, d.message])).toEqual([
+      [1, 'warning', '"oninit" is never called. Did you mean "onInit"?'],
+      [2, 'warning', 'This target has no object named "banner".'],
+    ]);
+  });
+
+  it('completes object names and their members', () => {
+    expect(completionsAtEnd('target.getObject("')).toEqual(['logo', 'intro']);
+    expect(completionsAtEnd('target.getObject("intro").play')).toContain('playVideo');
+    expect(completionsAtEnd('target.getObject("logo").play')).not.toContain('playVideo');
+  });
+
+  it('completes members of variables holding objects', () => {
+    expect(completionsAtEnd('var clip = target.getObject("intro");\nclip.pause')).toEqual(['pauseVideo']);
+  });
+
+  it('classifies tokens', () => {
+    service.update('// hi\nvar n = 1;', 'javascript', target);
+    expect(service.getTokens().map(token => token.kind)).toEqual(['comment', 'keyword', 'number']);
+  });
+
+  it('formats the script', () => {
+    service.update('function onInit(){\nvar a=1}', 'javascript', target);
+    expect(service.format()).toBe('function onInit() {\n  var a = 1\n}');
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Editor services for target scripts: highlighting, completions, diagnostics and formatting.
+ *
+ * The TypeScript language service runs in the page against the script, the declarations from
+ * utils/scriptTypings.ts, the globals of the script worker and the ES2015 standard library.
+ * JavaScript scripts get the same services, but their handler parameters carry no types, so
+ * completions after `target.` or `target.getObject('…').` are resolved from the script text.
+ */
+
+import type * as TS from 'typescript';
+import { ScriptLanguage, Target } from '../types';
+import { ScriptDiagnostic, loadTypeScript, toScriptDiagnostic } from './scriptCompiler';
+import { SCRIPT_TYPINGS_FILE_NAME, generateScriptTypings } from './scriptTypings';
+import { SCRIPT_RUNTIME_CONFIG } from './scriptRuntime';
+
+export type ScriptTokenKind = 'comment' | 'keyword' | 'string' | 'number' | 'regexp' | 'type' | 'parameter';
+
+export interface ScriptToken {
+  start: number;
+  length: number;
+  kind: ScriptTokenKind;
+}
+
+export interface ScriptCompletion {
+  name: string;
+  kind: string; // TypeScript element kind, e.g. 'method', 'property', 'string'
+}
+
+export interface ScriptCompletions {
+  from: number; // Offset of the text an accepted completion replaces, up to the caret
+  entries: ScriptCompletion[];
+}
+
+export interface ScriptLanguageService {
+  /** Point the service at the current script. Cheap when nothing changed. */
+  update: (source: string, language: ScriptLanguage, target: Pick<Target, 'name' | 'contents'>) => void;
+  getTokens: () => ScriptToken[];
+  getDiagnostics: () => ScriptDiagnostic[];
+  getCompletions: (position: number) => ScriptCompletions | null;
+  /** The script with formatting applied */
+  format: () => string;
+}
+
+// Scripts run in a worker: no DOM, only the standard library and these globals
+const WORKER_GLOBALS = `declare var console: {
+  log(...data: any[]): void;
+  info(...data: any[]): void;
+  warn(...data: any[]): void;
+  error(...data: any[]): void;
+  debug(...data: any[]): void;
+};
+declare function setTimeout(handler: (...args: any[]) => void, timeout?: number, ...args: any[]): number;
+declare function clearTimeout(id: number | undefined): void;
+declare function setInterval(handler: (...args: any[]) => void, timeout?: number, ...args: any[]): number;
+declare function clearInterval(id: number | undefined): void;
+`;
+
+const LIB_FILES: Record<string, () => Promise<{ default: string }>> = {
+  'lib.es5.d.ts': () => import('typescript/lib/lib.es5.d.ts?raw'),
+  'lib.es2015.core.d.ts': () => import('typescript/lib/lib.es2015.core.d.ts?raw'),
+  'lib.es2015.collection.d.ts': () => import('typescript/lib/lib.es2015.collection.d.ts?raw'),
+  'lib.es2015.generator.d.ts': () => import('typescript/lib/lib.es2015.generator.d.ts?raw'),
+  'lib.es2015.iterable.d.ts': () => import('typescript/lib/lib.es2015.iterable.d.ts?raw'),
+  'lib.es2015.promise.d.ts': () => import('typescript/lib/lib.es2015.promise.d.ts?raw'),
+  'lib.es2015.symbol.d.ts': () => import('typescript/lib/lib.es2015.symbol.d.ts?raw'),
+  'lib.es2015.symbol.wellknown.d.ts': () => import('typescript/lib/lib.es2015.symbol.wellknown.d.ts?raw'),
+};
+
+const SCRIPT_FILES: Record<ScriptLanguage, string> = {
+  javascript: '/script.js',
+  typescript: '/script.ts',
+};
+const TYPINGS_FILE = `/${SCRIPT_TYPINGS_FILE_NAME}`;
+const GLOBALS_FILE = '/worker-globals.d.ts';
+// Scratch file for listing the members of a type, see memberCompletions()
+const PROBE_FILE = '/probe.ts';
+
+const MAX_COMPLETIONS = 100;
+
+const getTokenKinds = (ts: typeof TS): Partial<Record<number, ScriptTokenKind>> => {
+  const type = ts.ClassificationType;
+  return {
+    [type.comment]: 'comment',
+    [type.keyword]: 'keyword',
+    [type.stringLiteral]: 'string',
+    [type.numericLiteral]: 'number',
+    [type.bigintLiteral]: 'number',
+    [type.regularExpressionLiteral]: 'regexp',
+    [type.className]: 'type',
+    [type.enumName]: 'type',
+    [type.interfaceName]: 'type',
+    [type.typeAliasName]: 'type',
+    [type.typeParameterName]: 'type',
+    [type.moduleName]: 'type',
+    [type.parameterName]: 'parameter',
+  };
+};
+
+const createScriptLanguageService = async (): Promise<ScriptLanguageService> => {
+  const [ts, libs] = await Promise.all([
+    loadTypeScript(),
+    Promise.all(Object.entries(LIB_FILES).map(async ([name, load]) => [`/${name}`, (await load()).default] as const)),
+  ]);
+
+  const files = new Map<string, { text: string; version: number }>();
+  const setFile = (name: string, text: string) => {
+    const file = files.get(name);
+    if (file && file.text === text) return;
+    files.set(name, { text, version: (file?.version ?? 0) + 1 });
+  };
+  libs.forEach(([name, text]) => setFile(name, text));
+  setFile(GLOBALS_FILE, WORKER_GLOBALS);
+  setFile(PROBE_FILE, '');
+
+  let language: ScriptLanguage = 'javascript';
+  let scriptFile = SCRIPT_FILES[language];
+  let objectNames: string[] = [];
+  setFile(scriptFile, '');
+
+  const options: TS.CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.None,
+    noLib: true,
+    allowJs: true,
+    checkJs: false,
+    strict: true,
+    noImplicitAny: false, // Handler parameters are often left unannotated
+    noEmit: true,
+  };
+
+  const host: TS.LanguageServiceHost = {
+    getCompilationSettings: () => options,
+    getScriptFileNames: () => Array.from(files.keys()),
+    getScriptVersion: (name) => String(files.get(name)?.version ?? 0),
+    getScriptSnapshot: (name) => {
+      const file = files.get(name);
+      return file ? ts.ScriptSnapshot.fromString(file.text) : undefined;
+    },
+    getCurrentDirectory: () => '/',
+    getDefaultLibFileName: () => '/lib.es5.d.ts',
+    fileExists: (name) => files.has(name),
+    readFile: (name) => files.get(name)?.text,
+  };
+  const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+  const tokenKinds = getTokenKinds(ts);
+
+  const getSource = () => files.get(scriptFile)?.text ?? '';
+
+  const objectType = (name: string) =>
+    objectNames.includes(name) ? `TargetObjects[${JSON.stringify(name)}]` : 'ScriptAPI';
+
+  /**
+   * Type of the expression before a trailing `.`, worked out from the script text.
+   */
+  const receiverType = (before: string): string | null => {
+    const match = /(?:getObject\(\s*(['"`])([^'"`\n]*)\1\s*\)|(getAction)\([^()]*\)|([\w$]+))\s*\??\.\s*[\w$]*$/.exec(before);
+    if (!match) return null;
+    if (match[2] !== undefined) return objectType(match[2]);
+    if (match[3]) return 'ScriptAnimationAction';
+
+    const name = match[4];
+    if (name === 'target') return 'SceneScriptAPI';
+    if (name === 'object') return 'ScriptAPI';
+    if (name === 'storage') return 'ScriptStorageAPI';
+    // e.g. var logo = target.getObject('logo');
+    const assigned = new RegExp(`(?:^|[^\\w$.])${name.replace(/\$/g, '\\$')}\\s*=\\s*[\\w$]+\\.getObject\\(\\s*(['"\`])([^'"\`\\n]*)\\1\\s*\\)`).exec(getSource());
+    return assigned ? objectType(assigned[2]) : null;
+  };
+
+  const memberCompletions = (typeName: string): ScriptCompletion[] => {
+    const text = `declare const probe: ${typeName};\nprobe.`;
+    setFile(PROBE_FILE, text);
+    const info = service.getCompletionsAtPosition(PROBE_FILE, text.length, undefined);
+    // Keep `probe` from clashing with the script's own names
+    setFile(PROBE_FILE, '');
+    return (info?.entries ?? []).map(entry => ({ name: entry.name, kind: entry.kind }));
+  };
+
+  const lint = (sourceFile: TS.SourceFile): ScriptDiagnostic[] => {
+    const warnings: ScriptDiagnostic[] = [];
+    const warn = (node: TS.Node, message: string) => {
+      const start = node.getStart(sourceFile);
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+      warnings.push({ line: line + 1, column: character + 1, length: node.getWidth(sourceFile), message, severity: 'warning' });
+    };
+
+    sourceFile.statements.forEach((statement) => {
+      if (!ts.isFunctionDeclaration(statement) || !statement.name) return;
+      const name = statement.name.text;
+      const event = SCRIPT_RUNTIME_CONFIG.events.find(e => e.toLowerCase() === name.toLowerCase());
+      if (event && event !== name) warn(statement.name, `"${name}" is never called. Did you mean "${event}"?`);
+    });
+
+    // TypeScript scripts get this from the type checker
+    if (language === 'javascript') {
+      const visit = (node: TS.Node) => {
+        if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) &&
+            node.expression.name.text === 'getObject' && node.arguments.length > 0 &&
+            ts.isStringLiteralLike(node.arguments[0]) && !objectNames.includes(node.arguments[0].text)) {
+          warn(node.arguments[0], `This target has no object named "${node.arguments[0].text}".`);
+        }
+        ts.forEachChild(node, visit);
+      };
+      visit(sourceFile);
+    }
+
+    return warnings;
+  };
+
+  return {
+    update: (source, nextLanguage, target) => {
+      if (nextLanguage !== language) {
+        files.delete(scriptFile);
+        language = nextLanguage;
+        scriptFile = SCRIPT_FILES[language];
+      }
+      setFile(scriptFile, source);
+      setFile(TYPINGS_FILE, generateScriptTypings(target));
+      objectNames = target.contents.map(c => c.name);
+    },
+
+    getTokens: () => {
+      const { spans } = service.getEncodedSyntacticClassifications(scriptFile, { start: 0, length: getSource().length });
+      const tokens: ScriptToken[] = [];
+      for (let i = 0; i < spans.length; i += 3) {
+        const kind = tokenKinds[spans[i + 2]];
+        if (kind) tokens.push({ start: spans[i], length: spans[i + 1], kind });
+      }
+      return tokens;
+    },
+
+    getDiagnostics: () => {
+      const diagnostics = [
+        ...service.getSyntacticDiagnostics(scriptFile),
+        ...(language === 'typescript' ? service.getSemanticDiagnostics(scriptFile) : []),
+      ].map(d => toScriptDiagnostic(ts, d));
+      const sourceFile = service.getProgram()?.getSourceFile(scriptFile);
+      return [...diagnostics, ...(sourceFile ? lint(sourceFile) : [])]
+        .sort((a, b) => a.line - b.line || a.column - b.column);
+    },
+
+    getCompletions: (position) => {
+      const before = getSource().slice(0, position);
+
+      // Object names inside getObject('…')
+      const nameMatch = /\bgetObject\(\s*['"`]([^'"`\n]*)$/.exec(before);
+      if (nameMatch) {
+        const prefix = nameMatch[1];
+        const entries = objectNames
+          .filter(name => name.startsWith(prefix))
+          .map(name => ({ name, kind: 'string' }));
+        return entries.length > 0 ? { from: position - prefix.length, entries } : null;
+      }
+
+      const word = /[\w$]*$/.exec(before)![0];
+      const info = service.getCompletionsAtPosition(scriptFile, position, undefined);
+      let entries: ScriptCompletion[] = (info?.entries ?? [])
+        // In JavaScript, members of untyped values are guessed from every name in the file
+        .filter(entry => entry.kind !== ts.ScriptElementKind.warning)
+        .sort((a, b) => a.sortText.localeCompare(b.sortText) || a.name.localeCompare(b.name))
+        .map(entry => ({ name: entry.name, kind: entry.kind }));
+
+      if (!info?.isMemberCompletion || entries.length === 0) {
+        const type = receiverType(before);
+        if (type) {
+          entries = memberCompletions(type);
+        } else if (!word) {
+          // Only member lists open without a typed prefix
+          return null;
+        }
+      }
+
+      const lower = word.toLowerCase();
+      entries = entries
+        .filter(entry => entry.name.toLowerCase().startsWith(lower) && entry.name !== word)
+        .slice(0, MAX_COMPLETIONS);
+      return entries.length > 0 ? { from: position - word.length, entries } : null;
+    },
+
+    format: () => {
+      const settings: TS.FormatCodeSettings = {
+        ...ts.getDefaultFormatCodeSettings('\n'),
+        indentSize: 2,
+        tabSize: 2,
+        convertTabsToSpaces: true,
+      };
+      // Apply from the end so earlier offsets stay valid
+      return service.getFormattingEditsForDocument(scriptFile, settings)
+        .sort((a, b) => b.span.start - a.span.start)
+        .reduce((text, edit) =>
+          text.slice(0, edit.span.start) + edit.newText + text.slice(edit.span.start + edit.span.length), getSource());
+    },
+  };
+};
+
+let scriptLanguageService: Promise<ScriptLanguageService> | null = null;
+
+/**
+ * The shared script language service, loaded with the TypeScript compiler on first use.
+ */
+export const loadScriptLanguageService = (): Promise<ScriptLanguageService> => {
+  if (!scriptLanguageService) {
+    scriptLanguageService = createScriptLanguageService();
+    scriptLanguageService.catch(() => { scriptLanguageService = null; });
+  }
+  return scriptLanguageService;
+};
@@ -0,0 +1,581 @@
+import * as THREE from 'three';
+import { resolveObjectURL } from 'node:buffer';
+import vm from 'node:vm';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContentType } from '../types';
+import {
+  SCRIPT_RUNTIME_CONFIG,
+  ScriptContentDriver,
+  ScriptEventName,
+  ScriptPointerHit,
+  ScriptRuntimeHost,
+  ScriptTransform,
+  createScriptAPI,
+  createScriptAnimator,
+  createScriptHub,
+  createScriptPointer,
+  createScriptRuntime,
+  createScriptStorage,
+  isSafeScriptUrl,
+} from './scriptRuntime';
+
+/**
+ * Runs the worker source in a context of its own, with the network APIs of a browser worker.
+ * Messages are copied and delivered asynchronously both ways, like between a page and its worker.
+ */
+class FakeWorker {
+  static created: FakeWorker[] = [];
+  onmessage: ((e: { data: any }) => void) | null = null;
+  onerror: ((e: unknown) => void) | null = null;
+  terminated = false;
+  private listeners: ((e: { data: unknown }) => void)[] = [];
+  private loaded: Promise<void>;
+
+  constructor(url: string) {
+    FakeWorker.created.push(this);
+    const scope = vm.createContext({
+      console: { log: () => {} },
+      performance,
+      setTimeout,
+      setInterval,
+      fetch: () => Promise.resolve(),
+      XMLHttpRequest: function XMLHttpRequest() {},
+      importScripts: () => {},
+      postMessage: (data: unknown) => {
+        const copy = structuredClone(data);
+        setTimeout(() => { if (!this.terminated) this.onmessage?.({ data: copy }); });
+      },
+      addEventListener: (type: string, listener: (e: { data: unknown }) => void) => {
+        if (type === 'message') this.listeners.push(listener);
+      },
+    });
+    vm.runInContext('globalThis.self = globalThis;', scope);
+    // Named after the blob URL, so stack frames of the worker's own code are told from the script's
+    this.loaded = resolveObjectURL(url)!.text().then((source) => { vm.runInContext(source, scope, { filename: url }); });
+  }
+
+  postMessage(data: unknown) {
+    const copy = structuredClone(data);
+    this.loaded.then(() => {
+      if (!this.terminated) this.listeners.forEach(listener => listener({ data: copy }));
+    });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const createDriver = (name: string, type: string = ContentType.IMAGE): ScriptContentDriver & { transform: ScriptTransform } => {
+  const transform: ScriptTransform = { position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1], visible: true };
+  return {
+    uuid: `${name}-uuid`,
+    name,
+    type,
+    transform,
+    getTransform: () => transform,
+    setPosition: vi.fn((x, y, z) => { transform.position = [x, y, z]; }),
+    setRotation: vi.fn((x, y, z) => { transform.rotation = [x, y, z]; }),
+    setScale: vi.fn((x, y, z) => { transform.scale = [x, y, z]; }),
+    setVisible: vi.fn((visible) => { transform.visible = visible; }),
+  };
+};
+
+const createHost = (objects: ScriptContentDriver[] = []) => ({
+  getObjects: () => objects,
+  captureScreen: vi.fn(),
+  openUrl: vi.fn(),
+  onError: vi.fn(),
+  onLog: vi.fn(),
+}) satisfies ScriptRuntimeHost;
+
+describe('createScriptRuntime', () => {
+  beforeEach(() => {
+    FakeWorker.created = [];
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('compiles the script and finds its handlers', async () => {
+    const runtime = createScriptRuntime('function onInit() {}\nfunction onclick() {}', createHost());
+    expect(await runtime.ready).toBe(true);
+    expect(runtime.hasHandler('onInit')).toBe(true);
+    expect(runtime.hasHandler('onClick')).toBe(false);
+  });
+
+  it('reports scripts that do not compile', async () => {
+    const host = createHost();
+    expect(await createScriptRuntime('function onInit( {', host).ready).toBe(false);
+    expect(host.onError).toHaveBeenCalledWith(expect.any(String), 'compile', undefined);
+  });
+
+  it('applies the changes of a handler once it returns', async () => {
+    const box = createDriver('box');
+    const runtime = createScriptRuntime(`
+      function onClick({ object, target }) {
+        object.setPosition(1, 2, 3);
+        target.getObject('box').setVisible(object.position.x !== 1);
+      }`, createHost([box]));
+    await runtime.ready;
+    runtime.dispatch('onClick', { object: 'box' });
+    await vi.waitFor(() => expect(box.setVisible).toHaveBeenCalledWith(false));
+    expect(box.setPosition).toHaveBeenCalledWith(1, 2, 3);
+  });
+
+  it('leaves scripts nothing to talk to but the host', async () => {
+    const host = createHost();
+    const runtime = createScriptRuntime(`
+      function onInit() {
+        throw new Error([typeof fetch, typeof XMLHttpRequest, typeof importScripts, typeof postMessage, typeof self.addEventListener].join());
+      }`, host);
+    await runtime.ready;
+    runtime.dispatch('onInit');
+    await vi.waitFor(() => expect(host.onError).toHaveBeenCalled());
+    expect(host.onError.mock.calls[0][0]).toBe('undefined,undefined,undefined,undefined,undefined');
+  });
+
+  it('leaves scripts no way to build code from strings', async () => {
+    const host = createHost();
+    const runtime = createScriptRuntime(`
+      function onInit() {
+        const kinds = [function () {}, async function () {}, function* () {}, async function* () {}];
+        throw new Error([typeof Function, typeof eval, typeof globalThis.eval, ...kinds.map(fn => typeof fn.constructor)].join());
+      }
+      function onClick() {
+        setTimeout('self.ran = true');
+      }`, host);
+    await runtime.ready;
+    runtime.dispatch('onInit');
+    runtime.dispatch('onClick');
+    await vi.waitFor(() => expect(host.onError).toHaveBeenCalledTimes(2));
+    expect(host.onError.mock.calls[0][0]).toBe('undefined,undefined,undefined,undefined,undefined,undefined,undefined');
+    expect(host.onError.mock.calls[1]).toEqual(['setTimeout() only takes a function', 'onClick', expect.anything()]);
+  });
+
+  it('rejects scripts that call import()', async () => {
+    const host = createHost();
+    const runtime = createScriptRuntime('function onInit() {}\nasync function onClick() {\n  await import /* x */ ("https://example.com/x.js");\n}', host);
+    expect(await runtime.ready).toBe(false);
+    expect(host.onError).toHaveBeenCalledWith('import() is not available in scripts', 'compile', { line: 3, column: 9, stack: [] });
+    expect(FakeWorker.created).toEqual([]);
+  });
+
+  it('finds import() behind comments', () => {
+    const host = createHost();
+    createScriptRuntime('function onInit() {\n  import // x\n  <!-- y\n  ("https://example.com/x.js");\n}', host);
+    expect(host.onError).toHaveBeenCalledWith('import() is not available in scripts', 'compile', { line: 2, column: 3, stack: [] });
+  });
+
+  it('allows methods and names that only look like import', async () => {
+    const runtime = createScriptRuntime('var imports = [];\nfunction onInit({ data }) { data.importer.import(1); }', createHost());
+    expect(await runtime.ready).toBe(true);
+  });
+
+  it('forwards the console with the line it was called from', async () => {
+    const host = createHost();
+    const runtime = createScriptRuntime('function onInit() {\n  console.warn("score", { value: 1 });\n}', host);
+    await runtime.ready;
+    runtime.dispatch('onInit');
+    await vi.waitFor(() => expect(host.onLog).toHaveBeenCalled());
+    expect(host.onLog).toHaveBeenCalledWith('warn', 'score { value: 1 }', expect.objectContaining({ name: 'onInit', line: 2 }));
+  });
+
+  it('locates errors thrown by a handler', async () => {
+    const host = createHost();
+    const runtime = createScriptRuntime('function fail() {\n  null.x;\n}\nfunction onInit() {\n  fail();\n}', host);
+    await runtime.ready;
+    runtime.dispatch('onInit');
+    await vi.waitFor(() => expect(host.onError).toHaveBeenCalled());
+    const [, event, location] = host.onError.mock.calls[0];
+    expect(event).toBe('onInit');
+    expect(location).toMatchObject({ line: 2, stack: [{ name: 'fail', line: 2 }, { name: 'onInit', line: 5 }] });
+  });
+
+  it('prints the data of the script for inspection', async () => {
+    const onInspect = vi.fn();
+    const runtime = createScriptRuntime('function onInit({ data }) { data.score = 3; }', { ...createHost(), onInspect });
+    await runtime.ready;
+    runtime.dispatch('onInit');
+    await vi.waitFor(() => expect(onInspect.mock.lastCall[0].timings).toHaveProperty('onInit'));
+    expect(onInspect.mock.lastCall[0]).toMatchObject({ data: '{ score: 3 }', timings: { onInit: { calls: 1 } } });
+  });
+
+  it('runs timers and tweens on the clock of onUpdate', async () => {
+    const box = createDriver('box');
+    const runtime = createScriptRuntime(`
+      function onActivate({ target }) {
+        target.setTimeout(() => target.getObject('box').setVisible(false), 500);
+        target.tween('box', { position: { x: 2 } }, 1, 'linear');
+        target.getObject('box').setScale(2, 2, 2);
+      }`, createHost([box]));
+    await runtime.ready;
+    runtime.dispatch('onActivate');
+    const update = async (deltaTime: number, expected: number) => {
+      runtime.dispatch('onUpdate', { deltaTime });
+      await vi.waitFor(() => expect(box.setPosition).toHaveBeenCalledTimes(expected));
+    };
+    await vi.waitFor(() => expect(box.setScale).toHaveBeenCalled());
+    await update(0.25, 1);
+    expect(box.transform.position[0]).toBeCloseTo(0.5);
+    expect(box.setVisible).not.toHaveBeenCalled();
+    await update(0.5, 2);
+    expect(box.transform.position[0]).toBeCloseTo(1.5);
+    expect(box.setVisible).toHaveBeenCalledWith(false);
+  });
+
+  it('stops after running the events already queued', async () => {
+    const box = createDriver('box');
+    const runtime = createScriptRuntime('function onDeactivate({ target }) { target.getObject("box").setVisible(false); }', createHost([box]));
+    await runtime.ready;
+    runtime.dispatch('onDeactivate');
+    runtime.stop();
+    runtime.dispatch('onDeactivate');
+    await vi.waitFor(() => expect(FakeWorker.created[0].terminated).toBe(true));
+    expect(box.setVisible).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports once stopped, after the calls of the events already queued', async () => {
+    const box = createDriver('box');
+    const runtime = createScriptRuntime('function onDeactivate({ target }) { target.getObject("box").setVisible(false); }', createHost([box]));
+    await runtime.ready;
+    runtime.dispatch('onDeactivate');
+    const onStopped = vi.fn(() => expect(box.setVisible).toHaveBeenCalledWith(false));
+    runtime.stop(onStopped);
+    expect(onStopped).not.toHaveBeenCalled();
+    await vi.waitFor(() => expect(onStopped).toHaveBeenCalledTimes(1));
+    expect(onStopped).toHaveReturned();
+    runtime.dispose();
+    expect(onStopped).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createScriptHub', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('carries messages and state between the scripts of a project', async () => {
+    const hub = createScriptHub(['poster']);
+    const box = createDriver('box');
+    const sender = hub.createRuntime('', 'function onInit({ target }) { target.setState("level", 2); target.emit("go", { speed: 3 }); }', createHost());
+    const receiver = hub.createRuntime('poster', `
+      function onInit({ target }) {
+        target.on('go', (payload, from) => target.getObject('box').setPosition(payload.speed, target.getState('level'), from.length));
+      }`, createHost([box]));
+    await Promise.all([sender.ready, receiver.ready]);
+    receiver.dispatch('onInit');
+    await vi.waitFor(() => expect(receiver.hasHandler('onInit')).toBe(true));
+    sender.dispatch('onInit');
+    await vi.waitFor(() => expect(box.setPosition).toHaveBeenCalledWith(3, 2, 0));
+  });
+
+  it('tells every script when a target is found', async () => {
+    const hub = createScriptHub(['poster', 'cover']);
+    const box = createDriver('box');
+    const runtime = hub.createRuntime('', `
+      function onTargetFound({ target, targetName }) {
+        const found = target.getTargets().filter(t => t.found).map(t => t.name);
+        target.getObject('box').setVisible(targetName === 'cover' && found.join() === 'cover');
+      }`, createHost([box]));
+    await runtime.ready;
+    hub.setTargetTracked('cover', true);
+    hub.setTargetTracked('cover', true);
+    hub.setTargetTracked('missing', true);
+    await vi.waitFor(() => expect(box.setVisible).toHaveBeenCalledWith(true));
+    expect(box.setVisible).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops sending messages to disposed scripts', async () => {
+    const hub = createScriptHub([]);
+    const host = createHost();
+    const sender = hub.createRuntime('', 'function onInit({ target }) { target.emit("go"); }', createHost());
+    const stopped = hub.createRuntime('other', 'function onMessage() { throw new Error("heard"); }', host);
+    await Promise.all([sender.ready, stopped.ready]);
+    const dispatch = vi.spyOn(stopped, 'dispatch');
+    stopped.dispose();
+    sender.dispatch('onInit');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+});
+
+describe('createScriptStorage', () => {
+  let stored: Map<string, string>;
+
+  beforeEach(() => {
+    stored = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value),
+      removeItem: (key: string) => stored.delete(key),
+    });
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const key = `${SCRIPT_RUNTIME_CONFIG.storagePrefix}demo`;
+
+  it('saves values under the namespace and removes it once empty', () => {
+    const onChange = vi.fn();
+    const storage = createScriptStorage('demo', onChange);
+    storage.set('best', 10);
+    expect(JSON.parse(stored.get(key)!)).toEqual({ best: 10 });
+    expect(onChange).toHaveBeenLastCalledWith({ best: 10 });
+    storage.set('best', undefined);
+    expect(stored.has(key)).toBe(false);
+  });
+
+  it('reads the values saved on an earlier visit', () => {
+    stored.set(key, '{"best":4}');
+    expect(createScriptStorage('demo').getAll()).toEqual({ best: 4 });
+    stored.set(key, 'not json');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(createScriptStorage('demo').getAll()).toEqual({});
+  });
+
+  it('keeps values in memory without a namespace', () => {
+    const storage = createScriptStorage();
+    storage.set('a', 1);
+    expect(storage.getAll()).toEqual({ a: 1 });
+    expect(stored.size).toBe(0);
+  });
+
+  it('is what scripts read and write through `storage`', async () => {
+    stored.set(key, '{"visits":1}');
+    const hub = createScriptHub([], createScriptStorage('demo'));
+    const runtime = hub.createRuntime('', 'function onInit({ storage }) { storage.set("visits", storage.get("visits") + 1); }', createHost());
+    await runtime.ready;
+    runtime.dispatch('onInit');
+    await vi.waitFor(() => expect(JSON.parse(stored.get(key)!)).toEqual({ visits: 2 }));
+  });
+});
+
+describe('createScriptAPI', () => {
+  it('offers the methods of the content type', () => {
+    expect(createScriptAPI(createDriver('logo'))).not.toHaveProperty('playVideo');
+    expect(createScriptAPI(createDriver('clip', ContentType.VIDEO))).toHaveProperty('playVideo');
+    expect(createScriptAPI(createDriver('robot', ContentType.MODEL))).toHaveProperty('setMorph');
+  });
+
+  it('reads and changes the transform through the driver', () => {
+    const driver = createDriver('logo');
+    const api = createScriptAPI(driver);
+    api.setPosition(1, 2, 3);
+    expect(api.position).toEqual({ x: 1, y: 2, z: 3 });
+  });
+
+  it('keeps media values in range and does nothing without media', () => {
+    const media = { play: vi.fn(), pause: vi.fn(), stop: vi.fn(), isPlaying: () => true, setVolume: vi.fn() };
+    const api = createScriptAPI({ ...createDriver('clip', ContentType.VIDEO), media }) as unknown as Record<string, (...args: unknown[]) => unknown>;
+    api.setVolume(3);
+    expect(media.setVolume).toHaveBeenCalledWith(1);
+    expect(api.isPlayingVideo()).toBe(true);
+    const idle = createScriptAPI(createDriver('clip', ContentType.VIDEO)) as unknown as Record<string, (...args: unknown[]) => unknown>;
+    expect(() => idle.playVideo()).not.toThrow();
+    expect(idle.isPlayingVideo()).toBe(false);
+  });
+});
+
+describe('isSafeScriptUrl', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { location: { href: 'https://app.example.com/apps/demo' } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('accepts web, mail and phone links', () => {
+    expect(isSafeScriptUrl('https://example.com')).toBe(true);
+    expect(isSafeScriptUrl('/relative')).toBe(true);
+    expect(isSafeScriptUrl('mailto:hi@example.com')).toBe(true);
+  });
+
+  it('rejects script and data URLs', () => {
+    expect(isSafeScriptUrl('javascript:alert(1)')).toBe(false);
+    expect(isSafeScriptUrl('data:text/html,hi')).toBe(false);
+  });
+});
+
+describe('createScriptAnimator', () => {
+  const createModel = () => {
+    const root = new THREE.Object3D();
+    const mixer = new THREE.AnimationMixer(root);
+    const clip = (name: string) => new THREE.AnimationClip(name, 1, [new THREE.NumberKeyframeTrack('.position[x]', [0, 1], [0, 1])]);
+    const actions = { idle: mixer.clipAction(clip('idle')), wave: mixer.clipAction(clip('wave')) };
+    return { mixer, actions };
+  };
+
+  it('plays clips by name or index and stops the others', () => {
+    const { mixer, actions } = createModel();
+    const animator = createScriptAnimator(mixer, actions);
+    expect(animator.getClips()).toEqual(['idle', 'wave']);
+    animator.play(0);
+    animator.play('wave', { loop: 'once' });
+    expect(actions.idle.isRunning()).toBe(false);
+    expect(actions.wave.isRunning()).toBe(true);
+    expect(actions.wave.loop).toBe(THREE.LoopOnce);
+    animator.stopAll();
+    expect(actions.wave.isRunning()).toBe(false);
+  });
+
+  it('ignores unknown clips and options', () => {
+    const { mixer, actions } = createModel();
+    const animator = createScriptAnimator(mixer, actions);
+    animator.play('dance');
+    animator.play(5);
+    expect(actions.idle.isRunning()).toBe(false);
+    animator.play(0, { loop: 'sideways' as never, timeScale: Number.NaN });
+    expect(actions.idle.loop).toBe(THREE.LoopRepeat);
+    expect(actions.idle.getEffectiveTimeScale()).toBe(1);
+  });
+
+  it('reports clips that finish', () => {
+    const { mixer, actions } = createModel();
+    const onFinished = vi.fn();
+    const animator = createScriptAnimator(mixer, actions, onFinished);
+    animator.play('wave', { loop: 'once' });
+    mixer.update(2);
+    expect(onFinished).toHaveBeenCalledWith('wave');
+    animator.dispose();
+    animator.play('wave', { loop: 'once' });
+    mixer.update(2);
+    expect(onFinished).toHaveBeenCalledTimes(1);
+  });
+
+  it('plays the default clip, or the first one', () => {
+    const { mixer, actions } = createModel();
+    const animator = createScriptAnimator(mixer, actions);
+    animator.playDefault('missing');
+    expect(actions.idle.isRunning()).toBe(true);
+    animator.playDefault('wave', 'pingpong');
+    expect(actions.wave.loop).toBe(THREE.LoopPingPong);
+  });
+});
+
+// A 100 x 100 view at the page origin, so client coordinates are percentages of it
+class FakeView extends EventTarget {
+  getBoundingClientRect() {
+    return { left: 0, top: 0, width: 100, height: 100 };
+  }
+  setPointerCapture() {}
+}
+
+const pointer = (type: string, clientX: number, clientY: number, init: { pointerId?: number; pointerType?: string; button?: number } = {}) =>
+  Object.assign(new Event(type), { pointerId: 1, pointerType: 'touch', button: 0, clientX, clientY, ...init });
+
+const hit = (object: string): ScriptPointerHit<string> => ({ owner: 'target', object, point: [0, 0, 0.5], distance: 1 });
+
+describe('createScriptPointer', () => {
+  let view: FakeView;
+  let events: { event: ScriptEventName; object?: string; point?: number[] }[];
+  let scriptPointer: ReturnType<typeof createScriptPointer>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    view = new FakeView();
+    events = [];
+    scriptPointer = createScriptPointer<string>(view as unknown as HTMLElement, {
+      // Content covers the left half of the view
+      pick: (screen) => screen.x < 0.5 ? hit('box') : null,
+      projectToTarget: (_owner, screen, depth) => [screen.x, screen.y, depth],
+      dispatch: (_owner, event, params) => events.push({ event, object: params.object, point: params.point }),
+    });
+  });
+
+  afterEach(() => {
+    scriptPointer.dispose();
+    vi.useRealTimers();
+  });
+
+  const names = () => events.map(e => e.event);
+
+  it('sends a press and release on content, which is a click', () => {
+    view.dispatchEvent(pointer('pointerdown', 10, 10));
+    view.dispatchEvent(pointer('pointerup', 10, 10));
+    expect(names()).toEqual(['onPointerDown', 'onPointerUp']);
+    expect(events[0].object).toBe('box');
+    expect(scriptPointer.isClick()).toBe(true);
+  });
+
+  it('ignores presses on nothing and other mouse buttons', () => {
+    view.dispatchEvent(pointer('pointerdown', 90, 10));
+    view.dispatchEvent(pointer('pointerdown', 10, 10, { pointerType: 'mouse', button: 2 }));
+    view.dispatchEvent(pointer('pointerup', 10, 10));
+    expect(events).toEqual([]);
+  });
+
+  it('only drags once the press moves further than the drag distance', () => {
+    view.dispatchEvent(pointer('pointerdown', 10, 10));
+    view.dispatchEvent(pointer('pointermove', 10 + SCRIPT_RUNTIME_CONFIG.dragDistance - 1, 10));
+    expect(names()).toEqual(['onPointerDown']);
+
+    view.dispatchEvent(pointer('pointermove', 30, 20));
+    view.dispatchEvent(pointer('pointermove', 40, 20));
+    view.dispatchEvent(pointer('pointerup', 40, 20));
+    expect(names()).toEqual(['onPointerDown', 'onDragStart', 'onDrag', 'onDrag', 'onDragEnd', 'onPointerUp']);
+    // Dragged on the plane of the depth the content was grabbed at
+    expect(events[3].point).toEqual([0.4, 0.2, 0.5]);
+    expect(events[5].point).toEqual([0.4, 0.2, 0.5]);
+    expect(scriptPointer.isClick()).toBe(false);
+  });
+
+  it('follows only the pointer that pressed', () => {
+    view.dispatchEvent(pointer('pointerdown', 10, 10));
+    view.dispatchEvent(pointer('pointermove', 40, 40, { pointerId: 2 }));
+    view.dispatchEvent(pointer('pointerup', 40, 40, { pointerId: 2 }));
+    expect(names()).toEqual(['onPointerDown']);
+  });
+
+  it('sends a long press for a press held still', () => {
+    view.dispatchEvent(pointer('pointerdown', 10, 10));
+    vi.advanceTimersByTime(SCRIPT_RUNTIME_CONFIG.longPressMs);
+    view.dispatchEvent(pointer('pointerup', 10, 10));
+    expect(names()).toEqual(['onPointerDown', 'onLongPress', 'onPointerUp']);
+    expect(scriptPointer.isClick()).toBe(false);
+  });
+
+  it('sends no long press once the press drags', () => {
+    view.dispatchEvent(pointer('pointerdown', 10, 10));
+    view.dispatchEvent(pointer('pointermove', 40, 10));
+    vi.advanceTimersByTime(SCRIPT_RUNTIME_CONFIG.longPressMs);
+    expect(names()).not.toContain('onLongPress');
+  });
+
+  it('ends a cancelled press without a release', () => {
+    view.dispatchEvent(pointer('pointerdown', 10, 10));
+    view.dispatchEvent(pointer('pointermove', 40, 10));
+    view.dispatchEvent(pointer('pointercancel', 40, 10));
+    expect(names()).toEqual(['onPointerDown', 'onDragStart', 'onDrag', 'onDragEnd']);
+    expect(scriptPointer.isClick()).toBe(false);
+  });
+
+  it('hovers with mice only', () => {
+    view.dispatchEvent(pointer('pointermove', 10, 10));
+    expect(events).toEqual([]);
+
+    view.dispatchEvent(pointer('pointermove', 10, 10, { pointerType: 'mouse' }));
+    view.dispatchEvent(pointer('pointermove', 20, 10, { pointerType: 'mouse' }));
+    view.dispatchEvent(pointer('pointermove', 90, 10, { pointerType: 'mouse' }));
+    view.dispatchEvent(pointer('pointermove', 10, 10, { pointerType: 'mouse' }));
+    view.dispatchEvent(pointer('pointerleave', 200, 10, { pointerType: 'mouse' }));
+    expect(names()).toEqual(['onHoverEnter', 'onHoverLeave', 'onHoverEnter', 'onHoverLeave']);
+  });
+
+  it('stops listening once disposed', () => {
+    scriptPointer.dispose();
+    view.dispatchEvent(pointer('pointerdown', 10, 10));
+    vi.advanceTimersByTime(SCRIPT_RUNTIME_CONFIG.longPressMs);
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,1567 @@
+/**
+ * Shared script runtime for target scripts.
+ *
+ * The editor preview (useScriptEngine), the runtime Player and the exported viewer all run
+ * scripts through this module, so scripts get the same events and the same API everywhere.
+ * A host only describes its contents as ScriptContentDriver objects. The script API built
+ * on top of them, the sandboxed worker and the time budgets are shared.
+ *
+ * Scripts run in a dedicated Web Worker, so they have no access to the page (DOM, cookies,
+ * storage, the Supabase client) and the worker's network APIs are removed before any script code runs.
+ * Inside the worker scripts get the API below, backed by state snapshots the host sends with
+ * every event. Calls that change the scene are queued and applied by the host once the handler returns.
+ * A handler that overruns its time budget gets its worker terminated, which stops the script instead of the viewer.
+ * The scripts of a project (one per target, plus the project script) are connected through a
+ * ScriptHub, which carries messages between them, their shared state and target tracking.
+ * The hub also keeps the project's `storage`, which a ScriptStorage can persist across visits.
+ * createScriptPointer() turns a host's pointer input into the pointer, hover and drag events,
+ * and createScriptAnimator() plays a model's animation clips for play(), crossFadeTo() and stopAll().
+ *
+ * The implementation lives in defineScriptRuntime(), which the exported viewer embeds via
+ * Function.prototype.toString(). It must stay self-contained: everything it needs comes
+ * through its config argument, and it avoids classes, which the build rewrites with helpers.
+ */
+
+import { LoopOnce, LoopPingPong, LoopRepeat } from 'three';
+import type { AnimationAction, AnimationActionLoopStyles, AnimationMixer } from 'three';
+import { ContentType, Project } from '../types';
+
+export type ScriptEventName =
+  | 'onInit' | 'onActivate' | 'onDeactivate' | 'onUpdate' | 'onClick'
+  | 'onTargetFound' | 'onTargetLost' | 'onMessage'
+  | 'onPointerDown' | 'onPointerUp' | 'onHoverEnter' | 'onHoverLeave' | 'onLongPress'
+  | 'onDragStart' | 'onDrag' | 'onDragEnd' | 'onAnimationFinished'
+  | AudioScriptEvent;
+
+// Sent by an audio content as its clips and subtitle cues play
+export type AudioScriptEvent = 'onEnded' | 'onCueEnter' | 'onCueExit';
+
+export type ScriptContentKind = 'content' | 'video' | 'audio' | 'streaming' | 'model';
+
+export type Vector3Tuple = [number, number, number];
+
+export interface ScriptVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// --- Script-facing API ---
+
+export interface ScriptAPI {
+  uuid: string;
+  name: string;
+  readonly position: ScriptVector;
+  readonly rotation: ScriptVector; // Degrees
+  readonly scale: ScriptVector;
+  readonly visible: boolean;
+  setPosition: (x: number, y: number, z: number) => void;
+  setRotation: (x: number, y: number, z: number) => void;
+  setScale: (x: number, y: number, z: number) => void;
+  setVisible: (visible: boolean) => void;
+}
+
+/**
+ * Playback controls shared by video files, audio and streaming videos.
+ */
+export interface MediaScriptAPI extends ScriptAPI {
+  playVideo: () => void;
+  pauseVideo: () => void;
+  stopVideo: () => void;
+  seekTo: (seconds: number) => void;
+  setVolume: (volume: number) => void;
+  setMuted: (muted: boolean) => void;
+  setLoop: (loop: boolean) => void;
+  isPlayingVideo: () => boolean;
+}
+
+export type VideoScriptAPI = MediaScriptAPI;
+
+/**
+ * Audio plays a playlist of clips; a single audio file is a playlist of one.
+ * Clip numbers start at 0.
+ */
+export interface AudioScriptAPI extends MediaScriptAPI {
+  seek: (seconds: number) => void; // Same as seekTo(), within the current clip
+  next: () => void;
+  previous: () => void; // Back to the start of the clip, or the previous clip within its first 3 seconds
+  playTrack: (index: number) => void;
+  getTrack: () => number;
+  getTrackCount: () => number;
+}
+
+export interface EmbedScriptAPI extends MediaScriptAPI {
+  setPlaybackRate: (rate: number) => void;
+  setCaptions: (enabled: boolean, lang?: string) => void;
+  getVideoId: () => string | null;
+  getService: () => string | null;
+}
+
+/**
+ * The part of a model animation action scripts can drive. Calls can be chained.
+ */
+export interface ScriptAnimationAction {
+  play(): ScriptAnimationAction;
+  stop(): ScriptAnimationAction;
+  reset(): ScriptAnimationAction;
+  halt(duration: number): ScriptAnimationAction;
+  fadeIn(duration: number): ScriptAnimationAction;
+  fadeOut(duration: number): ScriptAnimationAction;
+  setLoop(mode: number, repetitions: number): ScriptAnimationAction; // mode: THREE.LoopOnce 2200, LoopRepeat 2201, LoopPingPong 2202
+  setDuration(duration: number): ScriptAnimationAction;
+  setEffectiveTimeScale(timeScale: number): ScriptAnimationAction;
+  setEffectiveWeight(weight: number): ScriptAnimationAction;
+}
+
+export type ScriptAnimationLoop = 'once' | 'repeat' | 'pingpong';
+
+export interface ScriptAnimationOptions {
+  fade?: number; // Seconds to fade the clip in and whatever else plays out
+  loop?: ScriptAnimationLoop; // Default 'repeat'
+  timeScale?: number; // 1 = normal speed, negative plays backwards
+}
+
+export interface ScriptCrossFadeOptions {
+  loop?: ScriptAnimationLoop;
+  timeScale?: number;
+  warp?: boolean; // Also blend the speed of both clips
+}
+
+export interface ModelScriptAPI extends ScriptAPI {
+  getAction: (nameOrIndex?: string | number) => ScriptAnimationAction | undefined;
+  getClips: () => string[];
+  play: (nameOrIndex?: string | number, options?: ScriptAnimationOptions) => void;
+  crossFadeTo: (nameOrIndex: string | number, duration: number, options?: ScriptCrossFadeOptions) => void;
+  stopAll: (fade?: number) => void;
+  setMorph: (name: string, value: number) => void; // Morph target (blendshape) influence, 0 to 1
+  updateTexture: (materialName: string, imageUrl: string) => void;
+}
+
+export type ScriptEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+
+/**
+ * Properties tween() can animate. Missing axes keep their current value.
+ */
+export interface ScriptTweenProps {
+  position?: Partial<ScriptVector> | Vector3Tuple;
+  rotation?: Partial<ScriptVector> | Vector3Tuple; // Degrees
+  scale?: Partial<ScriptVector> | Vector3Tuple;
+}
+
+/**
+ * Resolves with true when the tween finishes and false when it is cancelled or replaced.
+ */
+export interface ScriptTween extends Promise<boolean> {
+  cancel: () => void;
+}
+
+export interface SceneScriptAPI {
+  /** Get a content object by name */
+  getObject: (name: string) => ScriptAPI | null;
+  /** Capture a screenshot of the current view */
+  captureScreen: () => void;
+  /** Open a URL in a new tab */
+  openUrl: (url: string) => void;
+  /** Animate an object (or object name) over `duration` seconds */
+  tween: (object: ScriptAPI | string, props: ScriptTweenProps, duration: number, easing?: ScriptEasing) => ScriptTween;
+  /** Timers on the target's clock: paused while the target is lost, cleared on onDeactivate */
+  setTimeout: (callback: (...args: any[]) => void, ms: number, ...args: any[]) => number;
+  setInterval: (callback: (...args: any[]) => void, ms: number, ...args: any[]) => number;
+  clearTimeout: (id: number) => void;
+  clearInterval: (id: number) => void;
+  /** Send a message to the other scripts of the project */
+  emit: (message: string, payload?: unknown) => void;
+  /** Listen for a message from the other scripts. Returns a function that stops listening. */
+  on: (message: string, listener: (payload: unknown, from: string) => void) => () => void;
+  /** Project state shared by all scripts. Values must be structured-cloneable. */
+  getState: (key: string) => unknown;
+  setState: (key: string, value: unknown) => void;
+  /** Every target of the project and whether it is or was tracked */
+  getTargets: () => ScriptTargetStatus[];
+  /** The target's content under a point of the view. Resolves on the next frame. */
+  raycast: (screenX: number, screenY: number) => Promise<ScriptRaycastHit | null>;
+}
+
+/**
+ * Values kept across visits of the experience. Values are stored as JSON:
+ * get() returns a copy, so change an object and set() it again to save it.
+ */
+export interface ScriptStorageAPI {
+  get: (key: string) => unknown;
+  /** Setting undefined removes the key */
+  set: (key: string, value: unknown) => void;
+  remove: (key: string) => void;
+  keys: () => string[];
+  clear: () => void;
+}
+
+/**
+ * A point of the view, from 0 to 1 across it, starting at the top left corner.
+ */
+export interface ScriptScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface ScriptRaycastHit {
+  object: ScriptAPI | null;
+  point: ScriptVector; // In target space
+  distance: number;
+}
+
+export interface ScriptTargetStatus {
+  name: string;
+  tracked: boolean; // In view right now
+  found: boolean; // Has been tracked since the project started
+}
+
+/**
+ * A subtitle cue of an audio clip (onCueEnter, onCueExit). Times are in seconds into the clip.
+ */
+export interface ScriptCue {
+  id: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ScriptEventParams {
+  target: SceneScriptAPI;
+  data: Record<string, any>;
+  storage: ScriptStorageAPI;
+  time?: number;
+  deltaTime?: number;
+  object?: ScriptAPI | null; // The clicked content (onClick), the model (onAnimationFinished), the audio (onEnded, cue events)
+  targetName?: string; // The target found or lost (onTargetFound, onTargetLost)
+  message?: string; // onMessage
+  payload?: unknown; // onMessage
+  from?: string; // Target that sent the message, '' for the project script (onMessage)
+  point?: ScriptVector; // Where the pointer is on the object, in target space (pointer events)
+  screen?: ScriptScreenPoint; // Where the pointer is on the view (pointer events)
+  clip?: string; // The clip that ended (onAnimationFinished)
+  track?: number; // The audio clip that ended (onEnded) or whose cue it is (cue events)
+  cue?: ScriptCue; // onCueEnter, onCueExit
+}
+
+// --- Host-facing contract ---
+
+export interface ScriptTransform {
+  position: Vector3Tuple;
+  rotation: Vector3Tuple; // Degrees
+  scale: Vector3Tuple;
+  visible: boolean;
+}
+
+/**
+ * Media playback as a host implements it. Optional controls a player doesn't support are skipped.
+ */
+export interface ScriptMediaDriver {
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  isPlaying: () => boolean;
+  seekTo?: (seconds: number) => void;
+  setVolume?: (volume: number) => void;
+  setMuted?: (muted: boolean) => void;
+  setLoop?: (loop: boolean) => void;
+  setPlaybackRate?: (rate: number) => void;
+  setCaptions?: (enabled: boolean, lang?: string) => void;
+  getVideoId?: () => string | null;
+  getService?: () => string | null;
+  next?: () => void;
+  previous?: () => void;
+  playTrack?: (index: number) => void;
+  getTrack?: () => number;
+  getTrackCount?: () => number;
+}
+
+/**
+ * Model controls as a host implements them. Clip playback usually comes from createScriptAnimator();
+ * it is missing while the model has no animations.
+ */
+export interface ScriptModelDriver extends Partial<Pick<ScriptAnimator, 'getClips' | 'play' | 'crossFadeTo' | 'stopAll'>> {
+  getAction: (nameOrIndex?: string | number) => ScriptAnimationAction | undefined;
+  setMorph: (name: string, value: number) => void; // On every mesh with that morph target
+  updateTexture: (materialName: string, imageUrl: string) => void;
+}
+
+/**
+ * One content as a host exposes it to scripts. The script API is derived from the
+ * content type alone, so every host offers the same methods; a host missing a capability
+ * (e.g. media not loaded yet) just makes those methods no-ops.
+ */
+export interface ScriptContentDriver {
+  uuid: string;
+  name: string;
+  type: string;
+  getTransform: () => ScriptTransform;
+  setPosition: (x: number, y: number, z: number) => void;
+  setRotation: (x: number, y: number, z: number) => void; // Degrees
+  setScale: (x: number, y: number, z: number) => void;
+  setVisible: (visible: boolean) => void;
+  media?: ScriptMediaDriver | null;
+  model?: ScriptModelDriver | null;
+}
+
+export type ScriptLogLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+/**
+ * A call inside the script, in the code passed to createScriptRuntime. 1-based.
+ * `name` is empty for top-level code and anonymous functions.
+ */
+export interface ScriptStackFrame {
+  name: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Where a script error was thrown. `stack` lists the script's frames leading there, innermost first.
+ */
+export interface ScriptErrorLocation {
+  line: number;
+  column: number;
+  stack: ScriptStackFrame[];
+}
+
+/**
+ * Milliseconds spent in one handler, measured inside the worker.
+ */
+export interface ScriptHookTiming {
+  calls: number;
+  last: number;
+  max: number;
+  total: number;
+}
+
+export interface ScriptInspection {
+  data: string | null; // The script's `data` object, printed; null until a handler has run
+  timings: Partial<Record<ScriptEventName | 'compile', ScriptHookTiming>>;
+}
+
+export interface ScriptRuntimeHost {
+  getObjects: () => ScriptContentDriver[];
+  captureScreen: () => void;
+  openUrl: (url: string) => void;
+  onError: (message: string, event: ScriptEventName | 'compile', location?: ScriptErrorLocation) => void;
+  /** Console output of the script. It is printed to the browser console either way. */
+  onLog?: (level: ScriptLogLevel, message: string, frame?: ScriptStackFrame) => void;
+  /** Called after every handled event. Printing `data` is skipped when this is not set. */
+  onInspect?: (inspection: ScriptInspection) => void;
+  /** The script's content under a point of the view, for target.raycast(); it hits nothing without this */
+  raycast?: (x: number, y: number) => ScriptPointerHit | null;
+}
+
+/**
+ * Event parameters sent to the worker. `object` names the clicked content.
+ */
+export interface ScriptEventData {
+  time?: number;
+  deltaTime?: number;
+  object?: string;
+  targetName?: string;
+  message?: string;
+  payload?: unknown;
+  from?: string;
+  point?: Vector3Tuple;
+  screen?: ScriptScreenPoint;
+  clip?: string;
+  track?: number;
+  cue?: ScriptCue;
+}
+
+/**
+ * Content under the pointer. `owner` is whatever the host needs to find the script to notify.
+ */
+export interface ScriptPointerHit<T = unknown> {
+  owner: T;
+  object: string; // Name of the content
+  point: Vector3Tuple; // In the target space of the content
+  distance: number;
+}
+
+export interface ScriptPointerHost<T> {
+  /** The content under a point of the view, nearest first */
+  pick: (screen: ScriptScreenPoint) => ScriptPointerHit<T> | null;
+  /** Where the ray through a point of the view crosses the plane z = `depth` of the owner's target space */
+  projectToTarget: (owner: T, screen: ScriptScreenPoint, depth: number) => Vector3Tuple | null;
+  dispatch: (owner: T, event: ScriptEventName, params: ScriptEventData) => void;
+}
+
+export interface ScriptPointer {
+  /** Whether the click that ends the last press is a click, i.e. the press was not a drag or long press */
+  isClick: () => boolean;
+  /** Remove the pointer listeners */
+  dispose: () => void;
+}
+
+/**
+ * Clip playback of one model, the same in every host.
+ */
+export interface ScriptAnimator {
+  getAction: (nameOrIndex?: string | number) => AnimationAction | undefined;
+  /** Clip names, in the model's order */
+  getClips: () => string[];
+  /** Play a clip from the start and stop (or fade out) every other clip */
+  play: (nameOrIndex?: string | number, options?: ScriptAnimationOptions) => void;
+  /** Fade from the clip started last to another one. Other clips are left alone. */
+  crossFadeTo: (nameOrIndex: string | number, duration: number, options?: ScriptCrossFadeOptions) => void;
+  stopAll: (fade?: number) => void;
+  /** Play the content's default clip, or the first clip if the model has none by that name */
+  playDefault: (clip?: string, loop?: ScriptAnimationLoop) => void;
+  /** Stop every clip and stop reporting finished clips */
+  dispose: () => void;
+}
+
+export interface ScriptRuntime {
+  /** Resolves once the script has compiled, with false if it failed to */
+  ready: Promise<boolean>;
+  /** Whether the compiled script defines a handler. False until it has compiled. */
+  hasHandler: (name: ScriptEventName) => boolean;
+  dispatch: (event: ScriptEventName, params?: ScriptEventData) => void;
+  /** Let queued events (e.g. a final onDeactivate) run, then terminate the worker and call `onStopped` */
+  stop: (onStopped?: () => void) => void;
+  /** Terminate the worker immediately */
+  dispose: () => void;
+}
+
+/**
+ * Where a project's `storage` values are kept. Runtimes read them with every event.
+ */
+export interface ScriptStorage {
+  getAll: () => Record<string, unknown>;
+  /** Setting undefined removes the key. Throws if the value could not be saved. */
+  set: (key: string, value: unknown) => void;
+  clear: () => void;
+}
+
+/**
+ * Connects the scripts of a project: messages between them, shared state and target tracking.
+ */
+export interface ScriptHub {
+  /** Start a script connected to the others. `name` is its target's name, '' for the project script. */
+  createRuntime: (name: string, script: string, host: ScriptRuntimeHost) => ScriptRuntime;
+  /** Record that a target was found or lost, and tell every script */
+  setTargetTracked: (name: string, tracked: boolean) => void;
+}
+
+export interface ScriptRuntimeConfig {
+  events: ScriptEventName[];
+  logLevels: ScriptLogLevel[]; // Console methods forwarded to the host
+  budgets: Record<ScriptEventName | 'compile', number>; // Milliseconds a handler may run
+  kinds: Record<string, ScriptContentKind>; // Content type to API kind; unlisted types are plain content
+  queryMethods: string[]; // Read-only methods answered from the snapshot instead of being queued
+  actionMethods: string[]; // Animation action methods that can be chained on getAction()
+  blockedGlobals: string[]; // Worker globals scripts must not reach; import() is syntax, see findDynamicImport()
+  urlProtocols: string[]; // URL schemes openUrl() may open
+  storagePrefix: string; // Prefix of the localStorage keys of script storage
+  longPressMs: number; // Milliseconds a press is held still before onLongPress
+  dragDistance: number; // Pixels a press moves before it becomes a drag
+  loopModes: Record<ScriptAnimationLoop, AnimationActionLoopStyles>; // three.js loop styles of play() and crossFadeTo()
+}
+
+export const SCRIPT_RUNTIME_CONFIG: ScriptRuntimeConfig = {
+  events: [
+    'onInit', 'onActivate', 'onDeactivate', 'onUpdate', 'onClick', 'onTargetFound', 'onTargetLost', 'onMessage',
+    'onPointerDown', 'onPointerUp', 'onHoverEnter', 'onHoverLeave', 'onLongPress', 'onDragStart', 'onDrag', 'onDragEnd',
+    'onAnimationFinished', 'onEnded', 'onCueEnter', 'onCueExit',
+  ],
+  logLevels: ['log', 'info', 'warn', 'error', 'debug'],
+  budgets: {
+    compile: 2000,
+    onInit: 1000,
+    onActivate: 1000,
+    onDeactivate: 1000,
+    onUpdate: 200,
+    onClick: 1000,
+    onTargetFound: 1000,
+    onTargetLost: 1000,
+    onMessage: 1000,
+    onPointerDown: 1000,
+    onPointerUp: 1000,
+    onHoverEnter: 1000,
+    onHoverLeave: 1000,
+    onLongPress: 1000,
+    onDragStart: 1000,
+    onDrag: 200,
+    onDragEnd: 1000,
+    onAnimationFinished: 1000,
+    onEnded: 1000,
+    onCueEnter: 1000,
+    onCueExit: 1000,
+  },
+  kinds: {
+    [ContentType.VIDEO]: 'video',
+    [ContentType.AUDIO]: 'audio',
+    [ContentType.STREAMING_VIDEO]: 'streaming',
+    [ContentType.YOUTUBE]: 'streaming',
+    [ContentType.VIMEO]: 'streaming',
+    [ContentType.ICON_YOUTUBE]: 'streaming',
+    [ContentType.MODEL]: 'model',
+  },
+  queryMethods: ['isPlayingVideo', 'getVideoId', 'getService', 'getClips', 'getTrack', 'getTrackCount'],
+  actionMethods: [
+    'play', 'stop', 'reset', 'halt', 'fadeIn', 'fadeOut',
+    'setLoop', 'setDuration', 'setEffectiveTimeScale', 'setEffectiveWeight',
+  ],
+  blockedGlobals: [
+    'postMessage', 'addEventListener', 'removeEventListener', 'onmessage', 'onmessageerror', 'close',
+    'fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts',
+    'Worker', 'SharedWorker', 'BroadcastChannel', 'MessageChannel', 'RTCPeerConnection',
+    'indexedDB', 'caches', 'navigator', 'location', 'Function', 'eval',
+  ],
+  urlProtocols: ['http:', 'https:', 'mailto:', 'tel:'],
+  storagePrefix: 'papar-script-storage:',
+  longPressMs: 500,
+  dragDistance: 8,
+  loopModes: { once: LoopOnce, repeat: LoopRepeat, pingpong: LoopPingPong },
+};
+
+/**
+ * Storage namespace of a project: its slug, as in its /apps/ URL.
+ */
+export const getScriptStorageNamespace = (project: Pick<Project, 'name' | 'publishedSlug'>): string =>
+  project.publishedSlug || project.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+
+/**
+ * State of one content as the worker sees it during a handler.
+ */
+interface ScriptObjectSnapshot extends ScriptTransform {
+  uuid: string;
+  name: string;
+  methods: string[];
+  values: Record<string, unknown>;
+}
+
+/**
+ * A scene change requested by the script. `object` is null for target-level calls
+ * (captureScreen, openUrl); `action` is a method chained on the result of getAction().
+ */
+interface ScriptCall {
+  object: string | null;
+  method: string;
+  args: unknown[];
+  action?: { method: string; args: unknown[] };
+}
+
+interface PendingMessage {
+  id: number;
+  event: ScriptEventName | 'compile';
+  params?: ScriptEventData;
+  script?: string;
+}
+
+interface ScriptRaycastReply {
+  id: number;
+  hit: Omit<ScriptPointerHit, 'owner'> | null;
+}
+
+/**
+ * What a runtime needs from its hub. Standalone runtimes get a hub of their own.
+ */
+interface ScriptHubLink {
+  getProject: () => ScriptProjectSnapshot;
+  emit: (message: string, payload: unknown) => void;
+  setState: (key: string, value: unknown) => void;
+  setStored: (key: string, value: unknown) => void;
+  unregister: () => void; // Called once the runtime is disposed
+}
+
+interface ScriptProjectSnapshot {
+  state: Record<string, unknown>;
+  targets: ScriptTargetStatus[];
+  storage: Record<string, unknown>;
+}
+
+export function defineScriptRuntime(config: ScriptRuntimeConfig) {
+  const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+  // Only sent to scripts that handle them
+  const HANDLED_ONLY_EVENTS: ScriptEventName[] = [
+    'onPointerDown', 'onPointerUp', 'onHoverEnter', 'onHoverLeave', 'onLongPress', 'onDragStart', 'onDrag', 'onDragEnd',
+    'onAnimationFinished', 'onEnded', 'onCueEnter', 'onCueExit',
+  ];
+
+  /**
+   * Build the script API for a content on top of its host driver.
+   */
+  const createScriptAPI = (driver: ScriptContentDriver): ScriptAPI => {
+    const vector = (v: Vector3Tuple): ScriptVector => ({ x: v[0], y: v[1], z: v[2] });
+    const api: Record<string, any> = {
+      uuid: driver.uuid,
+      name: driver.name,
+      get position() { return vector(driver.getTransform().position); },
+      get rotation() { return vector(driver.getTransform().rotation); },
+      get scale() { return vector(driver.getTransform().scale); },
+      get visible() { return driver.getTransform().visible; },
+      setPosition: (x: number, y: number, z: number) => driver.setPosition(x, y, z),
+      setRotation: (x: number, y: number, z: number) => driver.setRotation(x, y, z),
+      setScale: (x: number, y: number, z: number) => driver.setScale(x, y, z),
+      setVisible: (visible: boolean) => driver.setVisible(!!visible),
+    };
+
+    const kind = config.kinds[driver.type] || 'content';
+    const media = () => driver.media;
+
+    if (kind === 'video' || kind === 'audio' || kind === 'streaming') {
+      Object.assign(api, {
+        playVideo: () => media()?.play(),
+        pauseVideo: () => media()?.pause(),
+        stopVideo: () => media()?.stop(),
+        seekTo: (seconds: number) => media()?.seekTo?.(Math.max(0, seconds)),
+        setVolume: (volume: number) => media()?.setVolume?.(clamp(volume, 0, 1)),
+        setMuted: (muted: boolean) => media()?.setMuted?.(!!muted),
+        setLoop: (loop: boolean) => media()?.setLoop?.(!!loop),
+        isPlayingVideo: () => media()?.isPlaying() ?? false,
+      });
+    }
+
+    if (kind === 'audio') {
+      Object.assign(api, {
+        seek: (seconds: number) => media()?.seekTo?.(Math.max(0, seconds)),
+        next: () => media()?.next?.(),
+        previous: () => media()?.previous?.(),
+        playTrack: (index: number) => media()?.playTrack?.(Math.max(0, Math.floor(Number(index) || 0))),
+        getTrack: () => media()?.getTrack?.() ?? 0,
+        getTrackCount: () => media()?.getTrackCount?.() ?? 0,
+      });
+    }
+
+    if (kind === 'streaming') {
+      Object.assign(api, {
+        setPlaybackRate: (rate: number) => media()?.setPlaybackRate?.(clamp(rate, 0.25, 2)),
+        setCaptions: (enabled: boolean, lang?: string) => media()?.setCaptions?.(!!enabled, lang),
+        getVideoId: () => media()?.getVideoId?.() ?? null,
+        getService: () => media()?.getService?.() ?? null,
+      });
+    }
+
+    if (kind === 'model') {
+      Object.assign(api, {
+        getAction: (nameOrIndex?: string | number) => driver.model?.getAction(nameOrIndex),
+        getClips: () => driver.model?.getClips?.() ?? [],
+        play: (nameOrIndex: string | number = 0, options?: ScriptAnimationOptions) => driver.model?.play?.(nameOrIndex, options),
+        crossFadeTo: (nameOrIndex: string | number, duration: number, options?: ScriptCrossFadeOptions) =>
+          driver.model?.crossFadeTo?.(nameOrIndex, Math.max(0, Number(duration) || 0), options),
+        stopAll: (fade?: number) => driver.model?.stopAll?.(Math.max(0, Number(fade) || 0)),
+        setMorph: (name: string, value: number) => driver.model?.setMorph(String(name), clamp(Number(value) || 0, 0, 1)),
+        updateTexture: (materialName: string, imageUrl: string) => {
+          if (imageUrl) driver.model?.updateTexture(materialName, imageUrl);
+        },
+      });
+    }
+
+    return api as ScriptAPI;
+  };
+
+  const isSafeScriptUrl = (url: string): boolean => {
+    try {
+      return config.urlProtocols.includes(new URL(url, window.location.href).protocol);
+    } catch {
+      return false;
+    }
+  };
+
+  /**
+   * Where the script calls import(), which would let it load code from or send data to any URL.
+   * It is syntax rather than a global, so blockedGlobals can't remove it and scripts using it are
+   * rejected instead. The worker leaves scripts no way to build code from strings (eval, Function
+   * and the constructors of the other function kinds are removed, timers only take functions),
+   * so the spelling in the source is the only one there is.
+   */
+  const findDynamicImport = (script: string): ScriptErrorLocation | null => {
+    const match = /(?<![.\w$])import(?:\s|\/\*[\s\S]*?\*\/|\/\/[^\n]*|(?:<!--|-->)[^\n]*)*\(/.exec(script);
+    if (!match) return null;
+    const before = script.slice(0, match.index).split('\n');
+    return { line: before.length, column: before[before.length - 1].length + 1, stack: [] };
+  };
+
+  const workerSource = `'use strict';
+(function () {
+    var post = self.postMessage.bind(self);
+    var listen = self.addEventListener.bind(self);
+    var events = ${JSON.stringify(config.events)};
+    var queryMethods = ${JSON.stringify(config.queryMethods)};
+    var actionMethods = ${JSON.stringify(config.actionMethods)};
+    var slice = Array.prototype.slice;
+    var compileFunction = Function; // Blocked below; only compile() builds code from a string
+
+    // Leave scripts nothing to talk to but the host
+    ${JSON.stringify(config.blockedGlobals)}.forEach(function (name) {
+        for (var o = self; o && o !== Object.prototype; o = Object.getPrototypeOf(o)) {
+            try { delete o[name]; } catch (e) {}
+        }
+        try { Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false }); } catch (e) {}
+    });
+
+    // ...nor another way to build code from a string, which could call import()
+    [function () {}, async function () {}, function* () {}, async function* () {}].forEach(function (fn) {
+        Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined, writable: false, configurable: false });
+    });
+    ['setTimeout', 'setInterval'].forEach(function (name) {
+        var native = self[name];
+        if (!native) return;
+        self[name] = function (handler) {
+            if (typeof handler !== 'function') throw new TypeError(name + '() only takes a function');
+            return native.apply(self, arguments);
+        };
+    });
+
+    var functions = {};
+    var data = {};
+    var objects = {};
+    var project = { state: {}, targets: [], storage: {} };
+    var listeners = {};
+    var calls = [];
+    var pendingRaycasts = {}; // Resolvers by request id, answered with the next event
+    var nextRaycast = 1;
+
+    function queue(object, method, args, action) {
+        calls.push({ object: object, method: method, args: slice.call(args), action: action });
+    }
+
+    function vector(v) {
+        return { x: v[0], y: v[1], z: v[2] };
+    }
+
+    function createAction(name, args) {
+        var action = {};
+        actionMethods.forEach(function (method) {
+            action[method] = function () {
+                queue(name, 'getAction', args, { method: method, args: slice.call(arguments) });
+                return action;
+            };
+        });
+        return action;
+    }
+
+    function createObject(name) {
+        var state = function () { return objects[name]; };
+        var api = {
+            uuid: state().uuid,
+            name: name,
+            get position() { return vector(state().position); },
+            get rotation() { return vector(state().rotation); },
+            get scale() { return vector(state().scale); },
+            get visible() { return state().visible; },
+            setPosition: function (x, y, z) { state().position = [x, y, z]; queue(name, 'setPosition', arguments); },
+            setRotation: function (x, y, z) { state().rotation = [x, y, z]; queue(name, 'setRotation', arguments); },
+            setScale: function (x, y, z) { state().scale = [x, y, z]; queue(name, 'setScale', arguments); },
+            setVisible: function (visible) { state().visible = !!visible; queue(name, 'setVisible', arguments); }
+        };
+        state().methods.forEach(function (method) {
+            if (method in api) return;
+            if (method === 'getAction') {
+                api.getAction = function () { return createAction(name, slice.call(arguments)); };
+            } else if (queryMethods.indexOf(method) >= 0) {
+                api[method] = function () { return state().values[method]; };
+            } else {
+                api[method] = function () { queue(name, method, arguments); };
+            }
+        });
+        return api;
+    }
+
+    var target = {
+        getObject: function (name) { return objects[name] ? createObject(name) : null; },
+        captureScreen: function () { queue(null, 'captureScreen', []); },
+        openUrl: function (url) { queue(null, 'openUrl', [String(url)]); }
+    };
+
+    // Timers and tweens run on the target's clock, which advances with onUpdate.
+    // It stands still while the target is lost; onDeactivate cancels everything pending.
+    var clock = 0;
+    var nextTimerId = 1;
+    var timers = [];
+    var tweens = [];
+
+    // Same curves as the timeline (utils/timelineUtils.ts)
+    var easings = {
+        linear: function (t) { return t; },
+        easeIn: function (t) { return t * t * t; },
+        easeOut: function (t) { return 1 - Math.pow(1 - t, 3); },
+        easeInOut: function (t) { return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2; },
+        step: function (t) { return t < 1 ? 0 : 1; }
+    };
+    var tweenSetters = { position: 'setPosition', rotation: 'setRotation', scale: 'setScale' };
+
+    function addTimer(fn, ms, args, repeat) {
+        if (typeof fn !== 'function') throw new TypeError('Timer callback must be a function');
+        var delay = Math.max(0, Number(ms) || 0) / 1000;
+        var timer = { id: nextTimerId++, due: clock + delay, interval: repeat ? Math.max(delay, 0.001) : 0, fn: fn, args: args };
+        timers.push(timer);
+        return timer.id;
+    }
+
+    function clearTimer(id) {
+        timers = timers.filter(function (timer) { return timer.id !== id; });
+    }
+
+    function tween(object, props, duration, easing) {
+        var name = typeof object === 'string' ? object : object && object.name;
+        if (!objects[name]) throw new Error('tween(): there is no object named ' + name);
+        var ease = easings[easing || 'easeInOut'];
+        if (!ease) throw new Error('tween(): easing must be one of ' + Object.keys(easings).join(', '));
+        var api = createObject(name);
+        var tracks = Object.keys(props || {}).map(function (prop) {
+            if (!tweenSetters[prop]) throw new Error('tween() can animate ' + Object.keys(tweenSetters).join(', ') + ', not ' + prop);
+            var from = objects[name][prop].slice();
+            var to = props[prop];
+            to = Array.isArray(to) ? to : [to.x, to.y, to.z];
+            return { prop: prop, from: from, to: from.map(function (v, i) { return typeof to[i] === 'number' ? to[i] : v; }) };
+        });
+
+        // A newer tween takes over the properties it animates
+        tweens.slice().forEach(function (other) {
+            if (other.name === name && other.tracks.some(function (t) { return props[t.prop] !== undefined; })) other.finish(false);
+        });
+
+        var resolve;
+        var handle = new Promise(function (r) { resolve = r; });
+        var entry = {
+            name: name,
+            tracks: tracks,
+            start: clock,
+            duration: Math.max(0, Number(duration) || 0),
+            finish: function (completed) {
+                var index = tweens.indexOf(entry);
+                if (index < 0) return;
+                tweens.splice(index, 1);
+                resolve(completed);
+            },
+            step: function () {
+                var t = entry.duration > 0 ? Math.min(1, (clock - entry.start) / entry.duration) : 1;
+                var k = ease(t);
+                entry.tracks.forEach(function (track) {
+                    var v = track.from.map(function (from, i) { return from + (track.to[i] - from) * k; });
+                    api[tweenSetters[track.prop]](v[0], v[1], v[2]);
+                });
+                if (t >= 1) entry.finish(true);
+            }
+        };
+        tweens.push(entry);
+        handle.cancel = function () { entry.finish(false); };
+        return handle;
+    }
+
+    // Advance the clock and run what is due. Every timer fires at most once per update.
+    function tick(deltaTime) {
+        clock += Math.max(0, Number(deltaTime) || 0);
+        var firstError = null;
+        var attempt = function (fn) {
+            try { fn(); } catch (err) { if (!firstError) firstError = err; }
+        };
+        tweens.slice().forEach(function (entry) { attempt(entry.step); });
+        timers.filter(function (timer) { return timer.due <= clock; })
+            .sort(function (a, b) { return a.due - b.due; })
+            .forEach(function (timer) {
+                if (timers.indexOf(timer) < 0) return;
+                if (timer.interval) timer.due = Math.max(timer.due + timer.interval, clock);
+                else clearTimer(timer.id);
+                attempt(function () { timer.fn.apply(null, timer.args); });
+            });
+        return firstError;
+    }
+
+    function cancelPending() {
+        timers = [];
+        tweens.slice().forEach(function (entry) { entry.finish(false); });
+    }
+
+    target.tween = tween;
+    target.setTimeout = function (fn, ms) { return addTimer(fn, ms, slice.call(arguments, 2), false); };
+    target.setInterval = function (fn, ms) { return addTimer(fn, ms, slice.call(arguments, 2), true); };
+    target.clearTimeout = clearTimer;
+    target.clearInterval = clearTimer;
+
+    // Project-wide: messages between scripts, shared state and target tracking
+    target.emit = function (message, payload) { queue(null, 'emit', [String(message), payload]); };
+    target.on = function (message, listener) {
+        if (typeof listener !== 'function') throw new TypeError('Message listener must be a function');
+        var list = listeners[message] = listeners[message] || [];
+        list.push(listener);
+        return function () {
+            var index = list.indexOf(listener);
+            if (index >= 0) list.splice(index, 1);
+        };
+    };
+    target.getState = function (key) { return project.state[key]; };
+    target.setState = function (key, value) {
+        project.state[key] = value;
+        queue(null, 'setState', [String(key), value]);
+    };
+    target.getTargets = function () {
+        return project.targets.map(function (t) { return { name: t.name, tracked: t.tracked, found: t.found }; });
+    };
+
+    // The host casts the ray once the handler returns and answers with the next event
+    target.raycast = function (screenX, screenY) {
+        var id = nextRaycast++;
+        queue(null, 'raycast', [id, Number(screenX), Number(screenY)]);
+        return new Promise(function (resolve) { pendingRaycasts[id] = resolve; });
+    };
+
+    function resolveRaycasts(replies) {
+        (replies || []).forEach(function (reply) {
+            var resolve = pendingRaycasts[reply.id];
+            delete pendingRaycasts[reply.id];
+            var hit = reply.hit;
+            if (resolve) resolve(hit ? { object: target.getObject(hit.object), point: vector(hit.point), distance: hit.distance } : null);
+        });
+    }
+
+    // Kept by the host as JSON, so values survive reloads of the experience
+    var storage = {
+        get: function (key) {
+            var value = project.storage[key];
+            return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+        },
+        set: function (key, value) {
+            key = String(key);
+            var json = value === undefined ? undefined : JSON.stringify(value);
+            if (value !== undefined && json === undefined) throw new TypeError('storage.set() needs a value that can be saved as JSON');
+            var stored = Object.assign({}, project.storage);
+            if (json === undefined) delete stored[key];
+            else stored[key] = JSON.parse(json);
+            project.storage = stored;
+            queue(null, 'storageSet', json === undefined ? [key] : [key, stored[key]]);
+        },
+        remove: function (key) { storage.set(key, undefined); },
+        keys: function () { return Object.keys(project.storage); },
+        clear: function () { storage.keys().forEach(storage.remove); }
+    };
+
+    // Stack frames of code built with new Function() report lines of the generated source;
+    // frames of this file report the worker's blob URL instead
+    function trace(err, offset) {
+        var frames = [];
+        String(err && err.stack || '').split('\\n').forEach(function (line) {
+            var at = /(?:<anonymous>|> Function):(\\d+):(\\d+)/.exec(line);
+            if (!at || Number(at[1]) <= offset) return;
+            var fn = /^\\s*at (?:async )?([^\\s(]+) \\(/.exec(line) || /^([^@\\s]+)@/.exec(line);
+            var name = fn ? fn[1].replace(/^Function\\./, '') : '';
+            frames.push({ name: name === 'eval' || name === 'anonymous' ? '' : name, line: Number(at[1]) - offset, column: Number(at[2]) });
+        });
+        return frames;
+    }
+
+    // Lines the generated function header adds before the script's first line
+    var lineOffset = (function () {
+        try {
+            new compileFunction('', 'throw new Error()')();
+        } catch (err) {
+            var at = trace(err, 0)[0];
+            return at ? at.line - 1 : 2;
+        }
+    })();
+
+    // Print a value for the host, in the style of the browser console
+    function describe(value, pretty, depth, seen) {
+        depth = depth || 0;
+        seen = seen || [];
+        if (typeof value === 'string') return depth ? JSON.stringify(value) : value;
+        if (typeof value === 'function') return 'ƒ ' + (value.name || 'anonymous') + '()';
+        if (value === null || typeof value !== 'object') return String(value);
+        if (value instanceof Error) return value.name + ': ' + value.message;
+        if (seen.indexOf(value) >= 0) return '[Circular]';
+        var isArray = Array.isArray(value);
+        if (depth >= 4) return isArray ? '[…]' : '{…}';
+        var keys = Object.keys(value);
+        var items = keys.slice(0, 50).map(function (key) {
+            var item = describe(value[key], pretty, depth + 1, seen.concat([value]));
+            return isArray ? item : (/^[A-Za-z_$][\\w$]*$/.test(key) ? key : JSON.stringify(key)) + ': ' + item;
+        });
+        if (keys.length > 50) items.push('…');
+        if (!items.length) return isArray ? '[]' : '{}';
+        var inline = isArray ? '[' + items.join(', ') + ']' : '{ ' + items.join(', ') + ' }';
+        if (!pretty || (inline.length <= 60 && inline.indexOf('\\n') < 0)) return inline;
+        var indent = new Array(depth + 2).join('  ');
+        return (isArray ? '[' : '{') + '\\n' + indent + items.join(',\\n' + indent) + '\\n' + indent.slice(2) + (isArray ? ']' : '}');
+    }
+
+    // Console output goes to the browser console as usual and to the host
+    var nativeConsole = self.console || {};
+    var scriptConsole = {};
+    Object.keys(nativeConsole).forEach(function (key) { scriptConsole[key] = nativeConsole[key]; });
+    ${JSON.stringify(config.logLevels)}.forEach(function (level) {
+        scriptConsole[level] = function () {
+            var args = slice.call(arguments);
+            if (nativeConsole[level]) nativeConsole[level].apply(nativeConsole, args);
+            var message = args.map(function (arg) { return describe(arg, false); }).join(' ');
+            post({ type: 'log', level: level, message: message.slice(0, 2000), frame: trace(new Error(), lineOffset)[0] || null });
+        };
+    });
+    self.console = scriptConsole;
+
+    function compile(script) {
+        var result = '{' + events.map(function (e) { return e + ':' + e; }).join(',') + '}';
+        return (new compileFunction(events.join(','), script + '\\nreturn ' + result + ';'))() || {};
+    }
+
+    // Returns whether script code ran
+    function run(msg) {
+        if (msg.type === 'compile') {
+            functions = compile(msg.script);
+            return true;
+        }
+        msg.objects.forEach(function (o) { objects[o.name] = o; });
+        project = msg.project;
+        resolveRaycasts(msg.replies);
+        var busy = timers.length > 0 || tweens.length > 0 || (msg.replies || []).length > 0;
+        var timerError = msg.name === 'onUpdate' ? tick(msg.params.deltaTime) : null;
+        if (msg.name === 'onDeactivate') cancelPending();
+        var heard = false;
+        if (msg.name === 'onMessage') {
+            (listeners[msg.params.message] || []).slice().forEach(function (listener) {
+                heard = true;
+                listener(msg.params.payload, msg.params.from);
+            });
+        }
+        var fn = functions[msg.name];
+        if (typeof fn === 'function') {
+            var params = { target: target, data: data, storage: storage };
+            Object.keys(msg.params).forEach(function (key) {
+                var value = msg.params[key];
+                params[key] = key === 'object' ? target.getObject(value) : key === 'point' ? vector(value) : value;
+            });
+            fn(params);
+        }
+        if (timerError) throw timerError;
+        return busy || heard || typeof fn === 'function';
+    }
+
+    listen('message', function (e) {
+        var msg = e.data;
+        var error = null;
+        var errorAt = null;
+        var ran = true;
+        var started = performance.now();
+        try {
+            ran = run(msg);
+        } catch (err) {
+            error = err && err.message ? err.message : String(err);
+            var stack = trace(err, lineOffset);
+            errorAt = stack.length ? { line: stack[0].line, column: stack[0].column, stack: stack } : null;
+        }
+        var duration = ran ? performance.now() - started : null;
+        var inspected = msg.inspect && ran ? describe(data, true) : null;
+        var handlers = events.filter(function (name) { return typeof functions[name] === 'function'; });
+        // Calls made after an await are sent along with the next event
+        var out = calls;
+        calls = [];
+        var ticking = timers.length > 0 || tweens.length > 0 || Object.keys(pendingRaycasts).length > 0;
+        var done = { type: 'done', id: msg.id, handlers: handlers, ticking: ticking, errorAt: errorAt, duration: duration, data: inspected };
+        try {
+            post(Object.assign({ calls: out, error: error }, done));
+        } catch (err) {
+            post(Object.assign({ calls: [], error: 'Script passed a value that cannot be sent to the scene: ' + err.message }, done));
+        }
+    });
+})();
+`;
+
+  const getMethods = (api: Record<string, any>) => Object.keys(api).filter(key =>
+    typeof Object.getOwnPropertyDescriptor(api, key)?.value === 'function'
+  );
+
+  /**
+   * Run one script in its own worker. Messages are sent one at a time;
+   * an onUpdate arriving while the previous one is still queued or running is dropped.
+   */
+  const startRuntime = (script: string, host: ScriptRuntimeHost, link: ScriptHubLink): ScriptRuntime => {
+    let worker: Worker | null = null;
+    let queue: PendingMessage[] = [];
+    let replies: ScriptRaycastReply[] = []; // Sent with the next event
+    let inFlight: PendingMessage | null = null;
+    let watchdog: ReturnType<typeof setTimeout> | null = null;
+    let handlers: string[] = [];
+    let ticking = false; // Timers or tweens are pending, so onUpdate is needed even without a handler
+    let timings: ScriptInspection['timings'] = {};
+    let data: string | null = null;
+    let nextId = 1;
+    let stopping = false;
+    let onStopped: (() => void) | null = null;
+    let resolveReady: (ok: boolean) => void = () => {};
+    const ready = new Promise<boolean>((resolve) => { resolveReady = resolve; });
+    const workerUrl = URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' }));
+
+    const getDrivers = () => new Map(host.getObjects().map(driver => [driver.name, driver]));
+
+    const snapshot = (): ScriptObjectSnapshot[] => host.getObjects().map((driver) => {
+      const api = createScriptAPI(driver) as unknown as Record<string, any>;
+      const methods = getMethods(api);
+      const values: Record<string, unknown> = {};
+      config.queryMethods.forEach((method) => {
+        if (methods.includes(method)) values[method] = api[method]() ?? null;
+      });
+      return { uuid: driver.uuid, name: driver.name, ...driver.getTransform(), methods, values };
+    });
+
+    const applyCalls = (calls: ScriptCall[], event: ScriptEventName | 'compile') => {
+      const drivers = getDrivers();
+      const apis = new Map<string, Record<string, any>>();
+
+      calls.forEach((call) => {
+        try {
+          if (call.object === null) {
+            if (call.method === 'captureScreen') host.captureScreen();
+            if (call.method === 'openUrl' && isSafeScriptUrl(String(call.args[0]))) host.openUrl(String(call.args[0]));
+            if (call.method === 'emit') link.emit(String(call.args[0]), call.args[1]);
+            if (call.method === 'setState') link.setState(String(call.args[0]), call.args[1]);
+            if (call.method === 'storageSet') link.setStored(String(call.args[0]), call.args[1]);
+            if (call.method === 'raycast') {
+              const hit = host.raycast?.(Number(call.args[1]), Number(call.args[2]));
+              replies.push({ id: Number(call.args[0]), hit: hit ? { object: hit.object, point: hit.point, distance: hit.distance } : null });
+            }
+            return;
+          }
+
+          const driver = drivers.get(call.object);
+          if (!driver) return;
+          if (!apis.has(call.object)) apis.set(call.object, createScriptAPI(driver) as unknown as Record<string, any>);
+          const api = apis.get(call.object)!;
+          if (!getMethods(api).includes(call.method) || config.queryMethods.includes(call.method)) return;
+
+          const result = api[call.method](...call.args);
+          if (call.action && config.actionMethods.includes(call.action.method)) {
+            result?.[call.action.method]?.(...call.action.args);
+          }
+        } catch (e) {
+          host.onError((e as Error).message, event);
+        }
+      });
+    };
+
+    const dispose = () => {
+      if (watchdog) clearTimeout(watchdog);
+      watchdog = null;
+      worker?.terminate();
+      worker = null;
+      queue = [];
+      replies = [];
+      inFlight = null;
+      handlers = [];
+      ticking = false;
+      URL.revokeObjectURL(workerUrl);
+      resolveReady(false);
+      link.unregister();
+      const stopped = onStopped;
+      onStopped = null;
+      stopped?.();
+    };
+
+    const flush = () => {
+      if (!worker || inFlight) return;
+      const next = queue.shift();
+      if (!next) {
+        if (stopping) dispose();
+        return;
+      }
+
+      inFlight = next;
+      // Snapshots are taken when the event is actually sent, so they include earlier calls
+      if (next.event === 'compile') {
+        worker.postMessage({ type: 'compile', id: next.id, script: next.script });
+      } else {
+        worker.postMessage({
+          type: 'event', id: next.id, name: next.event, params: next.params,
+          objects: snapshot(), project: link.getProject(), replies, inspect: !!host.onInspect,
+        });
+        replies = [];
+      }
+
+      const budget = config.budgets[next.event];
+      watchdog = setTimeout(() => {
+        host.onError(`${next.event} ran for more than ${budget} ms and the script was stopped`, next.event);
+        dispose();
+      }, budget);
+    };
+
+    const post = (message: PendingMessage) => {
+      queue.push(message);
+      flush();
+    };
+
+    const handleMessage = (message: {
+      id: number;
+      calls: ScriptCall[];
+      handlers: string[];
+      ticking: boolean;
+      error: string | null;
+      errorAt: ScriptErrorLocation | null;
+      duration: number | null; // Null when the script has no handler for the event
+      data: string | null;
+    }) => {
+      const current = inFlight;
+      if (!current || message.id !== current.id) return;
+      if (watchdog) clearTimeout(watchdog);
+      watchdog = null;
+      inFlight = null;
+
+      handlers = message.handlers;
+      ticking = message.ticking;
+      applyCalls(message.calls, current.event);
+      if (message.error) host.onError(message.error, current.event, message.errorAt ?? undefined);
+      if (current.event === 'compile') resolveReady(!message.error);
+
+      if (message.duration !== null) {
+        const timing = timings[current.event] ?? { calls: 0, last: 0, max: 0, total: 0 };
+        timings = {
+          ...timings,
+          [current.event]: {
+            calls: timing.calls + 1,
+            last: message.duration,
+            max: Math.max(timing.max, message.duration),
+            total: timing.total + message.duration,
+          },
+        };
+        data = message.data ?? data;
+        host.onInspect?.({ data, timings });
+      }
+
+      flush();
+    };
+
+    const importAt = findDynamicImport(script);
+    if (importAt) {
+      host.onError('import() is not available in scripts', 'compile', importAt);
+      resolveReady(false);
+    } else {
+      worker = new Worker(workerUrl);
+      worker.onmessage = (e) => {
+        if (e.data.type === 'log') host.onLog?.(e.data.level, e.data.message, e.data.frame ?? undefined);
+        else handleMessage(e.data);
+      };
+      // Errors thrown outside a handler, e.g. in a timer callback
+      worker.onerror = (e) => {
+        e.preventDefault();
+        host.onError(e.message, inFlight?.event ?? 'onUpdate');
+      };
+
+      post({ id: nextId++, event: 'compile', script });
+    }
+
+    return {
+      ready,
+      hasHandler: (name) => handlers.includes(name),
+      dispatch: (event, params = {}) => {
+        if (!worker || stopping) return;
+        if (event === 'onUpdate') {
+          if (!handlers.includes('onUpdate') && !ticking) return;
+          if (inFlight?.event === 'onUpdate' || queue.some(m => m.event === 'onUpdate')) return;
+        }
+        if (HANDLED_ONLY_EVENTS.includes(event) && !handlers.includes(event)) return;
+        // Only the latest position of a drag matters
+        const queuedDrag = event === 'onDrag' ? queue.find(m => m.event === 'onDrag') : undefined;
+        if (queuedDrag) {
+          queuedDrag.params = params;
+          return;
+        }
+        post({ id: nextId++, event, params });
+      },
+      stop: (callback) => {
+        stopping = true;
+        onStopped = callback ?? null;
+        if (!inFlight && queue.length === 0) dispose();
+      },
+      dispose,
+    };
+  };
+
+  /**
+   * Turn pointer input on `element` into pointer events for the scripts of the content under it.
+   * A press that moves further than config.dragDistance becomes a drag, one held still for
+   * config.longPressMs a long press. Mice also hover; touches only press.
+   */
+  const createScriptPointer = <T>(element: HTMLElement, host: ScriptPointerHost<T>): ScriptPointer => {
+    let press: {
+      hit: ScriptPointerHit<T>;
+      pointerId: number;
+      clientX: number;
+      clientY: number;
+      point: Vector3Tuple; // Last point of a drag
+      dragging: boolean;
+      longPressed: boolean;
+      timer: ReturnType<typeof setTimeout>;
+    } | null = null;
+    let hovered: ScriptPointerHit<T> | null = null;
+    let click = true;
+
+    const toScreen = (e: PointerEvent): ScriptScreenPoint => {
+      const rect = element.getBoundingClientRect();
+      return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+    };
+    const send = (hit: ScriptPointerHit<T>, event: ScriptEventName, screen: ScriptScreenPoint, point = hit.point) =>
+      host.dispatch(hit.owner, event, { object: hit.object, point, screen });
+    const sameContent = (a: ScriptPointerHit<T> | null, b: ScriptPointerHit<T> | null) =>
+      !!a && !!b && a.owner === b.owner && a.object === b.object;
+
+    const hover = (hit: ScriptPointerHit<T> | null, screen: ScriptScreenPoint) => {
+      if (sameContent(hovered, hit) || (!hovered && !hit)) return;
+      if (hovered) send(hovered, 'onHoverLeave', screen);
+      hovered = hit;
+      if (hit) send(hit, 'onHoverEnter', screen);
+    };
+
+    const release = (e: PointerEvent, cancelled: boolean) => {
+      if (!press || e.pointerId !== press.pointerId) return;
+      const current = press;
+      press = null;
+      clearTimeout(current.timer);
+      const screen = toScreen(e);
+      if (current.dragging) send(current.hit, 'onDragEnd', screen, current.point);
+      if (!cancelled) send(current.hit, 'onPointerUp', screen, current.dragging ? current.point : current.hit.point);
+      click = !cancelled && !current.dragging && !current.longPressed;
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      if (press || (e.pointerType === 'mouse' && e.button !== 0)) return;
+      click = true;
+      const screen = toScreen(e);
+      const hit = host.pick(screen);
+      if (!hit) return;
+      try { element.setPointerCapture(e.pointerId); } catch { /* Keeps working without capture */ }
+      const current = {
+        hit,
+        pointerId: e.pointerId,
+        clientX: e.clientX,
+        clientY: e.clientY,
+        point: hit.point,
+        dragging: false,
+        longPressed: false,
+        timer: setTimeout(() => {
+          if (press !== current || current.dragging) return;
+          current.longPressed = true;
+          send(hit, 'onLongPress', screen);
+        }, config.longPressMs),
+      };
+      press = current;
+      send(hit, 'onPointerDown', screen);
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+      const screen = toScreen(e);
+      if (!press) {
+        if (e.pointerType === 'mouse') hover(host.pick(screen), screen);
+        return;
+      }
+      if (e.pointerId !== press.pointerId) return;
+      if (!press.dragging) {
+        if (Math.hypot(e.clientX - press.clientX, e.clientY - press.clientY) < config.dragDistance) return;
+        press.dragging = true;
+        clearTimeout(press.timer);
+        send(press.hit, 'onDragStart', screen);
+      }
+      // Dragged content moves on the plane of the target it was grabbed at
+      const point = host.projectToTarget(press.hit.owner, screen, press.hit.point[2]);
+      if (!point) return;
+      press.point = point;
+      send(press.hit, 'onDrag', screen, point);
+    };
+
+    const onPointerUp = (e: PointerEvent) => release(e, false);
+    const onPointerCancel = (e: PointerEvent) => release(e, true);
+    const onPointerLeave = (e: PointerEvent) => {
+      if (!press) hover(null, toScreen(e));
+    };
+
+    element.addEventListener('pointerdown', onPointerDown);
+    element.addEventListener('pointermove', onPointerMove);
+    element.addEventListener('pointerup', onPointerUp);
+    element.addEventListener('pointercancel', onPointerCancel);
+    element.addEventListener('pointerleave', onPointerLeave);
+
+    return {
+      isClick: () => click,
+      dispose: () => {
+        if (press) clearTimeout(press.timer);
+        press = null;
+        hovered = null;
+        element.removeEventListener('pointerdown', onPointerDown);
+        element.removeEventListener('pointermove', onPointerMove);
+        element.removeEventListener('pointerup', onPointerUp);
+        element.removeEventListener('pointercancel', onPointerCancel);
+        element.removeEventListener('pointerleave', onPointerLeave);
+      },
+    };
+  };
+
+  /**
+   * Clip playback over a model's `actions`, keyed by clip name in the model's order. Options come
+   * straight from scripts, so anything unexpected falls back to the defaults.
+   * `onFinished` gets the clip name whenever a clip that does not loop forever ends.
+   */
+  const createScriptAnimator = (
+    mixer: AnimationMixer,
+    actions: Record<string, AnimationAction>,
+    onFinished?: (clip: string) => void
+  ): ScriptAnimator => {
+    const names = Object.keys(actions);
+    let current: AnimationAction | null = null; // The clip started last
+
+    const find = (nameOrIndex: string | number = 0): AnimationAction | undefined => {
+      const name = typeof nameOrIndex === 'number' ? names[nameOrIndex] : String(nameOrIndex);
+      return names.includes(name) ? actions[name] : undefined;
+    };
+
+    const start = (action: AnimationAction, options: ScriptAnimationOptions | ScriptCrossFadeOptions) => {
+      const loop = options.loop && Object.prototype.hasOwnProperty.call(config.loopModes, options.loop) ? options.loop : 'repeat';
+      const timeScale = Number(options.timeScale ?? 1);
+      action.reset();
+      action.setLoop(config.loopModes[loop], loop === 'once' ? 1 : Infinity);
+      action.clampWhenFinished = loop === 'once';
+      action.setEffectiveTimeScale(Number.isFinite(timeScale) ? timeScale : 1);
+      action.setEffectiveWeight(1);
+      action.play();
+      current = action;
+    };
+
+    const fadeOutOthers = (keep: AnimationAction | null, fade: number) => {
+      names.forEach((name) => {
+        const action = actions[name];
+        if (action === keep) return;
+        if (fade > 0 && action.isScheduled()) action.fadeOut(fade);
+        else action.stop();
+      });
+    };
+
+    const play = (nameOrIndex: string | number = 0, options?: ScriptAnimationOptions) => {
+      const next = find(nameOrIndex);
+      if (!next) return;
+      const settings = { ...options };
+      const fade = Math.max(0, Number(settings.fade) || 0);
+      fadeOutOthers(next, fade);
+      start(next, settings);
+      if (fade > 0) next.fadeIn(fade);
+    };
+
+    const handleFinished = (e: { action: AnimationAction }) => {
+      if (names.some(name => actions[name] === e.action)) onFinished?.(e.action.getClip().name);
+    };
+    mixer.addEventListener('finished', handleFinished);
+
+    return {
+      getAction: find,
+      getClips: () => names.slice(),
+      play,
+      crossFadeTo: (nameOrIndex, duration, options) => {
+        const next = find(nameOrIndex);
+        const from = current;
+        if (!next) return;
+        if (!from || from === next || !from.isScheduled()) {
+          play(nameOrIndex, { ...options, fade: duration });
+          return;
+        }
+        const settings = { ...options };
+        start(next, settings);
+        from.crossFadeTo(next, Math.max(0, Number(duration) || 0), !!settings.warp);
+      },
+      stopAll: (fade = 0) => {
+        fadeOutOthers(null, Math.max(0, Number(fade) || 0));
+        current = null;
+      },
+      playDefault: (clip, loop) => play(clip && find(clip) ? clip : 0, { loop }),
+      dispose: () => {
+        mixer.removeEventListener('finished', handleFinished);
+        fadeOutOthers(null, 0);
+        current = null;
+      },
+    };
+  };
+
+  /**
+   * Storage saved in localStorage under `namespace`, or kept in memory without one.
+   * `onChange` is called with all values after every change.
+   */
+  const createScriptStorage = (namespace?: string, onChange?: (values: Record<string, unknown>) => void): ScriptStorage => {
+    const key = config.storagePrefix + namespace;
+    let values: Record<string, unknown> = {};
+    if (namespace !== undefined) {
+      try {
+        values = JSON.parse(localStorage.getItem(key) || '{}');
+      } catch (e) {
+        console.warn('Script storage could not be read:', e);
+      }
+    }
+
+    const save = (next: Record<string, unknown>) => {
+      if (namespace !== undefined) {
+        try {
+          if (Object.keys(next).length > 0) localStorage.setItem(key, JSON.stringify(next));
+          else localStorage.removeItem(key);
+        } catch (e) {
+          throw new Error(`Storage could not be saved: ${(e as Error).message}`);
+        }
+      }
+      values = next;
+      onChange?.(values);
+    };
+
+    return {
+      getAll: () => values,
+      set: (name, value) => {
+        const next = { ...values };
+        if (value === undefined) delete next[name];
+        else next[name] = value;
+        save(next);
+      },
+      clear: () => save({}),
+    };
+  };
+
+  /**
+   * Connect the scripts of a project. `targetNames` lists every target, tracked or not.
+   * Without a `storage`, stored values last only as long as the hub.
+   */
+  const createScriptHub = (targetNames: string[], storage: ScriptStorage = createScriptStorage()): ScriptHub => {
+    const runtimes: ScriptRuntime[] = [];
+    let state: Record<string, unknown> = {};
+    let targets: ScriptTargetStatus[] = targetNames.map(name => ({ name, tracked: false, found: false }));
+
+    return {
+      createRuntime: (name, script, host) => {
+        const runtime: ScriptRuntime = startRuntime(script, host, {
+          getProject: () => ({ state, targets, storage: storage.getAll() }),
+          emit: (message, payload) => runtimes.forEach((other) => {
+            if (other !== runtime) other.dispatch('onMessage', { message, payload, from: name });
+          }),
+          setState: (key, value) => { state = { ...state, [key]: value }; },
+          setStored: (key, value) => storage.set(key, value),
+          unregister: () => {
+            const index = runtimes.indexOf(runtime);
+            if (index >= 0) runtimes.splice(index, 1);
+          },
+        });
+        runtimes.push(runtime);
+        return runtime;
+      },
+      setTargetTracked: (name, tracked) => {
+        const status = targets.find(t => t.name === name);
+        if (!status || status.tracked === tracked) return;
+        targets = targets.map(t => t === status ? { name, tracked, found: t.found || tracked } : t);
+        runtimes.forEach(runtime => runtime.dispatch(tracked ? 'onTargetFound' : 'onTargetLost', { targetName: name }));
+      },
+    };
+  };
+
+  /**
+   * Run a script on its own, outside any project (its messages reach no one).
+   */
+  const createScriptRuntime = (script: string, host: ScriptRuntimeHost): ScriptRuntime =>
+    createScriptHub([]).createRuntime('', script, host);
+
+  return {
+    createScriptAPI, createScriptRuntime, createScriptHub, createScriptStorage, createScriptPointer, createScriptAnimator,
+    isSafeScriptUrl,
+  };
+}
+
+export const {
+  createScriptAPI,
+  createScriptRuntime,
+  createScriptHub,
+  createScriptStorage,
+  createScriptPointer,
+  createScriptAnimator,
+  isSafeScriptUrl,
+} = defineScriptRuntime(SCRIPT_RUNTIME_CONFIG);
@@ -0,0 +1,22 @@
+import ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+import { Content, ContentType, Target } from '../types';
+import { SCRIPT_TYPINGS_FILE_NAME, generateScriptTypings } from './scriptTypings';
+
+const content = (name: string, type: ContentType) => ({ id: name, name, type }) as Content;
+
+const target = { id: 't', name: 'Poster', imageUrl: '', contents: [content('logo', ContentType.IMAGE), content('intro "clip"', ContentType.VIDEO), content('robot', ContentType.MODEL)] } as Target;
+
+describe('generateScriptTypings', () => {
+  it('lists the contents of the target with their API', () => {
+    const typings = generateScriptTypings(target);
+    expect(typings).toContain('"logo": ScriptAPI;');
+    expect(typings).toContain('"intro \\"clip\\"": VideoScriptAPI;');
+    expect(typings).toContain('"robot": ModelScriptAPI;');
+  });
+
+  it('is valid TypeScript', () => {
+    const file = ts.createSourceFile(SCRIPT_TYPINGS_FILE_NAME, generateScriptTypings({ ...target, name: 'Empty', contents: [] }), ts.ScriptTarget.ES2020);
+    expect((file as unknown as { parseDiagnostics: ts.Diagnostic[] }).parseDiagnostics).toEqual([]);
+  });
+});
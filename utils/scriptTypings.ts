@@ -0,0 +1,264 @@
+/**
+ * Type declarations for target scripts written in TypeScript.
+ *
+ * The declarations describe the API of utils/scriptRuntime.ts as scripts see it inside the
+ * worker, and type `target.getObject()` from the target's actual contents. Keep them in sync
+ * with the script-facing interfaces there.
+ */
+
+import { Target } from '../types';
+import { SCRIPT_RUNTIME_CONFIG, ScriptContentKind } from './scriptRuntime';
+
+export const SCRIPT_TYPINGS_FILE_NAME = 'papar-script.d.ts';
+
+const API_BY_KIND: Record<ScriptContentKind, string> = {
+  content: 'ScriptAPI',
+  video: 'VideoScriptAPI',
+  audio: 'AudioScriptAPI',
+  streaming: 'EmbedScriptAPI',
+  model: 'ModelScriptAPI',
+};
+
+const SCRIPT_API_TYPINGS = `interface ScriptVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Any content of the target */
+interface ScriptAPI {
+  readonly uuid: string;
+  readonly name: string;
+  readonly position: ScriptVector;
+  /** Degrees */
+  readonly rotation: ScriptVector;
+  readonly scale: ScriptVector;
+  readonly visible: boolean;
+  setPosition(x: number, y: number, z: number): void;
+  /** Degrees */
+  setRotation(x: number, y: number, z: number): void;
+  setScale(x: number, y: number, z: number): void;
+  setVisible(visible: boolean): void;
+}
+
+/** Playback controls shared by video files, audio and streaming videos */
+interface MediaScriptAPI extends ScriptAPI {
+  playVideo(): void;
+  pauseVideo(): void;
+  stopVideo(): void;
+  seekTo(seconds: number): void;
+  /** 0 to 1 */
+  setVolume(volume: number): void;
+  setMuted(muted: boolean): void;
+  setLoop(loop: boolean): void;
+  isPlayingVideo(): boolean;
+}
+
+interface VideoScriptAPI extends MediaScriptAPI {}
+
+/** Audio plays a playlist of clips, numbered from 0; a single audio file is a playlist of one */
+interface AudioScriptAPI extends MediaScriptAPI {
+  /** Same as seekTo(), within the current clip */
+  seek(seconds: number): void;
+  next(): void;
+  /** Back to the start of the clip, or to the previous clip within its first 3 seconds */
+  previous(): void;
+  playTrack(index: number): void;
+  getTrack(): number;
+  getTrackCount(): number;
+}
+
+/** A subtitle cue of an audio clip. Times are in seconds into the clip. */
+interface ScriptCue {
+  id: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** YouTube and Vimeo videos */
+interface EmbedScriptAPI extends MediaScriptAPI {
+  /** 0.25 to 2 */
+  setPlaybackRate(rate: number): void;
+  setCaptions(enabled: boolean, lang?: string): void;
+  getVideoId(): string | null;
+  getService(): string | null;
+}
+
+/** A model animation clip. Calls can be chained. */
+interface ScriptAnimationAction {
+  play(): ScriptAnimationAction;
+  stop(): ScriptAnimationAction;
+  reset(): ScriptAnimationAction;
+  halt(duration: number): ScriptAnimationAction;
+  fadeIn(duration: number): ScriptAnimationAction;
+  fadeOut(duration: number): ScriptAnimationAction;
+  /** mode: 2200 once, 2201 repeat, 2202 ping-pong */
+  setLoop(mode: number, repetitions: number): ScriptAnimationAction;
+  setDuration(duration: number): ScriptAnimationAction;
+  setEffectiveTimeScale(timeScale: number): ScriptAnimationAction;
+  setEffectiveWeight(weight: number): ScriptAnimationAction;
+}
+
+type ScriptAnimationLoop = 'once' | 'repeat' | 'pingpong';
+
+interface ScriptAnimationOptions {
+  /** Seconds to fade the clip in and whatever else plays out */
+  fade?: number;
+  /** Defaults to 'repeat' */
+  loop?: ScriptAnimationLoop;
+  /** 1 = normal speed, negative plays backwards */
+  timeScale?: number;
+}
+
+interface ScriptCrossFadeOptions {
+  loop?: ScriptAnimationLoop;
+  timeScale?: number;
+  /** Also blend the speed of both clips */
+  warp?: boolean;
+}
+
+interface ModelScriptAPI extends ScriptAPI {
+  /** Clip by index or name, the first clip by default */
+  getAction(nameOrIndex?: string | number): ScriptAnimationAction;
+  /** Names of the model's clips, in order */
+  getClips(): string[];
+  /** Play a clip (the first by default) from the start and stop every other clip, or fade them out */
+  play(nameOrIndex?: string | number, options?: ScriptAnimationOptions): void;
+  /** Blend from the clip played last to another one over \`duration\` seconds */
+  crossFadeTo(nameOrIndex: string | number, duration: number, options?: ScriptCrossFadeOptions): void;
+  /** Stop every clip, fading them out over \`fade\` seconds */
+  stopAll(fade?: number): void;
+  /** Set a morph target (blendshape) on every mesh that has it, from 0 to 1 */
+  setMorph(name: string, value: number): void;
+  updateTexture(materialName: string, imageUrl: string): void;
+}
+
+type ScriptEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+
+/** Properties tween() can animate. Missing axes keep their current value. */
+interface ScriptTweenProps {
+  position?: Partial<ScriptVector> | [number, number, number];
+  /** Degrees */
+  rotation?: Partial<ScriptVector> | [number, number, number];
+  scale?: Partial<ScriptVector> | [number, number, number];
+}
+
+/** Resolves with true when the tween finishes and false when it is cancelled or replaced */
+interface ScriptTween extends Promise<boolean> {
+  cancel(): void;
+}
+
+/** A point of the view, from 0 to 1 across it, starting at the top left corner */
+interface ScriptScreenPoint {
+  x: number;
+  y: number;
+}
+
+interface ScriptRaycastHit {
+  object: TargetObjects[keyof TargetObjects];
+  /** In target space */
+  point: ScriptVector;
+  distance: number;
+}
+
+/** Tracking status of a target of the project */
+interface ScriptTargetStatus {
+  name: string;
+  /** Whether the target is in view right now */
+  tracked: boolean;
+  /** Whether the target has been in view since the experience started */
+  found: boolean;
+}
+
+/** Values kept across visits of the experience, as JSON. get() returns a copy: set() it again after changing it. */
+interface ScriptStorageAPI {
+  get(key: string): any;
+  /** Setting undefined removes the key */
+  set(key: string, value: any): void;
+  remove(key: string): void;
+  keys(): string[];
+  clear(): void;
+}
+
+interface SceneScriptAPI {
+  /** Get a content object by name */
+  getObject<K extends keyof TargetObjects>(name: K): TargetObjects[K];
+  /** Capture a screenshot of the current view */
+  captureScreen(): void;
+  /** Open a URL in a new tab */
+  openUrl(url: string): void;
+  /** Animate an object (or object name) over \`duration\` seconds. Easing defaults to 'easeInOut'. */
+  tween(object: ScriptAPI | keyof TargetObjects, props: ScriptTweenProps, duration: number, easing?: ScriptEasing): ScriptTween;
+  /** Run \`callback\` after \`ms\` milliseconds of the target's clock, which pauses while the target is lost. Cleared on onDeactivate. */
+  setTimeout<A extends any[]>(callback: (...args: A) => void, ms: number, ...args: A): number;
+  /** Run \`callback\` every \`ms\` milliseconds of the target's clock, at most once per frame. Cleared on onDeactivate. */
+  setInterval<A extends any[]>(callback: (...args: A) => void, ms: number, ...args: A): number;
+  clearTimeout(id: number): void;
+  clearInterval(id: number): void;
+  /** Send a message to every other script of the project: their on() listeners and onMessage handlers */
+  emit(message: string, payload?: any): void;
+  /** Listen for a message from the other scripts. Returns a function that removes the listener. */
+  on(message: string, listener: (payload: any, from: string) => void): () => void;
+  /** Read a value of the state shared by all scripts of the project */
+  getState(key: string): any;
+  /** Change a value of the shared state. Other scripts see it from their next event. */
+  setState(key: string, value: any): void;
+  /** Tracking status of every target of the project */
+  getTargets(): ScriptTargetStatus[];
+  /** This target's content under a point of the view (0 to 1 from the top left). Resolves on the next frame. */
+  raycast(screenX: number, screenY: number): Promise<ScriptRaycastHit | null>;
+}
+
+interface ScriptEventParams {
+  target: SceneScriptAPI;
+  /** Shared by all handlers of this script */
+  data: Record<string, any>;
+  /** Shared by all scripts of the project and kept between visits */
+  storage: ScriptStorageAPI;
+  /** Seconds (onUpdate, onClick) */
+  time?: number;
+  /** Seconds since the last onUpdate */
+  deltaTime?: number;
+  /** The clicked, pressed, hovered or dragged content (onClick and pointer events), the model (onAnimationFinished), the audio (onEnded, onCueEnter, onCueExit) */
+  object?: TargetObjects[keyof TargetObjects];
+  /** Where the pointer is on the object, in target space (pointer events) */
+  point?: ScriptVector;
+  /** Where the pointer is on the view (pointer events) */
+  screen?: ScriptScreenPoint;
+  /** The target that was found or lost (onTargetFound, onTargetLost) */
+  targetName?: string;
+  /** The message received (onMessage) */
+  message?: string;
+  /** The payload sent with the message (onMessage) */
+  payload?: any;
+  /** Name of the target that sent the message, '' for the project script (onMessage) */
+  from?: string;
+  /** The clip that ended (onAnimationFinished) */
+  clip?: string;
+  /** The audio clip that ended (onEnded) or whose cue it is (onCueEnter, onCueExit) */
+  track?: number;
+  /** The subtitle cue that started or ended (onCueEnter, onCueExit) */
+  cue?: ScriptCue;
+}
+`;
+
+/**
+ * Declarations for one target's script, with `TargetObjects` listing its contents by name.
+ * The project script gets a target without contents.
+ */
+export const generateScriptTypings = (target: Pick<Target, 'name' | 'contents'>): string => {
+  const objects = target.contents.map((content) => {
+    const kind = SCRIPT_RUNTIME_CONFIG.kinds[content.type] || 'content';
+    return `  ${JSON.stringify(content.name)}: ${API_BY_KIND[kind]};`;
+  });
+
+  return `// Script API for target "${target.name}". Generated by PapAR Studio.
+
+${SCRIPT_API_TYPINGS}
+/** Contents of this target, by name */
+interface TargetObjects {
+${objects.join('\n')}
+}
+`;
+};
@@ -0,0 +1,78 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { ShapeKind } from '../types';
+import {
+  DEFAULT_SHAPE_KIND,
+  DEFAULT_SHAPE_MATERIAL,
+  SHAPE_KINDS,
+  SHAPE_MATERIAL_NAME,
+  createShapeGeometry,
+  createShapeMaterial,
+  getShapeKind,
+  getShapeMaterial,
+  getShapeSize,
+} from './shapeUtils';
+
+const bounds = (geometry: THREE.BufferGeometry) => {
+  geometry.computeBoundingBox();
+  return geometry.boundingBox!;
+};
+
+describe('getShapeKind', () => {
+  it('falls back to the default kind', () => {
+    expect(getShapeKind({}).id).toBe(DEFAULT_SHAPE_KIND);
+    expect(getShapeKind({ shapeKind: 'hexagon' as ShapeKind }).id).toBe(DEFAULT_SHAPE_KIND);
+    expect(getShapeKind({ shapeKind: 'ring' }).id).toBe('ring');
+  });
+});
+
+describe('getShapeSize', () => {
+  it('fills in the default size of the kind', () => {
+    expect(getShapeSize({ shapeKind: 'sphere' })).toEqual({ width: 0, height: 0, depth: 0, radius: 0.25, innerRadius: 0, cornerRadius: 0 });
+  });
+
+  it('keeps valid values and drops invalid ones', () => {
+    const size = getShapeSize({ shapeKind: 'box', shapeSize: { width: 2, height: -1, depth: NaN } });
+    expect(size).toMatchObject({ width: 2, height: 0.5, depth: 0.5 });
+  });
+});
+
+describe('getShapeMaterial', () => {
+  it('reads the shape material from the material overrides', () => {
+    expect(getShapeMaterial({})).toBe(DEFAULT_SHAPE_MATERIAL);
+    expect(getShapeMaterial({ materialOverrides: { [SHAPE_MATERIAL_NAME]: { color: '#ff0000' } } })).toEqual({ color: '#ff0000' });
+  });
+});
+
+describe('createShapeGeometry', () => {
+  it.each(SHAPE_KINDS.map(kind => [kind.id]))('centers %s on its origin', (kind) => {
+    const center = bounds(createShapeGeometry(kind, getShapeSize({ shapeKind: kind }))).getCenter(new THREE.Vector3());
+    center.toArray().forEach(v => expect(v).toBeCloseTo(0));
+  });
+
+  it('extrudes outlines with a depth and spans their UVs over the outline', () => {
+    const size = getShapeSize({ shapeKind: 'roundedRect', shapeSize: { width: 2, height: 1, depth: 0.2 } });
+    const geometry = createShapeGeometry('roundedRect', size);
+    expect(bounds(geometry).getSize(new THREE.Vector3()).toArray().map(v => +v.toFixed(5))).toEqual([2, 1, 0.2]);
+    const uv = geometry.attributes.uv;
+    const us = Array.from({ length: uv.count }, (_, i) => uv.getX(i));
+    expect(Math.min(...us)).toBeCloseTo(0);
+    expect(Math.max(...us)).toBeCloseTo(1);
+  });
+
+  it('keeps the ring hole inside the ring', () => {
+    const ring = createShapeGeometry('ring', getShapeSize({ shapeKind: 'ring', shapeSize: { radius: 0.2, innerRadius: 0.5 } })) as THREE.RingGeometry;
+    expect(ring.parameters.innerRadius).toBe(0.2);
+  });
+});
+
+describe('createShapeMaterial', () => {
+  it('builds the material from the editor properties', () => {
+    const texture = new THREE.Texture();
+    const material = createShapeMaterial({ color: 'transparent', opacity: 0.5, transparent: true, map: 'a.png' }, () => texture);
+    expect(material.name).toBe(SHAPE_MATERIAL_NAME);
+    expect(material.color.getHexString()).toBe('ffffff');
+    expect(material.opacity).toBe(0.5);
+    expect(material.map).toBe(texture);
+  });
+});
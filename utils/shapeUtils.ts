@@ -0,0 +1,148 @@
+/**
+ * Primitive shapes (panels, arrows, button backgrounds...) for the editor and the Player.
+ * A shape has one material, edited like a model's in the material editor under SHAPE_MATERIAL_NAME.
+ * The exported viewer carries its own copy of these helpers (see utils/exportUtils.ts).
+ */
+
+import * as THREE from 'three';
+import { Content, MaterialProperties, ShapeKind, ShapeSize } from '../types';
+
+export const SHAPE_MATERIAL_NAME = 'Shape';
+
+export const DEFAULT_SHAPE_KIND: ShapeKind = 'roundedRect';
+
+export const DEFAULT_SHAPE_MATERIAL: MaterialProperties = { color: '#4f46e5', metalness: 0, roughness: 0.6 };
+
+/**
+ * Kinds with the dimensions they use and their default size. A rectangle of 1 x 0.4 is about
+ * as wide as the target.
+ */
+export const SHAPE_KINDS: { id: ShapeKind; label: string; size: ShapeSize }[] = [
+  { id: 'plane', label: 'Plane', size: { width: 1, height: 0.6 } },
+  { id: 'roundedRect', label: 'Rounded Rectangle', size: { width: 1, height: 0.4, cornerRadius: 0.1, depth: 0 } },
+  { id: 'box', label: 'Box', size: { width: 0.5, height: 0.5, depth: 0.5 } },
+  { id: 'sphere', label: 'Sphere', size: { radius: 0.25 } },
+  { id: 'cylinder', label: 'Cylinder', size: { radius: 0.25, height: 0.5 } },
+  { id: 'ring', label: 'Ring', size: { radius: 0.4, innerRadius: 0.25 } },
+  { id: 'arrow', label: 'Arrow', size: { width: 1, height: 0.5, depth: 0 } },
+];
+
+export const SHAPE_SIZE_LABELS: Record<keyof ShapeSize, string> = {
+  width: 'Width',
+  height: 'Height',
+  depth: 'Depth',
+  radius: 'Radius',
+  innerRadius: 'Inner Radius',
+  cornerRadius: 'Corner Radius',
+};
+
+export const getShapeKind = (content: Pick<Content, 'shapeKind'>) =>
+  SHAPE_KINDS.find(kind => kind.id === content.shapeKind) ?? SHAPE_KINDS.find(kind => kind.id === DEFAULT_SHAPE_KIND)!;
+
+/**
+ * Size of a shape: its kind's default dimensions, with the content's values where set.
+ */
+export const getShapeSize = (content: Pick<Content, 'shapeKind' | 'shapeSize'>): Required<ShapeSize> => {
+  const defaults = getShapeKind(content).size;
+  const size = { width: 0, height: 0, depth: 0, radius: 0, innerRadius: 0, cornerRadius: 0 };
+  (Object.keys(size) as (keyof ShapeSize)[]).forEach((key) => {
+    const value = content.shapeSize?.[key];
+    size[key] = typeof value === 'number' && isFinite(value) && value >= 0 ? value : defaults[key] ?? 0;
+  });
+  return size;
+};
+
+export const getShapeMaterial = (content: Pick<Content, 'materialOverrides'>): MaterialProperties =>
+  content.materialOverrides?.[SHAPE_MATERIAL_NAME] ?? DEFAULT_SHAPE_MATERIAL;
+
+const roundedRectPath = (width: number, height: number, cornerRadius: number): THREE.Shape => {
+  const x = width / 2, y = height / 2;
+  const r = Math.min(cornerRadius, x, y);
+  const path = new THREE.Shape();
+  path.moveTo(-x + r, -y);
+  path.lineTo(x - r, -y);
+  path.quadraticCurveTo(x, -y, x, -y + r);
+  path.lineTo(x, y - r);
+  path.quadraticCurveTo(x, y, x - r, y);
+  path.lineTo(-x + r, y);
+  path.quadraticCurveTo(-x, y, -x, y - r);
+  path.lineTo(-x, -y + r);
+  path.quadraticCurveTo(-x, -y, -x + r, -y);
+  return path;
+};
+
+// Points right (+X). The head takes the full height, the shaft 40% of it.
+const arrowPath = (width: number, height: number): THREE.Shape => {
+  const x = width / 2, y = height / 2;
+  const shaft = y * 0.4;
+  const head = x - Math.min(width * 0.5, height);
+  const path = new THREE.Shape();
+  path.moveTo(-x, -shaft);
+  path.lineTo(head, -shaft);
+  path.lineTo(head, -y);
+  path.lineTo(x, 0);
+  path.lineTo(head, y);
+  path.lineTo(head, shaft);
+  path.lineTo(-x, shaft);
+  path.closePath();
+  return path;
+};
+
+// Flat at depth 0, otherwise extruded and centered on the XY plane. UVs span the outline, like a plane's.
+const createOutlineGeometry = (path: THREE.Shape, width: number, height: number, depth: number): THREE.BufferGeometry => {
+  const geometry = depth > 0
+    ? new THREE.ExtrudeGeometry(path, { depth, bevelEnabled: false, curveSegments: 12 }).translate(0, 0, -depth / 2)
+    : new THREE.ShapeGeometry(path, 12);
+  const position = geometry.attributes.position;
+  const uv = geometry.attributes.uv;
+  for (let i = 0; i < uv.count; i++) {
+    uv.setXY(i, width ? position.getX(i) / width + 0.5 : 0, height ? position.getY(i) / height + 0.5 : 0);
+  }
+  uv.needsUpdate = true;
+  return geometry;
+};
+
+/**
+ * Geometry of a shape, centered on its origin and facing +Z like image planes.
+ */
+export const createShapeGeometry = (kind: ShapeKind, size: Required<ShapeSize>): THREE.BufferGeometry => {
+  const { width, height, depth, radius, innerRadius, cornerRadius } = size;
+  switch (kind) {
+    case 'plane': return new THREE.PlaneGeometry(width, height);
+    case 'roundedRect': return createOutlineGeometry(roundedRectPath(width, height, cornerRadius), width, height, depth);
+    case 'box': return new THREE.BoxGeometry(width, height, depth);
+    case 'sphere': return new THREE.SphereGeometry(radius, 48, 24);
+    case 'cylinder': return new THREE.CylinderGeometry(radius, radius, height, 48);
+    case 'ring': return new THREE.RingGeometry(Math.min(innerRadius, radius), radius, 64);
+    case 'arrow': return createOutlineGeometry(arrowPath(width, height), width, height, depth);
+  }
+};
+
+/**
+ * Material of a shape, from the properties of the material editor.
+ * `loadTexture` loads the texture map, if any.
+ */
+export const createShapeMaterial = (
+  props: MaterialProperties,
+  loadTexture: (url: string) => THREE.Texture
+): THREE.MeshStandardMaterial => {
+  const material = new THREE.MeshStandardMaterial({
+    name: SHAPE_MATERIAL_NAME,
+    color: props.color && props.color !== 'transparent' ? props.color : '#ffffff',
+    emissive: props.emissive && props.emissive !== 'transparent' ? props.emissive : '#000000',
+    metalness: props.metalness ?? 0,
+    roughness: props.roughness ?? 1,
+    opacity: props.opacity ?? 1,
+    transparent: props.transparent ?? false,
+    wireframe: props.wireframe ?? false,
+    side: THREE.DoubleSide,
+  });
+  if (props.map) material.map = loadTexture(props.map);
+  return material;
+};
+
+export const loadShapeTexture = (url: string): THREE.Texture => {
+  const texture = new THREE.TextureLoader().load(url);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
@@ -78,6 +78,8 @@ const compressProjectForStorage = (project: Project): Partial<Project> => {
       mindFileUrl: target.mindFileUrl,
       visible: target.visible,
       script: target.script,
+      scriptLanguage: target.scriptLanguage,
+      lights: target.lights,
       // Store minimal content data - references to assets rather than full data
       contents: target.contents?.map((content: any) => ({
         id: content.id,
@@ -90,7 +92,13 @@ const compressProjectForStorage = (project: Project): Partial<Project> => {
         videoUrl: content.videoUrl,
         audioUrl: content.audioUrl,
         modelUrl: content.modelUrl,
+        occluderShape: content.occluderShape,
+        shapeKind: content.shapeKind,
+        shapeSize: content.shapeSize,
         textContent: content.textContent,
+        richText: content.richText,
+        font: content.font,
+        fontAssetId: content.fontAssetId,
         // Store material overrides but not texture maps (which are URLs)
         materialOverrides: content.materialOverrides
       }))
@@ -102,7 +110,10 @@ const compressProjectForStorage = (project: Project): Partial<Project> => {
       url: asset.url,
       thumbnail: asset.thumbnail
     })) || [],
-    mindARConfig: project.mindARConfig
+    mindARConfig: project.mindARConfig,
+    script: project.script,
+    scriptLanguage: project.scriptLanguage,
+    sceneSettings: project.sceneSettings
   };
   
   return minimal;
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { Content, ContentType } from '../types';
+import { buildStreamingEmbedUrl, detectStreamingVideo, getStreamingService, getStreamingVideoId, parseVimeoId, parseYouTubeId } from './streamingUtils';
+
+const content = (type: ContentType, videoUrl: string, extra: Partial<Content> = {}) => ({ id: 'c', type, videoUrl, ...extra }) as Content;
+
+describe('parseYouTubeId', () => {
+  it('returns null for empty input', () => {
+    expect(parseYouTubeId(undefined)).toBeNull();
+    expect(parseYouTubeId('')).toBeNull();
+    expect(parseYouTubeId('   ')).toBeNull();
+  });
+
+  it('accepts a bare ID', () => {
+    expect(parseYouTubeId(' dQw4w9WgXcQ ')).toBe('dQw4w9WgXcQ');
+  });
+
+  it.each([
+    'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42s',
+    'youtube.com/watch?v=dQw4w9WgXcQ',
+    'https://m.youtube.com/watch?v=dQw4w9WgXcQ',
+    'https://youtu.be/dQw4w9WgXcQ?si=abc',
+    'https://www.youtube.com/embed/dQw4w9WgXcQ',
+    'https://www.youtube.com/shorts/dQw4w9WgXcQ',
+    'https://www.youtube.com/live/dQw4w9WgXcQ?feature=share',
+    'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ',
+    'https://music.youtube.com/watch?v=dQw4w9WgXcQ',
+  ])('finds the ID in %s', (url) => {
+    expect(parseYouTubeId(url)).toBe('dQw4w9WgXcQ');
+  });
+
+  it.each([
+    'https://www.youtube.com/watch?v=short',
+    'https://www.youtube.com/channel/UC1234567890',
+    'https://example.com/watch?v=dQw4w9WgXcQ',
+    'https://youtu.be/',
+    'not a url at all',
+    'http://',
+  ])('rejects %s', (url) => {
+    expect(parseYouTubeId(url)).toBeNull();
+  });
+});
+
+describe('parseVimeoId', () => {
+  it('returns null for empty input', () => {
+    expect(parseVimeoId(undefined)).toBeNull();
+    expect(parseVimeoId('')).toBeNull();
+  });
+
+  it.each([
+    ['76979871', '76979871'],
+    ['https://vimeo.com/76979871', '76979871'],
+    ['vimeo.com/76979871/abcdef1234', '76979871'],
+    ['https://player.vimeo.com/video/76979871?h=abc', '76979871'],
+    ['https://vimeo.com/channels/staffpicks/76979871', '76979871'],
+  ])('finds the ID in %s', (url, id) => {
+    expect(parseVimeoId(url)).toBe(id);
+  });
+
+  it.each([
+    'https://vimeo.com/channels/staffpicks',
+    'https://example.com/76979871',
+    'abc123',
+  ])('rejects %s', (url) => {
+    expect(parseVimeoId(url)).toBeNull();
+  });
+});
+
+describe('detectStreamingVideo', () => {
+  it('tells Vimeo from YouTube', () => {
+    expect(detectStreamingVideo('https://vimeo.com/76979871')).toEqual({ id: '76979871', service: 'vimeo' });
+    expect(detectStreamingVideo('https://youtu.be/dQw4w9WgXcQ')).toEqual({ id: 'dQw4w9WgXcQ', service: 'youtube' });
+  });
+
+  it('finds nothing in empty or unknown input', () => {
+    expect(detectStreamingVideo('')).toEqual({ id: null, service: null });
+    expect(detectStreamingVideo('https://example.com/video.mp4')).toEqual({ id: null, service: null });
+  });
+});
+
+describe('getStreamingVideoId', () => {
+  it('parses the URL for the content type', () => {
+    expect(getStreamingVideoId(content(ContentType.VIMEO, 'https://vimeo.com/76979871'))).toBe('76979871');
+    expect(getStreamingVideoId(content(ContentType.YOUTUBE, 'https://vimeo.com/76979871'))).toBeNull();
+  });
+
+  it('returns null for other content types', () => {
+    expect(getStreamingService(content(ContentType.IMAGE, 'dQw4w9WgXcQ'))).toBeNull();
+    expect(getStreamingVideoId(content(ContentType.IMAGE, 'dQw4w9WgXcQ'))).toBeNull();
+  });
+});
+
+describe('buildStreamingEmbedUrl', () => {
+  it('returns null without a valid ID', () => {
+    expect(buildStreamingEmbedUrl(content(ContentType.YOUTUBE, 'nope'))).toBeNull();
+  });
+
+  it('makes a looping YouTube video its own playlist', () => {
+    const url = new URL(buildStreamingEmbedUrl(content(ContentType.YOUTUBE, 'dQw4w9WgXcQ', { loop: true, videoStart: 10.7 }))!);
+    expect(url.pathname).toBe('/embed/dQw4w9WgXcQ');
+    expect(url.searchParams.get('playlist')).toBe('dQw4w9WgXcQ');
+    expect(url.searchParams.get('start')).toBe('10');
+  });
+
+  it('puts the Vimeo start offset in the fragment', () => {
+    expect(buildStreamingEmbedUrl(content(ContentType.VIMEO, '76979871', { videoStart: 5 }))).toMatch(/^https:\/\/player\.vimeo\.com\/video\/76979871\?.*#t=5s$/);
+  });
+});
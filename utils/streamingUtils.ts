@@ -0,0 +1,187 @@
+import { Content, ContentType } from '../types';
+
+export type StreamingService = 'youtube' | 'vimeo';
+
+export const PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Player iframe viewport in CSS pixels and its size in the scene (world units)
+export const STREAMING_ASPECT = 16 / 9;
+export const STREAMING_EMBED_WIDTH = 1000;
+export const STREAMING_EMBED_HEIGHT = STREAMING_EMBED_WIDTH / STREAMING_ASPECT;
+export const STREAMING_PLANE_HEIGHT = 3;
+
+const YOUTUBE_ID = /^[a-zA-Z0-9_-]{11}$/;
+const VIMEO_ID = /^\d+$/;
+
+const toUrl = (input: string): URL | null => {
+  try {
+    return new URL(/^[a-z]+:\/\//i.test(input) ? input : `https://${input}`);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Extract an 11 character YouTube video ID from a bare ID or any common YouTube URL
+ * (watch, youtu.be, embed, shorts, live, nocookie). Returns null if none is found.
+ */
+export const parseYouTubeId = (input: string | undefined): string | null => {
+  const str = (input || '').trim();
+  if (!str) return null;
+  if (YOUTUBE_ID.test(str)) return str;
+
+  const url = toUrl(str);
+  if (!url) return null;
+  const host = url.hostname.replace(/^(www\.|m\.)/, '');
+
+  let candidate: string | null = null;
+  if (host === 'youtu.be' || host === 'y2u.be') {
+    candidate = url.pathname.split('/')[1] || null;
+  } else if (host === 'youtube.com' || host === 'youtube-nocookie.com' || host === 'music.youtube.com') {
+    candidate = url.searchParams.get('v') || url.searchParams.get('vi');
+    if (!candidate) {
+      const match = url.pathname.match(/^\/(?:embed|shorts|live|v|vi|e)\/([^/?#]+)/);
+      candidate = match ? match[1] : null;
+    }
+  }
+
+  return candidate && YOUTUBE_ID.test(candidate) ? candidate : null;
+};
+
+/**
+ * Extract a numeric Vimeo video ID from a bare ID or a vimeo.com / player.vimeo.com URL.
+ * Returns null if none is found.
+ */
+export const parseVimeoId = (input: string | undefined): string | null => {
+  const str = (input || '').trim();
+  if (!str) return null;
+  if (VIMEO_ID.test(str)) return str;
+
+  const url = toUrl(str);
+  if (!url) return null;
+  const host = url.hostname.replace(/^www\./, '');
+  if (host !== 'vimeo.com' && host !== 'player.vimeo.com') return null;
+
+  // The video ID is the first purely numeric path segment (covers /channels/x/ID, /video/ID, /ID/hash)
+  const segments = url.pathname.split('/').filter(Boolean);
+  const id = segments.find(s => VIMEO_ID.test(s));
+  return id || null;
+};
+
+/**
+ * Best-effort service detection for legacy STREAMING_VIDEO content without an explicit service.
+ */
+export const detectStreamingVideo = (input: string | undefined): { id: string | null; service: StreamingService | null } => {
+  const str = (input || '').trim();
+  if (!str) return { id: null, service: null };
+
+  if (/vimeo/.test(str) || VIMEO_ID.test(str)) {
+    const id = parseVimeoId(str);
+    if (id) return { id, service: 'vimeo' };
+  }
+  const id = parseYouTubeId(str);
+  if (id) return { id, service: 'youtube' };
+
+  return { id: null, service: null };
+};
+
+/**
+ * Resolve the streaming service for a content, or null if it is not a streaming type.
+ */
+export const getStreamingService = (content: Content): StreamingService | null => {
+  switch (content.type) {
+    case ContentType.YOUTUBE:
+    case ContentType.ICON_YOUTUBE:
+      return 'youtube';
+    case ContentType.VIMEO:
+      return 'vimeo';
+    case ContentType.STREAMING_VIDEO:
+      return content.streamingService || detectStreamingVideo(content.videoUrl).service || 'youtube';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Resolve the validated video ID for a streaming content.
+ */
+export const getStreamingVideoId = (content: Content): string | null => {
+  const service = getStreamingService(content);
+  if (service === 'vimeo') return parseVimeoId(content.videoUrl);
+  if (service === 'youtube') return parseYouTubeId(content.videoUrl);
+  return null;
+};
+
+/**
+ * Start/end offsets in whole seconds. End is dropped unless it falls after the start.
+ */
+export const getStreamingRange = (content: Content): { start: number; end?: number } => {
+  const start = content.videoStart && content.videoStart > 0 ? Math.floor(content.videoStart) : 0;
+  const end = content.videoEnd && content.videoEnd > start ? Math.floor(content.videoEnd) : undefined;
+  return { start, end };
+};
+
+/**
+ * Clamp a playback rate to the range both services support.
+ */
+export const getPlaybackRate = (content: Content): number => {
+  const rate = content.videoPlaybackRate ?? 1;
+  return Math.min(2, Math.max(0.25, rate || 1));
+};
+
+/**
+ * Public watch page URL, used by ReactPlayer in the editor.
+ */
+export const getStreamingWatchUrl = (service: StreamingService, id: string): string => {
+  return service === 'vimeo' ? `https://vimeo.com/${id}` : `https://www.youtube.com/watch?v=${id}`;
+};
+
+/**
+ * Player iframe URL with the content's playback options applied.
+ * The JS APIs are enabled so the runtime can drive playback via postMessage;
+ * autoplay is left to the runtime so videos only start once their target is found.
+ */
+export const buildStreamingEmbedUrl = (content: Content, origin?: string): string | null => {
+  const service = getStreamingService(content);
+  const id = getStreamingVideoId(content);
+  if (!service || !id) return null;
+
+  const { start, end } = getStreamingRange(content);
+  const controls = content.videoControls ?? true;
+
+  if (service === 'youtube') {
+    const params = new URLSearchParams({
+      enablejsapi: '1',
+      playsinline: '1',
+      rel: '0',
+      modestbranding: '1',
+      controls: controls ? '1' : '0',
+      fs: (content.videoFullScreen ?? true) ? '1' : '0',
+      mute: content.muted ? '1' : '0',
+    });
+    // YouTube only loops single videos when they are also their own playlist
+    if (content.loop) {
+      params.set('loop', '1');
+      params.set('playlist', id);
+    }
+    if (start) params.set('start', String(start));
+    if (end) params.set('end', String(end));
+    if (content.videoCaptions) {
+      params.set('cc_load_policy', '1');
+      if (content.videoCaptionLang) params.set('cc_lang_pref', content.videoCaptionLang);
+    }
+    if (origin) params.set('origin', origin);
+    return `https://www.youtube.com/embed/${id}?${params.toString()}`;
+  }
+
+  const params = new URLSearchParams({
+    api: '1',
+    playsinline: '1',
+    controls: controls ? '1' : '0',
+    muted: content.muted ? '1' : '0',
+    loop: content.loop ? '1' : '0',
+  });
+  if (content.videoCaptions) params.set('texttrack', content.videoCaptionLang || 'en');
+  // Vimeo has no end parameter; the runtime pauses at the end offset instead
+  return `https://player.vimeo.com/video/${id}?${params.toString()}${start ? `#t=${start}s` : ''}`;
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Content } from '../types';
+import { DEFAULT_LINE_HEIGHT, getFontFormat, getTextLayout, sliceTextLines, wrapTextLines } from './textUtils';
+
+// One unit per character
+const measure = (text: string) => text.length;
+
+describe('wrapTextLines', () => {
+  it('returns one empty line for empty text', () => {
+    expect(wrapTextLines('', 10, measure)).toEqual(['']);
+    expect(wrapTextLines('', 0, measure)).toEqual(['']);
+  });
+
+  it('only breaks at line breaks without a max width', () => {
+    expect(wrapTextLines('a long line\nnext', 0, measure)).toEqual(['a long line', 'next']);
+  });
+
+  it('breaks between words past the max width', () => {
+    expect(wrapTextLines('the quick brown fox', 10, measure)).toEqual(['the quick', 'brown fox']);
+  });
+
+  it('keeps a word that exactly fills the line on it', () => {
+    expect(wrapTextLines('abcde fghij', 5, measure)).toEqual(['abcde', 'fghij']);
+  });
+
+  it('keeps words longer than a line whole, on their own line', () => {
+    expect(wrapTextLines('a supercalifragilistic word', 8, measure)).toEqual(['a', 'supercalifragilistic', 'word']);
+    expect(wrapTextLines('supercalifragilistic', 8, measure)).toEqual(['supercalifragilistic']);
+  });
+
+  it('keeps empty lines between paragraphs', () => {
+    expect(wrapTextLines('one\n\ntwo three', 5, measure)).toEqual(['one', '', 'two', 'three']);
+  });
+});
+
+describe('sliceTextLines', () => {
+  it('shows nothing at length 0', () => {
+    expect(sliceTextLines(['abc', 'de'], 0)).toEqual(['', '']);
+  });
+
+  it('counts the break each line ends with', () => {
+    expect(sliceTextLines(['abc', 'de'], 3)).toEqual(['abc', '']);
+    expect(sliceTextLines(['abc', 'de'], 4)).toEqual(['abc', '']);
+    expect(sliceTextLines(['abc', 'de'], 5)).toEqual(['abc', 'd']);
+  });
+
+  it('shows every line past the end of the text', () => {
+    expect(sliceTextLines(['abc', 'de'], 100)).toEqual(['abc', 'de']);
+  });
+
+  it('handles no lines and negative lengths', () => {
+    expect(sliceTextLines([], 5)).toEqual([]);
+    expect(sliceTextLines(['abc'], -2)).toEqual(['']);
+  });
+});
+
+describe('getTextLayout', () => {
+  it('falls back to the defaults for missing and invalid values', () => {
+    const layout = getTextLayout({ textLineHeight: -1, textMaxWidth: -3, align: 'justify' } as unknown as Content);
+    expect(layout.lineHeight).toBe(DEFAULT_LINE_HEIGHT);
+    expect(layout.maxWidth).toBe(0);
+    expect(layout.depth).toBe(0);
+    expect(layout.align).toBe('center');
+  });
+});
+
+describe('getFontFormat', () => {
+  it('accepts only fonts extruded text can read', () => {
+    expect(getFontFormat('Brand.TTF')).toBe('ttf');
+    expect(getFontFormat('brand.woff2')).toBeNull();
+    expect(getFontFormat('brand')).toBeNull();
+  });
+});
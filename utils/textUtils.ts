@@ -0,0 +1,186 @@
+/**
+ * Text fonts and layout shared by the editor, the Player and the exported viewer (which carries
+ * its own copy, see utils/exportUtils.ts). Text is flat, or extruded into 3D when it has a depth.
+ * Sizes are in scene units: a text of size 20 is 1 unit tall.
+ */
+
+import * as THREE from 'three';
+import { TTFLoader } from 'three/examples/jsm/loaders/TTFLoader.js';
+import { Font, FontLoader } from 'three/examples/jsm/loaders/FontLoader.js';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { Asset, Content } from '../types';
+
+export interface TextFont {
+  family: string; // Unique CSS font family the font is registered under
+  url: string;
+}
+
+/**
+ * Fonts every project has. TTF, so that extruded text can read their outlines.
+ * Metrically compatible stand-ins replace Arial, Courier New and Times New Roman.
+ */
+export const BUILT_IN_FONTS: Record<string, string> = {
+  'Roboto': 'https://cdn.jsdelivr.net/fontsource/fonts/roboto@latest/latin-400-normal.ttf',
+  'Arial': 'https://cdn.jsdelivr.net/fontsource/fonts/arimo@latest/latin-400-normal.ttf',
+  'Courier New': 'https://cdn.jsdelivr.net/fontsource/fonts/cousine@latest/latin-400-normal.ttf',
+  'Times New Roman': 'https://cdn.jsdelivr.net/fontsource/fonts/tinos@latest/latin-400-normal.ttf',
+  'Montserrat': 'https://cdn.jsdelivr.net/fontsource/fonts/montserrat@latest/latin-400-normal.ttf',
+  'Oswald': 'https://cdn.jsdelivr.net/fontsource/fonts/oswald@latest/latin-400-normal.ttf',
+};
+
+export const DEFAULT_FONT = 'Arial';
+
+// WOFF2 is left out: extruded text can't read it
+export const FONT_FORMATS = ['ttf', 'otf', 'woff'];
+
+export const TEXT_SIZE_SCALE = 0.05;
+
+export const DEFAULT_LINE_HEIGHT = 1.2;
+
+// TTFLoader fonts are 1000/72 units per em at resolution 1000, so this size gives a 1 unit em
+const EXTRUDED_EM_SIZE = 0.72;
+
+export const getFontFormat = (fileName: string): string | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return FONT_FORMATS.find(format => format === extension) ?? null;
+};
+
+/**
+ * The font of a text: an uploaded font asset, or a built-in font by name.
+ * Texts whose font asset was deleted fall back to the default font.
+ */
+export const resolveTextFont = (content: Pick<Content, 'font' | 'fontAssetId'>, assets: Asset[] = []): TextFont => {
+  const asset = content.fontAssetId ? assets.find(a => a.id === content.fontAssetId && a.type === 'font') : undefined;
+  if (asset) return { family: `font_${asset.id}`, url: asset.url };
+  const name = content.font && BUILT_IN_FONTS[content.font] ? content.font : DEFAULT_FONT;
+  // Registered under its own family, so the page's Arial stays the system one
+  return { family: `PapAR ${name}`, url: BUILT_IN_FONTS[name] };
+};
+
+export interface TextLayout {
+  fontSize: number; // Em size in scene units
+  lineHeight: number; // Multiple of the font size
+  maxWidth: number; // Lines wrap past this width; 0 never wraps
+  depth: number; // Extrusion; 0 is flat text
+  bevel: number;
+  align: 'left' | 'center' | 'right';
+}
+
+export const getTextLayout = (content: Content): TextLayout => ({
+  fontSize: (content.size || 1) * TEXT_SIZE_SCALE,
+  lineHeight: content.textLineHeight && content.textLineHeight > 0 ? content.textLineHeight : DEFAULT_LINE_HEIGHT,
+  maxWidth: Math.max(0, content.textMaxWidth || 0),
+  depth: Math.max(0, content.textDepth || 0),
+  bevel: Math.max(0, content.textBevel || 0),
+  align: content.align === 'left' || content.align === 'right' ? content.align : 'center',
+});
+
+/**
+ * Break a text into lines at its line breaks, and between words past `maxWidth`.
+ * Words longer than a line stay whole. `measure` gives the width of a string.
+ */
+export const wrapTextLines = (text: string, maxWidth: number, measure: (text: string) => number): string[] =>
+  text.split('\n').flatMap((paragraph) => {
+    if (!maxWidth) return [paragraph];
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(' ').forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measure(candidate) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+    return lines;
+  });
+
+/**
+ * The first `length` characters of wrapped lines, counting the space or line break each
+ * line ends with, so a typewriter reveal follows the final layout.
+ */
+export const sliceTextLines = (lines: string[], length: number): string[] => {
+  let remaining = length;
+  return lines.map((line) => {
+    const visible = line.slice(0, Math.max(0, remaining));
+    remaining -= line.length + 1;
+    return visible;
+  });
+};
+
+interface TypefaceData {
+  resolution: number;
+  ascender: number;
+  descender: number;
+  glyphs: Record<string, { ha: number } | undefined>;
+}
+
+const fontCache = new Map<string, Promise<Font>>();
+
+/**
+ * Outlines of a font for extruded text, loaded once per URL.
+ */
+export const loadTextFont = (url: string): Promise<Font> => {
+  let font = fontCache.get(url);
+  if (!font) {
+    font = new TTFLoader().loadAsync(url).then(json => new FontLoader().parse(json));
+    font.catch(() => fontCache.delete(url));
+    fontCache.set(url, font);
+  }
+  return font;
+};
+
+/**
+ * Extruded text, laid out like flat text: lines `lineHeight` apart, centered vertically on
+ * the origin, anchored on their left edge, center or right edge by `align`. Shows the first
+ * `length` characters of the text.
+ */
+export const createExtrudedTextGeometry = (font: Font, text: string, layout: TextLayout, length = text.length): THREE.BufferGeometry => {
+  // Typeface JSON from TTFLoader, which the typings don't describe
+  const data = font.data as unknown as TypefaceData;
+  const size = layout.fontSize * EXTRUDED_EM_SIZE;
+  const scale = size / data.resolution;
+  const measure = (line: string) => Array.from(line).reduce((width, char) => width + ((data.glyphs[char] ?? data.glyphs['?'])?.ha ?? 0) * scale, 0);
+
+  const lines = wrapTextLines(text, layout.maxWidth, measure);
+  const lineBox = layout.fontSize * layout.lineHeight;
+  const ascender = data.ascender * scale;
+  const halfLeading = (lineBox - (data.ascender - data.descender) * scale) / 2;
+  const top = (lines.length * lineBox) / 2;
+
+  const geometries = sliceTextLines(lines, length).flatMap((visible, i) => {
+    if (!visible.trim()) return [];
+    const width = measure(lines[i]);
+    const x = layout.align === 'left' ? 0 : layout.align === 'right' ? -width : -width / 2;
+    const y = top - i * lineBox - halfLeading - ascender;
+    const geometry = new THREE.ExtrudeGeometry(font.generateShapes(visible, size), {
+      depth: layout.depth,
+      bevelEnabled: layout.bevel > 0,
+      bevelSize: layout.bevel,
+      bevelThickness: layout.bevel,
+      curveSegments: 6,
+    });
+    return [geometry.translate(x, y, -layout.depth / 2)];
+  });
+
+  const merged = geometries.length ? mergeGeometries(geometries) : new THREE.BufferGeometry();
+  geometries.forEach(geometry => geometry.dispose());
+  return merged;
+};
+
+const fontFaces = new Map<string, Promise<void>>();
+
+/**
+ * Register a font with the page for canvas text. Resolves once it can be drawn.
+ */
+export const loadFontFace = (font: TextFont): Promise<void> => {
+  let loaded = fontFaces.get(font.family);
+  if (!loaded) {
+    loaded = new FontFace(font.family, `url(${font.url})`).load().then((face) => { document.fonts.add(face); });
+    loaded.catch(() => fontFaces.delete(font.family));
+    fontFaces.set(font.family, loaded);
+  }
+  return loaded;
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Keyframe, Timeline, TimelineProperty, TimelineTrack } from '../types';
+import { getPlaybackTime, getTimelineTime, sampleTimeline, sampleTrack, upsertKeyframe } from './timelineUtils';
+
+const key = (time: number, value: number[], easing?: Keyframe['easing']): Keyframe => ({ id: `k${time}`, time, value, easing });
+
+const track = (property: TimelineProperty, keyframes: Keyframe[], contentId = 'a'): TimelineTrack => ({ contentId, property, keyframes });
+
+const timeline = (tracks: TimelineTrack[], duration = 4, loop = false): Timeline => ({ duration, loop, tracks });
+
+describe('sampleTrack', () => {
+  it('returns null for a track without keyframes', () => {
+    expect(sampleTrack(track('position', []), 1)).toBeNull();
+  });
+
+  it('holds the first and last values outside the keyframes', () => {
+    const t = track('scale', [key(1, [1, 1, 1], 'linear'), key(2, [3, 3, 3])]);
+    expect(sampleTrack(t, 0)).toEqual([1, 1, 1]);
+    expect(sampleTrack(t, 5)).toEqual([3, 3, 3]);
+  });
+
+  it('interpolates with the easing of the keyframe it leaves', () => {
+    const t = track('position', [key(0, [0, 0, 0], 'linear'), key(2, [2, 4, 0], 'easeIn'), key(3, [0, 0, 0])]);
+    expect(sampleTrack(t, 1)).toEqual([1, 2, 0]);
+    expect(sampleTrack(t, 2.5)).toEqual([1.75, 3.5, 0]);
+  });
+
+  it('holds the value until the next keyframe with the step easing', () => {
+    const t = track('opacity', [key(0, [1], 'step'), key(1, [0])]);
+    expect(sampleTrack(t, 0.99)).toEqual([1]);
+    expect(sampleTrack(t, 1)).toEqual([0]);
+  });
+
+  it('switches visibility at the next keyframe whatever the easing', () => {
+    const t = track('visible', [key(0, [1], 'linear'), key(1, [0])]);
+    expect(sampleTrack(t, 0.9)).toEqual([1]);
+  });
+
+  it('keeps components missing from the next keyframe', () => {
+    const t = track('position', [key(0, [1, 2, 3], 'linear'), key(1, [3])]);
+    expect(sampleTrack(t, 0.5)).toEqual([2, 2, 3]);
+  });
+});
+
+describe('sampleTimeline', () => {
+  it('returns an empty pose for an empty timeline', () => {
+    expect(sampleTimeline(timeline([]), 'a', 1)).toEqual({});
+  });
+
+  it('only samples the tracks of the content', () => {
+    const t = timeline([track('position', [key(0, [1, 2, 3])], 'a'), track('scale', [key(0, [2, 2, 2])], 'b')]);
+    expect(sampleTimeline(t, 'a', 0)).toEqual({ position: [1, 2, 3] });
+  });
+
+  it('clamps opacity and thresholds visibility', () => {
+    const t = timeline([track('opacity', [key(0, [1.5])]), track('visible', [key(0, [0.4])])]);
+    expect(sampleTimeline(t, 'a', 0)).toEqual({ opacity: 1, visible: false });
+  });
+
+  it('fills short vectors with zeros', () => {
+    const t = timeline([track('rotation', [key(0, [90])])]);
+    expect(sampleTimeline(t, 'a', 0)).toEqual({ rotation: [90, 0, 0] });
+  });
+});
+
+describe('getTimelineTime', () => {
+  it('clamps to the duration without looping', () => {
+    expect(getTimelineTime(timeline([], 4), 5)).toBe(4);
+    expect(getTimelineTime(timeline([], 4), -1)).toBe(0);
+  });
+
+  it('wraps when looping', () => {
+    expect(getTimelineTime(timeline([], 4, true), 5)).toBe(1);
+    expect(getTimelineTime(timeline([], 4, true), -1)).toBe(3);
+  });
+
+  it('stays at zero for an empty duration', () => {
+    expect(getTimelineTime(timeline([], 0, true), 3)).toBe(0);
+  });
+});
+
+describe('getPlaybackTime', () => {
+  it('returns the playhead while paused', () => {
+    expect(getPlaybackTime({ time: 1.5, playing: false, startedAt: 0 }, timeline([]), 10000)).toBe(1.5);
+  });
+
+  it('advances from the playhead while playing', () => {
+    expect(getPlaybackTime({ time: 1, playing: true, startedAt: 1000 }, timeline([]), 2500)).toBe(2.5);
+  });
+});
+
+describe('upsertKeyframe', () => {
+  it('creates the track and keeps keyframes sorted', () => {
+    let t = upsertKeyframe(timeline([]), 'a', 'opacity', 2, [0]);
+    t = upsertKeyframe(t, 'a', 'opacity', 1, [1]);
+    expect(t.tracks).toHaveLength(1);
+    expect(t.tracks[0].keyframes.map(k => k.time)).toEqual([1, 2]);
+  });
+
+  it('replaces the value of a keyframe at the same time', () => {
+    let t = upsertKeyframe(timeline([]), 'a', 'opacity', 1, [1]);
+    t = upsertKeyframe(t, 'a', 'opacity', 1.0001, [0.5]);
+    expect(t.tracks[0].keyframes).toHaveLength(1);
+    expect(t.tracks[0].keyframes[0].value).toEqual([0.5]);
+  });
+});
@@ -0,0 +1,208 @@
+import { Content, Keyframe, Timeline, TimelineEasing, TimelineProperty, TimelineTrack } from '../types';
+
+export const TIMELINE_PROPERTIES: { id: TimelineProperty; label: string }[] = [
+  { id: 'position', label: 'Position' },
+  { id: 'rotation', label: 'Rotation' },
+  { id: 'scale', label: 'Scale' },
+  { id: 'opacity', label: 'Opacity' },
+  { id: 'visible', label: 'Visible' },
+];
+
+export const TIMELINE_EASINGS: { id: TimelineEasing; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'easeIn', label: 'Ease In' },
+  { id: 'easeOut', label: 'Ease Out' },
+  { id: 'easeInOut', label: 'Ease In-Out' },
+  { id: 'step', label: 'Hold' },
+];
+
+export const DEFAULT_TIMELINE_DURATION = 5; // seconds
+export const DEFAULT_KEYFRAME_EASING: TimelineEasing = 'easeInOut';
+
+// Keyframes closer together than this on a track are treated as the same keyframe
+const KEYFRAME_TIME_EPSILON = 0.001;
+// Differences below this come from degree/radian round trips rather than edits
+const KEYFRAME_VALUE_EPSILON = 0.0001;
+
+/**
+ * Values sampled from a content's tracks. Properties without a track are left undefined
+ * so the content's own value (or a script) stays in control of them.
+ */
+export interface TimelinePose {
+  position?: [number, number, number];
+  rotation?: [number, number, number]; // Degrees
+  scale?: [number, number, number];
+  opacity?: number;
+  visible?: boolean;
+}
+
+/**
+ * Editor playhead. While playing, the current time is derived from `startedAt`
+ * (a performance.now() timestamp) so every view advances in sync without per-frame state updates.
+ */
+export interface TimelinePlayback {
+  time: number;
+  playing: boolean;
+  startedAt: number;
+}
+
+export const createTimeline = (): Timeline => ({
+  duration: DEFAULT_TIMELINE_DURATION,
+  loop: false,
+  tracks: [],
+});
+
+export const applyTimelineEasing = (easing: TimelineEasing, t: number): number => {
+  switch (easing) {
+    case 'linear': return t;
+    case 'easeIn': return t * t * t;
+    case 'easeOut': return 1 - Math.pow(1 - t, 3);
+    case 'step': return 0;
+    case 'easeInOut':
+    default:
+      return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+  }
+};
+
+/**
+ * Map time since activation to a position on the timeline, wrapping when it loops.
+ */
+export const getTimelineTime = (timeline: Timeline, elapsed: number): number => {
+  const duration = Math.max(0, timeline.duration);
+  if (duration === 0) return 0;
+  if (timeline.loop) return ((elapsed % duration) + duration) % duration;
+  return Math.min(duration, Math.max(0, elapsed));
+};
+
+export const getPlaybackTime = (playback: TimelinePlayback, timeline: Timeline, now: number = performance.now()): number => {
+  if (!playback.playing) return playback.time;
+  return getTimelineTime(timeline, playback.time + (now - playback.startedAt) / 1000);
+};
+
+/**
+ * Whether the timeline animates anything, optionally for a single content.
+ */
+export const hasTimelineTracks = (timeline: Timeline | undefined, contentId?: string): timeline is Timeline => {
+  if (!timeline) return false;
+  return timeline.tracks.some(t => t.keyframes.length > 0 && (!contentId || t.contentId === contentId));
+};
+
+export const getTimelineTrack = (timeline: Timeline | undefined, contentId: string, property: TimelineProperty): TimelineTrack | undefined => {
+  return timeline?.tracks.find(t => t.contentId === contentId && t.property === property);
+};
+
+/**
+ * Interpolate a track at `time`. Values hold before the first and after the last keyframe.
+ */
+export const sampleTrack = (track: TimelineTrack, time: number): number[] | null => {
+  const keys = track.keyframes;
+  if (keys.length === 0) return null;
+  if (time <= keys[0].time) return keys[0].value;
+  const last = keys[keys.length - 1];
+  if (time >= last.time) return last.value;
+
+  let i = 0;
+  while (i < keys.length - 2 && time >= keys[i + 1].time) i++;
+  const from = keys[i];
+  const to = keys[i + 1];
+  // Visibility can't be blended, it switches at the next keyframe
+  const easing = track.property === 'visible' ? 'step' : (from.easing ?? DEFAULT_KEYFRAME_EASING);
+  const t = applyTimelineEasing(easing, (time - from.time) / (to.time - from.time));
+  return from.value.map((v, n) => v + ((to.value[n] ?? v) - v) * t);
+};
+
+export const sampleTimeline = (timeline: Timeline, contentId: string, time: number): TimelinePose => {
+  const pose: TimelinePose = {};
+  timeline.tracks.forEach(track => {
+    if (track.contentId !== contentId) return;
+    const value = sampleTrack(track, time);
+    if (!value) return;
+    switch (track.property) {
+      case 'position':
+      case 'rotation':
+      case 'scale':
+        pose[track.property] = [value[0] ?? 0, value[1] ?? 0, value[2] ?? 0];
+        break;
+      case 'opacity':
+        pose.opacity = Math.min(1, Math.max(0, value[0] ?? 1));
+        break;
+      case 'visible':
+        pose.visible = (value[0] ?? 1) >= 0.5;
+        break;
+    }
+  });
+  return pose;
+};
+
+/**
+ * The content's own (un-animated) value for a property, in keyframe form.
+ */
+export const getContentPropertyValue = (content: Content, property: TimelineProperty): number[] => {
+  switch (property) {
+    case 'position': return [...(content.transform.position || [0, 0, 0])];
+    case 'rotation': return [...(content.transform.rotation || [0, 0, 0])];
+    case 'scale': return [...(content.transform.scale || [1, 1, 1])];
+    case 'opacity': return [content.opacity ?? 1];
+    case 'visible': return [(content.visible ?? true) ? 1 : 0];
+  }
+};
+
+/**
+ * Value shown at `time`: the track's sample if the property is keyframed, otherwise the content's own value.
+ */
+export const getTimelineValue = (timeline: Timeline | undefined, content: Content, property: TimelineProperty, time: number): number[] => {
+  const track = getTimelineTrack(timeline, content.id, property);
+  return (track && sampleTrack(track, time)) || getContentPropertyValue(content, property);
+};
+
+const sortKeyframes = (keyframes: Keyframe[]) => [...keyframes].sort((a, b) => a.time - b.time);
+
+const updateTracks = (timeline: Timeline, contentId: string, property: TimelineProperty, update: (keyframes: Keyframe[]) => Keyframe[]): Timeline => {
+  const existing = getTimelineTrack(timeline, contentId, property);
+  const keyframes = sortKeyframes(update(existing ? existing.keyframes : []));
+  const others = timeline.tracks.filter(t => t !== existing);
+  return {
+    ...timeline,
+    tracks: keyframes.length > 0 ? [...others, { contentId, property, keyframes }] : others,
+  };
+};
+
+/**
+ * Add a keyframe at `time`, or replace the value of the keyframe already there.
+ */
+export const upsertKeyframe = (timeline: Timeline, contentId: string, property: TimelineProperty, time: number, value: number[]): Timeline => {
+  return updateTracks(timeline, contentId, property, keyframes => {
+    const index = keyframes.findIndex(k => Math.abs(k.time - time) < KEYFRAME_TIME_EPSILON);
+    if (index >= 0) return keyframes.map((k, i) => i === index ? { ...k, value } : k);
+    return [...keyframes, { id: `key_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`, time, value }];
+  });
+};
+
+export const updateKeyframe = (timeline: Timeline, contentId: string, property: TimelineProperty, keyframeId: string, changes: Partial<Omit<Keyframe, 'id'>>): Timeline => {
+  return updateTracks(timeline, contentId, property, keyframes => keyframes.map(k => k.id === keyframeId ? { ...k, ...changes } : k));
+};
+
+export const removeKeyframe = (timeline: Timeline, contentId: string, property: TimelineProperty, keyframeId: string): Timeline => {
+  return updateTracks(timeline, contentId, property, keyframes => keyframes.filter(k => k.id !== keyframeId));
+};
+
+export const removeContentTracks = (timeline: Timeline, contentId: string): Timeline => {
+  return { ...timeline, tracks: timeline.tracks.filter(t => t.contentId !== contentId) };
+};
+
+/**
+ * Auto-key: record edits to keyframed properties as keyframes at `time`,
+ * so moving a content while scrubbed to a point in the timeline animates it.
+ * Values matching what the timeline already shows are skipped, since the scene view writes
+ * back the whole transform even when only one of its properties was dragged.
+ */
+export const keyContentChanges = (timeline: Timeline, next: Content, time: number): Timeline => {
+  return TIMELINE_PROPERTIES.reduce((result, { id: property }) => {
+    const track = getTimelineTrack(result, next.id, property);
+    if (!track) return result;
+    const shown = sampleTrack(track, time) || [];
+    const value = getContentPropertyValue(next, property);
+    if (value.every((v, i) => Math.abs(v - (shown[i] ?? NaN)) < KEYFRAME_VALUE_EPSILON)) return result;
+    return upsertKeyframe(result, next.id, property, time, value);
+  }, timeline);
+};
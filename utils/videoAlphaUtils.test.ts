@@ -0,0 +1,40 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { VideoAlphaMode } from '../types';
+import { PACKED_ALPHA_LAYOUTS, createPackedAlphaMaterial, getPackedAlphaLayout, getVideoAlphaMode, getVideoPictureAspect } from './videoAlphaUtils';
+
+describe('getVideoAlphaMode', () => {
+  it('returns the mode of alpha videos only', () => {
+    expect(getVideoAlphaMode({ videoAlpha: 'stacked' })).toBe('stacked');
+    expect(getVideoAlphaMode({})).toBeNull();
+    expect(getVideoAlphaMode({ videoAlpha: 'checkerboard' as VideoAlphaMode })).toBeNull();
+  });
+});
+
+describe('getPackedAlphaLayout', () => {
+  it('has no layout for native alpha', () => {
+    expect(getPackedAlphaLayout('native')).toBeNull();
+    expect(getPackedAlphaLayout(null)).toBeNull();
+    expect(getPackedAlphaLayout('side-by-side')).toBe(PACKED_ALPHA_LAYOUTS['side-by-side']);
+  });
+});
+
+describe('getVideoPictureAspect', () => {
+  it('is the aspect of the half holding the picture', () => {
+    expect(getVideoPictureAspect(null, 1920, 1080)).toBeCloseTo(16 / 9);
+    expect(getVideoPictureAspect('native', 1920, 1080)).toBeCloseTo(16 / 9);
+    expect(getVideoPictureAspect('side-by-side', 3840, 1080)).toBeCloseTo(16 / 9);
+    expect(getVideoPictureAspect('stacked', 1920, 2160)).toBeCloseTo(16 / 9);
+  });
+});
+
+describe('createPackedAlphaMaterial', () => {
+  it('samples the picture and the matte from their halves', () => {
+    const texture = new THREE.Texture();
+    const material = createPackedAlphaMaterial(texture, PACKED_ALPHA_LAYOUTS.stacked);
+    expect(material.uniforms.tex.value).toBe(texture);
+    expect(material.uniforms.colorOffset.value.toArray()).toEqual([0, 0.5]);
+    expect(material.uniforms.alphaOffset.value.toArray()).toEqual([0, 0]);
+    expect(material.transparent).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Transparent video from an alpha matte instead of a key color. The matte is either packed in the
+ * same frame as the picture, beside it or under it, and composited by a shader, or it is the
+ * video's own alpha channel (WebM with VP9 alpha). The exported viewer builds its material from
+ * the same shader sources (see utils/exportUtils.ts).
+ */
+
+import * as THREE from 'three';
+import { Content, VideoAlphaMode } from '../types';
+
+export const VIDEO_ALPHA_MODES: { id: VideoAlphaMode; label: string }[] = [
+  { id: 'side-by-side', label: 'Packed side-by-side (color left, alpha right)' },
+  { id: 'stacked', label: 'Packed stacked (color top, alpha bottom)' },
+  { id: 'native', label: 'Native alpha (WebM VP9)' },
+];
+
+// Where the picture and the matte are in the frame, in UV units
+export interface PackedAlphaLayout {
+  scale: [number, number]; // Size of each half
+  colorOffset: [number, number];
+  alphaOffset: [number, number];
+}
+
+// UVs start at the bottom left, so a picture on top is the upper half
+export const PACKED_ALPHA_LAYOUTS: Record<Exclude<VideoAlphaMode, 'native'>, PackedAlphaLayout> = {
+  'side-by-side': { scale: [0.5, 1], colorOffset: [0, 0], alphaOffset: [0.5, 0] },
+  'stacked': { scale: [1, 0.5], colorOffset: [0, 0.5], alphaOffset: [0, 0] },
+};
+
+// The matte is grayscale; its red channel is the alpha
+export const PACKED_ALPHA_SHADER = {
+  vertexShader: `
+    varying mediump vec2 vUv;
+    void main(void) {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: `
+    uniform mediump sampler2D tex;
+    uniform mediump vec2 scale;
+    uniform mediump vec2 colorOffset;
+    uniform mediump vec2 alphaOffset;
+    varying mediump vec2 vUv;
+    void main(void) {
+      mediump vec2 uv = vUv * scale;
+      mediump float alpha = texture2D(tex, uv + alphaOffset).r;
+      if (alpha < 0.01) discard;
+      gl_FragColor = vec4(texture2D(tex, uv + colorOffset).rgb, alpha);
+    }
+  `,
+};
+
+/**
+ * Alpha mode of a video content, or null when it is opaque or keyed by color.
+ */
+export const getVideoAlphaMode = (content: Pick<Content, 'videoAlpha'>): VideoAlphaMode | null =>
+  VIDEO_ALPHA_MODES.some(m => m.id === content.videoAlpha) ? content.videoAlpha! : null;
+
+export const getPackedAlphaLayout = (mode: VideoAlphaMode | null): PackedAlphaLayout | null =>
+  mode && mode !== 'native' ? PACKED_ALPHA_LAYOUTS[mode] : null;
+
+/**
+ * Aspect of the picture shown, which is half the frame when the matte is packed with it.
+ */
+export const getVideoPictureAspect = (mode: VideoAlphaMode | null, width: number, height: number): number => {
+  const layout = getPackedAlphaLayout(mode);
+  return layout ? (width * layout.scale[0]) / (height * layout.scale[1]) : width / height;
+};
+
+export const createPackedAlphaMaterial = (texture: THREE.Texture, layout: PackedAlphaLayout): THREE.ShaderMaterial =>
+  new THREE.ShaderMaterial({
+    uniforms: {
+      tex: { value: texture },
+      scale: { value: new THREE.Vector2(...layout.scale) },
+      colorOffset: { value: new THREE.Vector2(...layout.colorOffset) },
+      alphaOffset: { value: new THREE.Vector2(...layout.alphaOffset) }
+    },
+    ...PACKED_ALPHA_SHADER,
+    transparent: true,
+    side: THREE.DoubleSide
+  });